@@ -0,0 +1,95 @@
+/**
+ * Gestión de administradores del sistema mediante el custom claim `admin`.
+ *
+ * La aplicación y las reglas de database.rules.json solo reconocen como
+ * administrador a quien tenga `admin: true` en su token; ya no hay cuentas
+ * ni contraseñas fijas en el código.
+ *
+ * Uso:
+ *   GOOGLE_APPLICATION_CREDENTIALS=cuenta-de-servicio.json npm run admin -- grant <email>
+ *   GOOGLE_APPLICATION_CREDENTIALS=cuenta-de-servicio.json npm run admin -- revoke <email>
+ *   GOOGLE_APPLICATION_CREDENTIALS=cuenta-de-servicio.json npm run admin -- list
+ *
+ * Con FIREBASE_AUTH_EMULATOR_HOST definido trabaja contra el emulador de Auth
+ * (proyecto GCLOUD_PROJECT o demo-makeagend).
+ *
+ * El cambio se aplica cuando el usuario renueva su token (al volver a iniciar sesión
+ * o en menos de una hora). `revoke` además invalida sus sesiones abiertas.
+ */
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+import { getAuth, type UserRecord } from 'firebase-admin/auth';
+
+if (process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+  initializeApp({ projectId: process.env.GCLOUD_PROJECT || 'demo-makeagend' });
+} else {
+  initializeApp({ credential: applicationDefault() });
+}
+const auth = getAuth();
+
+const USAGE = 'Uso: npm run admin -- <grant|revoke> <email> | list';
+
+// Conserva los demás claims del usuario
+const setAdminClaim = async (user: UserRecord, isAdmin: boolean): Promise<void> => {
+  const claims = { ...(user.customClaims || {}) };
+  if (isAdmin) {
+    claims.admin = true;
+  } else {
+    delete claims.admin;
+  }
+  await auth.setCustomUserClaims(user.uid, claims);
+};
+
+const grant = async (email: string): Promise<void> => {
+  const user = await auth.getUserByEmail(email);
+  await setAdminClaim(user, true);
+  console.log(`${email} ahora es administrador (${user.uid})`);
+};
+
+const revoke = async (email: string): Promise<void> => {
+  const user = await auth.getUserByEmail(email);
+  await setAdminClaim(user, false);
+  await auth.revokeRefreshTokens(user.uid);
+  console.log(`${email} ya no es administrador; sus sesiones fueron cerradas`);
+};
+
+const list = async (): Promise<void> => {
+  let pageToken: string | undefined;
+  let count = 0;
+
+  do {
+    const page = await auth.listUsers(1000, pageToken);
+    page.users
+      .filter(user => user.customClaims?.admin === true)
+      .forEach(user => {
+        count++;
+        console.log(`${user.email || '(sin email)'}\t${user.uid}`);
+      });
+    pageToken = page.pageToken;
+  } while (pageToken);
+
+  console.log(`${count} administradores`);
+};
+
+const run = async (): Promise<void> => {
+  const [command, email] = process.argv.slice(2);
+
+  switch (command) {
+    case 'grant':
+    case 'revoke':
+      if (!email) throw new Error(USAGE);
+      await (command === 'grant' ? grant(email) : revoke(email));
+      break;
+    case 'list':
+      await list();
+      break;
+    default:
+      throw new Error(USAGE);
+  }
+};
+
+run()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error((error as Error).message);
+    process.exit(1);
+  });
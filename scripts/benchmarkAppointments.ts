@@ -0,0 +1,175 @@
+/**
+ * Compara lo que descarga la agenda al escuchar colecciones completas contra
+ * las consultas por rango de fechas y por cliente, con datos sintéticos en un
+ * MemoryDataStore (no hace falta Firebase).
+ *
+ * Para cada escenario muestra los elementos recibidos, el tamaño del JSON
+ * (lo que viajaría por la red) y el tiempo hasta la primera entrega; en memoria
+ * el tiempo no incluye la red, así que la diferencia real está en la descarga. Al final
+ * mide cuántos listeners abre el almacenamiento cuando varios componentes
+ * piden la misma semana a través del SharedDataStore.
+ *
+ * Uso:
+ *   npm run benchmark-appointments
+ *   YEARS=5 PER_DAY=60 CLIENTS=3000 npm run benchmark-appointments
+ */
+import { addDays, endOfMonth, endOfWeek, format, startOfMonth, startOfWeek, subYears } from 'date-fns';
+import { MemoryDataStore } from '../src/storage/memoryDataStore';
+import { SharedDataStore } from '../src/storage/sharedDataStore';
+import type { DataStore, Unsubscribe } from '../src/storage/dataStore';
+
+const YEARS = Number(process.env.YEARS) || 3;
+const PER_DAY = Number(process.env.PER_DAY) || 40;
+const CLIENTS = Number(process.env.CLIENTS) || 2000;
+const COMPONENTS = 6; // calendario, modal, panel, notificaciones, reportes, lista de espera
+
+const BUSINESS_ID = 'biz-benchmark';
+const APPOINTMENTS = `businesses/${BUSINESS_ID}/appointments`;
+const RECORDS = `businesses/${BUSINESS_ID}/digitalRecords`;
+const STATUSES = ['pending', 'confirmed', 'completed', 'cancelled', 'no-show'];
+
+interface Measurement {
+  scenario: string;
+  items: number;
+  bytes: number;
+  ms: number;
+}
+
+// Cuenta los listeners por rango que se abren en el almacenamiento
+class CountingMemoryStore extends MemoryDataStore {
+  rangeListeners = 0;
+
+  subscribeByRange<T = unknown>(
+    path: string,
+    child: string,
+    start: string | number,
+    end: string | number,
+    callback: (items: Record<string, T>) => void
+  ): Unsubscribe {
+    this.rangeListeners++;
+    return super.subscribeByRange<T>(path, child, start, end, callback);
+  }
+}
+
+const toDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const seed = async (store: DataStore): Promise<number> => {
+  const updates: Record<string, unknown> = {};
+  // Historial de varios años más dos meses de agenda por delante
+  const end = addDays(new Date(), 60);
+  let date = subYears(new Date(), YEARS);
+  let count = 0;
+
+  while (date <= end) {
+    const day = toDate(date);
+    for (let i = 0; i < PER_DAY; i++) {
+      const hour = 9 + (i % 10);
+      const clientId = `client-${(count * 7919) % CLIENTS}`;
+      updates[`${APPOINTMENTS}/apt-${count}`] = {
+        clientId,
+        serviceId: `service-${i % 8}`,
+        date: day,
+        startTime: `${String(hour).padStart(2, '0')}:00`,
+        endTime: `${String(hour).padStart(2, '0')}:45`,
+        status: STATUSES[count % STATUSES.length],
+        notes: 'Cita generada para la prueba de rendimiento',
+        createdBy: 'benchmark',
+        businessId: BUSINESS_ID,
+        createdAt: `${day}T08:00:00.000Z`,
+        updatedAt: `${day}T08:00:00.000Z`
+      };
+      // Uno de cada cuatro servicios deja expediente
+      if (count % 4 === 0) {
+        updates[`${RECORDS}/rec-${count}`] = {
+          clientId,
+          businessId: BUSINESS_ID,
+          serviceId: `service-${i % 8}`,
+          treatment: 'Tratamiento de prueba',
+          date: day,
+          notes: 'Notas clínicas de ejemplo con algo de texto para aproximar un expediente real.',
+          createdBy: 'benchmark',
+          createdAt: `${day}T10:00:00.000Z`,
+          updatedAt: `${day}T10:00:00.000Z`
+        };
+      }
+      count++;
+    }
+    date = addDays(date, 1);
+  }
+
+  await store.update('', updates);
+  return count;
+};
+
+// Espera la primera entrega de la suscripción y la cierra
+const measure = (scenario: string, open: (deliver: (value: unknown) => void) => Unsubscribe): Promise<Measurement> => {
+  return new Promise(resolve => {
+    const started = performance.now();
+    let unsubscribe: Unsubscribe | null = null;
+    let done = false;
+    unsubscribe = open(value => {
+      if (done) return;
+      done = true;
+      const ms = performance.now() - started;
+      const items = value && typeof value === 'object' ? Object.keys(value).length : 0;
+      resolve({ scenario, items, bytes: JSON.stringify(value ?? null).length, ms });
+      queueMicrotask(() => unsubscribe?.());
+    });
+    if (done) unsubscribe();
+  });
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes > 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+};
+
+const run = async (): Promise<void> => {
+  const memory = new CountingMemoryStore();
+  const total = await seed(memory);
+  console.log(`Datos sintéticos: ${total} citas en ${YEARS} años, ${CLIENTS} clientes\n`);
+
+  const now = new Date();
+  const week = { from: toDate(startOfWeek(now)), to: toDate(endOfWeek(now)) };
+  const month = { from: toDate(startOfMonth(now)), to: toDate(endOfMonth(now)) };
+  const clientId = 'client-40';
+
+  const results: Measurement[] = [];
+  results.push(await measure('Citas: colección completa', deliver => memory.subscribe(APPOINTMENTS, deliver)));
+  results.push(await measure('Citas: semana visible', deliver => memory.subscribeByRange(APPOINTMENTS, 'date', week.from, week.to, deliver)));
+  results.push(await measure('Citas: mes del reporte', deliver => memory.subscribeByRange(APPOINTMENTS, 'date', month.from, month.to, deliver)));
+  results.push(await measure('Citas: historial de un cliente', deliver => memory.subscribeByChild(APPOINTMENTS, 'clientId', clientId, deliver)));
+  results.push(await measure('Expedientes: colección completa', deliver => memory.subscribe(RECORDS, deliver)));
+  results.push(await measure('Expedientes: un cliente', deliver => memory.subscribeByChild(RECORDS, 'clientId', clientId, deliver)));
+
+  const baseline = new Map([
+    ['Citas', results[0].bytes],
+    ['Expedientes', results[4].bytes]
+  ]);
+  console.table(results.map(result => {
+    const full = baseline.get(result.scenario.split(':')[0]) || result.bytes;
+    return {
+      Escenario: result.scenario,
+      Elementos: result.items,
+      Descarga: formatBytes(result.bytes),
+      '% del total': `${((result.bytes / full) * 100).toFixed(1)}%`,
+      'Tiempo (ms)': result.ms.toFixed(1)
+    };
+  }));
+
+  // Varios componentes piden la misma semana: el SharedDataStore abre un solo listener
+  memory.rangeListeners = 0;
+  const shared = new SharedDataStore(memory, 0);
+  const unsubscribes: Unsubscribe[] = [];
+  for (let i = 0; i < COMPONENTS; i++) {
+    unsubscribes.push(shared.subscribeByRange(APPOINTMENTS, 'date', week.from, week.to, () => {}));
+  }
+  console.log(`\n${COMPONENTS} componentes con la misma semana: ${memory.rangeListeners} listener(s) abiertos en el almacenamiento (sin compartir: ${COMPONENTS})`);
+  unsubscribes.forEach(unsubscribe => unsubscribe());
+  console.log(`Listeners abiertos tras desmontar: ${shared.openListeners}`);
+};
+
+run().catch(error => {
+  console.error('Error en la prueba de rendimiento:', error);
+  process.exit(1);
+});
@@ -0,0 +1,136 @@
+/**
+ * Servidor de calendarios suscribibles (iCalendar).
+ *
+ * Sirve GET /calendar/<token>.ics leyendo el enlace en calendarFeeds/<token>
+ * y generando el calendario con las citas actuales del negocio. Solo se leen las
+ * citas, series, servicios, profesionales y clientes del calendario, y el enlace deja
+ * de servirse si quien lo creó perdió el acceso o el negocio no tiene licencia vigente.
+ *
+ * Uso:
+ *   GOOGLE_APPLICATION_CREDENTIALS=cuenta-de-servicio.json npm run calendar-feed
+ *
+ * Variables opcionales: PORT (8787), FIREBASE_DATABASE_URL, FEED_PAST_DAYS (90).
+ */
+import { createServer } from 'node:http';
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+import { getDatabase } from 'firebase-admin/database';
+import { format, subDays } from 'date-fns';
+import type { Appointment, AppointmentSeries, BusinessLicense, CalendarFeed, Client, Provider, Service } from '../src/types';
+import { CALENDAR_FEED_PATH, filterAppointmentsForFeed, generateICalendar } from '../src/utils/icalendar';
+import { expandSeries } from '../src/utils/recurrence';
+
+const PORT = Number(process.env.PORT || 8787);
+const DATABASE_URL = process.env.FIREBASE_DATABASE_URL || 'https://makeagend-ec655-default-rtdb.firebaseio.com/';
+const FEED_PAST_DAYS = Number(process.env.FEED_PAST_DAYS || 90);
+
+initializeApp({ credential: applicationDefault(), databaseURL: DATABASE_URL });
+const database = getDatabase();
+
+const toList = <T>(data: Record<string, Omit<T, 'id'>> | null | undefined): T[] => {
+  return Object.entries(data || {}).map(([id, value]) => ({ id, ...value }) as T);
+};
+
+const readValue = async <T>(path: string): Promise<T | null> => {
+  const snapshot = await database.ref(path).get();
+  return snapshot.exists() ? snapshot.val() : null;
+};
+
+// Quien creó el enlace sigue en el negocio y el negocio está activo con licencia vigente
+const canServeFeed = async (feed: CalendarFeed): Promise<boolean> => {
+  const basePath = `businesses/${feed.businessId}`;
+  const [ownerId, isActive, license, access] = await Promise.all([
+    readValue<string>(`${basePath}/ownerId`),
+    readValue<boolean>(`${basePath}/isActive`),
+    readValue<BusinessLicense>(`${basePath}/license`),
+    readValue<unknown>(`users/${feed.createdBy}/businessAccess/${feed.businessId}`)
+  ]);
+
+  if (!ownerId || isActive === false) return false;
+  if (!license?.isActive || (license.expiresAt !== undefined && license.expiresAt <= Date.now())) return false;
+  return ownerId === feed.createdBy || access !== null;
+};
+
+// Citas individuales desde fromDate; el calendario de un cliente solo descarga las suyas
+const readAppointments = async (feed: CalendarFeed, fromDate: string): Promise<Appointment[]> => {
+  const appointmentsRef = database.ref(`businesses/${feed.businessId}/appointments`);
+  const query = feed.scope === 'client' && feed.clientId
+    ? appointmentsRef.orderByChild('clientId').equalTo(feed.clientId)
+    : appointmentsRef.orderByChild('date').startAt(fromDate);
+  const snapshot = await query.get();
+  return toList<Appointment>(snapshot.val()).filter(apt => apt.date >= fromDate);
+};
+
+// Solo los clientes que aparecen en el calendario
+const readClients = async (businessId: string, appointments: Appointment[]): Promise<Client[]> => {
+  const clientIds = [...new Set(appointments.map(apt => apt.clientId))];
+  const clients = await Promise.all(
+    clientIds.map(async id => {
+      const client = await readValue<Omit<Client, 'id'>>(`businesses/${businessId}/clients/${id}`);
+      return client ? { id, ...client } as Client : null;
+    })
+  );
+  return clients.filter((client): client is Client => client !== null);
+};
+
+const buildFeed = async (token: string): Promise<string | null> => {
+  const feedData = await readValue<Omit<CalendarFeed, 'id'>>(`calendarFeeds/${token}`);
+  if (!feedData) return null;
+  const feed: CalendarFeed = { id: token, ...feedData };
+  if (!(await canServeFeed(feed))) return null;
+
+  const basePath = `businesses/${feed.businessId}`;
+  const fromDate = format(subDays(new Date(), FEED_PAST_DAYS), 'yyyy-MM-dd');
+  const [single, series, services, providers] = await Promise.all([
+    readAppointments(feed, fromDate),
+    readValue<Record<string, Omit<AppointmentSeries, 'id'>>>(`${basePath}/appointmentSeries`),
+    readValue<Record<string, Omit<Service, 'id'>>>(`${basePath}/services`),
+    readValue<Record<string, Omit<Provider, 'id'>>>(`${basePath}/providers`)
+  ]);
+
+  const appointments = filterAppointmentsForFeed([
+    ...single,
+    ...toList<AppointmentSeries>(series).flatMap(expandSeries).filter(apt => apt.date >= fromDate)
+  ], feed);
+
+  return generateICalendar({
+    calendarName: feed.label,
+    appointments,
+    clients: await readClients(feed.businessId, appointments),
+    services: toList<Service>(services),
+    providers: toList<Provider>(providers)
+  });
+};
+
+const server = createServer(async (request, response) => {
+  const { pathname } = new URL(request.url || '/', `http://${request.headers.host || 'localhost'}`);
+  const match = request.method === 'GET' ? CALENDAR_FEED_PATH.exec(pathname) : null;
+
+  if (!match) {
+    response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+    response.end('No encontrado');
+    return;
+  }
+
+  try {
+    const calendar = await buildFeed(match[1]);
+    if (!calendar) {
+      response.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' });
+      response.end('Calendario no encontrado o revocado');
+      return;
+    }
+
+    response.writeHead(200, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Cache-Control': 'private, max-age=300'
+    });
+    response.end(calendar);
+  } catch (error) {
+    console.error('Error building calendar feed:', error);
+    response.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' });
+    response.end('Error al generar el calendario');
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Calendarios disponibles en http://localhost:${PORT}/calendar/<token>.ics`);
+});
@@ -0,0 +1,134 @@
+/**
+ * Prepara los datos existentes para las reglas de database.rules.json:
+ * - businesses/<id>/members/<uid> para cada usuario con businessAccess del negocio
+ *   (el propietario lista a su equipo desde ese índice)
+ * - businesses/<id>/license/expiresAt a partir de license.endDate
+ *   (las reglas comparan la vigencia en milisegundos)
+ * - businessKeys/<clave> para cada negocio con businessKey
+ *   (los asistentes ya no pueden consultar businesses por clave)
+ * - bookingSlots/<id> y bookingClients/<id>: horarios ocupados desde hoy e índice de
+ *   teléfonos (la página pública ya no lee citas ni clientes)
+ * - businesses/<id>/charges/<cita>/invoiceId para cada cuenta que aparece en una factura
+ *   (las reglas bloquean la cuenta y sus pagos una vez timbrada)
+ *
+ * Es idempotente: solo escribe lo que falta.
+ *
+ * Uso:
+ *   GOOGLE_APPLICATION_CREDENTIALS=cuenta-de-servicio.json npm run migrate-rules-data
+ *
+ * Variables opcionales: FIREBASE_DATABASE_URL, DRY_RUN=1 (solo muestra los cambios).
+ */
+import { initializeApp, applicationDefault } from 'firebase-admin/app';
+import { getDatabase } from 'firebase-admin/database';
+import type { Business, User } from '../src/types';
+import { buildBookingProjectionUpdates, toProjectionChanges } from '../src/utils/bookingProjection';
+
+const DATABASE_URL = process.env.FIREBASE_DATABASE_URL || 'https://makeagend-ec655-default-rtdb.firebaseio.com/';
+const DRY_RUN = process.env.DRY_RUN === '1';
+
+initializeApp({ credential: applicationDefault(), databaseURL: DATABASE_URL });
+const database = getDatabase();
+
+type BusinessNode = Omit<Business, 'id'> & {
+  members?: Record<string, unknown>;
+  appointments?: Record<string, object>;
+  appointmentSeries?: Record<string, object>;
+  clients?: Record<string, object>;
+  charges?: Record<string, { invoiceId?: string }>;
+  invoices?: Record<string, { appointmentIds?: string[] }>;
+};
+
+const getAt = (node: unknown, path: string): unknown => {
+  return path.split('/').reduce<unknown>((value, key) => (value as Record<string, unknown> | null)?.[key] ?? null, node);
+};
+
+const migrate = async (): Promise<void> => {
+  const [businessesSnapshot, usersSnapshot] = await Promise.all([
+    database.ref('businesses').get(),
+    database.ref('users').get()
+  ]);
+  const businesses: Record<string, BusinessNode> = businessesSnapshot.val() || {};
+  const users: Record<string, User> = usersSnapshot.val() || {};
+  const updates: Record<string, unknown> = {};
+
+  Object.entries(users).forEach(([uid, user]) => {
+    Object.entries(user.businessAccess || {}).forEach(([businessId, access]) => {
+      const business = businesses[businessId];
+      // El propietario no forma parte del equipo
+      if (!business || business.ownerId === uid || business.members?.[uid]) return;
+
+      updates[`businesses/${businessId}/members/${uid}`] = {
+        displayName: user.displayName || '',
+        email: user.email || '',
+        joinedAt: access.addedAt || user.createdAt || new Date().toISOString()
+      };
+    });
+  });
+
+  Object.entries(businesses).forEach(([businessId, business]) => {
+    const license = business.license;
+    if (!license || license.expiresAt !== undefined) return;
+
+    const expiresAt = new Date(license.endDate).getTime();
+    if (!Number.isNaN(expiresAt)) {
+      updates[`businesses/${businessId}/license/expiresAt`] = expiresAt;
+    }
+  });
+
+  Object.entries(businesses).forEach(([businessId, business]) => {
+    Object.entries(business.invoices || {}).forEach(([invoiceId, invoice]) => {
+      (invoice.appointmentIds || []).forEach(appointmentId => {
+        const charge = business.charges?.[appointmentId];
+        if (!charge || charge.invoiceId) return;
+
+        updates[`businesses/${businessId}/charges/${appointmentId}/invoiceId`] = invoiceId;
+      });
+    });
+  });
+
+  const businessKeysSnapshot = await database.ref('businessKeys').get();
+  const businessKeys: Record<string, unknown> = businessKeysSnapshot.val() || {};
+
+  Object.entries(businesses).forEach(([businessId, business]) => {
+    if (!business.businessKey || businessKeys[business.businessKey]) return;
+
+    updates[`businessKeys/${business.businessKey}`] = {
+      businessId,
+      businessName: business.name
+    };
+  });
+
+  const [slotsSnapshot, phoneIndexSnapshot] = await Promise.all([
+    database.ref('bookingSlots').get(),
+    database.ref('bookingClients').get()
+  ]);
+  const projection = { bookingSlots: slotsSnapshot.val() || {}, bookingClients: phoneIndexSnapshot.val() || {} };
+
+  for (const [businessId, business] of Object.entries(businesses)) {
+    const changes = toProjectionChanges(businessId, {
+      appointments: business.appointments,
+      appointmentSeries: business.appointmentSeries,
+      clients: business.clients
+    });
+    const projectionUpdates = await buildBookingProjectionUpdates(businessId, changes);
+    Object.entries(projectionUpdates).forEach(([path, value]) => {
+      if (value === null || JSON.stringify(getAt(projection, path)) === JSON.stringify(value)) return;
+      updates[path] = value;
+    });
+  }
+
+  const paths = Object.keys(updates);
+  paths.forEach(path => console.log(`${DRY_RUN ? '[sin escribir] ' : ''}${path}`));
+
+  if (!DRY_RUN && paths.length > 0) {
+    await database.ref().update(updates);
+  }
+  console.log(`${paths.length} cambios ${DRY_RUN ? 'pendientes' : 'aplicados'}`);
+};
+
+migrate()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('Error en la migración:', error);
+    process.exit(1);
+  });
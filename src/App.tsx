@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { useBusinessData } from './hooks/useBusinessData';
 import { Login } from './components/auth/Login';
@@ -9,12 +10,19 @@ import { Dashboard } from './components/dashboard/Dashboard';
 import { AppointmentCalendar } from './components/appointments/AppointmentCalendar';
 import { ClientManagement } from './components/clients/ClientManagement';
 import { ServiceManagement } from './components/services/ServiceManagement';
+import { StaffManagement } from './components/staff/StaffManagement';
+import { TeamManagement } from './components/team/TeamManagement';
+import { AuditLog } from './components/audit/AuditLog';
+import { Waitlist } from './components/waitlist/Waitlist';
+import { CashRegister } from './components/cash/CashRegister';
 import { DigitalRecords } from './components/records/DigitalRecords';
 import { Reports } from './components/reports/Reports';
 import { Notifications } from './components/notifications/Notifications';
 import { Settings } from './components/settings/Settings';
 import { AdminDashboard } from './components/admin/AdminDashboard';
 import { BlockedScreen } from './components/common/BlockedScreen';
+import { PublicBooking } from './components/booking/PublicBooking';
+import { getInvitationCodeFromUrl } from './utils/invitationService';
 import { Menu } from 'lucide-react';
 
 const AuthenticatedApp: React.FC = () => {
@@ -77,10 +85,20 @@ const AuthenticatedApp: React.FC = () => {
         return <Dashboard />;
       case 'appointments':
         return <AppointmentCalendar />;
+      case 'waitlist':
+        return <Waitlist />;
+      case 'cash':
+        return <CashRegister />;
       case 'clients':
         return <ClientManagement />;
       case 'services':
         return <ServiceManagement />;
+      case 'staff':
+        return <StaffManagement />;
+      case 'team':
+        return <TeamManagement />;
+      case 'audit':
+        return <AuditLog />;
       case 'records':
         return <DigitalRecords />;
       case 'reports':
@@ -131,7 +149,8 @@ const AuthenticatedApp: React.FC = () => {
 
 const AuthWrapper: React.FC = () => {
   const { currentUser, loading } = useAuth();
-  const [authMode, setAuthMode] = useState<'login' | 'register'>('login');
+  // Un enlace de invitación abre directamente el registro
+  const [authMode, setAuthMode] = useState<'login' | 'register'>(() => getInvitationCodeFromUrl() ? 'register' : 'login');
 
   if (loading) {
     return (
@@ -157,9 +176,20 @@ const AuthWrapper: React.FC = () => {
 
 function App() {
   return (
-    <AuthProvider>
-      <AuthWrapper />
-    </AuthProvider>
+    <BrowserRouter>
+      <Routes>
+        {/* Página pública de reservas, no requiere sesión */}
+        <Route path="/reservar/:slug" element={<PublicBooking />} />
+        <Route
+          path="*"
+          element={
+            <AuthProvider>
+              <AuthWrapper />
+            </AuthProvider>
+          }
+        />
+      </Routes>
+    </BrowserRouter>
   );
 }
 
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { licenseService } from '../../utils/licenseService';
 import { notificationService } from '../../utils/notificationService';
-import type { Business, BusinessLicense } from '../../types';
+import type { Business, BusinessLicense, Notification } from '../../types';
 import MakeAgendLogo from '../../assets/images/MakeAgend.png';
 import { 
   Building2, 
@@ -12,7 +12,8 @@ import {
   Shield,
   LogOut,
   Search,
-  X
+  X,
+  Bell
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
@@ -34,11 +35,19 @@ export const AdminDashboard: React.FC = () => {
   const [newLicenseType, setNewLicenseType] = useState<BusinessLicense['type']>('1month');
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'expiring' | 'expired'>('all');
+  const [adminNotifications, setAdminNotifications] = useState<Notification[]>([]);
 
   useEffect(() => {
     loadBusinesses();
   }, []);
 
+  // Solicitudes dirigidas a los administradores (p. ej. reactivación de licencia)
+  useEffect(() => {
+    return notificationService.subscribeToAdminNotifications(notifications => {
+      setAdminNotifications(notifications.filter(notification => !notification.isRead));
+    });
+  }, []);
+
   const loadBusinesses = async () => {
     try {
       setLoading(true);
@@ -281,6 +290,35 @@ export const AdminDashboard: React.FC = () => {
         </div>
       </div>
 
+      {/* Admin Requests */}
+      {adminNotifications.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-6">
+          <div className="flex items-center mb-4">
+            <Bell className="h-5 w-5 text-pink-600 mr-2" />
+            <h2 className="text-lg font-medium text-gray-900">Solicitudes pendientes</h2>
+          </div>
+          <ul className="divide-y divide-gray-200">
+            {adminNotifications.map(notification => (
+              <li key={notification.id} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                  <p className="text-sm text-gray-600">{notification.message}</p>
+                  <p className="text-xs text-gray-400">
+                    {format(new Date(notification.createdAt), 'dd/MM/yyyy HH:mm', { locale: es })}
+                  </p>
+                </div>
+                <button
+                  onClick={() => notificationService.markAsRead(notification.id).catch(console.error)}
+                  className="ml-4 px-3 py-1 text-sm text-pink-600 hover:bg-pink-50 rounded-md transition-colors"
+                >
+                  Marcar como atendida
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex flex-col md:flex-row gap-4">
@@ -4,11 +4,18 @@ import dayGridPlugin from '@fullcalendar/daygrid';
 import timeGridPlugin from '@fullcalendar/timegrid';
 import interactionPlugin from '@fullcalendar/interaction';
 import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAppointments } from '../../hooks/useAppointments';
 import { useAuth } from '../../contexts/AuthContext';
 import { usePermissions } from '../../hooks/usePermissions';
 import type { Appointment } from '../../types';
-import { Plus, Calendar as CalendarIcon } from 'lucide-react';
+import { Plus, Calendar as CalendarIcon, ChevronLeft, ChevronRight, Download, Upload } from 'lucide-react';
+import { addDays, format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
 import { AppointmentModal } from './AppointmentModal';
+import { CalendarExportModal } from './CalendarExportModal';
+import { CalendarImportModal } from './CalendarImportModal';
+import { checkSlotAvailability, toCalendarBusinessHours } from '../../utils/availabilityEngine';
+import { getDateWindow, getWindowAroundToday, type DateWindow } from '../../utils/dateWindow';
 
 export const AppointmentCalendar: React.FC = () => {
   const { currentUser, currentBusiness } = useAuth();
@@ -19,12 +26,27 @@ export const AppointmentCalendar: React.FC = () => {
     ? currentUser?.businessId 
     : currentBusiness;
   
-  const { appointments, clients, services, loading, updateAppointment } = useBusinessData(businessId || undefined);
+  const { business, clients, services, providers, loading, updateAppointment, updateSeriesOccurrence } = useBusinessData(businessId || undefined);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [calendarView, setCalendarView] = useState<'dayGridMonth' | 'timeGridWeek' | 'timeGridDay'>('timeGridWeek');
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [calendarView, setCalendarView] = useState<'dayGridMonth' | 'timeGridWeek' | 'timeGridDay' | 'providers'>('timeGridWeek');
+  const [providerFilter, setProviderFilter] = useState<string>('all');
+  const [columnsDate, setColumnsDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedProviderId, setSelectedProviderId] = useState<string | null>(null);
   const [selectedAppointment, setSelectedAppointment] = useState<Appointment | null>(null);
   const [calendarRef, setCalendarRef] = useState<any>(null);
+  // Fechas visibles en el calendario; solo se cargan las citas de ese rango
+  const [visibleWindow, setVisibleWindow] = useState<DateWindow>(() => getWindowAroundToday({ days: 7 }, { days: 7 }));
+  const { appointments } = useAppointments(
+    businessId || undefined,
+    calendarView === 'providers' ? { from: columnsDate, to: columnsDate } : visibleWindow
+  );
+
+  const activeProviders = useMemo(() => {
+    return providers.filter(provider => provider.isActive !== false);
+  }, [providers]);
 
   const calendarEvents = useMemo(() => {
     return appointments.map(appointment => {
@@ -62,7 +84,7 @@ export const AppointmentCalendar: React.FC = () => {
 
       return {
         id: appointment.id,
-        title: `${client?.name || 'Cliente'} - ${service?.name || 'Servicio'}`,
+        title: `${appointment.seriesId ? '↻ ' : ''}${client?.name || 'Cliente'} - ${service?.name || 'Servicio'}`,
         start: startDateTime,
         end: endDateTime,
         backgroundColor,
@@ -76,8 +98,86 @@ export const AppointmentCalendar: React.FC = () => {
     });
   }, [appointments, clients, services]);
 
+  // Filtro por profesional: 'all', 'unassigned' o el id del profesional
+  const filteredEvents = useMemo(() => {
+    if (providerFilter === 'all') return calendarEvents;
+    return calendarEvents.filter(event => {
+      const providerId = event.extendedProps.appointment.providerId;
+      return providerFilter === 'unassigned' ? !providerId : providerId === providerFilter;
+    });
+  }, [calendarEvents, providerFilter]);
+
+  // Columnas de la vista por profesional para el día seleccionado
+  const providerColumns = useMemo(() => {
+    const dayEvents = calendarEvents.filter(event => event.extendedProps.appointment.date === columnsDate);
+    const columns = activeProviders.map(provider => ({
+      id: provider.id,
+      name: provider.name,
+      color: provider.color,
+      businessHours: toCalendarBusinessHours(provider.workingHours),
+      events: dayEvents.filter(event => event.extendedProps.appointment.providerId === provider.id)
+    }));
+
+    const unassigned = dayEvents.filter(event => !event.extendedProps.appointment.providerId);
+    if (unassigned.length > 0) {
+      columns.push({
+        id: '',
+        name: 'Sin asignar',
+        color: '#9ca3af',
+        businessHours: [],
+        events: unassigned
+      });
+    }
+
+    return columns;
+  }, [calendarEvents, activeProviders, columnsDate]);
+
+  const businessHours = useMemo(() => {
+    return toCalendarBusinessHours(business?.operatingHours);
+  }, [business?.operatingHours]);
+
+  // Valida el nuevo horario de una cita movida o redimensionada en el calendario
+  const validateMovedAppointment = (appointment: Appointment, date: string, startTime: string, endTime: string) => {
+    const service = services.find(s => s.id === appointment.serviceId);
+    if (!service || appointment.status === 'cancelled' || appointment.status === 'no-show') {
+      return { isAvailable: true, resourceIndex: appointment.resourceIndex ?? 0, reason: undefined };
+    }
+
+    return checkSlotAvailability({
+      business,
+      service,
+      appointments,
+      date,
+      startTime,
+      endTime,
+      excludeAppointmentId: appointment.id,
+      provider: providers.find(p => p.id === appointment.providerId) || null
+    });
+  };
+
+  // Las ocurrencias de una serie se mueven individualmente como excepción
+  const saveMovedAppointment = async (appointment: Appointment, updates: Partial<Appointment>) => {
+    if (appointment.seriesId && appointment.occurrenceDate) {
+      await updateSeriesOccurrence(appointment.seriesId, appointment.occurrenceDate, updates, 'this');
+    } else {
+      await updateAppointment(appointment.id, {
+        ...appointment,
+        ...updates,
+        updatedAt: new Date().toISOString()
+      });
+    }
+  };
+
   const handleDateSelect = (selectInfo: any) => {
     setSelectedDate(selectInfo.startStr.split('T')[0]);
+    setSelectedProviderId(providerFilter !== 'all' && providerFilter !== 'unassigned' ? providerFilter : null);
+    setSelectedAppointment(null);
+    setIsModalOpen(true);
+  };
+
+  const handleColumnSelect = (providerId: string) => (selectInfo: { startStr: string }) => {
+    setSelectedDate(selectInfo.startStr.split('T')[0]);
+    setSelectedProviderId(providerId || null);
     setSelectedAppointment(null);
     setIsModalOpen(true);
   };
@@ -90,6 +190,7 @@ export const AppointmentCalendar: React.FC = () => {
 
   const handleNewAppointment = () => {
     setSelectedDate(null);
+    setSelectedProviderId(null);
     setSelectedAppointment(null);
     setIsModalOpen(true);
   };
@@ -100,13 +201,19 @@ export const AppointmentCalendar: React.FC = () => {
     const newStartTime = dropInfo.event.startStr.split('T')[1].substring(0, 5);
     const newEndTime = dropInfo.event.endStr.split('T')[1].substring(0, 5);
 
+    const availability = validateMovedAppointment(appointment, newDate, newStartTime, newEndTime);
+    if (!availability.isAvailable) {
+      alert(availability.reason || 'El horario seleccionado no está disponible.');
+      dropInfo.revert();
+      return;
+    }
+
     try {
-      await updateAppointment(appointment.id, {
-        ...appointment,
+      await saveMovedAppointment(appointment, {
         date: newDate,
         startTime: newStartTime,
         endTime: newEndTime,
-        updatedAt: new Date().toISOString()
+        resourceIndex: availability.resourceIndex ?? 0
       });
     } catch (error) {
       console.error('Error al actualizar la cita:', error);
@@ -118,11 +225,17 @@ export const AppointmentCalendar: React.FC = () => {
     const appointment = resizeInfo.event.extendedProps.appointment;
     const newEndTime = resizeInfo.event.endStr.split('T')[1].substring(0, 5);
 
+    const availability = validateMovedAppointment(appointment, appointment.date, appointment.startTime, newEndTime);
+    if (!availability.isAvailable) {
+      alert(availability.reason || 'El horario seleccionado no está disponible.');
+      resizeInfo.revert();
+      return;
+    }
+
     try {
-      await updateAppointment(appointment.id, {
-        ...appointment,
+      await saveMovedAppointment(appointment, {
         endTime: newEndTime,
-        updatedAt: new Date().toISOString()
+        resourceIndex: availability.resourceIndex ?? 0
       });
     } catch (error) {
       console.error('Error al redimensionar la cita:', error);
@@ -130,9 +243,9 @@ export const AppointmentCalendar: React.FC = () => {
     }
   };
 
-  const handleViewChange = (newView: 'dayGridMonth' | 'timeGridWeek' | 'timeGridDay') => {
+  const handleViewChange = (newView: 'dayGridMonth' | 'timeGridWeek' | 'timeGridDay' | 'providers') => {
     setCalendarView(newView);
-    if (calendarRef) {
+    if (newView !== 'providers' && calendarRef) {
       calendarRef.getApi().changeView(newView);
     }
   };
@@ -191,8 +304,57 @@ export const AppointmentCalendar: React.FC = () => {
             >
               Día
             </button>
+            {activeProviders.length > 0 && (
+              <button
+                onClick={() => handleViewChange('providers')}
+                className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${
+                  calendarView === 'providers'
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                Profesionales
+              </button>
+            )}
           </div>
 
+          {/* Provider Filter */}
+          {activeProviders.length > 0 && calendarView !== 'providers' && (
+            <select
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+              value={providerFilter}
+              onChange={(e) => setProviderFilter(e.target.value)}
+            >
+              <option value="all">Todos los profesionales</option>
+              {activeProviders.map((provider) => (
+                <option key={provider.id} value={provider.id}>{provider.name}</option>
+              ))}
+              <option value="unassigned">Sin asignar</option>
+            </select>
+          )}
+
+          {/* Import Button */}
+          {canCreateAppointment && (
+            <button
+              onClick={() => setIsImportOpen(true)}
+              className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              title="Importar desde calendario (.ics)"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Importar
+            </button>
+          )}
+
+          {/* Export Button */}
+          <button
+            onClick={() => setIsExportOpen(true)}
+            className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            title="Exportar a calendario (.ics)"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Exportar
+          </button>
+
           {/* New Appointment Button */}
           {canCreateAppointment && (
             <button
@@ -231,7 +393,7 @@ export const AppointmentCalendar: React.FC = () => {
       </div>
 
       {/* Calendar */}
-      <div className="bg-white rounded-lg shadow-lg p-4">
+      <div className={`bg-white rounded-lg shadow-lg p-4 ${calendarView === 'providers' ? 'hidden' : ''}`}>
         <FullCalendar
           ref={setCalendarRef}
           plugins={[dayGridPlugin, timeGridPlugin, interactionPlugin]}
@@ -246,7 +408,12 @@ export const AppointmentCalendar: React.FC = () => {
           selectMirror={true}
           dayMaxEvents={true}
           weekends={true}
-          events={calendarEvents}
+          events={filteredEvents}
+          datesSet={(info) => {
+            // FullCalendar entrega el fin del rango como exclusivo
+            const range = getDateWindow(info.start, addDays(info.end, -1));
+            setVisibleWindow(current => (current.from === range.from && current.to === range.to ? current : range));
+          }}
           select={handleDateSelect}
           eventClick={handleEventClick}
           eventDrop={handleEventDrop}
@@ -257,7 +424,7 @@ export const AppointmentCalendar: React.FC = () => {
           slotMaxTime="22:00:00"
           allDaySlot={false}
           slotDuration="00:30:00"
-          businessHours={{
+          businessHours={businessHours.length > 0 ? businessHours : {
             daysOfWeek: [1, 2, 3, 4, 5, 6], // Monday - Saturday
             startTime: '09:00',
             endTime: '18:00'
@@ -268,13 +435,94 @@ export const AppointmentCalendar: React.FC = () => {
         />
       </div>
 
+      {/* Provider Columns */}
+      {calendarView === 'providers' && (
+        <div className="bg-white rounded-lg shadow-lg p-4">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setColumnsDate(format(addDays(parseISO(columnsDate), -1), 'yyyy-MM-dd'))}
+                className="p-2 rounded-md text-gray-600 hover:bg-gray-100"
+              >
+                <ChevronLeft className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setColumnsDate(format(addDays(parseISO(columnsDate), 1), 'yyyy-MM-dd'))}
+                className="p-2 rounded-md text-gray-600 hover:bg-gray-100"
+              >
+                <ChevronRight className="h-5 w-5" />
+              </button>
+              <button
+                onClick={() => setColumnsDate(format(new Date(), 'yyyy-MM-dd'))}
+                className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Hoy
+              </button>
+            </div>
+            <h2 className="text-lg font-semibold text-gray-900 capitalize">
+              {format(parseISO(columnsDate), "EEEE d 'de' MMMM yyyy", { locale: es })}
+            </h2>
+            <div className="w-24"></div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <div
+              className="grid gap-2"
+              style={{ gridTemplateColumns: `repeat(${providerColumns.length}, minmax(220px, 1fr))` }}
+            >
+              {providerColumns.map((column) => (
+                <div key={column.id || 'unassigned'}>
+                  <div className="flex items-center justify-center py-2 mb-2 border-b-2" style={{ borderColor: column.color }}>
+                    <span className="font-medium text-gray-900">{column.name}</span>
+                  </div>
+                  <FullCalendar
+                    key={`${column.id}-${columnsDate}`}
+                    plugins={[timeGridPlugin, interactionPlugin]}
+                    initialView="timeGridDay"
+                    initialDate={columnsDate}
+                    headerToolbar={false}
+                    dayHeaders={false}
+                    editable={true}
+                    selectable={true}
+                    selectMirror={true}
+                    events={column.events}
+                    select={handleColumnSelect(column.id)}
+                    eventClick={handleEventClick}
+                    eventDrop={handleEventDrop}
+                    eventResize={handleEventResize}
+                    height="auto"
+                    locale="es"
+                    slotMinTime="07:00:00"
+                    slotMaxTime="22:00:00"
+                    allDaySlot={false}
+                    slotDuration="00:30:00"
+                    businessHours={column.businessHours}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Appointment Modal */}
       <AppointmentModal
         isOpen={isModalOpen}
         onClose={handleCloseModal}
         selectedDate={selectedDate}
+        selectedProviderId={selectedProviderId}
         appointment={selectedAppointment}
       />
+
+      <CalendarExportModal
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+      />
+
+      <CalendarImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+      />
     </div>
   );
 };
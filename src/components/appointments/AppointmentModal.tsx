@@ -1,8 +1,12 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAppointments } from '../../hooks/useAppointments';
 import { useAuth } from '../../contexts/AuthContext';
-import type { Appointment } from '../../types';
-import { X, Save, Trash2, Clock, User, Scissors, Calendar, AlertCircle } from 'lucide-react';
+import type { Appointment, RecurrenceRule, SeriesEditScope, SeriesException } from '../../types';
+import { canProviderPerformService, checkSlotAvailability, getAvailableSlots } from '../../utils/availabilityEngine';
+import { RECURRENCE_LABELS, getDayShift, getOccurrenceDates, previewSeriesEdit, shiftDate } from '../../utils/recurrence';
+import { CheckoutModal } from '../payments/CheckoutModal';
+import { X, Save, Trash2, Clock, User, Scissors, Calendar, AlertCircle, Repeat, UserCheck, DollarSign } from 'lucide-react';
 import { format, addMinutes } from 'date-fns';
 
 interface AppointmentModalProps {
@@ -10,13 +14,15 @@ interface AppointmentModalProps {
   onClose: () => void;
   appointment?: Appointment | null;
   selectedDate?: string | null;
+  selectedProviderId?: string | null;
 }
 
 export const AppointmentModal: React.FC<AppointmentModalProps> = ({
   isOpen,
   onClose,
   appointment,
-  selectedDate
+  selectedDate,
+  selectedProviderId
 }) => {
   const { currentUser, currentBusiness } = useAuth();
   
@@ -26,18 +32,24 @@ export const AppointmentModal: React.FC<AppointmentModalProps> = ({
     : currentBusiness;
   
   const { 
+    business,
     clients, 
     services, 
-    appointments,
+    providers,
+    appointmentSeries,
     addAppointment, 
     updateAppointment, 
     deleteAppointment,
+    addAppointmentSeries,
+    updateSeriesOccurrence,
+    deleteSeriesOccurrence,
     addClient 
   } = useBusinessData(businessId || undefined);
 
   const [formData, setFormData] = useState({
     clientId: '',
     serviceId: '',
+    providerId: '',
     date: selectedDate || '',
     startTime: '09:00',
     endTime: '10:00',
@@ -51,29 +63,81 @@ export const AppointmentModal: React.FC<AppointmentModalProps> = ({
     email: ''
   });
 
+  const [recurrence, setRecurrence] = useState({
+    frequency: '' as RecurrenceRule['frequency'] | '',
+    endType: 'count' as 'count' | 'until',
+    count: 8,
+    until: ''
+  });
+  const [editScope, setEditScope] = useState<SeriesEditScope>('this');
+
   const [isNewClient, setIsNewClient] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  // Cita a cobrar; closeAfter cierra también este modal al terminar el cobro
+  const [checkout, setCheckout] = useState<{ appointment: Appointment; closeAfter: boolean } | null>(null);
+
+  const isSeriesOccurrence = !!appointment?.seriesId;
+
+  // Ocurrencias de la serie que se mueven al editar esta y las siguientes o todas
+  const seriesEdit = useMemo(() => {
+    if (!appointment?.seriesId || !appointment.occurrenceDate || editScope === 'this' || !formData.date) return null;
+    const series = appointmentSeries.find(s => s.id === appointment.seriesId);
+    if (!series) return null;
+
+    const occurrences = previewSeriesEdit(series, appointment.occurrenceDate, {
+      clientId: formData.clientId,
+      serviceId: formData.serviceId,
+      startTime: formData.startTime,
+      endTime: formData.endTime,
+      status: formData.status,
+      providerId: formData.providerId || null
+    }, formData.date, editScope);
+    return { series, occurrences, shift: getDayShift(appointment.occurrenceDate, formData.date) };
+  }, [appointment, appointmentSeries, editScope, formData]);
+
+  // Citas necesarias para validar disponibilidad: el día de la cita o, en una
+  // serie nueva o editada, de la primera a la última ocurrencia
+  const availabilityWindow = useMemo(() => {
+    if (!isOpen || !formData.date) return null;
+    if (seriesEdit) {
+      const dates = [formData.date, ...seriesEdit.occurrences.map(occurrence => occurrence.date)].sort();
+      return { from: dates[0], to: dates[dates.length - 1] };
+    }
+    if (appointment || !recurrence.frequency) return { from: formData.date, to: formData.date };
+
+    const rule: RecurrenceRule = recurrence.endType === 'count'
+      ? { frequency: recurrence.frequency, count: recurrence.count }
+      : { frequency: recurrence.frequency, until: recurrence.until };
+    const dates = getOccurrenceDates(formData.date, rule);
+    return { from: formData.date, to: dates[dates.length - 1] || formData.date };
+  }, [isOpen, formData.date, appointment, recurrence, seriesEdit]);
+  const { appointments } = useAppointments(businessId || undefined, availabilityWindow);
 
   useEffect(() => {
+    setEditScope('this');
+    setRecurrence(prev => ({ ...prev, frequency: '' }));
+
     if (appointment) {
       setFormData({
         clientId: appointment.clientId,
         serviceId: appointment.serviceId,
+        providerId: appointment.providerId || '',
         date: appointment.date,
         startTime: appointment.startTime,
         endTime: appointment.endTime,
         status: appointment.status,
         notes: appointment.notes || ''
       });
-    } else if (selectedDate) {
+    } else {
       setFormData(prev => ({
         ...prev,
-        date: selectedDate
+        date: selectedDate || prev.date,
+        providerId: selectedProviderId || ''
       }));
     }
-  }, [appointment, selectedDate]);
+  }, [appointment, selectedDate, selectedProviderId]);
 
   useEffect(() => {
     // Auto-calculate end time when service changes
@@ -94,11 +158,22 @@ export const AppointmentModal: React.FC<AppointmentModalProps> = ({
     setLoading(true);
 
     try {
-      // Check for resource conflicts before saving
-      const conflicts = checkTimeConflicts();
-      if (conflicts.length > 0) {
-        const conflictClient = clients.find(c => c.id === conflicts[0].clientId);
-        setError(`Conflicto de horario: Ya hay una cita programada con ${conflictClient?.name || 'otro cliente'} en este horario para este servicio.`);
+      // Verificar horario de operación y disponibilidad de recursos antes de guardar
+      const availability = checkAvailability();
+      if (availability && !availability.isAvailable) {
+        if (availability.conflicts.length > 0) {
+          const conflictClient = clients.find(c => c.id === availability.conflicts[0].clientId);
+          setError(`Conflicto de horario con la cita de ${conflictClient?.name || 'otro cliente'}. ${availability.reason || ''}`);
+        } else {
+          setError(availability.reason || 'El horario seleccionado no está disponible.');
+        }
+        setLoading(false);
+        return;
+      }
+
+      const resourceIndex = availability?.resourceIndex ?? appointment?.resourceIndex ?? 0;
+      const resourceIndexes = checkSeriesEdit(resourceIndex);
+      if (!resourceIndexes) {
         setLoading(false);
         return;
       }
@@ -129,18 +204,59 @@ export const AppointmentModal: React.FC<AppointmentModalProps> = ({
       const appointmentData = {
         ...formData,
         clientId,
+        providerId: formData.providerId || null,
+        resourceIndex,
         createdBy: currentUser!.uid,
         businessId: businessId!,
         createdAt: appointment?.createdAt || new Date().toISOString(),
         updatedAt: new Date().toISOString()
       };
 
-      if (appointment) {
+      // Al completar una cita se pasa al cobro; una serie nueva o un cambio a varias ocurrencias no se cobra aquí
+      const startsCheckout = formData.status === 'completed' && appointment?.status !== 'completed' &&
+        !(!appointment && recurrence.frequency) && !(isSeriesOccurrence && editScope !== 'this');
+      let savedId = appointment?.id;
+
+      if (appointment?.seriesId && appointment.occurrenceDate) {
+        await updateSeriesOccurrence(appointment.seriesId, appointment.occurrenceDate, appointmentData, editScope, resourceIndexes);
+      } else if (appointment) {
         await updateAppointment(appointment.id, appointmentData);
+      } else if (recurrence.frequency) {
+        const rule: RecurrenceRule = recurrence.endType === 'count'
+          ? { frequency: recurrence.frequency, count: recurrence.count }
+          : { frequency: recurrence.frequency, until: recurrence.until };
+        const exceptions = buildSeriesExceptions(rule, appointmentData.resourceIndex);
+
+        if (!exceptions) {
+          setLoading(false);
+          return;
+        }
+
+        await addAppointmentSeries({
+          clientId,
+          serviceId: formData.serviceId,
+          providerId: formData.providerId || null,
+          startDate: formData.date,
+          startTime: formData.startTime,
+          endTime: formData.endTime,
+          status: formData.status,
+          notes: formData.notes,
+          rule,
+          exceptions,
+          resourceIndex: appointmentData.resourceIndex,
+          createdBy: currentUser!.uid,
+          businessId: businessId!,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString()
+        });
       } else {
-        await addAppointment(appointmentData);
+        savedId = await addAppointment(appointmentData);
       }
 
+      if (startsCheckout && savedId) {
+        setCheckout({ appointment: { ...appointment, ...appointmentData, id: savedId }, closeAfter: true });
+        return;
+      }
       onClose();
     } catch (error: any) {
       setError(error.message || 'Error al guardar la cita');
@@ -154,7 +270,11 @@ export const AppointmentModal: React.FC<AppointmentModalProps> = ({
     
     setLoading(true);
     try {
-      await deleteAppointment(appointment.id);
+      if (appointment.seriesId && appointment.occurrenceDate) {
+        await deleteSeriesOccurrence(appointment.seriesId, appointment.occurrenceDate, editScope);
+      } else {
+        await deleteAppointment(appointment.id);
+      }
       onClose();
     } catch (error: any) {
       setError(error.message || 'Error al eliminar la cita');
@@ -163,44 +283,133 @@ export const AppointmentModal: React.FC<AppointmentModalProps> = ({
     }
   };
 
-  const checkTimeConflicts = () => {
-    if (!formData.serviceId || !formData.date || !formData.startTime || !formData.endTime) return [];
-    
-    const service = services.find(s => s.id === formData.serviceId);
-    if (!service || service.resources > 1) return []; // Only check conflicts for single-resource services
+  const selectedService = services.find(s => s.id === formData.serviceId);
+  const selectedProvider = providers.find(p => p.id === formData.providerId) || null;
 
-    // Use appointments from the hook already available in the component
-    
-    // Convert times to minutes for easier comparison
-    const startMinutes = timeToMinutes(formData.startTime);
-    const endMinutes = timeToMinutes(formData.endTime);
-    
-    // Find conflicting appointments on the same date for the same service
-    const conflictingAppointments = appointments.filter((apt: Appointment) => {
-      // Skip the current appointment if editing
-      if (appointment && apt.id === appointment.id) return false;
-      
-      // Only check appointments for the same service and date
-      if (apt.serviceId !== formData.serviceId || apt.date !== formData.date) return false;
-      
-      // Skip cancelled appointments
-      if (apt.status === 'cancelled') return false;
-      
-      const aptStartMinutes = timeToMinutes(apt.startTime);
-      const aptEndMinutes = timeToMinutes(apt.endTime);
-      
-      // Check for time overlap
-      return (startMinutes < aptEndMinutes && endMinutes > aptStartMinutes);
+  // Profesionales activos que pueden realizar el servicio seleccionado
+  const availableProviders = providers.filter(provider =>
+    provider.isActive !== false &&
+    (!formData.serviceId || canProviderPerformService(provider, formData.serviceId))
+  );
+
+  // Las ocurrencias que se mueven con la edición no chocan con su posición anterior
+  const unaffectedAppointments = seriesEdit && appointment?.occurrenceDate
+    ? appointments.filter(apt =>
+      apt.seriesId !== seriesEdit.series.id || (editScope === 'following' && apt.occurrenceDate! < appointment.occurrenceDate!)
+    )
+    : appointments;
+
+  // Las citas canceladas o sin asistencia no necesitan validar disponibilidad
+  const checkAvailability = () => {
+    if (!selectedService || !formData.date || !formData.startTime || !formData.endTime) return null;
+    if (formData.status === 'cancelled' || formData.status === 'no-show') return null;
+
+    return checkSlotAvailability({
+      business,
+      service: selectedService,
+      appointments: unaffectedAppointments,
+      date: formData.date,
+      startTime: formData.startTime,
+      endTime: formData.endTime,
+      excludeAppointmentId: appointment?.id,
+      provider: selectedProvider
     });
-    
-    return conflictingAppointments;
   };
 
-  const timeToMinutes = (timeString: string): number => {
-    const [hours, minutes] = timeString.split(':').map(Number);
-    return hours * 60 + minutes;
+  // Valida cada ocurrencia de la serie y asigna recursos distintos donde haga falta.
+  // Devuelve null si alguna ocurrencia no está disponible.
+  const buildSeriesExceptions = (rule: RecurrenceRule, baseResourceIndex: number) => {
+    if (rule.count !== undefined && rule.count < 1) {
+      setError('La serie debe tener al menos una cita');
+      return null;
+    }
+    if (rule.until !== undefined && (!rule.until || rule.until < formData.date)) {
+      setError('La fecha de fin de la serie debe ser posterior a la primera cita');
+      return null;
+    }
+
+    const exceptions: Record<string, SeriesException> = {};
+    const unavailableDates: string[] = [];
+
+    getOccurrenceDates(formData.date, rule).forEach(date => {
+      if (!selectedService) return;
+      const result = checkSlotAvailability({
+        business,
+        service: selectedService,
+        appointments,
+        date,
+        startTime: formData.startTime,
+        endTime: formData.endTime,
+        provider: selectedProvider
+      });
+
+      if (!result.isAvailable) {
+        unavailableDates.push(date);
+      } else if (result.resourceIndex !== undefined && result.resourceIndex !== baseResourceIndex) {
+        exceptions[date] = { resourceIndex: result.resourceIndex };
+      }
+    });
+
+    if (unavailableDates.length > 0) {
+      const listed = unavailableDates.slice(0, 5).join(', ');
+      const more = unavailableDates.length > 5 ? ` y ${unavailableDates.length - 5} más` : '';
+      setError(`El horario no está disponible en las siguientes fechas de la serie: ${listed}${more}`);
+      return null;
+    }
+
+    return exceptions;
   };
 
+  // Valida las demás ocurrencias que se mueven al editar varias citas de la serie.
+  // Devuelve el recurso de cada una que deba cambiar (por fecha original) o null si alguna no está disponible.
+  const checkSeriesEdit = (baseResourceIndex: number) => {
+    const resourceIndexes: Record<string, number> = {};
+    if (!seriesEdit || !appointment?.occurrenceDate) return resourceIndexes;
+
+    const { series, occurrences, shift } = seriesEdit;
+    const editedDate = appointment.occurrenceDate;
+    const unavailableDates: string[] = [];
+
+    occurrences.forEach(occurrence => {
+      const originalDate = shiftDate(occurrence.occurrenceDate!, -shift);
+      if (originalDate === editedDate) return;
+      if (occurrence.status === 'cancelled' || occurrence.status === 'no-show') return;
+
+      const service = services.find(s => s.id === occurrence.serviceId);
+      if (!service) return;
+      const result = checkSlotAvailability({
+        business,
+        service,
+        appointments: unaffectedAppointments,
+        date: occurrence.date,
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        provider: providers.find(p => p.id === occurrence.providerId) || null
+      });
+
+      const currentResource = series.exceptions?.[originalDate]?.resourceIndex ?? baseResourceIndex;
+      if (!result.isAvailable) {
+        unavailableDates.push(occurrence.date);
+      } else if (result.resourceIndex !== undefined && result.resourceIndex !== currentResource) {
+        resourceIndexes[originalDate] = result.resourceIndex;
+      }
+    });
+
+    if (unavailableDates.length > 0) {
+      const listed = unavailableDates.slice(0, 5).join(', ');
+      const more = unavailableDates.length > 5 ? ` y ${unavailableDates.length - 5} más` : '';
+      setError(`El horario no está disponible en las siguientes fechas de la serie: ${listed}${more}`);
+      return null;
+    }
+
+    return resourceIndexes;
+  };
+
+  const availableSlots = useMemo(() => {
+    if (!selectedService || !formData.date) return [];
+    return getAvailableSlots(business, selectedService, appointments, formData.date, 30, appointment?.id, selectedProvider);
+  }, [business, selectedService, appointments, formData.date, appointment?.id, selectedProvider]);
+
   if (!isOpen) return null;
 
   return (
@@ -323,6 +532,28 @@ export const AppointmentModal: React.FC<AppointmentModalProps> = ({
             </select>
           </div>
 
+          {/* Provider Selection */}
+          {providers.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <UserCheck className="h-4 w-4 inline mr-1" />
+                Profesional
+              </label>
+              <select
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                value={formData.providerId}
+                onChange={(e) => setFormData({ ...formData, providerId: e.target.value })}
+              >
+                <option value="">Sin asignar</option>
+                {availableProviders.map((provider) => (
+                  <option key={provider.id} value={provider.id}>
+                    {provider.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Date and Time */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
@@ -368,6 +599,121 @@ export const AppointmentModal: React.FC<AppointmentModalProps> = ({
             </div>
           </div>
 
+          {/* Available Slots */}
+          {selectedService && formData.date && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Horarios disponibles
+              </label>
+              {availableSlots.length > 0 ? (
+                <div className="flex flex-wrap gap-2">
+                  {availableSlots.map((slot) => (
+                    <button
+                      key={slot.startTime}
+                      type="button"
+                      onClick={() => setFormData({ ...formData, startTime: slot.startTime })}
+                      className={`px-3 py-1 text-sm rounded-md border transition-colors ${
+                        formData.startTime === slot.startTime
+                          ? 'bg-pink-600 text-white border-pink-600'
+                          : 'bg-white text-gray-700 border-gray-300 hover:border-pink-500'
+                      }`}
+                      title={`${slot.freeResources} ${slot.freeResources === 1 ? 'recurso libre' : 'recursos libres'}`}
+                    >
+                      {slot.startTime}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  No hay horarios disponibles para este servicio en la fecha seleccionada.
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Recurrence */}
+          {!appointment && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <Repeat className="h-4 w-4 inline mr-1" />
+                Repetir
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <select
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                  value={recurrence.frequency}
+                  onChange={(e) => setRecurrence({ ...recurrence, frequency: e.target.value as RecurrenceRule['frequency'] | '' })}
+                >
+                  <option value="">No se repite</option>
+                  {Object.entries(RECURRENCE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+
+                {recurrence.frequency && (
+                  <>
+                    <select
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                      value={recurrence.endType}
+                      onChange={(e) => setRecurrence({ ...recurrence, endType: e.target.value as 'count' | 'until' })}
+                    >
+                      <option value="count">Número de citas</option>
+                      <option value="until">Hasta una fecha</option>
+                    </select>
+
+                    {recurrence.endType === 'count' ? (
+                      <input
+                        type="number"
+                        min="1"
+                        max="366"
+                        required
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                        value={recurrence.count}
+                        onChange={(e) => setRecurrence({ ...recurrence, count: parseInt(e.target.value) || 1 })}
+                      />
+                    ) : (
+                      <input
+                        type="date"
+                        required
+                        min={formData.date}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                        value={recurrence.until}
+                        onChange={(e) => setRecurrence({ ...recurrence, until: e.target.value })}
+                      />
+                    )}
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Series Edit Scope */}
+          {isSeriesOccurrence && (
+            <div className="bg-pink-50 border border-pink-200 rounded-md p-4">
+              <p className="text-sm font-medium text-gray-700 mb-2">
+                <Repeat className="h-4 w-4 inline mr-1" />
+                Esta cita forma parte de una serie. Aplicar cambios a:
+              </p>
+              <div className="flex flex-wrap items-center gap-4">
+                {([
+                  { value: 'this', label: 'Solo esta cita' },
+                  { value: 'following', label: 'Esta y las siguientes' },
+                  { value: 'all', label: 'Toda la serie' }
+                ] as { value: SeriesEditScope; label: string }[]).map((option) => (
+                  <label key={option.value} className="flex items-center">
+                    <input
+                      type="radio"
+                      checked={editScope === option.value}
+                      onChange={() => setEditScope(option.value)}
+                      className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">{option.label}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Status */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -416,6 +762,16 @@ export const AppointmentModal: React.FC<AppointmentModalProps> = ({
             </div>
 
             <div className="flex items-center space-x-3">
+              {appointment?.status === 'completed' && (
+                <button
+                  type="button"
+                  onClick={() => setCheckout({ appointment, closeAfter: false })}
+                  className="flex items-center px-4 py-2 text-pink-600 hover:bg-pink-50 rounded-md transition-colors"
+                >
+                  <DollarSign className="h-4 w-4 mr-2" />
+                  Cobrar
+                </button>
+              )}
               <button
                 type="button"
                 onClick={onClose}
@@ -443,6 +799,11 @@ export const AppointmentModal: React.FC<AppointmentModalProps> = ({
                 ¿Eliminar cita?
               </h3>
               <p className="text-gray-600 mb-6">
+                {isSeriesOccurrence && editScope === 'following'
+                  ? 'Se eliminarán esta cita y todas las siguientes de la serie. '
+                  : isSeriesOccurrence && editScope === 'all'
+                  ? 'Se eliminarán todas las citas de la serie. '
+                  : ''}
                 Esta acción no se puede deshacer. ¿Estás seguro de que quieres eliminar esta cita?
               </p>
               <div className="flex items-center justify-end space-x-3">
@@ -463,6 +824,16 @@ export const AppointmentModal: React.FC<AppointmentModalProps> = ({
             </div>
           </div>
         )}
+
+        {checkout && (
+          <CheckoutModal
+            appointment={checkout.appointment}
+            onClose={() => {
+              setCheckout(null);
+              if (checkout.closeAfter) onClose();
+            }}
+          />
+        )}
       </div>
     </div>
   );
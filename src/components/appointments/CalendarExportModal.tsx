@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react';
+import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { appointmentRepository } from '../../storage';
+import type { CalendarFeed, CalendarFeedScope } from '../../types';
+import { filterAppointmentsForFeed, generateICalendar, getICalendarFileName } from '../../utils/icalendar';
+import { calendarFeedService } from '../../utils/calendarFeedService';
+import { expandSeries } from '../../utils/recurrence';
+import { X, Download, Link, Copy, Trash2 } from 'lucide-react';
+
+interface CalendarExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const SCOPE_LABELS: Record<CalendarFeedScope, string> = {
+  business: 'Todo el negocio',
+  provider: 'Un profesional',
+  client: 'Un cliente'
+};
+
+export const CalendarExportModal: React.FC<CalendarExportModalProps> = ({ isOpen, onClose }) => {
+  const { currentUser, currentBusiness } = useAuth();
+  const { canEditBusiness } = usePermissions();
+
+  // Determinar el businessId según el rol del usuario
+  const businessId = currentUser?.role === 'owner'
+    ? currentUser?.businessId
+    : currentBusiness;
+
+  const { business, appointmentSeries, clients, services, providers } = useBusinessData(businessId || undefined);
+
+  const [scope, setScope] = useState<CalendarFeedScope>('business');
+  const [providerId, setProviderId] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+  const [creatingFeed, setCreatingFeed] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen || !businessId || !canEditBusiness) return;
+
+    calendarFeedService.getBusinessFeeds(businessId)
+      .then(setFeeds)
+      .catch(error => console.error('Error loading calendar feeds:', error));
+  }, [isOpen, businessId, canEditBusiness]);
+
+  if (!isOpen) return null;
+
+  const activeProviders = providers.filter(provider => provider.isActive !== false);
+
+  const getCalendarName = () => {
+    const businessName = business?.name || 'MakeAgend';
+    if (scope === 'provider') {
+      return `${businessName} - ${providers.find(p => p.id === providerId)?.name || 'Profesional'}`;
+    }
+    if (scope === 'client') {
+      return `${businessName} - ${clients.find(c => c.id === clientId)?.name || 'Cliente'}`;
+    }
+    return businessName;
+  };
+
+  const validateSelection = (): boolean => {
+    if (scope === 'provider' && !providerId) {
+      setError('Selecciona un profesional');
+      return false;
+    }
+    if (scope === 'client' && !clientId) {
+      setError('Selecciona un cliente');
+      return false;
+    }
+    setError('');
+    return true;
+  };
+
+  // Las citas se descargan solo al exportar; las de un cliente, por su índice
+  const handleDownload = async () => {
+    if (!businessId || !validateSelection()) return;
+
+    setDownloading(true);
+    let content: string;
+    const calendarName = getCalendarName();
+    try {
+      const single = scope === 'client'
+        ? await appointmentRepository.findBy(businessId, 'clientId', clientId)
+        : await appointmentRepository.list(businessId);
+      const appointments = [...single, ...appointmentSeries.flatMap(expandSeries)];
+      content = generateICalendar({
+        calendarName,
+        appointments: filterAppointmentsForFeed(appointments, { scope, providerId, clientId }),
+        clients,
+        services,
+        providers
+      });
+    } catch (error) {
+      setError((error as Error).message || 'Error al cargar las citas');
+      return;
+    } finally {
+      setDownloading(false);
+    }
+
+    const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getICalendarFileName(calendarName);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleCreateFeed = async () => {
+    if (!businessId || !validateSelection()) return;
+
+    setCreatingFeed(true);
+    try {
+      const feed = await calendarFeedService.createFeed({
+        scope,
+        providerId: scope === 'provider' ? providerId : undefined,
+        clientId: scope === 'client' ? clientId : undefined,
+        label: getCalendarName(),
+        businessId,
+        createdBy: currentUser!.uid
+      });
+      setFeeds(prev => [feed, ...prev]);
+    } catch (error) {
+      setError((error as Error).message || 'Error al crear el enlace');
+    } finally {
+      setCreatingFeed(false);
+    }
+  };
+
+  const handleRevokeFeed = async (feed: CalendarFeed) => {
+    if (!confirm(`¿Revocar el enlace "${feed.label}"? Los calendarios suscritos dejarán de actualizarse.`)) return;
+    try {
+      await calendarFeedService.revokeFeed(feed.id);
+      setFeeds(prev => prev.filter(f => f.id !== feed.id));
+    } catch (error) {
+      setError((error as Error).message || 'Error al revocar el enlace');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Exportar Calendario</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Citas a incluir</label>
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as CalendarFeedScope)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+            >
+              {(Object.keys(SCOPE_LABELS) as CalendarFeedScope[]).map(key => (
+                <option key={key} value={key}>{SCOPE_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+
+          {scope === 'provider' && (
+            <select
+              value={providerId}
+              onChange={(e) => setProviderId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+            >
+              <option value="">Seleccionar profesional</option>
+              {activeProviders.map(provider => (
+                <option key={provider.id} value={provider.id}>{provider.name}</option>
+              ))}
+            </select>
+          )}
+
+          {scope === 'client' && (
+            <select
+              value={clientId}
+              onChange={(e) => setClientId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+            >
+              <option value="">Seleccionar cliente</option>
+              {clients.map(client => (
+                <option key={client.id} value={client.id}>{client.name}</option>
+              ))}
+            </select>
+          )}
+
+          <button
+            onClick={handleDownload}
+            disabled={downloading}
+            className="w-full flex items-center justify-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {downloading ? 'Preparando...' : 'Descargar archivo .ics'}
+          </button>
+
+          {canEditBusiness && (
+            <div className="pt-4 border-t border-gray-200">
+              <h3 className="text-sm font-medium text-gray-900 mb-1">Suscripción desde el teléfono</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Crea un enlace privado para suscribirte desde Google Calendar, Apple Calendar u Outlook.
+                Cualquier persona con el enlace puede ver las citas incluidas.
+              </p>
+              <button
+                onClick={handleCreateFeed}
+                disabled={creatingFeed}
+                className="w-full flex items-center justify-center px-4 py-2 bg-pink-100 text-pink-700 rounded-lg hover:bg-pink-200 disabled:opacity-50"
+              >
+                <Link className="h-4 w-4 mr-2" />
+                {creatingFeed ? 'Creando enlace...' : 'Crear enlace de suscripción'}
+              </button>
+
+              {feeds.length > 0 && (
+                <div className="mt-3 space-y-2">
+                  {feeds.map(feed => (
+                    <div key={feed.id} className="flex items-center justify-between p-2 border border-gray-200 rounded-lg">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{feed.label}</p>
+                        <p className="text-xs text-gray-500 truncate">{calendarFeedService.getFeedUrl(feed.id)}</p>
+                      </div>
+                      <div className="flex items-center ml-2">
+                        <button
+                          onClick={() => navigator.clipboard.writeText(calendarFeedService.getFeedUrl(feed.id))}
+                          className="p-1 text-gray-400 hover:text-gray-600"
+                          title="Copiar enlace"
+                        >
+                          <Copy className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleRevokeFeed(feed)}
+                          className="p-1 text-red-400 hover:text-red-600"
+                          title="Revocar enlace"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
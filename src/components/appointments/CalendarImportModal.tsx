@@ -0,0 +1,355 @@
+import React, { useState, useMemo } from 'react';
+import { format } from 'date-fns';
+import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAppointments } from '../../hooks/useAppointments';
+import { useAuth } from '../../contexts/AuthContext';
+import { parseICalendar } from '../../utils/icalendar';
+import {
+  buildImportCandidates,
+  checkImportAvailability,
+  getCandidateTimes
+} from '../../utils/calendarImport';
+import type { AppointmentImport, ImportCandidate } from '../../utils/calendarImport';
+import { X, Upload, AlertTriangle, CheckCircle, Repeat } from 'lucide-react';
+
+interface CalendarImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const CalendarImportModal: React.FC<CalendarImportModalProps> = ({ isOpen, onClose }) => {
+  const { currentUser, currentBusiness } = useAuth();
+
+  // Determinar el businessId según el rol del usuario
+  const businessId = currentUser?.role === 'owner'
+    ? currentUser?.businessId
+    : currentBusiness;
+
+  const { business, clients, services, importAppointments } = useBusinessData(businessId || undefined);
+
+  const [step, setStep] = useState<'upload' | 'review' | 'done'>('upload');
+  const [candidates, setCandidates] = useState<ImportCandidate[]>([]);
+  const [skipConflicts, setSkipConflicts] = useState(true);
+  const [importing, setImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+  const [error, setError] = useState('');
+
+  const activeServices = services.filter(service => service.isActive !== false);
+
+  // Solo se cargan las citas entre el primer y el último evento del archivo
+  const importWindow = useMemo(() => {
+    if (candidates.length === 0) return null;
+    const dates = candidates.map(candidate => candidate.event.date).sort();
+    return { from: dates[0], to: dates[dates.length - 1] };
+  }, [candidates]);
+  const { appointments } = useAppointments(businessId || undefined, importWindow);
+
+  const availability = useMemo(
+    () => checkImportAvailability(candidates, business, services, appointments),
+    [candidates, business, services, appointments]
+  );
+
+  // Motivo por el que una fila incluida no se puede importar
+  const getRowProblem = (candidate: ImportCandidate): string | null => {
+    if (!candidate.serviceId) return 'Selecciona un servicio';
+    if (!candidate.clientId && !candidate.newClientName.trim()) return 'Indica el nombre del cliente';
+    const result = availability[candidate.event.uid];
+    if (result && !result.isAvailable) return result.reason || 'Horario no disponible';
+    return null;
+  };
+
+  const rowsToImport = candidates.filter(candidate => {
+    if (!candidate.include) return false;
+    const problem = getRowProblem(candidate);
+    if (!problem) return true;
+    // Los conflictos de horario se pueden forzar; los datos faltantes no
+    const isConflict = Boolean(candidate.serviceId) && (Boolean(candidate.clientId) || Boolean(candidate.newClientName.trim()));
+    return isConflict && !skipConflicts;
+  });
+
+  const conflictCount = candidates.filter(candidate => candidate.include && availability[candidate.event.uid]?.isAvailable === false).length;
+
+  const handleClose = () => {
+    setStep('upload');
+    setCandidates([]);
+    setError('');
+    onClose();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    try {
+      const events = parseICalendar(await file.text());
+      if (events.length === 0) {
+        setError('El archivo no contiene eventos para importar');
+        return;
+      }
+      setCandidates(buildImportCandidates(events, clients, services));
+      setStep('review');
+    } catch (error) {
+      setError((error as Error).message || 'No se pudo leer el archivo');
+    }
+  };
+
+  const updateCandidate = (uid: string, updates: Partial<ImportCandidate>) => {
+    setCandidates(prev => prev.map(candidate => (
+      candidate.event.uid === uid ? { ...candidate, ...updates } : candidate
+    )));
+  };
+
+  const handleImport = async () => {
+    if (rowsToImport.length === 0) return;
+
+    setImporting(true);
+    setError('');
+    try {
+      const today = format(new Date(), 'yyyy-MM-dd');
+      const timestamp = new Date().toISOString();
+
+      const imports: AppointmentImport[] = rowsToImport.map(candidate => {
+        const service = services.find(s => s.id === candidate.serviceId);
+        const { startTime, endTime } = getCandidateTimes(candidate, service);
+        const notes = [candidate.event.description, candidate.event.location].filter(Boolean).join('\n');
+
+        return {
+          appointment: {
+            serviceId: candidate.serviceId,
+            date: candidate.event.date,
+            startTime,
+            endTime,
+            status: candidate.event.date < today ? 'completed' : 'confirmed',
+            notes,
+            resourceIndex: availability[candidate.event.uid]?.resourceIndex ?? 0,
+            providerId: null,
+            createdBy: currentUser!.uid,
+            createdAt: timestamp,
+            updatedAt: timestamp
+          },
+          clientId: candidate.clientId || undefined,
+          newClient: candidate.clientId ? undefined : {
+            name: candidate.newClientName.trim(),
+            phone: candidate.newClientPhone.trim(),
+            createdAt: timestamp,
+            updatedAt: timestamp
+          }
+        };
+      });
+
+      const count = await importAppointments(imports);
+      setImportedCount(count || 0);
+      setStep('done');
+    } catch (error) {
+      setError((error as Error).message || 'Error al importar las citas');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-6xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Importar Citas desde Calendario (.ics)</h2>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <div className="text-center py-8">
+              <Upload className="h-12 w-12 text-pink-400 mx-auto mb-4" />
+              <p className="text-gray-700 mb-2">
+                Exporta tu agenda desde Google Calendar u otra herramienta en formato .ics y selecciónala aquí.
+              </p>
+              <p className="text-sm text-gray-500 mb-6">
+                Podrás revisar cada evento y asignarle un servicio y un cliente antes de importarlo.
+              </p>
+              <label className="inline-flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                Seleccionar archivo
+                <input type="file" accept=".ics,text/calendar" className="hidden" onChange={handleFile} />
+              </label>
+            </div>
+          )}
+
+          {step === 'review' && (
+            <>
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-4 text-sm">
+                <p className="text-gray-600">
+                  {candidates.length} evento{candidates.length !== 1 ? 's' : ''} encontrado{candidates.length !== 1 ? 's' : ''}
+                  {conflictCount > 0 && (
+                    <span className="ml-2 text-yellow-700">· {conflictCount} con conflicto de horario</span>
+                  )}
+                </p>
+                <label className="flex items-center text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={skipConflicts}
+                    onChange={(e) => setSkipConflicts(e.target.checked)}
+                    className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded mr-2"
+                  />
+                  Omitir eventos con conflicto
+                </label>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2"></th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Fecha</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Evento</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Servicio</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Cliente</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Estado</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {candidates.map(candidate => {
+                      const { event } = candidate;
+                      const problem = candidate.include ? getRowProblem(candidate) : null;
+                      return (
+                        <tr key={event.uid} className={candidate.include ? '' : 'opacity-50'}>
+                          <td className="px-3 py-2">
+                            <input
+                              type="checkbox"
+                              checked={candidate.include}
+                              onChange={(e) => updateCandidate(event.uid, { include: e.target.checked })}
+                              className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded"
+                            />
+                          </td>
+                          <td className="px-3 py-2 whitespace-nowrap text-gray-900">
+                            {event.date}
+                            <div className="text-xs text-gray-500">
+                              {event.allDay ? 'Todo el día' : `${event.startTime} - ${event.endTime}`}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2 text-gray-900 max-w-xs">
+                            <div className="truncate" title={event.summary}>{event.summary || '(sin título)'}</div>
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {event.hasRecurrence && (
+                                <span className="flex items-center text-xs text-purple-700" title="Solo se importa la primera ocurrencia">
+                                  <Repeat className="h-3 w-3 mr-1" />Recurrente
+                                </span>
+                              )}
+                              {event.cancelled && <span className="text-xs text-gray-500">Cancelado</span>}
+                            </div>
+                          </td>
+                          <td className="px-3 py-2">
+                            <select
+                              value={candidate.serviceId}
+                              onChange={(e) => updateCandidate(event.uid, { serviceId: e.target.value })}
+                              className="w-40 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                            >
+                              <option value="">Seleccionar</option>
+                              {activeServices.map(service => (
+                                <option key={service.id} value={service.id}>{service.name}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-3 py-2">
+                            <select
+                              value={candidate.clientId}
+                              onChange={(e) => updateCandidate(event.uid, { clientId: e.target.value })}
+                              className="w-44 px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                            >
+                              <option value="">Nuevo cliente</option>
+                              {clients.map(client => (
+                                <option key={client.id} value={client.id}>{client.name}</option>
+                              ))}
+                            </select>
+                            {!candidate.clientId && (
+                              <div className="flex gap-1 mt-1">
+                                <input
+                                  type="text"
+                                  placeholder="Nombre"
+                                  value={candidate.newClientName}
+                                  onChange={(e) => updateCandidate(event.uid, { newClientName: e.target.value })}
+                                  className="w-24 px-2 py-1 border border-gray-300 rounded-md text-xs"
+                                />
+                                <input
+                                  type="tel"
+                                  placeholder="Teléfono"
+                                  value={candidate.newClientPhone}
+                                  onChange={(e) => updateCandidate(event.uid, { newClientPhone: e.target.value })}
+                                  className="w-24 px-2 py-1 border border-gray-300 rounded-md text-xs"
+                                />
+                              </div>
+                            )}
+                          </td>
+                          <td className="px-3 py-2">
+                            {!candidate.include ? (
+                              <span className="text-xs text-gray-500">Omitido</span>
+                            ) : problem ? (
+                              <span className="flex items-start text-xs text-yellow-700">
+                                <AlertTriangle className="h-4 w-4 mr-1 flex-shrink-0" />
+                                {problem}
+                              </span>
+                            ) : (
+                              <span className="flex items-center text-xs text-green-700">
+                                <CheckCircle className="h-4 w-4 mr-1" />
+                                Listo
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {step === 'done' && (
+            <div className="text-center py-8">
+              <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+              <p className="text-gray-900 font-medium">
+                Se importaron {importedCount} cita{importedCount !== 1 ? 's' : ''} correctamente.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+          {step === 'review' && (
+            <button
+              onClick={() => setStep('upload')}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              Elegir otro archivo
+            </button>
+          )}
+          {step === 'review' ? (
+            <button
+              onClick={handleImport}
+              disabled={importing || rowsToImport.length === 0}
+              className="px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {importing ? 'Importando...' : `Importar ${rowsToImport.length} cita${rowsToImport.length !== 1 ? 's' : ''}`}
+            </button>
+          ) : (
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              Cerrar
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import { auditService } from '../../utils/auditService';
+import type { AuditAction, AuditEntityType, AuditEntry } from '../../types';
+import { History, Shield, ChevronDown, ChevronRight } from 'lucide-react';
+import { format, subDays, differenceInCalendarDays, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+// Cada día es una lectura; el rango se limita para no descargar meses de bitácora
+const MAX_RANGE_DAYS = 31;
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+  business: 'Negocio',
+  license: 'Licencia',
+  service: 'Servicio',
+  client: 'Cliente',
+  appointment: 'Cita',
+  appointmentSeries: 'Serie de citas',
+  provider: 'Profesional',
+  waitlist: 'Lista de espera',
+  digitalRecord: 'Expediente',
+  charge: 'Cuenta',
+  payment: 'Pago',
+  cashSession: 'Caja',
+  cashMovement: 'Movimiento de caja',
+  invoice: 'Factura'
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Creó',
+  update: 'Modificó',
+  delete: 'Eliminó'
+};
+
+const ACTION_STYLES: Record<AuditAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  delete: 'bg-red-100 text-red-800'
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  const json = JSON.stringify(value);
+  return json.length > 120 ? `${json.slice(0, 117)}...` : json;
+};
+
+export const AuditLog: React.FC = () => {
+  const { currentUser } = useAuth();
+  const { canViewAuditLog, getRestrictionMessage } = usePermissions();
+  const businessId = currentUser?.businessId || undefined;
+
+  const [fromDate, setFromDate] = useState(() => format(subDays(new Date(), 6), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [actorFilter, setActorFilter] = useState('all');
+  const [entityFilter, setEntityFilter] = useState<AuditEntityType | 'all'>('all');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadEntries = useCallback(async () => {
+    if (!businessId) return;
+
+    const from = parseISO(fromDate);
+    const to = parseISO(toDate);
+    const rangeDays = differenceInCalendarDays(to, from);
+    if (rangeDays < 0) {
+      setError('La fecha inicial debe ser anterior a la final');
+      return;
+    }
+    if (rangeDays >= MAX_RANGE_DAYS) {
+      setError(`Consulta como máximo ${MAX_RANGE_DAYS} días a la vez`);
+      return;
+    }
+
+    try {
+      setError('');
+      setLoading(true);
+      setEntries(await auditService.listEntries(businessId, from, to));
+    } catch (error) {
+      setError((error as Error).message || 'Error al cargar la bitácora');
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, fromDate, toDate]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  // Usuarios que aparecen en el rango consultado
+  const actors = useMemo(() => {
+    const names = new Map<string, string>();
+    entries.forEach(entry => names.set(entry.actorId, entry.actorName));
+    return Array.from(names, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [entries]);
+
+  const filteredEntries = entries.filter(entry =>
+    (actorFilter === 'all' || entry.actorId === actorFilter) &&
+    (entityFilter === 'all' || entry.entityType === entityFilter)
+  );
+
+  if (!canViewAuditLog) {
+    return (
+      <div className="p-6 text-center">
+        <Shield className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Acceso Restringido</h3>
+        <p className="text-gray-500">{getRestrictionMessage('canViewAuditLog')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <History className="h-6 w-6 text-pink-600 mr-2" />
+          <h1 className="text-2xl font-bold text-gray-900">Auditoría</h1>
+        </div>
+        <span className="text-sm text-gray-500">{filteredEntries.length} cambio(s)</span>
+      </div>
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-md p-4 mb-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+          <input
+            type="date"
+            value={fromDate}
+            max={toDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+          <input
+            type="date"
+            value={toDate}
+            min={fromDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Usuario</label>
+          <select
+            value={actorFilter}
+            onChange={(e) => setActorFilter(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          >
+            <option value="all">Todos</option>
+            {actors.map(actor => (
+              <option key={actor.id} value={actor.id}>{actor.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tipo</label>
+          <select
+            value={entityFilter}
+            onChange={(e) => setEntityFilter(e.target.value as AuditEntityType | 'all')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          >
+            <option value="all">Todos</option>
+            {(Object.keys(ENTITY_LABELS) as AuditEntityType[]).map(type => (
+              <option key={type} value={type}>{ENTITY_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
+        </div>
+      ) : filteredEntries.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-12 text-center">
+          <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Sin cambios registrados</h3>
+          <p className="text-gray-500">No hay cambios que coincidan con los filtros en este periodo.</p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md divide-y divide-gray-200">
+          {filteredEntries.map(entry => {
+            const changes = Object.entries(entry.changes || {});
+            const isExpanded = expandedId === entry.id;
+            return (
+              <div key={entry.id} className="p-4">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                  className="w-full flex items-start text-left"
+                  disabled={changes.length === 0}
+                >
+                  {changes.length > 0 ? (
+                    isExpanded
+                      ? <ChevronDown className="h-4 w-4 text-gray-400 mt-1 mr-2 flex-shrink-0" />
+                      : <ChevronRight className="h-4 w-4 text-gray-400 mt-1 mr-2 flex-shrink-0" />
+                  ) : (
+                    <span className="w-4 mr-2 flex-shrink-0" />
+                  )}
+                  <div className="flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${ACTION_STYLES[entry.action]}`}>
+                        {ACTION_LABELS[entry.action]}
+                      </span>
+                      <span className="text-sm font-medium text-gray-900">
+                        {ENTITY_LABELS[entry.entityType]}{entry.entityLabel ? `: ${entry.entityLabel}` : ''}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {entry.actorName} · {format(new Date(entry.createdAt), "d MMM yyyy, HH:mm:ss", { locale: es })}
+                      {entry.summary ? ` · ${entry.summary}` : ''}
+                    </p>
+                  </div>
+                </button>
+
+                {isExpanded && (
+                  <div className="mt-3 ml-6 overflow-x-auto">
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-500 uppercase">
+                          <th className="py-1 pr-4">Campo</th>
+                          <th className="py-1 pr-4">Antes</th>
+                          <th className="py-1">Después</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {changes.map(([field, change]) => (
+                          <tr key={field} className="align-top">
+                            <td className="py-1 pr-4 font-mono text-gray-700">{field}</td>
+                            <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                            <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <p className="mt-2 text-xs text-gray-400 font-mono">{entry.entityPath}</p>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
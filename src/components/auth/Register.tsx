@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { getInvitationCodeFromUrl } from '../../utils/invitationService';
 import { Eye, EyeOff, UserPlus } from 'lucide-react';
 import MakeAgendLogo from '../../assets/images/MakeAgend.png';
 
@@ -12,8 +13,9 @@ export const Register: React.FC<RegisterProps> = ({ onToggleMode }) => {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [fullName, setFullName] = useState('');
-  const [role, setRole] = useState<'owner' | 'assistant'>('owner');
-  const [businessKey, setBusinessKey] = useState('');
+  // Quien llega con un enlace de invitación se registra como asistente
+  const [joinCode, setJoinCode] = useState(() => (getInvitationCodeFromUrl() || '').toUpperCase());
+  const [role, setRole] = useState<'owner' | 'assistant'>(() => getInvitationCodeFromUrl() ? 'assistant' : 'owner');
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -40,15 +42,15 @@ export const Register: React.FC<RegisterProps> = ({ onToggleMode }) => {
       return;
     }
 
-    if (role === 'assistant' && !businessKey.trim()) {
-      setError('La clave del negocio es requerida para asistentes');
+    if (role === 'assistant' && !joinCode.trim()) {
+      setError('El código de invitación es requerido para asistentes');
       return;
     }
 
     setLoading(true);
 
     try {
-      await register(email, password, fullName.trim(), role, role === 'assistant' ? businessKey.trim() : undefined);
+      await register(email, password, fullName.trim(), role, role === 'assistant' ? joinCode.trim() : undefined);
     } catch (error: any) {
       setError(error.message || 'Error al registrar usuario');
     } finally {
@@ -131,22 +133,22 @@ export const Register: React.FC<RegisterProps> = ({ onToggleMode }) => {
 
             {role === 'assistant' && (
               <div>
-                <label htmlFor="businessKey" className="block text-sm font-medium text-gray-700">
-                  Clave del Negocio
+                <label htmlFor="joinCode" className="block text-sm font-medium text-gray-700">
+                  Código de invitación
                 </label>
                 <input
-                  id="businessKey"
-                  name="businessKey"
+                  id="joinCode"
+                  name="joinCode"
                   type="text"
                   required
                   maxLength={16}
                   className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm placeholder-gray-400 focus:outline-none focus:ring-pink-500 focus:border-pink-500"
-                  placeholder="Ingresa la clave proporcionada por el dueño"
-                  value={businessKey}
-                  onChange={(e) => setBusinessKey(e.target.value.toUpperCase())}
+                  placeholder="Ingresa el código proporcionado por el dueño"
+                  value={joinCode}
+                  onChange={(e) => setJoinCode(e.target.value.toUpperCase())}
                 />
                 <p className="mt-1 text-xs text-gray-500">
-                  Solicita esta clave al propietario del negocio
+                  Solicita una invitación al propietario del negocio (también se acepta la clave del negocio)
                 </p>
               </div>
             )}
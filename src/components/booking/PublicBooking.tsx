@@ -0,0 +1,325 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Calendar, Clock, CheckCircle, ArrowLeft, MapPin, Phone } from 'lucide-react';
+import { bookingService } from '../../utils/bookingService';
+import type { PublicBusiness } from '../../utils/bookingService';
+import { getAvailableSlots, timeToMinutes } from '../../utils/availabilityEngine';
+import type { AvailableSlot } from '../../utils/availabilityEngine';
+import { isValidPhone } from '../../utils/phone';
+import type { Service } from '../../types';
+
+export const PublicBooking: React.FC = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const [publicBusiness, setPublicBusiness] = useState<PublicBusiness | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selectedService, setSelectedService] = useState<Service | null>(null);
+  const [selectedDate, setSelectedDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [slots, setSlots] = useState<AvailableSlot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [selectedSlot, setSelectedSlot] = useState<AvailableSlot | null>(null);
+  const [formData, setFormData] = useState({ name: '', phone: '', email: '', notes: '' });
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+  const [confirmed, setConfirmed] = useState(false);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  useEffect(() => {
+    const loadBusiness = async () => {
+      if (!slug) return;
+      try {
+        const result = await bookingService.getBusinessBySlug(slug);
+        setPublicBusiness(result);
+      } catch (error) {
+        console.error('Error loading business:', error);
+        setPublicBusiness(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadBusiness();
+  }, [slug]);
+
+  useEffect(() => {
+    const loadSlots = async () => {
+      if (!publicBusiness || !selectedService || !selectedDate) {
+        setSlots([]);
+        return;
+      }
+
+      setLoadingSlots(true);
+      setSelectedSlot(null);
+      try {
+        const appointments = await bookingService.getAppointmentsForDate(publicBusiness.business.id, selectedDate);
+        let available = getAvailableSlots(publicBusiness.business, selectedService, appointments, selectedDate);
+
+        // No ofrecer horarios que ya pasaron el día de hoy
+        if (selectedDate === today) {
+          const now = new Date();
+          const currentMinutes = now.getHours() * 60 + now.getMinutes();
+          available = available.filter(slot => timeToMinutes(slot.startTime) > currentMinutes);
+        }
+
+        setSlots(available);
+      } catch (error) {
+        console.error('Error loading slots:', error);
+        setSlots([]);
+      } finally {
+        setLoadingSlots(false);
+      }
+    };
+
+    loadSlots();
+  }, [publicBusiness, selectedService, selectedDate, today]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!publicBusiness || !selectedService || !selectedSlot) return;
+
+    if (!formData.name.trim()) {
+      setError('Por favor ingresa tu nombre');
+      return;
+    }
+
+    if (!isValidPhone(formData.phone)) {
+      setError('Por favor ingresa un teléfono válido');
+      return;
+    }
+
+    setSubmitting(true);
+    setError('');
+    try {
+      await bookingService.createBooking({
+        businessId: publicBusiness.business.id,
+        serviceId: selectedService.id,
+        date: selectedDate,
+        startTime: selectedSlot.startTime,
+        endTime: selectedSlot.endTime,
+        name: formData.name,
+        phone: formData.phone,
+        email: formData.email,
+        notes: formData.notes
+      });
+      setConfirmed(true);
+    } catch (error) {
+      setError((error as Error).message || 'No se pudo completar la reserva');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-pink-50 to-purple-50">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500 mx-auto mb-4"></div>
+          <p className="text-gray-600">Cargando...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!publicBusiness) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-pink-50 to-purple-50 px-4">
+        <div className="bg-white rounded-lg shadow-sm p-8 max-w-md text-center">
+          <Calendar className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">Página no disponible</h1>
+          <p className="text-gray-600">Este negocio no existe o no tiene activadas las reservas en línea.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { business, services } = publicBusiness;
+
+  if (confirmed && selectedService && selectedSlot) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-pink-50 to-purple-50 px-4">
+        <div className="bg-white rounded-lg shadow-sm p-8 max-w-md text-center">
+          <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          <h1 className="text-xl font-semibold text-gray-900 mb-2">¡Solicitud enviada!</h1>
+          <p className="text-gray-600 mb-4">
+            Tu cita de <strong>{selectedService.name}</strong> el {selectedDate} a las {selectedSlot.startTime} quedó
+            registrada como pendiente. {business.name} se pondrá en contacto contigo para confirmarla.
+          </p>
+          <button
+            onClick={() => {
+              setConfirmed(false);
+              setSelectedSlot(null);
+              setSelectedService(null);
+              setFormData({ name: '', phone: '', email: '', notes: '' });
+            }}
+            className="text-pink-600 hover:text-pink-500 text-sm font-medium"
+          >
+            Reservar otra cita
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 to-purple-50 py-8 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Encabezado del negocio */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h1 className="text-2xl font-bold text-gray-900">{business.name}</h1>
+          {business.description && <p className="text-gray-600 mt-1">{business.description}</p>}
+          <div className="flex flex-wrap gap-4 mt-3 text-sm text-gray-500">
+            {business.address && (
+              <span className="flex items-center"><MapPin className="h-4 w-4 mr-1" />{business.address}</span>
+            )}
+            {business.phone && (
+              <span className="flex items-center"><Phone className="h-4 w-4 mr-1" />{business.phone}</span>
+            )}
+          </div>
+        </div>
+
+        {!selectedService ? (
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Elige un servicio</h2>
+            {services.length === 0 ? (
+              <p className="text-gray-500">Este negocio no tiene servicios disponibles por el momento.</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {services.map(service => (
+                  <button
+                    key={service.id}
+                    onClick={() => setSelectedService(service)}
+                    className="text-left border border-gray-200 rounded-lg p-4 hover:border-pink-500 hover:bg-pink-50 transition-colors"
+                  >
+                    <p className="font-medium text-gray-900">{service.name}</p>
+                    <p className="text-sm text-gray-500 flex items-center mt-1">
+                      <Clock className="h-4 w-4 mr-1" />{service.duration} min
+                      {service.price ? ` · $${service.price}` : ''}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm p-6 space-y-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-500">Servicio</p>
+                <p className="font-medium text-gray-900">{selectedService.name} ({selectedService.duration} min)</p>
+              </div>
+              <button
+                onClick={() => setSelectedService(null)}
+                className="flex items-center text-sm text-pink-600 hover:text-pink-500"
+              >
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Cambiar
+              </button>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Fecha</label>
+              <input
+                type="date"
+                min={today}
+                value={selectedDate}
+                onChange={(e) => setSelectedDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+              />
+            </div>
+
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-2">Horarios disponibles</p>
+              {loadingSlots ? (
+                <p className="text-sm text-gray-500">Buscando horarios...</p>
+              ) : slots.length === 0 ? (
+                <p className="text-sm text-gray-500">No hay horarios disponibles para esta fecha. Prueba con otro día.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {slots.map(slot => (
+                    <button
+                      key={slot.startTime}
+                      type="button"
+                      onClick={() => setSelectedSlot(slot)}
+                      className={`px-3 py-1.5 text-sm rounded-md border ${
+                        selectedSlot?.startTime === slot.startTime
+                          ? 'bg-pink-600 text-white border-pink-600'
+                          : 'border-gray-300 text-gray-700 hover:border-pink-500'
+                      }`}
+                    >
+                      {slot.startTime}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {selectedSlot && (
+              <form onSubmit={handleSubmit} className="space-y-4 border-t border-gray-200 pt-4">
+                <p className="text-sm text-gray-600">
+                  {selectedDate} de {selectedSlot.startTime} a {selectedSlot.endTime}
+                </p>
+
+                {error && (
+                  <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                    <p className="text-red-600 text-sm">{error}</p>
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Nombre completo *</label>
+                  <input
+                    type="text"
+                    required
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Teléfono *</label>
+                  <input
+                    type="tel"
+                    required
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Correo electrónico</label>
+                  <input
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+                  <textarea
+                    rows={2}
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                  />
+                </div>
+
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="w-full py-2 px-4 text-sm font-medium rounded-md text-white bg-pink-600 hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {submitting ? 'Enviando...' : 'Solicitar cita'}
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
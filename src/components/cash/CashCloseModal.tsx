@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import type { CashReconciliation, CashSession, PaymentMethod } from '../../types';
+import { PAYMENT_METHODS, sumAmounts } from '../../utils/cashRegister';
+import { PAYMENT_METHOD_LABELS, formatMoney, roundMoney } from '../../utils/payments';
+import { X, Lock, AlertCircle } from 'lucide-react';
+
+interface CashCloseModalProps {
+  session: CashSession;
+  expected: Record<PaymentMethod, number>;
+  onClose: () => void;
+  onConfirm: (counted: Record<PaymentMethod, number>, notes: string) => Promise<CashReconciliation>;
+}
+
+const differenceClass = (difference: number) => {
+  if (difference === 0) return 'text-green-600';
+  return difference > 0 ? 'text-blue-600' : 'text-red-600';
+};
+
+export const CashCloseModal: React.FC<CashCloseModalProps> = ({ session, expected, onClose, onConfirm }) => {
+  const [counted, setCounted] = useState<Record<PaymentMethod, string>>({ cash: '', card: '', transfer: '' });
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const countedAmounts = Object.fromEntries(
+    PAYMENT_METHODS.map(method => [method, Math.max(0, parseFloat(counted[method]) || 0)])
+  ) as Record<PaymentMethod, number>;
+  const totalDifference = roundMoney(sumAmounts(countedAmounts) - sumAmounts(expected));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (totalDifference !== 0 && !notes.trim()) {
+      setError('Explica la diferencia en las observaciones antes de cerrar');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onConfirm(countedAmounts, notes);
+      onClose();
+    } catch (error) {
+      setError((error as Error).message || 'Error al cerrar la caja');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Cerrar caja</h2>
+            <p className="text-sm text-gray-500">Fondo inicial: {formatMoney(session.openingFloat)}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 flex">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            Cuenta el efectivo (incluido el fondo) y suma los comprobantes de tarjeta y transferencias.
+          </p>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="pb-2 font-medium">Método</th>
+                <th className="pb-2 font-medium text-right">Esperado</th>
+                <th className="pb-2 font-medium text-right">Contado</th>
+                <th className="pb-2 font-medium text-right">Diferencia</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {PAYMENT_METHODS.map(method => {
+                const difference = roundMoney(countedAmounts[method] - expected[method]);
+                return (
+                  <tr key={method}>
+                    <td className="py-2 text-gray-900">{PAYMENT_METHOD_LABELS[method]}</td>
+                    <td className="py-2 text-right">{formatMoney(expected[method])}</td>
+                    <td className="py-2 pl-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        required
+                        className="w-full px-2 py-1 border border-gray-300 rounded-md text-right focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                        value={counted[method]}
+                        onChange={(e) => setCounted({ ...counted, [method]: e.target.value })}
+                      />
+                    </td>
+                    <td className={`py-2 text-right font-medium ${differenceClass(difference)}`}>{formatMoney(difference)}</td>
+                  </tr>
+                );
+              })}
+              <tr className="font-semibold">
+                <td className="py-2">Total</td>
+                <td className="py-2 text-right">{formatMoney(sumAmounts(expected))}</td>
+                <td className="py-2 text-right">{formatMoney(sumAmounts(countedAmounts))}</td>
+                <td className={`py-2 text-right ${differenceClass(totalDifference)}`}>{formatMoney(totalDifference)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Observaciones</label>
+            <textarea
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+              placeholder="Faltantes, sobrantes o comprobantes pendientes..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex items-center px-6 py-2 bg-pink-600 text-white rounded-md hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Lock className="h-4 w-4 mr-2" />
+              {loading ? 'Cerrando...' : 'Cerrar caja'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,468 @@
+import React, { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import { useAuth } from '../../contexts/AuthContext';
+import { useBusinessData } from '../../hooks/useBusinessData';
+import { usePermissions } from '../../hooks/usePermissions';
+import { useCashSessionDetail, useCashSessions, useOpenCashSession } from '../../hooks/useCashRegister';
+import { cashMovementRepository, paymentRepository } from '../../storage';
+import type { CashMovementType, CashSession, PaymentMethod } from '../../types';
+import {
+  CASH_MOVEMENT_LABELS,
+  PAYMENT_METHODS,
+  createCashReportPdf,
+  describeCashPayment,
+  getCashReportFileName,
+  sumAmounts
+} from '../../utils/cashRegister';
+import { PAYMENT_METHOD_LABELS, formatMoney } from '../../utils/payments';
+import { getWindowAroundToday } from '../../utils/dateWindow';
+import { CashCloseModal } from './CashCloseModal';
+import { Wallet, Plus, Minus, DollarSign, Lock, Printer, AlertCircle } from 'lucide-react';
+
+const formatTime = (date: string) => format(new Date(date), 'HH:mm');
+const formatDateTime = (date: string) => format(new Date(date), "d MMM yyyy, HH:mm", { locale: es });
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500';
+
+export const CashRegister: React.FC = () => {
+  const { currentUser, currentBusiness } = useAuth();
+  const { canOperateCashRegister, canManageCashRegister, getRestrictionMessage } = usePermissions();
+
+  // Determinar el businessId según el rol del usuario
+  const businessId = currentUser?.role === 'owner'
+    ? currentUser?.businessId
+    : currentBusiness;
+
+  const {
+    business,
+    clients,
+    openCashSession,
+    addCashMovement,
+    addStandalonePayment,
+    closeCashSession
+  } = useBusinessData(businessId || undefined);
+
+  const { session, loading } = useOpenCashSession(businessId || undefined, currentUser?.uid);
+  const { payments, movements, expected } = useCashSessionDetail(businessId || undefined, session);
+  // Historial de cortes del último mes
+  const historyWindow = useMemo(() => getWindowAroundToday({ days: 30 }, {}), []);
+  const { sessions: history } = useCashSessions(businessId || undefined, historyWindow);
+
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [activeForm, setActiveForm] = useState<'movement' | 'sale' | null>(null);
+  const [movementForm, setMovementForm] = useState({ type: 'in' as CashMovementType, amount: '', reason: '' });
+  const [saleForm, setSaleForm] = useState({ concept: '', amount: '', method: 'cash' as PaymentMethod, clientId: '' });
+  // Caja a cerrar: la propia o, para administradores, la que otro dejó abierta
+  const [closing, setClosing] = useState<CashSession | null>(null);
+  const { expected: closingExpected, loading: closingLoading } = useCashSessionDetail(businessId || undefined, closing);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Los demás ven solo sus propios cortes; administradores y propietario ven todos,
+  // incluidas las cajas que otros siguen teniendo abiertas
+  const visibleHistory = history.filter(item =>
+    item.id !== session?.id && (canManageCashRegister || (item.status === 'closed' && item.openedBy === currentUser?.uid))
+  );
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    setSaving(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      setError((error as Error).message || 'Error al guardar');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpen = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await run(() => openCashSession(Math.max(0, parseFloat(openingFloat) || 0)))) {
+      setOpeningFloat('');
+    }
+  };
+
+  const handleMovement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+    const saved = await run(() => addCashMovement(session, {
+      type: movementForm.type,
+      amount: parseFloat(movementForm.amount) || 0,
+      reason: movementForm.reason
+    }));
+    if (saved) {
+      setMovementForm({ type: 'in', amount: '', reason: '' });
+      setActiveForm(null);
+    }
+  };
+
+  const handleSale = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!session) return;
+    const saved = await run(() => addStandalonePayment(session, {
+      concept: saleForm.concept,
+      amount: parseFloat(saleForm.amount) || 0,
+      method: saleForm.method,
+      clientId: saleForm.clientId || undefined
+    }));
+    if (saved) {
+      setSaleForm({ concept: '', amount: '', method: 'cash', clientId: '' });
+      setActiveForm(null);
+    }
+  };
+
+  // Abre el PDF del corte para imprimirlo; si el navegador bloquea la ventana, se descarga
+  const handlePrint = async (target: CashSession) => {
+    if (!businessId || !business) return;
+    setError('');
+    try {
+      const [sessionPayments, sessionMovements] = await Promise.all([
+        paymentRepository.findBy(businessId, 'sessionId', target.id),
+        cashMovementRepository.findBy(businessId, 'sessionId', target.id)
+      ]);
+      const blob = createCashReportPdf({
+        business,
+        session: target,
+        payments: sessionPayments,
+        movements: sessionMovements,
+        clients
+      });
+      const url = URL.createObjectURL(blob);
+      if (!window.open(url, '_blank')) {
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = getCashReportFileName(target);
+        link.click();
+      }
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (error) {
+      setError((error as Error).message || 'Error al generar el corte');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <Wallet className="h-6 w-6 text-pink-600 mr-2" />
+          <h1 className="text-2xl font-bold text-gray-900">Caja</h1>
+        </div>
+        {session && (
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => handlePrint(session)}
+              className="flex items-center px-4 py-2 text-pink-600 hover:bg-pink-50 rounded-lg transition-colors"
+            >
+              <Printer className="h-4 w-4 mr-2" />
+              Imprimir
+            </button>
+            <button
+              onClick={() => setClosing(session)}
+              className="flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors"
+            >
+              <Lock className="h-4 w-4 mr-2" />
+              Cerrar caja
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3 flex">
+          <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {!canOperateCashRegister ? (
+        <div className="bg-white rounded-lg shadow p-8 text-center text-gray-500">
+          {getRestrictionMessage('canOperateCashRegister')}
+        </div>
+      ) : !session ? (
+        <form onSubmit={handleOpen} className="bg-white rounded-lg shadow p-6 max-w-md">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Abrir caja</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            Los cobros que registres mientras la caja esté abierta se suman a tu corte.
+          </p>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Fondo inicial en efectivo</label>
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            required
+            className={inputClass}
+            value={openingFloat}
+            onChange={(e) => setOpeningFloat(e.target.value)}
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="mt-4 flex items-center px-6 py-2 bg-pink-600 text-white rounded-md hover:bg-pink-700 disabled:opacity-50"
+          >
+            <Wallet className="h-4 w-4 mr-2" />
+            {saving ? 'Abriendo...' : 'Abrir caja'}
+          </button>
+        </form>
+      ) : (
+        <>
+          {/* Resumen del turno */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="bg-white rounded-lg shadow p-4">
+              <p className="text-xs sm:text-sm text-gray-600">Abierta a las {formatTime(session.openedAt)}</p>
+              <p className="text-sm text-gray-500">Fondo: {formatMoney(session.openingFloat)}</p>
+            </div>
+            {PAYMENT_METHODS.map(method => (
+              <div key={method} className="bg-white rounded-lg shadow p-4">
+                <p className="text-xs sm:text-sm text-gray-600">{PAYMENT_METHOD_LABELS[method]} esperado</p>
+                <p className="text-xl font-bold text-pink-600">{formatMoney(expected[method])}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setActiveForm(activeForm === 'sale' ? null : 'sale')}
+              className="flex items-center px-4 py-2 bg-white border border-gray-300 rounded-lg hover:border-pink-500 text-sm"
+            >
+              <DollarSign className="h-4 w-4 mr-2 text-pink-600" />
+              Cobro sin cita
+            </button>
+            <button
+              onClick={() => setActiveForm(activeForm === 'movement' ? null : 'movement')}
+              className="flex items-center px-4 py-2 bg-white border border-gray-300 rounded-lg hover:border-pink-500 text-sm"
+            >
+              <Plus className="h-4 w-4 mr-1 text-green-600" />
+              <Minus className="h-4 w-4 mr-2 text-red-600" />
+              Entrada o salida de efectivo
+            </button>
+          </div>
+
+          {activeForm === 'sale' && (
+            <form onSubmit={handleSale} className="bg-white rounded-lg shadow p-4 grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Concepto</label>
+                <input
+                  type="text"
+                  required
+                  placeholder="Venta de producto, anticipo..."
+                  className={inputClass}
+                  value={saleForm.concept}
+                  onChange={(e) => setSaleForm({ ...saleForm, concept: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Importe</label>
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  required
+                  className={inputClass}
+                  value={saleForm.amount}
+                  onChange={(e) => setSaleForm({ ...saleForm, amount: e.target.value })}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Método</label>
+                <select
+                  className={inputClass}
+                  value={saleForm.method}
+                  onChange={(e) => setSaleForm({ ...saleForm, method: e.target.value as PaymentMethod })}
+                >
+                  {PAYMENT_METHODS.map(method => (
+                    <option key={method} value={method}>{PAYMENT_METHOD_LABELS[method]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+                <select
+                  className={inputClass}
+                  value={saleForm.clientId}
+                  onChange={(e) => setSaleForm({ ...saleForm, clientId: e.target.value })}
+                >
+                  <option value="">Sin cliente</option>
+                  {clients.map(client => (
+                    <option key={client.id} value={client.id}>{client.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-5 flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-6 py-2 bg-pink-600 text-white rounded-md hover:bg-pink-700 disabled:opacity-50"
+                >
+                  {saving ? 'Guardando...' : 'Registrar cobro'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {activeForm === 'movement' && (
+            <form onSubmit={handleMovement} className="bg-white rounded-lg shadow p-4 grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Tipo</label>
+                <select
+                  className={inputClass}
+                  value={movementForm.type}
+                  onChange={(e) => setMovementForm({ ...movementForm, type: e.target.value as CashMovementType })}
+                >
+                  <option value="in">Entrada de efectivo</option>
+                  <option value="out">Salida de efectivo</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Importe</label>
+                <input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  required
+                  className={inputClass}
+                  value={movementForm.amount}
+                  onChange={(e) => setMovementForm({ ...movementForm, amount: e.target.value })}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Motivo</label>
+                <input
+                  type="text"
+                  required
+                  placeholder="Cambio, compra de insumos, retiro..."
+                  className={inputClass}
+                  value={movementForm.reason}
+                  onChange={(e) => setMovementForm({ ...movementForm, reason: e.target.value })}
+                />
+              </div>
+              <div className="md:col-span-4 flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-6 py-2 bg-pink-600 text-white rounded-md hover:bg-pink-700 disabled:opacity-50"
+                >
+                  {saving ? 'Guardando...' : 'Registrar movimiento'}
+                </button>
+              </div>
+            </form>
+          )}
+
+          {/* Actividad del turno */}
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+              <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-4">Cobros ({payments.length})</h3>
+              {payments.length === 0 ? (
+                <p className="text-sm text-gray-500">Aún no hay cobros en esta caja.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {[...payments].sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(payment => (
+                    <li key={payment.id} className="flex justify-between py-2">
+                      <span className="text-gray-700 min-w-0 truncate">
+                        {formatTime(payment.createdAt)} · {describeCashPayment(payment, clients)}
+                      </span>
+                      <span className="flex-shrink-0 ml-2">
+                        <span className="text-gray-500 mr-2">{PAYMENT_METHOD_LABELS[payment.method]}</span>
+                        <span className="font-medium">{formatMoney(payment.amount)}</span>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+              <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-4">Movimientos de efectivo ({movements.length})</h3>
+              {movements.length === 0 ? (
+                <p className="text-sm text-gray-500">Sin entradas ni salidas manuales.</p>
+              ) : (
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {[...movements].sort((a, b) => b.createdAt.localeCompare(a.createdAt)).map(movement => (
+                    <li key={movement.id} className="flex justify-between py-2">
+                      <span className="text-gray-700 min-w-0 truncate">
+                        {formatTime(movement.createdAt)} · {CASH_MOVEMENT_LABELS[movement.type]}: {movement.reason}
+                      </span>
+                      <span className={`flex-shrink-0 ml-2 font-medium ${movement.type === 'in' ? 'text-green-600' : 'text-red-600'}`}>
+                        {formatMoney(movement.type === 'in' ? movement.amount : -movement.amount)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* Cortes anteriores */}
+      <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+        <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-4">Cajas de los últimos 30 días</h3>
+        {visibleHistory.length === 0 ? (
+          <p className="text-sm text-gray-500">No hay otras cajas en este periodo.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 text-sm">
+            {visibleHistory.map(item => {
+              const difference = item.reconciliation ? sumAmounts(item.reconciliation.difference) : 0;
+              return (
+                <li key={item.id} className="flex items-center justify-between py-2 gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">{formatDateTime(item.openedAt)} · {item.openedByName}</p>
+                    {item.reconciliation ? (
+                      <p className="text-xs text-gray-500">
+                        Contado {formatMoney(sumAmounts(item.reconciliation.counted))} ·
+                        {' '}
+                        <span className={difference === 0 ? 'text-green-600' : 'text-red-600'}>
+                          diferencia {formatMoney(difference)}
+                        </span>
+                      </p>
+                    ) : (
+                      <p className="text-xs text-yellow-700">Caja abierta</p>
+                    )}
+                  </div>
+                  {item.status === 'open' ? (
+                    <button
+                      onClick={() => setClosing(item)}
+                      className="flex items-center px-3 py-1 text-pink-600 hover:bg-pink-50 rounded-md flex-shrink-0"
+                    >
+                      <Lock className="h-4 w-4 mr-1" />
+                      Cerrar
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handlePrint(item)}
+                      className="flex items-center px-3 py-1 text-pink-600 hover:bg-pink-50 rounded-md flex-shrink-0"
+                    >
+                      <Printer className="h-4 w-4 mr-1" />
+                      Imprimir
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+
+      {closing && !closingLoading && (
+        <CashCloseModal
+          session={closing}
+          expected={closingExpected}
+          onClose={() => setClosing(null)}
+          onConfirm={(counted, notes) => closeCashSession(closing, counted, notes)}
+        />
+      )}
+    </div>
+  );
+};
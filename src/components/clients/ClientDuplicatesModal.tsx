@@ -0,0 +1,295 @@
+import React, { useState, useMemo } from 'react';
+import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAuth } from '../../contexts/AuthContext';
+import { appointmentRepository, recordRepository } from '../../storage';
+import type { Client } from '../../types';
+import { expandSeries } from '../../utils/recurrence';
+import {
+  CLIENT_MERGE_FIELDS,
+  buildMergedClient,
+  findDuplicateClients,
+  getDefaultMergeSelections
+} from '../../utils/clientDuplicates';
+import type { ClientDuplicatePair, ClientMergeSelections, DuplicateReason } from '../../utils/clientDuplicates';
+import { X, Users, GitMerge, ArrowLeft } from 'lucide-react';
+
+interface ClientDuplicatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Mismo teléfono',
+  email: 'Mismo email',
+  name: 'Nombre parecido'
+};
+
+const formatValue = (value: Client[keyof Client]) => {
+  if (value === undefined || value === '') return '—';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+export const ClientDuplicatesModal: React.FC<ClientDuplicatesModalProps> = ({ isOpen, onClose }) => {
+  const { currentUser, currentBusiness } = useAuth();
+
+  // Determinar el businessId según el rol del usuario
+  const businessId = currentUser?.role === 'owner'
+    ? currentUser?.businessId
+    : currentBusiness;
+
+  const { clients, appointmentSeries, mergeClients } = useBusinessData(businessId || undefined);
+
+  const [selectedPair, setSelectedPair] = useState<ClientDuplicatePair | null>(null);
+  const [survivorId, setSurvivorId] = useState('');
+  const [selections, setSelections] = useState<ClientMergeSelections | null>(null);
+  const [merging, setMerging] = useState(false);
+  const [error, setError] = useState('');
+  // Citas y expedientes de los dos clientes del par elegido
+  const [activityCounts, setActivityCounts] = useState<Record<string, { appointments: number; records: number }>>({});
+
+  const pairs = useMemo(() => (isOpen ? findDuplicateClients(clients) : []), [isOpen, clients]);
+
+  if (!isOpen) return null;
+
+  const survivor = selectedPair && (selectedPair.clientA.id === survivorId ? selectedPair.clientA : selectedPair.clientB);
+  const merged = selectedPair && (selectedPair.clientA.id === survivorId ? selectedPair.clientB : selectedPair.clientA);
+
+  const getActivityCount = (clientId: string) => activityCounts[clientId] || { appointments: 0, records: 0 };
+
+  const loadActivityCount = async (clientId: string) => {
+    const [appointments, records] = await Promise.all([
+      appointmentRepository.findBy(businessId!, 'clientId', clientId),
+      recordRepository.findBy(businessId!, 'clientId', clientId)
+    ]);
+    const occurrences = appointmentSeries.filter(series => series.clientId === clientId).flatMap(expandSeries);
+    return { appointments: appointments.length + occurrences.length, records: records.length };
+  };
+
+  // Por defecto se conserva el cliente con más historial
+  const handleSelectPair = async (pair: ClientDuplicatePair) => {
+    let countA, countB;
+    try {
+      [countA, countB] = await Promise.all([loadActivityCount(pair.clientA.id), loadActivityCount(pair.clientB.id)]);
+    } catch (error) {
+      setError((error as Error).message || 'Error al cargar el historial de los clientes');
+      return;
+    }
+    setActivityCounts({ [pair.clientA.id]: countA, [pair.clientB.id]: countB });
+    const keepA = countA.appointments + countA.records >= countB.appointments + countB.records;
+    const keep = keepA ? pair.clientA : pair.clientB;
+    const other = keepA ? pair.clientB : pair.clientA;
+
+    setSelectedPair(pair);
+    setSurvivorId(keep.id);
+    setSelections(getDefaultMergeSelections(keep, other));
+    setError('');
+  };
+
+  const handleChangeSurvivor = (clientId: string) => {
+    if (!selectedPair) return;
+    const keep = selectedPair.clientA.id === clientId ? selectedPair.clientA : selectedPair.clientB;
+    const other = selectedPair.clientA.id === clientId ? selectedPair.clientB : selectedPair.clientA;
+    setSurvivorId(clientId);
+    setSelections(getDefaultMergeSelections(keep, other));
+  };
+
+  const handleMerge = async () => {
+    if (!survivor || !merged || !selections) return;
+    if (!confirm(`¿Fusionar "${merged.name}" en "${survivor.name}"? El cliente "${merged.name}" se eliminará y su historial pasará al cliente conservado.`)) return;
+
+    setMerging(true);
+    setError('');
+    try {
+      await mergeClients(survivor.id, merged.id, buildMergedClient(survivor, merged, selections), currentUser!.uid);
+      setSelectedPair(null);
+    } catch (error) {
+      setError((error as Error).message || 'Error al fusionar los clientes');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const handleClose = () => {
+    setSelectedPair(null);
+    setError('');
+    onClose();
+  };
+
+  const mergedActivity = merged ? getActivityCount(merged.id) : null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div className="flex items-center">
+            {selectedPair && (
+              <button onClick={() => setSelectedPair(null)} className="mr-3 text-gray-400 hover:text-gray-600">
+                <ArrowLeft className="h-5 w-5" />
+              </button>
+            )}
+            <h2 className="text-xl font-semibold text-gray-900">
+              {selectedPair ? 'Fusionar Clientes' : 'Clientes Duplicados'}
+            </h2>
+          </div>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {!selectedPair && (
+            pairs.length === 0 ? (
+              <div className="text-center py-8">
+                <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+                <p className="text-gray-500">No se encontraron clientes duplicados</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {pairs.map(pair => (
+                  <div
+                    key={`${pair.clientA.id}-${pair.clientB.id}`}
+                    className="flex items-center justify-between p-4 border border-gray-200 rounded-lg"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {pair.clientA.name} <span className="text-gray-400">/</span> {pair.clientB.name}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {pair.clientA.phone} · {pair.clientB.phone}
+                      </p>
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {pair.reasons.map(reason => (
+                          <span key={reason} className="px-2 py-0.5 text-xs rounded-full bg-pink-100 text-pink-700">
+                            {REASON_LABELS[reason]}
+                          </span>
+                        ))}
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-700">
+                          Coincidencia {pair.score}%
+                        </span>
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleSelectPair(pair)}
+                      className="flex items-center ml-4 px-3 py-2 text-sm bg-pink-600 text-white rounded-lg hover:bg-pink-700"
+                    >
+                      <GitMerge className="h-4 w-4 mr-1" />
+                      Revisar
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+
+          {selectedPair && survivor && merged && selections && (
+            <div className="space-y-4">
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Cliente que se conserva</p>
+                <div className="grid grid-cols-2 gap-3">
+                  {[selectedPair.clientA, selectedPair.clientB].map(client => {
+                    const activity = getActivityCount(client.id);
+                    return (
+                      <label
+                        key={client.id}
+                        className={`p-3 border rounded-lg cursor-pointer ${
+                          survivorId === client.id ? 'border-pink-500 bg-pink-50' : 'border-gray-200'
+                        }`}
+                      >
+                        <input
+                          type="radio"
+                          name="survivor"
+                          checked={survivorId === client.id}
+                          onChange={() => handleChangeSurvivor(client.id)}
+                          className="h-4 w-4 text-pink-600 focus:ring-pink-500 mr-2"
+                        />
+                        <span className="text-sm font-medium text-gray-900">{client.name}</span>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {activity.appointments} cita{activity.appointments !== 1 ? 's' : ''} · {activity.records} expediente{activity.records !== 1 ? 's' : ''}
+                        </p>
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">Datos que se conservan</p>
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <tbody className="divide-y divide-gray-200">
+                    {CLIENT_MERGE_FIELDS.map(({ field, label }) => (
+                      <tr key={field}>
+                        <td className="py-2 pr-3 font-medium text-gray-500">{label}</td>
+                        {[survivor, merged].map(client => (
+                          <td key={client.id} className="py-2 pr-3">
+                            <label className="flex items-center text-gray-900">
+                              <input
+                                type="radio"
+                                name={`field-${field}`}
+                                checked={selections[field] === client.id}
+                                onChange={() => setSelections({ ...selections, [field]: client.id })}
+                                className="h-4 w-4 text-pink-600 focus:ring-pink-500 mr-2"
+                              />
+                              {formatValue(client[field])}
+                            </label>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                    <tr>
+                      <td className="py-2 pr-3 font-medium text-gray-500">Alergias</td>
+                      <td colSpan={2} className="py-2 text-gray-900">
+                        {formatValue(buildMergedClient(survivor, merged, selections).allergies)} (se combinan)
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+
+              {mergedActivity && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+                  Se moverán {mergedActivity.appointments} cita{mergedActivity.appointments !== 1 ? 's' : ''} y{' '}
+                  {mergedActivity.records} expediente{mergedActivity.records !== 1 ? 's' : ''} de "{merged.name}" a "{survivor.name}",
+                  y "{merged.name}" se eliminará.
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+          {selectedPair ? (
+            <>
+              <button
+                onClick={() => setSelectedPair(null)}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={handleMerge}
+                disabled={merging}
+                className="flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <GitMerge className="h-4 w-4 mr-2" />
+                {merging ? 'Fusionando...' : 'Fusionar'}
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              Cerrar
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
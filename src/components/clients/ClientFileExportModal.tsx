@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import type { Appointment, Business, Client, DigitalRecord, Provider, Service } from '../../types';
+import {
+  CLIENT_FILE_SECTIONS,
+  createClientFilePdf,
+  getClientFileName,
+  isWithinPeriod,
+  type ClientFileSection
+} from '../../utils/clientFile';
+import { X, Download } from 'lucide-react';
+
+interface ClientFileExportModalProps {
+  client: Client;
+  business: Business;
+  records: DigitalRecord[];
+  appointments: Appointment[];
+  services: Service[];
+  providers: Provider[];
+  generatedBy?: string;
+  onClose: () => void;
+}
+
+export const ClientFileExportModal: React.FC<ClientFileExportModalProps> = ({
+  client,
+  business,
+  records,
+  appointments,
+  services,
+  providers,
+  generatedBy,
+  onClose
+}) => {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [sections, setSections] = useState<ClientFileSection[]>(CLIENT_FILE_SECTIONS.map(({ section }) => section));
+  const [error, setError] = useState('');
+
+  const clientRecords = records.filter(record => record.clientId === client.id && isWithinPeriod(record.date, from, to));
+  const clientAppointments = appointments.filter(appointment =>
+    appointment.clientId === client.id && isWithinPeriod(appointment.date, from, to)
+  );
+
+  const toggleSection = (section: ClientFileSection) => {
+    setSections(prev => prev.includes(section) ? prev.filter(s => s !== section) : [...prev, section]);
+  };
+
+  const handleDownload = () => {
+    if (sections.length === 0) {
+      setError('Selecciona al menos una sección');
+      return;
+    }
+    if (from && to && from > to) {
+      setError('La fecha inicial debe ser anterior a la final');
+      return;
+    }
+    setError('');
+
+    try {
+      const blob = createClientFilePdf({
+        business,
+        client,
+        records,
+        appointments,
+        services,
+        providers,
+        sections,
+        from: from || undefined,
+        to: to || undefined,
+        generatedBy
+      });
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getClientFileName(client);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setError((error as Error).message || 'Error al generar el PDF');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Exportar Expediente</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            Genera un PDF con el expediente de <strong>{client.name}</strong> para entregarlo al paciente o a otro profesional.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
+              <input
+                type="date"
+                value={from}
+                max={to || undefined}
+                onChange={(e) => setFrom(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Hasta</label>
+              <input
+                type="date"
+                value={to}
+                min={from || undefined}
+                onChange={(e) => setTo(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">Deja las fechas vacías para incluir todo el historial.</p>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Secciones</p>
+            <div className="space-y-2">
+              {CLIENT_FILE_SECTIONS.map(({ section, label }) => (
+                <label key={section} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={sections.includes(section)}
+                    onChange={() => toggleSection(section)}
+                    className="h-4 w-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500 mr-2"
+                  />
+                  {label}
+                  {section === 'records' && <span className="ml-1 text-gray-500">({clientRecords.length})</span>}
+                  {section === 'appointments' && <span className="ml-1 text-gray-500">({clientAppointments.length})</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={handleDownload}
+            className="flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Descargar PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,88 @@
+import React from 'react';
+import type { ClientFiscalData } from '../../types';
+import { getCfdiUsesFor, getTaxRegimesFor, normalizeRfc } from '../../utils/cfdi';
+
+interface ClientFiscalFieldsProps {
+  value: ClientFiscalData;
+  onChange: (value: ClientFiscalData) => void;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500';
+
+// Datos del cliente como receptor de facturas: el régimen depende del RFC y el uso CFDI del régimen
+export const ClientFiscalFields: React.FC<ClientFiscalFieldsProps> = ({ value, onChange }) => {
+  const rfc = normalizeRfc(value.rfc);
+  const regimes = rfc.length >= 12 ? getTaxRegimesFor(rfc) : [];
+  const uses = value.taxRegime ? getCfdiUsesFor(value.taxRegime) : [];
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">RFC *</label>
+        <input
+          type="text"
+          required
+          maxLength={13}
+          className={`${inputClass} uppercase`}
+          value={value.rfc}
+          onChange={(e) => onChange({ ...value, rfc: e.target.value, taxRegime: '', cfdiUse: '' })}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Código postal fiscal *</label>
+        <input
+          type="text"
+          required
+          inputMode="numeric"
+          maxLength={5}
+          className={inputClass}
+          value={value.postalCode}
+          onChange={(e) => onChange({ ...value, postalCode: e.target.value })}
+        />
+      </div>
+
+      <div className="md:col-span-2">
+        <label className="block text-sm font-medium text-gray-700 mb-2">Nombre o razón social *</label>
+        <input
+          type="text"
+          required
+          placeholder="Como aparece en su constancia de situación fiscal"
+          className={inputClass}
+          value={value.legalName}
+          onChange={(e) => onChange({ ...value, legalName: e.target.value })}
+        />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Régimen fiscal *</label>
+        <select
+          required
+          className={inputClass}
+          value={value.taxRegime}
+          onChange={(e) => onChange({ ...value, taxRegime: e.target.value, cfdiUse: '' })}
+        >
+          <option value="">{regimes.length > 0 ? 'Seleccionar régimen' : 'Captura primero el RFC'}</option>
+          {regimes.map(regime => (
+            <option key={regime.code} value={regime.code}>{regime.code} - {regime.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Uso CFDI *</label>
+        <select
+          required
+          className={inputClass}
+          value={value.cfdiUse}
+          onChange={(e) => onChange({ ...value, cfdiUse: e.target.value })}
+        >
+          <option value="">{uses.length > 0 ? 'Seleccionar uso' : 'Selecciona primero el régimen'}</option>
+          {uses.map(use => (
+            <option key={use.code} value={use.code}>{use.code} - {use.name}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
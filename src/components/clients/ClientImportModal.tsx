@@ -0,0 +1,329 @@
+import React, { useState, useMemo } from 'react';
+import { format } from 'date-fns';
+import { readSheet } from 'read-excel-file/browser';
+import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAuth } from '../../contexts/AuthContext';
+import { parseCsv } from '../../utils/csv';
+import {
+  CLIENT_IMPORT_FIELDS,
+  buildClientImportRows,
+  guessColumnMapping
+} from '../../utils/clientImport';
+import type { ClientColumnMapping, ClientImportRowStatus } from '../../utils/clientImport';
+import { X, Upload, CheckCircle, AlertTriangle, Copy } from 'lucide-react';
+
+interface ClientImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<ClientImportRowStatus, string> = {
+  valid: 'Válido',
+  duplicate: 'Duplicado',
+  invalid: 'Con errores'
+};
+
+const STATUS_COLORS: Record<ClientImportRowStatus, string> = {
+  valid: 'bg-green-100 text-green-800',
+  duplicate: 'bg-yellow-100 text-yellow-800',
+  invalid: 'bg-red-100 text-red-800'
+};
+
+// Convierte las celdas de una hoja de Excel a texto
+const cellToText = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return format(cell, 'yyyy-MM-dd');
+  return String(cell);
+};
+
+export const ClientImportModal: React.FC<ClientImportModalProps> = ({ isOpen, onClose }) => {
+  const { currentUser, currentBusiness } = useAuth();
+
+  // Determinar el businessId según el rol del usuario
+  const businessId = currentUser?.role === 'owner'
+    ? currentUser?.businessId
+    : currentBusiness;
+
+  const { clients, importClients } = useBusinessData(businessId || undefined);
+
+  const [step, setStep] = useState<'upload' | 'mapping' | 'report' | 'done'>('upload');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeaderRow, setHasHeaderRow] = useState(true);
+  const [mapping, setMapping] = useState<ClientColumnMapping>(guessColumnMapping([]));
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [importedCount, setImportedCount] = useState(0);
+  const [error, setError] = useState('');
+
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnLabels = Array.from({ length: columnCount }, (_, index) => (
+    hasHeaderRow && rows[0]?.[index] ? rows[0][index] : `Columna ${index + 1}`
+  ));
+
+  const importRows = useMemo(
+    () => (step === 'report' ? buildClientImportRows(rows, mapping, clients, hasHeaderRow) : []),
+    [step, rows, mapping, clients, hasHeaderRow]
+  );
+
+  const counts = {
+    valid: importRows.filter(row => row.status === 'valid').length,
+    duplicate: importRows.filter(row => row.status === 'duplicate').length,
+    invalid: importRows.filter(row => row.status === 'invalid').length
+  };
+  const acceptedRows = importRows.filter(row => row.status === 'valid' || (includeDuplicates && row.status === 'duplicate'));
+
+  const handleClose = () => {
+    setStep('upload');
+    setRows([]);
+    setFileName('');
+    setError('');
+    onClose();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError('');
+    try {
+      const isExcel = /\.xlsx$/i.test(file.name);
+      const fileRows = isExcel
+        ? (await readSheet(file)).map(row => row.map(cellToText))
+        : parseCsv(await file.text());
+
+      if (fileRows.length === 0) {
+        setError('El archivo está vacío');
+        return;
+      }
+
+      setFileName(file.name);
+      setRows(fileRows);
+      setHasHeaderRow(true);
+      setMapping(guessColumnMapping(fileRows[0]));
+      setStep('mapping');
+    } catch (error) {
+      setError((error as Error).message || 'No se pudo leer el archivo');
+    }
+  };
+
+  const handleContinue = () => {
+    const missing = CLIENT_IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] < 0);
+    if (missing.length > 0) {
+      setError(`Asigna una columna para: ${missing.map(({ label }) => label).join(', ')}`);
+      return;
+    }
+    setError('');
+    setStep('report');
+  };
+
+  const handleImport = async () => {
+    if (acceptedRows.length === 0) return;
+
+    setImporting(true);
+    setError('');
+    try {
+      const timestamp = new Date().toISOString();
+      const count = await importClients(acceptedRows.map(row => ({
+        ...row.client,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      })));
+      setImportedCount(count || 0);
+      setStep('done');
+    } catch (error) {
+      setError((error as Error).message || 'Error al importar los clientes');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Importar Clientes</h2>
+          <button onClick={handleClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto flex-1">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <div className="text-center py-8">
+              <Upload className="h-12 w-12 text-pink-400 mx-auto mb-4" />
+              <p className="text-gray-700 mb-2">Selecciona un archivo CSV o Excel (.xlsx) con tus clientes.</p>
+              <p className="text-sm text-gray-500 mb-6">
+                En el siguiente paso podrás indicar qué columna corresponde a cada dato.
+              </p>
+              <label className="inline-flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 cursor-pointer">
+                <Upload className="h-4 w-4 mr-2" />
+                Seleccionar archivo
+                <input type="file" accept=".csv,.txt,.xlsx,text/csv" className="hidden" onChange={handleFile} />
+              </label>
+            </div>
+          )}
+
+          {step === 'mapping' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {fileName}: {hasHeaderRow ? rows.length - 1 : rows.length} fila{rows.length !== 1 ? 's' : ''}
+              </p>
+
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={hasHeaderRow}
+                  onChange={(e) => setHasHeaderRow(e.target.checked)}
+                  className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded mr-2"
+                />
+                La primera fila contiene los encabezados
+              </label>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {CLIENT_IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {label}{required ? ' *' : ''}
+                    </label>
+                    <select
+                      value={mapping[field]}
+                      onChange={(e) => setMapping({ ...mapping, [field]: Number(e.target.value) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                    >
+                      <option value={-1}>No importar</option>
+                      {columnLabels.map((columnLabel, index) => (
+                        <option key={index} value={index}>{columnLabel}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {step === 'report' && (
+            <div className="space-y-4">
+              <div className="flex flex-wrap gap-3 text-sm">
+                <span className="flex items-center px-3 py-1 rounded-full bg-green-100 text-green-800">
+                  <CheckCircle className="h-4 w-4 mr-1" />{counts.valid} válidos
+                </span>
+                <span className="flex items-center px-3 py-1 rounded-full bg-yellow-100 text-yellow-800">
+                  <Copy className="h-4 w-4 mr-1" />{counts.duplicate} duplicados
+                </span>
+                <span className="flex items-center px-3 py-1 rounded-full bg-red-100 text-red-800">
+                  <AlertTriangle className="h-4 w-4 mr-1" />{counts.invalid} con errores
+                </span>
+              </div>
+
+              {counts.duplicate > 0 && (
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={includeDuplicates}
+                    onChange={(e) => setIncludeDuplicates(e.target.checked)}
+                    className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded mr-2"
+                  />
+                  Importar también los duplicados
+                </label>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Fila</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Nombre</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Teléfono</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Email</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Estado</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {importRows.map(row => (
+                      <tr key={row.rowNumber}>
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.client.name}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.client.phone}</td>
+                        <td className="px-3 py-2 text-gray-900">{row.client.email}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-1 text-xs rounded-full font-medium ${STATUS_COLORS[row.status]}`}>
+                            {STATUS_LABELS[row.status]}
+                          </span>
+                          {row.messages.length > 0 && (
+                            <span className="ml-2 text-xs text-gray-500">{row.messages.join(', ')}</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {step === 'done' && (
+            <div className="text-center py-8">
+              <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+              <p className="text-gray-900 font-medium">
+                Se importaron {importedCount} cliente{importedCount !== 1 ? 's' : ''} correctamente.
+              </p>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+          {step === 'mapping' && (
+            <>
+              <button
+                onClick={() => setStep('upload')}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+              >
+                Elegir otro archivo
+              </button>
+              <button
+                onClick={handleContinue}
+                className="px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700"
+              >
+                Validar filas
+              </button>
+            </>
+          )}
+          {step === 'report' && (
+            <>
+              <button
+                onClick={() => setStep('mapping')}
+                className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+              >
+                Volver
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={importing || acceptedRows.length === 0}
+                className="px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {importing ? 'Importando...' : `Importar ${acceptedRows.length} cliente${acceptedRows.length !== 1 ? 's' : ''}`}
+              </button>
+            </>
+          )}
+          {(step === 'upload' || step === 'done') && (
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+            >
+              Cerrar
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,9 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAppointments, useClientAppointments } from '../../hooks/useAppointments';
 import { useAuth } from '../../contexts/AuthContext';
 import { usePermissions } from '../../hooks/usePermissions';
-import type { Client } from '../../types';
+import type { Client, ClientFiscalData } from '../../types';
 import { 
   Users, 
   Plus, 
@@ -15,11 +16,20 @@ import {
   FileText,
   AlertCircle,
   Trash2,
-  Eye
+  Eye,
+  Upload,
+  GitMerge
 } from 'lucide-react';
 import { format } from 'date-fns';
+import { getWindowAroundToday } from '../../utils/dateWindow';
 import { es } from 'date-fns/locale';
 import { ClientProfile } from './ClientProfile';
+import { ClientImportModal } from './ClientImportModal';
+import { ClientDuplicatesModal } from './ClientDuplicatesModal';
+import { ClientFiscalFields } from './ClientFiscalFields';
+import { normalizeFiscalName, normalizeRfc, validateClientFiscalData } from '../../utils/cfdi';
+
+const EMPTY_FISCAL: ClientFiscalData = { rfc: '', legalName: '', taxRegime: '', postalCode: '', cfdiUse: '' };
 
 export const ClientManagement: React.FC = () => {
   const { currentUser, currentBusiness } = useAuth();
@@ -30,38 +40,51 @@ export const ClientManagement: React.FC = () => {
     ? currentUser?.businessId 
     : currentBusiness;
   
-  const { clients, appointments, addClient, updateClient, deleteClient, loading } = useBusinessData(businessId || undefined);
+  const { clients, addClient, updateClient, deleteClient, loading } = useBusinessData(businessId || undefined);
   
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
   const [showClientProfile, setShowClientProfile] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
   const [formData, setFormData] = useState({
     name: '',
     phone: '',
     email: '',
     age: '',
     allergies: '',
-    notes: ''
+    notes: '',
+    requiresInvoice: false,
+    fiscal: EMPTY_FISCAL
   });
   const [error, setError] = useState('');
   const [saveLoading, setSaveLoading] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; client: Client | null }>({ isOpen: false, client: null });
   const [deleteLoading, setDeleteLoading] = useState(false);
 
+  // La lista resume el último año; el historial completo se carga por cliente
+  const recentWindow = useMemo(() => getWindowAroundToday({ months: 12 }, {}), []);
+  const { appointments: recentAppointments } = useAppointments(businessId || undefined, recentWindow);
+  const { appointments: selectedClientAppointments } = useClientAppointments(
+    businessId || undefined,
+    isModalOpen && !isEditing ? selectedClient?.id : null
+  );
+  const { appointments: deleteClientAppointments } = useClientAppointments(businessId || undefined, deleteConfirm.client?.id);
+
   const filteredClients = clients.filter(client =>
     client.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
     client.phone.includes(searchTerm) ||
     (client.email && client.email.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
-  const getClientAppointments = (clientId: string) => {
-    return appointments.filter(apt => apt.clientId === clientId);
+  const getRecentAppointments = (clientId: string) => {
+    return recentAppointments.filter(apt => apt.clientId === clientId);
   };
 
   const getLastAppointment = (clientId: string) => {
-    const clientAppointments = getClientAppointments(clientId);
+    const clientAppointments = getRecentAppointments(clientId);
     if (clientAppointments.length === 0) return null;
     
     return clientAppointments
@@ -75,7 +98,9 @@ export const ClientManagement: React.FC = () => {
       email: '',
       age: '',
       allergies: '',
-      notes: ''
+      notes: '',
+      requiresInvoice: false,
+      fiscal: EMPTY_FISCAL
     });
     setSelectedClient(null);
     setIsEditing(false);
@@ -89,7 +114,9 @@ export const ClientManagement: React.FC = () => {
       email: client.email || '',
       age: client.age?.toString() || '',
       allergies: client.allergies?.join(', ') || '',
-      notes: client.notes || ''
+      notes: client.notes || '',
+      requiresInvoice: Boolean(client.fiscal),
+      fiscal: client.fiscal || EMPTY_FISCAL
     });
     setSelectedClient(client);
     setIsEditing(true);
@@ -156,6 +183,23 @@ export const ClientManagement: React.FC = () => {
         clientData.notes = trimmedNotes;
       }
 
+      if (formData.requiresInvoice) {
+        const fiscal: ClientFiscalData = {
+          ...formData.fiscal,
+          rfc: normalizeRfc(formData.fiscal.rfc),
+          legalName: normalizeFiscalName(formData.fiscal.legalName),
+          postalCode: formData.fiscal.postalCode.trim()
+        };
+        const fiscalError = validateClientFiscalData(fiscal);
+        if (fiscalError) {
+          setError(fiscalError);
+          return;
+        }
+        clientData.fiscal = fiscal;
+      } else if (selectedClient?.fiscal) {
+        clientData.fiscal = null;
+      }
+
       if (selectedClient) {
         await updateClient(selectedClient.id, clientData);
       } else {
@@ -190,15 +234,35 @@ export const ClientManagement: React.FC = () => {
           <Users className="h-6 w-6 text-pink-600 mr-2" />
           <h1 className="text-2xl font-bold text-gray-900">Gestión de Clientes</h1>
         </div>
-        {canCreateClient && (
-          <button
-            onClick={handleNewClient}
-            className="flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors"
-          >
-            <Plus className="h-4 w-4 mr-2" />
-            Nuevo Cliente
-          </button>
-        )}
+        <div className="flex items-center space-x-2">
+          {canEditClient && canDeleteClient && (
+            <button
+              onClick={() => setIsDuplicatesOpen(true)}
+              className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <GitMerge className="h-4 w-4 mr-2" />
+              Duplicados
+            </button>
+          )}
+          {canCreateClient && (
+            <>
+              <button
+                onClick={() => setIsImportOpen(true)}
+                className="flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Importar
+              </button>
+              <button
+                onClick={handleNewClient}
+                className="flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Nuevo Cliente
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Search */}
@@ -235,9 +299,9 @@ export const ClientManagement: React.FC = () => {
               <Calendar className="h-6 w-6 text-white" />
             </div>
             <div className="ml-4">
-              <p className="text-sm font-medium text-gray-600">Con Citas</p>
+              <p className="text-sm font-medium text-gray-600">Con Citas en el Año</p>
               <p className="text-2xl font-bold text-green-600">
-                {clients.filter(client => getClientAppointments(client.id).length > 0).length}
+                {clients.filter(client => getRecentAppointments(client.id).length > 0).length}
               </p>
             </div>
           </div>
@@ -285,7 +349,7 @@ export const ClientManagement: React.FC = () => {
           <div className="divide-y divide-gray-200">
             {filteredClients.map((client) => {
               const lastAppointment = getLastAppointment(client.id);
-              const appointmentCount = getClientAppointments(client.id).length;
+              const appointmentCount = getRecentAppointments(client.id).length;
 
               return (
                 <div key={client.id} className="p-6 hover:bg-gray-50">
@@ -311,7 +375,7 @@ export const ClientManagement: React.FC = () => {
                         )}
                         <div className="flex items-center">
                           <Calendar className="h-4 w-4 mr-1" />
-                          {appointmentCount} cita{appointmentCount !== 1 ? 's' : ''}
+                          {appointmentCount} cita{appointmentCount !== 1 ? 's' : ''} en el último año
                         </div>
                       </div>
 
@@ -406,9 +470,9 @@ export const ClientManagement: React.FC = () => {
               
               <p className="text-gray-700 mb-6">
                 ¿Estás seguro de que deseas eliminar al cliente <strong>{deleteConfirm.client?.name}</strong>?
-                {getClientAppointments(deleteConfirm.client?.id || '').length > 0 && (
+                {deleteClientAppointments.length > 0 && (
                   <span className="block mt-2 text-sm text-amber-600">
-                    ⚠️ Este cliente tiene {getClientAppointments(deleteConfirm.client?.id || '').length} cita(s) registrada(s).
+                    ⚠️ Este cliente tiene {deleteClientAppointments.length} cita(s) registrada(s).
                   </span>
                 )}
               </p>
@@ -512,14 +576,23 @@ export const ClientManagement: React.FC = () => {
                   </div>
                 )}
 
+                {selectedClient.fiscal && (
+                  <div>
+                    <h3 className="text-lg font-medium text-gray-900 mb-2">Datos Fiscales</h3>
+                    <p className="text-gray-700 bg-gray-50 p-3 rounded-md">
+                      {selectedClient.fiscal.legalName} · RFC {selectedClient.fiscal.rfc} · Uso {selectedClient.fiscal.cfdiUse}
+                    </p>
+                  </div>
+                )}
+
                 {/* Appointment History */}
                 <div>
                   <h3 className="text-lg font-medium text-gray-900 mb-4">Historial de Citas</h3>
-                  {getClientAppointments(selectedClient.id).length === 0 ? (
+                  {selectedClientAppointments.length === 0 ? (
                     <p className="text-gray-500">No hay citas registradas</p>
                   ) : (
                     <div className="space-y-2 max-h-40 overflow-y-auto">
-                      {getClientAppointments(selectedClient.id)
+                      {[...selectedClientAppointments]
                         .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
                         .map((appointment) => (
                           <div key={appointment.id} className="flex justify-between items-center p-3 bg-gray-50 rounded-md">
@@ -648,6 +721,24 @@ export const ClientManagement: React.FC = () => {
                   />
                 </div>
 
+                <div className="space-y-4">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded"
+                      checked={formData.requiresInvoice}
+                      onChange={(e) => setFormData({ ...formData, requiresInvoice: e.target.checked })}
+                    />
+                    <span className="ml-2 text-sm text-gray-700">Requiere factura</span>
+                  </label>
+                  {formData.requiresInvoice && (
+                    <ClientFiscalFields
+                      value={formData.fiscal}
+                      onChange={(fiscal) => setFormData({ ...formData, fiscal })}
+                    />
+                  )}
+                </div>
+
                 <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
                   <button
                     type="button"
@@ -677,6 +768,18 @@ export const ClientManagement: React.FC = () => {
           onClose={() => setShowClientProfile(null)}
         />
       )}
+
+      {/* Client Import Modal */}
+      <ClientImportModal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+      />
+
+      {/* Client Duplicates Modal */}
+      <ClientDuplicatesModal
+        isOpen={isDuplicatesOpen}
+        onClose={() => setIsDuplicatesOpen(false)}
+      />
     </div>
   );
 };
@@ -1,9 +1,15 @@
 import React, { useState, useMemo } from 'react';
 import { useBusinessData } from '../../hooks/useBusinessData';
+import { useClientAppointments } from '../../hooks/useAppointments';
+import { useClientRecords } from '../../hooks/useDigitalRecords';
+import { useClientBilling } from '../../hooks/usePayments';
+import { useClientInvoices } from '../../hooks/useInvoices';
 import { useAuth } from '../../contexts/AuthContext';
 import { usePermissions } from '../../hooks/usePermissions';
 import { notificationService } from '../../utils/notificationService';
-import type { DigitalRecord } from '../../types';
+import type { Appointment, DigitalRecord, Invoice } from '../../types';
+import { formatMoney } from '../../utils/payments';
+import { createInvoicePdf, getInvoiceFileName, getInvoiceableCharges } from '../../utils/invoices';
 import { 
   User, 
   Phone, 
@@ -19,11 +25,22 @@ import {
   AlertCircle,
   X,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  History,
+  Lock,
+  Download,
+  DollarSign,
+  Receipt,
+  Stamp
 } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { RecordModal } from '../records/RecordModal';
+import { RecordHistoryModal } from '../records/RecordHistoryModal';
+import { RecordDataSummary } from '../records/RecordDataSummary';
+import { ClientFileExportModal } from './ClientFileExportModal';
+import { CheckoutModal } from '../payments/CheckoutModal';
+import { InvoiceModal } from '../invoices/InvoiceModal';
 
 interface ClientProfileProps {
   clientId: string;
@@ -32,7 +49,7 @@ interface ClientProfileProps {
 
 export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose }) => {
   const { currentUser, currentBusiness } = useAuth();
-  const { canCreateRecord, canEditRecord, canDeleteRecord } = usePermissions();
+  const { canViewRecord, canCreateRecord, canEditRecord, canDeleteRecord, canIssueInvoices, getRestrictionMessage } = usePermissions();
   
   // Determinar el businessId según el rol del usuario
   const businessId = currentUser?.role === 'owner' 
@@ -40,19 +57,37 @@ export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose
     : currentBusiness;
 
   const { 
+    business,
     clients, 
-    digitalRecords, 
+    providers,
     services,
     deleteDigitalRecord,
+    restoreDigitalRecordVersion,
+    signDigitalRecord,
+    addDigitalRecordAddendum,
+    stampInvoice,
+    deleteInvoice,
     loading 
   } = useBusinessData(businessId || undefined);
 
+  // Solo se descargan los expedientes y citas de este cliente
+  const { records: clientRecords, loading: recordsLoading } = useClientRecords(businessId || undefined, canViewRecord ? clientId : null);
+  const { appointments } = useClientAppointments(businessId || undefined, clientId);
+  const { charges, payments, balance, loading: billingLoading } = useClientBilling(businessId || undefined, clientId);
+  const { invoices } = useClientInvoices(businessId || undefined, canIssueInvoices ? clientId : null);
+
   const [isRecordModalOpen, setIsRecordModalOpen] = useState(false);
   const [selectedRecord, setSelectedRecord] = useState<DigitalRecord | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<string>('all');
   const [currentPage, setCurrentPage] = useState(1);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState<string | null>(null);
+  // Se guarda el id para que el historial muestre siempre la versión vigente del expediente
+  const [historyRecordId, setHistoryRecordId] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [checkoutAppointment, setCheckoutAppointment] = useState<Appointment | null>(null);
+  const [isInvoiceOpen, setIsInvoiceOpen] = useState(false);
+  const [invoiceError, setInvoiceError] = useState('');
   
   const recordsPerPage = 10;
 
@@ -61,14 +96,9 @@ export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose
     return clients.find(c => c.id === clientId);
   }, [clients, clientId]);
 
-  // Filtrar registros del cliente actual
-  const clientRecords = useMemo(() => {
-    return digitalRecords.filter(record => record.clientId === clientId);
-  }, [digitalRecords, clientId]);
-
   // Aplicar filtros y búsqueda
   const filteredRecords = useMemo(() => {
-    let filtered = clientRecords;
+    let filtered = [...clientRecords];
 
     // Filtro por búsqueda
     if (searchTerm) {
@@ -96,6 +126,37 @@ export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose
   }, [filteredRecords, currentPage, recordsPerPage]);
 
   // Obtener tipos de tratamiento únicos para el filtro
+  const historyRecord = historyRecordId
+    ? clientRecords.find(record => record.id === historyRecordId) || null
+    : null;
+
+  const invoiceableCharges = useMemo(
+    () => getInvoiceableCharges(charges, appointments, payments, invoices),
+    [charges, appointments, payments, invoices]
+  );
+
+  const downloadInvoice = (invoice: Invoice, extension: 'xml' | 'pdf') => {
+    if (!business) return;
+    const blob = extension === 'xml'
+      ? new Blob([invoice.xml], { type: 'application/xml' })
+      : createInvoicePdf(business, invoice);
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getInvoiceFileName(invoice, extension);
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleInvoiceAction = async (action: () => Promise<void>) => {
+    setInvoiceError('');
+    try {
+      await action();
+    } catch (error) {
+      setInvoiceError((error as Error).message || 'Error al procesar la factura');
+    }
+  };
+
   const treatmentTypes = useMemo(() => {
     const types = new Set(clientRecords.map(record => record.serviceId));
     return Array.from(types).map(serviceId => {
@@ -153,7 +214,7 @@ export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose
     return service?.name || 'Servicio desconocido';
   };
 
-  if (loading) {
+  if (loading || recordsLoading) {
     return (
       <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
         <div className="bg-white rounded-lg p-8">
@@ -198,12 +259,24 @@ export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose
                   <p className="text-pink-100 text-sm sm:text-base">Perfil del Cliente</p>
                 </div>
               </div>
-              <button
-                onClick={onClose}
-                className="p-2 hover:bg-white/10 rounded-lg transition-colors flex-shrink-0"
-              >
-                <X className="h-5 w-5 sm:h-6 sm:w-6" />
-              </button>
+              <div className="flex items-center flex-shrink-0">
+                {business && (
+                  <button
+                    onClick={() => setIsExportOpen(true)}
+                    className="flex items-center px-3 py-2 mr-2 text-sm bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
+                    title="Exportar expediente en PDF"
+                  >
+                    <Download className="h-4 w-4 sm:mr-2" />
+                    <span className="hidden sm:inline">Exportar PDF</span>
+                  </button>
+                )}
+                <button
+                  onClick={onClose}
+                  className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                >
+                  <X className="h-5 w-5 sm:h-6 sm:w-6" />
+                </button>
+              </div>
             </div>
           </div>
 
@@ -259,6 +332,141 @@ export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose
                   </div>
                 </div>
               </div>
+
+              {/* Estado de cuenta */}
+              <h3 className="text-base sm:text-lg font-semibold text-gray-900 mt-6 mb-4">Estado de Cuenta</h3>
+              {billingLoading ? (
+                <p className="text-sm text-gray-500">Cargando...</p>
+              ) : (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-3 gap-2 text-center">
+                    <div className="bg-white rounded-lg p-2 border">
+                      <p className="text-xs text-gray-500">Facturado</p>
+                      <p className="text-sm font-semibold">{formatMoney(balance.billed)}</p>
+                    </div>
+                    <div className="bg-white rounded-lg p-2 border">
+                      <p className="text-xs text-gray-500">Pagado</p>
+                      <p className="text-sm font-semibold text-green-600">{formatMoney(balance.paid)}</p>
+                    </div>
+                    <div className="bg-white rounded-lg p-2 border">
+                      <p className="text-xs text-gray-500">Saldo</p>
+                      <p className={`text-sm font-semibold ${balance.balance > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                        {formatMoney(balance.balance)}
+                      </p>
+                    </div>
+                  </div>
+
+                  {balance.outstanding.length > 0 ? (
+                    <ul className="space-y-2">
+                      {balance.outstanding.map(({ charge, balance: pending }) => {
+                        const service = services.find(s => s.id === charge.serviceId);
+                        const appointment = appointments.find(a => a.id === charge.appointmentId);
+                        return (
+                          <li key={charge.id} className="flex items-center justify-between bg-white rounded-lg p-2 border text-sm">
+                            <div className="min-w-0">
+                              <p className="font-medium truncate">{service?.name || 'Servicio'}</p>
+                              <p className="text-xs text-gray-500">
+                                {format(parseISO(charge.date), 'dd/MM/yyyy', { locale: es })} · debe {formatMoney(pending)}
+                              </p>
+                            </div>
+                            {appointment && (
+                              <button
+                                onClick={() => setCheckoutAppointment(appointment)}
+                                className="flex items-center px-2 py-1 text-xs text-pink-600 hover:bg-pink-50 rounded-md flex-shrink-0"
+                              >
+                                <DollarSign className="h-3 w-3 mr-1" />
+                                Registrar pago
+                              </button>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500">Sin saldos pendientes.</p>
+                  )}
+                </div>
+              )}
+
+              {/* Facturas */}
+              {canIssueInvoices && (
+                <>
+                  <div className="flex items-center justify-between mt-6 mb-4">
+                    <h3 className="text-base sm:text-lg font-semibold text-gray-900">Facturas</h3>
+                    {invoiceableCharges.length > 0 && client?.fiscal && business?.fiscal && (
+                      <button
+                        onClick={() => setIsInvoiceOpen(true)}
+                        className="flex items-center px-2 py-1 text-xs text-pink-600 hover:bg-pink-50 rounded-md"
+                      >
+                        <Receipt className="h-3 w-3 mr-1" />
+                        Facturar ({invoiceableCharges.length})
+                      </button>
+                    )}
+                  </div>
+
+                  {invoiceError && <p className="text-sm text-red-600 mb-2">{invoiceError}</p>}
+                  {invoiceableCharges.length > 0 && !business?.fiscal && (
+                    <p className="text-xs text-gray-500 mb-2">Configura los datos fiscales del negocio para facturar.</p>
+                  )}
+                  {invoiceableCharges.length > 0 && business?.fiscal && !client?.fiscal && (
+                    <p className="text-xs text-gray-500 mb-2">Agrega los datos fiscales del cliente para facturar.</p>
+                  )}
+
+                  {invoices.length > 0 ? (
+                    <ul className="space-y-2">
+                      {invoices.map(invoice => (
+                        <li key={invoice.id} className="bg-white rounded-lg p-2 border text-sm">
+                          <div className="flex items-center justify-between">
+                            <p className="font-medium">{invoice.series}-{invoice.folio} · {formatMoney(invoice.total)}</p>
+                            <span className={`px-2 py-0.5 rounded-full text-xs ${
+                              invoice.status === 'stamped' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                            }`}>
+                              {invoice.status === 'stamped' ? 'Timbrada' : 'Sin timbrar'}
+                            </span>
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            {format(new Date(invoice.issuedAt), 'dd/MM/yyyy', { locale: es })} · {invoice.appointmentIds.length} cita(s)
+                          </p>
+                          <div className="flex items-center space-x-1 mt-1">
+                            <button
+                              onClick={() => downloadInvoice(invoice, 'xml')}
+                              className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-50 rounded-md"
+                            >
+                              XML
+                            </button>
+                            <button
+                              onClick={() => downloadInvoice(invoice, 'pdf')}
+                              className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-50 rounded-md"
+                            >
+                              PDF
+                            </button>
+                            {invoice.status === 'draft' && (
+                              <>
+                                <button
+                                  onClick={() => handleInvoiceAction(() => stampInvoice(invoice))}
+                                  className="flex items-center px-2 py-1 text-xs text-pink-600 hover:bg-pink-50 rounded-md"
+                                >
+                                  <Stamp className="h-3 w-3 mr-1" />
+                                  Timbrar
+                                </button>
+                                <button
+                                  onClick={() => window.confirm('¿Descartar esta factura sin timbrar?') && handleInvoiceAction(() => deleteInvoice(invoice))}
+                                  className="p-1 text-gray-400 hover:text-red-600 rounded-md"
+                                  title="Descartar"
+                                >
+                                  <Trash2 className="h-3 w-3" />
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-gray-500">Sin facturas emitidas.</p>
+                  )}
+                </>
+              )}
             </div>
 
               {/* Registros del Cliente */}
@@ -319,7 +527,9 @@ export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose
                       {searchTerm || filterType !== 'all' ? 'No se encontraron registros' : 'Sin registros'}
                     </h3>
                     <p className="text-gray-500 mb-4">
-                      {searchTerm || filterType !== 'all' 
+                      {!canViewRecord
+                        ? getRestrictionMessage('canViewRecord')
+                        : searchTerm || filterType !== 'all' 
                         ? 'Intenta ajustar los filtros de búsqueda'
                         : 'Este cliente aún no tiene registros en su expediente'
                       }
@@ -353,7 +563,15 @@ export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose
                               </span>
                             </div>
                             
-                            <h4 className="font-semibold text-gray-900 mb-2 text-sm sm:text-base truncate">{record.treatment}</h4>
+                            <div className="flex items-center mb-2 min-w-0">
+                              <h4 className="font-semibold text-gray-900 text-sm sm:text-base truncate">{record.treatment}</h4>
+                              {record.signedAt && (
+                                <span className="ml-2 inline-flex items-center px-2 py-0.5 text-xs bg-gray-100 text-gray-700 rounded-full flex-shrink-0">
+                                  <Lock className="h-3 w-3 mr-1" />
+                                  Firmado
+                                </span>
+                              )}
+                            </div>
                             
                             {record.diagnosis && (
                               <p className="text-xs sm:text-sm text-gray-600 mb-2">
@@ -362,6 +580,10 @@ export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose
                             )}
                             
                             <p className="text-xs sm:text-sm text-gray-600 line-clamp-2">{record.notes}</p>
+
+                            <div className="mt-2">
+                              <RecordDataSummary record={record} customFields={business?.recordFields} limit={6} />
+                            </div>
                             
                             {record.duration && (
                               <div className="mt-2 flex items-center text-xs text-gray-500">
@@ -372,7 +594,15 @@ export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose
                           </div>
 
                           <div className="flex items-center space-x-1 sm:space-x-2 ml-2 sm:ml-4 flex-shrink-0">
-                            {canEditRecord && (
+                            <button
+                              onClick={() => setHistoryRecordId(record.id)}
+                              className="p-1.5 sm:p-2 text-gray-400 hover:text-pink-600 hover:bg-pink-50 rounded-lg transition-colors"
+                              title={record.signedAt ? 'Historial y adendas' : 'Historial de versiones'}
+                            >
+                              <History className="h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                            </button>
+
+                            {canEditRecord && !record.signedAt && (
                               <button
                                 onClick={() => handleEditRecord(record)}
                                 className="p-1.5 sm:p-2 text-gray-400 hover:text-pink-600 hover:bg-pink-50 rounded-lg transition-colors"
@@ -382,7 +612,7 @@ export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose
                               </button>
                             )}
                             
-                            {canDeleteRecord && (
+                            {canDeleteRecord && !record.signedAt && (
                               <button
                                 onClick={() => setShowDeleteConfirm(record.id)}
                                 className="p-1.5 sm:p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
@@ -446,6 +676,49 @@ export const ClientProfile: React.FC<ClientProfileProps> = ({ clientId, onClose
         />
       )}
 
+      {/* Historial del expediente */}
+      {historyRecord && businessId && (
+        <RecordHistoryModal
+          record={historyRecord}
+          businessId={businessId}
+          services={services}
+          customFields={business?.recordFields}
+          canEdit={canEditRecord}
+          onClose={() => setHistoryRecordId(null)}
+          onRestore={(version) => restoreDigitalRecordVersion(historyRecord.id, version)}
+          onSign={() => signDigitalRecord(historyRecord.id)}
+          onAddAddendum={(text) => addDigitalRecordAddendum(historyRecord.id, text)}
+        />
+      )}
+
+      {/* Exportación del expediente */}
+      {isExportOpen && business && (
+        <ClientFileExportModal
+          client={client}
+          business={business}
+          records={clientRecords}
+          appointments={appointments}
+          services={services}
+          providers={providers}
+          generatedBy={currentUser?.displayName}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+
+      {/* Cobro de una cuenta pendiente */}
+      {checkoutAppointment && (
+        <CheckoutModal appointment={checkoutAppointment} onClose={() => setCheckoutAppointment(null)} />
+      )}
+
+      {isInvoiceOpen && client && (
+        <InvoiceModal
+          client={client}
+          charges={invoiceableCharges}
+          payments={payments}
+          onClose={() => setIsInvoiceOpen(false)}
+        />
+      )}
+
       {/* Confirmación de Eliminación */}
       {showDeleteConfirm && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60]">
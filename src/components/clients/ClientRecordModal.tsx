@@ -1,29 +1,15 @@
 import React, { useState, useEffect } from 'react';
-import { Modal, Button, Form, Input, message, DatePicker, Select, Card, Space, Divider, TimePicker, Checkbox } from 'antd';
+import { Modal, Button, Form, Input, InputNumber, message, DatePicker, Select, Card, Space, Divider, TimePicker, Checkbox } from 'antd';
 import { CloseOutlined } from '@ant-design/icons';
-import { ref as dbRef, push, set, onValue, off } from 'firebase/database';
-import { database } from '../../config/firebase';
-import type { Client, BusinessCategory, DigitalRecord, Service } from '../../types';
+import { appointmentRepository, getDataStore, recordRepository } from '../../storage';
+import type { Business, Client, BusinessCategory, DigitalRecord, RecordFieldDefinition, Service } from '../../types';
 import dayjs from 'dayjs';
 import { useAuth } from '../../contexts/AuthContext';
+import { RECORD_SCHEMAS } from '../../config/recordSchemas';
+import { getRecordFields, isFieldVisible, normalizeRecordData, validateRecordData } from '../../utils/recordSchema';
 
-// Definir los tipos de registros permitidos basados en BusinessCategory
-const recordTypes: BusinessCategory[] = [
-  'dermatology',
-  'nails',
-  'nutrition',
-  'psychology',
-  'dentistry',
-  'physiotherapy',
-  'massage',
-  'acupuncture',
-  'beauty',
-  'hair',
-  'fitness',
-  'veterinary',
-  'consulting',
-  'education'
-];
+// Los tipos de registro son las categorías con esquema de expediente
+const recordTypes = Object.keys(RECORD_SCHEMAS) as BusinessCategory[];
 
 interface ClientRecordModalProps {
   visible: boolean;
@@ -33,6 +19,7 @@ interface ClientRecordModalProps {
   businessId: string;
   category: BusinessCategory;
   services?: Service[];
+  customFields?: Business['recordFields'];
 }
 
 const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
@@ -42,7 +29,8 @@ const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
   client,
   businessId,
   category = 'physiotherapy' as BusinessCategory,
-  services = []
+  services = [],
+  customFields
 }) => {
   const { currentUser } = useAuth();
   const [form] = Form.useForm();
@@ -58,23 +46,18 @@ const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
     console.log('Iniciando carga de registros para cliente:', client.id);
     setLoading(true);
     
-    const recordsRef = dbRef(database, `businesses/${businessId}/digitalRecords`);
-    
-    const handleRecordsUpdate = (snapshot: any) => {
+    const handleRecordsUpdate = (storedRecords: DigitalRecord[]) => {
       try {
         const recordsList: DigitalRecord[] = [];
         
-        if (snapshot.exists()) {
-          const recordsData = snapshot.val();
-          
-          Object.entries(recordsData).forEach(([id, record]: [string, any]) => {
+        if (storedRecords.length > 0) {
+          storedRecords.forEach(record => {
             // Asegurarse de que el registro pertenece al cliente actual
             if (record.clientId === client.id) {
               // Asegurar que la categoría esté definida
-              const recordCategory = record.category || 'general';
+              const recordCategory = (record.category || 'general') as BusinessCategory;
               
               recordsList.push({
-                id,
                 ...record,
                 category: recordCategory,
                 data: typeof record.data === 'object' ? record.data : {},
@@ -92,7 +75,7 @@ const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
           console.log('Registros cargados:', recordsList);
           setRecords(recordsList);
         } else {
-          console.log('No se encontraron registros en Firebase');
+          console.log('No se encontraron registros');
           setRecords([]);
         }
       } catch (error) {
@@ -103,13 +86,8 @@ const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
       }
     };
     
-    // Suscribirse a cambios
-    onValue(recordsRef, handleRecordsUpdate);
-    
-    // Limpiar suscripción al desmontar
-    return () => {
-      off(recordsRef, 'value', handleRecordsUpdate);
-    };
+    // Suscribirse a cambios; la función devuelta limpia la suscripción al desmontar
+    return recordRepository.subscribeBy(businessId, 'clientId', client.id, handleRecordsUpdate);
   }, [client?.id, businessId]);
 
   useEffect(() => {
@@ -134,14 +112,7 @@ const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
       errors.date = 'La fecha es requerida';
     }
     
-    if (activeTab === 'dermatology' || activeTab === 'physiotherapy') {
-      if (!values.diagnosis) {
-        errors.diagnosis = 'El diagnóstico es requerido';
-      }
-      if (!values.treatment) {
-        errors.treatment = 'El tratamiento es requerido';
-      }
-    }
+    Object.assign(errors, validateRecordData(getRecordFields(activeTab, customFields), values));
     
     if (values.scheduleAppointment) {
       if (!values.appointmentDate) {
@@ -203,7 +174,8 @@ const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
         notes: recordDataValues.notes || '', // Campo requerido
         diagnosis: recordDataValues.diagnosis,
         duration: recordDataValues.duration ? parseInt(recordDataValues.duration) : undefined,
-        data: recordDataValues,
+        // Los campos del esquema se normalizan; diagnóstico, tratamiento y notas se conservan tal cual
+        data: normalizeRecordData(getRecordFields(activeTab, customFields), recordDataValues),
         createdBy: currentUser.uid,
         createdAt: selectedRecord?.createdAt || new Date().toISOString(),
         updatedAt: new Date().toISOString()
@@ -214,16 +186,13 @@ const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
       
       if (selectedRecord) {
         // Actualizar registro existente
-        const recordRef = dbRef(database, `businesses/${businessId}/digitalRecords/${selectedRecord.id}`);
-        await set(recordRef, recordData);
+        await getDataStore().set(recordRepository.path(businessId, selectedRecord.id), recordData);
         recordId = selectedRecord.id;
         message.success('Expediente actualizado exitosamente');
       } else {
         // Crear nuevo registro
-        const recordsRef = dbRef(database, `businesses/${businessId}/digitalRecords`);
-        const newRecordRef = push(recordsRef);
-        await set(newRecordRef, { ...recordData, id: newRecordRef.key });
-        recordId = newRecordRef.key;
+        recordId = recordRepository.newId(businessId);
+        await getDataStore().set(recordRepository.path(businessId, recordId), { ...recordData, id: recordId });
         message.success('Expediente guardado exitosamente');
       }
       
@@ -248,9 +217,8 @@ const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
             relatedRecordId: recordId
           };
           
-          const appointmentsRef = dbRef(database, `businesses/${businessId}/appointments`);
-          const newAppointmentRef = push(appointmentsRef);
-          await set(newAppointmentRef, { ...appointmentData, id: newAppointmentRef.key });
+          const appointmentId = appointmentRepository.newId(businessId);
+          await getDataStore().set(appointmentRepository.path(businessId, appointmentId), { ...appointmentData, id: appointmentId });
           
           message.success('Cita programada exitosamente');
         } catch (appointmentError) {
@@ -280,8 +248,7 @@ const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
 
     try {
       setLoading(true);
-      const recordRef = dbRef(database, `businesses/${businessId}/digitalRecords/${recordId}`);
-      await set(recordRef, null);
+      await recordRepository.remove(businessId, recordId);
       message.success('Registro eliminado exitosamente');
       
       // Actualizar la lista de registros
@@ -300,6 +267,44 @@ const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
     }
   };
 
+  const renderSchemaInput = (field: RecordFieldDefinition) => {
+    switch (field.type) {
+      case 'textarea':
+        return <Input.TextArea rows={3} placeholder={field.placeholder} />;
+      case 'number':
+      case 'scale':
+        return <InputNumber min={field.min} max={field.max} addonAfter={field.unit} style={{ width: '100%' }} />;
+      case 'select':
+        return <Select allowClear options={field.options?.map(option => ({ value: option, label: option }))} />;
+      case 'multiselect':
+        return <Select mode="multiple" allowClear options={field.options?.map(option => ({ value: option, label: option }))} />;
+      case 'list':
+        return <Select mode="tags" tokenSeparators={[',']} placeholder={field.placeholder} />;
+      case 'boolean':
+        return <Checkbox>Sí</Checkbox>;
+      case 'date':
+        return <Input type="date" />;
+      default:
+        return <Input placeholder={field.placeholder} />;
+    }
+  };
+
+  // Campo del esquema de la categoría; los condicionales dependen de otro campo
+  const renderSchemaField = (field: RecordFieldDefinition) => (
+    <Form.Item key={field.key} noStyle shouldUpdate>
+      {({ getFieldsValue }) => isFieldVisible(field, getFieldsValue()) ? (
+        <Form.Item
+          name={field.key}
+          label={field.label}
+          valuePropName={field.type === 'boolean' ? 'checked' : 'value'}
+          rules={[{ required: field.required, message: `${field.label} es requerido` }]}
+        >
+          {renderSchemaInput(field)}
+        </Form.Item>
+      ) : null}
+    </Form.Item>
+  );
+
   const renderFormFields = () => {
     const commonFields = (
       <>
@@ -399,43 +404,18 @@ const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
       </>
     );
 
-    switch (activeTab) {
-      case 'dermatology':
-        return (
-          <>
-            <Form.Item 
-              name="diagnosis" 
-              label="Diagnóstico"
-              rules={[{ required: true, message: 'El diagnóstico es requerido' }]}
-            >
-              <Input.TextArea rows={3} />
-            </Form.Item>
-            <Form.Item 
-              name="treatment" 
-              label="Tratamiento"
-              rules={[{ required: true, message: 'El tratamiento es requerido' }]}
-            >
-              <Input.TextArea rows={3} />
-            </Form.Item>
-            {commonFields}
-          </>
-        );
-      case 'nails':
-        return (
-          <>
-            <Form.Item 
-              name="serviceType" 
-              label="Tipo de Servicio"
-              rules={[{ required: true, message: 'El tipo de servicio es requerido' }]}
-            >
-              <Input />
-            </Form.Item>
-            {commonFields}
-          </>
-        );
-      default:
-        return commonFields;
-    }
+    return (
+      <>
+        <Form.Item name="diagnosis" label="Diagnóstico">
+          <Input.TextArea rows={3} />
+        </Form.Item>
+        <Form.Item name="treatment" label="Tratamiento">
+          <Input.TextArea rows={3} />
+        </Form.Item>
+        {getRecordFields(activeTab, customFields).map(renderSchemaField)}
+        {commonFields}
+      </>
+    );
   };
 
   const renderRecordList = () => {
@@ -594,7 +574,7 @@ const ClientRecordModal: React.FC<ClientRecordModalProps> = ({
               >
                 {recordTypes.map(type => (
                   <Select.Option key={type} value={type}>
-                    {type.charAt(0).toUpperCase() + type.slice(1)}
+                    {RECORD_SCHEMAS[type].recordLabel}
                   </Select.Option>
                 ))}
               </Select>
@@ -4,6 +4,9 @@ import { notificationService } from '../../utils/notificationService';
 import type { User } from '../../types';
 import MakeAgendLogo from '../../assets/images/MakeAgend.png';
 
+// Correo de soporte configurable por despliegue (VITE_SUPPORT_EMAIL)
+const SUPPORT_EMAIL = import.meta.env.VITE_SUPPORT_EMAIL || '';
+
 interface BlockedScreenProps {
   user: User;
   reason?: string;
@@ -87,7 +90,7 @@ export const BlockedScreen: React.FC<BlockedScreenProps> = ({
       `Saludos cordiales,\n${user.displayName}`
     );
     
-    window.location.href = `mailto:sauldisel4@gmail.com?subject=${subject}&body=${body}`;
+    window.location.href = `mailto:${SUPPORT_EMAIL}?subject=${subject}&body=${body}`;
   };
 
   const getBlockingMessage = () => {
@@ -180,13 +183,15 @@ export const BlockedScreen: React.FC<BlockedScreenProps> = ({
             )}
 
             {/* Email Contact Button */}
-            <button
-              onClick={handleEmailContact}
-              className="w-full flex items-center justify-center px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
-            >
-              <Mail className="h-4 w-4 mr-2" />
-              Contactar por Email
-            </button>
+            {SUPPORT_EMAIL && (
+              <button
+                onClick={handleEmailContact}
+                className="w-full flex items-center justify-center px-6 py-3 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+              >
+                <Mail className="h-4 w-4 mr-2" />
+                Contactar por Email
+              </button>
+            )}
 
             {/* Retry Button (if provided) */}
             {onRetry && (
@@ -206,20 +211,22 @@ export const BlockedScreen: React.FC<BlockedScreenProps> = ({
           </div>
 
           {/* Contact Info */}
-          <div className="mt-8 pt-6 border-t border-gray-200">
-            <p className="text-xs text-gray-400 mb-2">
-              Administrador del Sistema
-            </p>
-            <div className="flex items-center justify-center space-x-4 text-sm text-gray-600">
-              <a 
-                href="mailto:sauldisel4@gmail.com"
-                className="flex items-center hover:text-pink-600 transition-colors"
-              >
-                <Mail className="h-3 w-3 mr-1" />
-                sauldisel4@gmail.com
-              </a>
+          {SUPPORT_EMAIL && (
+            <div className="mt-8 pt-6 border-t border-gray-200">
+              <p className="text-xs text-gray-400 mb-2">
+                Administrador del Sistema
+              </p>
+              <div className="flex items-center justify-center space-x-4 text-sm text-gray-600">
+                <a 
+                  href={`mailto:${SUPPORT_EMAIL}`}
+                  className="flex items-center hover:text-pink-600 transition-colors"
+                >
+                  <Mail className="h-3 w-3 mr-1" />
+                  {SUPPORT_EMAIL}
+                </a>
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Success Message */}
           {isRequestingSent && (
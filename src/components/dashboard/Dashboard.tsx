@@ -1,10 +1,13 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAppointments, usePendingAppointments } from '../../hooks/useAppointments';
 import { useAuth } from '../../contexts/AuthContext';
 import { useLicenseGuard } from '../../hooks/useLicenseGuard';
 import { BusinessManager } from '../business/BusinessManager';
-import { ref, get } from 'firebase/database';
-import { database } from '../../config/firebase';
+import { userRepository } from '../../storage';
+import { BUSINESS_ROLE_LABELS } from '../../hooks/usePermissions';
+import { rotateBusinessKey } from '../../utils/businessKey';
+import type { BusinessRole } from '../../types';
 import MakeAgendLogo from '../../assets/images/MakeAgend.png';
 import { 
   Calendar, 
@@ -16,9 +19,11 @@ import {
   XCircle,
   UserCheck,
   Key,
-  Copy
+  Copy,
+  RefreshCw
 } from 'lucide-react';
-import { format, isToday, isTomorrow } from 'date-fns';
+import { addDays, endOfWeek, format, isToday, isTomorrow, max, startOfWeek } from 'date-fns';
+import { getDateWindow } from '../../utils/dateWindow';
 import { es } from 'date-fns/locale';
 
 export const Dashboard: React.FC = () => {
@@ -30,19 +35,25 @@ export const Dashboard: React.FC = () => {
     ? currentUser?.businessId 
     : currentBusiness;
   
-  const { business, appointments, clients, services, loading } = useBusinessData(businessId || undefined);
+  const { business, clients, services, loading, updateBusiness } = useBusinessData(businessId || undefined);
+  // Semana en curso, más mañana si la semana termina hoy
+  const weekWindow = useMemo(() => {
+    const now = new Date();
+    return getDateWindow(startOfWeek(now), max([endOfWeek(now), addDays(now, 1)]));
+  }, []);
+  const { appointments } = useAppointments(businessId || undefined, weekWindow);
+  const { appointments: pendingAppointments } = usePendingAppointments(businessId || undefined);
   const { licenseStatus } = useLicenseGuard();
+  const [rotatingKey, setRotatingKey] = useState(false);
 
   // Obtener información del propietario para asistentes
   useEffect(() => {
     const fetchOwnerInfo = async () => {
       if (currentUser?.role === 'assistant' && business?.ownerId) {
         try {
-          const ownerRef = ref(database, `users/${business.ownerId}`);
-          const ownerSnapshot = await get(ownerRef);
+          const ownerData = await userRepository.get(business.ownerId);
           
-          if (ownerSnapshot.exists()) {
-            const ownerData = ownerSnapshot.val();
+          if (ownerData) {
             setOwnerInfo({
               displayName: ownerData.displayName || 'Propietario',
               email: ownerData.email || ''
@@ -68,6 +79,28 @@ export const Dashboard: React.FC = () => {
     }
   };
 
+  const handleRotateKey = async () => {
+    if (!business) return;
+    if (!window.confirm('La clave actual dejará de funcionar para unirse al negocio. Los asistentes que ya tienen acceso lo conservan. ¿Continuar?')) return;
+
+    setRotatingKey(true);
+    try {
+      await rotateBusinessKey(business.id, business.name, business.businessKey);
+    } catch (err) {
+      console.error('Error al rotar la clave:', err);
+    } finally {
+      setRotatingKey(false);
+    }
+  };
+
+  const handleJoinRoleChange = async (joinRole: BusinessRole) => {
+    try {
+      await updateBusiness({ joinRole });
+    } catch (err) {
+      console.error('Error al actualizar el rol de la clave:', err);
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -87,7 +120,6 @@ export const Dashboard: React.FC = () => {
     return isTomorrow(aptDate);
   });
 
-  const pendingAppointments = appointments.filter(apt => apt.status === 'pending');
   const confirmedAppointments = appointments.filter(apt => apt.status === 'confirmed');
 
   const thisWeekAppointments = appointments.filter(apt => {
@@ -213,20 +245,44 @@ export const Dashboard: React.FC = () => {
                   <Key className="h-4 w-4 mr-2" />
                   <span className="text-sm font-medium">Clave del Negocio</span>
                 </div>
-                <button
-                  onClick={copyBusinessKey}
-                  className="p-1 hover:bg-white/10 rounded transition-colors"
-                  title="Copiar clave"
-                >
-                  <Copy className="h-4 w-4" />
-                </button>
+                <div className="flex items-center">
+                  <button
+                    onClick={copyBusinessKey}
+                    className="p-1 hover:bg-white/10 rounded transition-colors"
+                    title="Copiar clave"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={handleRotateKey}
+                    disabled={rotatingKey}
+                    className="p-1 hover:bg-white/10 rounded transition-colors disabled:opacity-50"
+                    title="Rotar clave"
+                  >
+                    <RefreshCw className={`h-4 w-4 ${rotatingKey ? 'animate-spin' : ''}`} />
+                  </button>
+                </div>
               </div>
               <div className="font-mono text-lg font-bold tracking-wider">
                 {business.businessKey}
               </div>
               <p className="text-xs text-pink-100 mt-1">
-                Comparte esta clave con tus asistentes
+                Para nuevos asistentes usa las invitaciones de Equipo
               </p>
+              <label className="flex items-center justify-between mt-2 text-xs text-pink-100">
+                Rol al unirse
+                <select
+                  value={business.joinRole || 'viewer'}
+                  onChange={(e) => handleJoinRoleChange(e.target.value as BusinessRole)}
+                  className="ml-2 bg-white/20 text-white rounded px-2 py-1 focus:outline-none"
+                >
+                  {(['viewer', 'editor', 'admin'] as const).map(role => (
+                    <option key={role} value={role} className="text-gray-900">
+                      {BUSINESS_ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </select>
+              </label>
             </div>
           )}
 
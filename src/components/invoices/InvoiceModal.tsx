@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useBusinessData } from '../../hooks/useBusinessData';
+import type { AppointmentCharge, Client, Payment } from '../../types';
+import { PAYMENT_FORMS, getCfdiUse } from '../../config/satCatalogs';
+import { buildInvoiceConcepts, getInvoiceTotals } from '../../utils/cfdi';
+import { getPaymentForm } from '../../utils/invoices';
+import { formatMoney, getChargeTotal } from '../../utils/payments';
+import { X, Receipt, AlertCircle } from 'lucide-react';
+
+interface InvoiceModalProps {
+  client: Client;
+  charges: AppointmentCharge[]; // citas pagadas sin factura
+  payments: Payment[];
+  onClose: () => void;
+}
+
+export const InvoiceModal: React.FC<InvoiceModalProps> = ({ client, charges, payments, onClose }) => {
+  const { currentUser, currentBusiness } = useAuth();
+  const businessId = currentUser?.role === 'owner' ? currentUser?.businessId : currentBusiness;
+  const { business, services, createInvoice } = useBusinessData(businessId || undefined);
+
+  const [selected, setSelected] = useState<string[]>(charges.map(charge => charge.appointmentId));
+  const selectedCharges = charges.filter(charge => selected.includes(charge.appointmentId));
+  const suggestedForm = getPaymentForm(payments.filter(payment => payment.appointmentId && selected.includes(payment.appointmentId)));
+  const [paymentForm, setPaymentForm] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const fiscal = business?.fiscal;
+  const totals = fiscal ? getInvoiceTotals(buildInvoiceConcepts(selectedCharges, services, fiscal)) : null;
+
+  const toggle = (appointmentId: string) => {
+    setSelected(prev => prev.includes(appointmentId) ? prev.filter(id => id !== appointmentId) : [...prev, appointmentId]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+    try {
+      await createInvoice(client, selectedCharges, paymentForm || suggestedForm);
+      onClose();
+    } catch (error) {
+      setError((error as Error).message || 'Error al emitir la factura');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Facturar citas</h2>
+            {client.fiscal && (
+              <p className="text-sm text-gray-500">
+                {client.fiscal.legalName} · {client.fiscal.rfc} · {client.fiscal.cfdiUse} {getCfdiUse(client.fiscal.cfdiUse)?.name}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 flex">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Citas pagadas</h3>
+            <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+              {charges.map(charge => (
+                <li key={charge.appointmentId}>
+                  <label className="flex items-center justify-between px-3 py-2 text-sm cursor-pointer">
+                    <span className="flex items-center">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded mr-2"
+                        checked={selected.includes(charge.appointmentId)}
+                        onChange={() => toggle(charge.appointmentId)}
+                      />
+                      {services.find(s => s.id === charge.serviceId)?.name || 'Servicio'} · {charge.date}
+                    </span>
+                    <span className="text-gray-900">{formatMoney(getChargeTotal(charge.price, charge.discount, 0))}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-gray-500 mt-1">Las propinas no se facturan.</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Forma de pago</label>
+            <select
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+              value={paymentForm || suggestedForm}
+              onChange={(e) => setPaymentForm(e.target.value)}
+            >
+              {Object.entries(PAYMENT_FORMS).map(([code, label]) => (
+                <option key={code} value={code}>{code} - {label}</option>
+              ))}
+            </select>
+          </div>
+
+          {totals && (
+            <div className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Subtotal</span>
+                <span className="text-gray-900">{formatMoney(totals.subtotal)}</span>
+              </div>
+              {totals.discount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Descuento</span>
+                  <span className="text-gray-900">{formatMoney(totals.discount)}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-gray-600">{fiscal?.taxTreatment === 'iva16' ? 'IVA 16%' : 'IVA exento'}</span>
+                <span className="text-gray-900">{formatMoney(totals.taxes)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-600">Total</span>
+                <span className="font-semibold text-gray-900">{formatMoney(totals.total)}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancelar
+            </button>
+            <button
+              type="submit"
+              disabled={loading || selectedCharges.length === 0}
+              className="flex items-center px-6 py-2 bg-pink-600 text-white rounded-md hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Receipt className="h-4 w-4 mr-2" />
+              {loading ? 'Generando...' : 'Generar factura'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
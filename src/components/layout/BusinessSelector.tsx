@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
+import { BUSINESS_ROLE_LABELS } from '../../hooks/usePermissions';
 import { ChevronDown, Building2, Plus } from 'lucide-react';
 
 export const BusinessSelector: React.FC = () => {
@@ -34,7 +35,7 @@ export const BusinessSelector: React.FC = () => {
         setBusinessKey('');
         setShowAddBusiness(false);
       } else {
-        setError('No se pudo encontrar el negocio con esa clave');
+        setError('No se encontró un negocio con ese código');
       }
     } catch (error: any) {
       setError(error.message || 'Error al agregar negocio');
@@ -73,8 +74,7 @@ export const BusinessSelector: React.FC = () => {
                 <div className="flex-1">
                   <div className="font-medium">{business.businessName}</div>
                   <div className="text-xs text-gray-500">
-                    {business.role === 'admin' ? 'Administrador' : 
-                     business.role === 'editor' ? 'Editor' : 'Visualizador'}
+                    {BUSINESS_ROLE_LABELS[business.role]}
                   </div>
                 </div>
                 {currentBusiness === business.businessId && (
@@ -103,13 +103,13 @@ export const BusinessSelector: React.FC = () => {
           <form onSubmit={handleAddBusiness} className="space-y-3">
             <div>
               <label className="block text-xs font-medium text-gray-700 mb-1">
-                Clave del negocio
+                Código de invitación o clave
               </label>
               <input
                 type="text"
                 value={businessKey}
                 onChange={(e) => setBusinessKey(e.target.value.toUpperCase())}
-                placeholder="Ingresa la clave del negocio"
+                placeholder="Ingresa el código de invitación"
                 className="w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
                 maxLength={16}
                 required
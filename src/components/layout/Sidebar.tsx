@@ -1,7 +1,10 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { BusinessSelector } from './BusinessSelector';
 import { useLicenseGuard } from '../../hooks/useLicenseGuard';
+import { usePermissions, BUSINESS_ROLE_LABELS } from '../../hooks/usePermissions';
+import { useOfflineSync } from '../../hooks/useOfflineSync';
+import { SyncStatusModal } from './SyncStatusModal';
 import MakeAgendLogo from '../../assets/images/MakeAgend.png';
 import MLogo from '../../assets/images/M.png';
 import { 
@@ -14,7 +17,15 @@ import {
   LogOut,
   Home,
   X,
-  ChevronLeft
+  ChevronLeft,
+  UserCheck,
+  Hourglass,
+  Shield,
+  History,
+  WifiOff,
+  RefreshCw,
+  AlertTriangle,
+  Wallet
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -36,12 +47,31 @@ export const Sidebar: React.FC<SidebarProps> = ({
 }) => {
   const { currentUser, logout } = useAuth();
   const { canAccessSection, getLicenseStatusMessage, isBlocked } = useLicenseGuard();
+  const { businessRole, canEditBusiness, canManageTeam, canViewAuditLog, canOperateCashRegister } = usePermissions();
+  const { online, syncing, pending, conflicts } = useOfflineSync();
+  const [showSyncStatus, setShowSyncStatus] = useState(false);
+
+  // Indicador visible solo sin conexión o con cambios por sincronizar
+  const showSyncIndicator = !online || syncing || pending.length > 0 || conflicts.length > 0;
+  const SyncIcon = conflicts.length > 0 ? AlertTriangle : online ? RefreshCw : WifiOff;
+  const syncLabel = conflicts.length > 0
+    ? `${conflicts.length} conflicto(s) por resolver`
+    : !online
+    ? 'Sin conexión'
+    : syncing
+    ? 'Sincronizando...'
+    : 'Cambios por enviar';
 
   const allMenuItems = [
     { id: 'dashboard', label: 'Dashboard', icon: Home },
     { id: 'appointments', label: 'Citas', icon: Calendar },
+    { id: 'waitlist', label: 'Lista de espera', icon: Hourglass },
+    ...(canOperateCashRegister ? [{ id: 'cash', label: 'Caja', icon: Wallet }] : []),
     { id: 'clients', label: 'Clientes', icon: Users },
     { id: 'services', label: 'Servicios', icon: Scissors },
+    { id: 'staff', label: 'Profesionales', icon: UserCheck },
+    ...(canManageTeam ? [{ id: 'team', label: 'Equipo', icon: Shield }] : []),
+    ...(canViewAuditLog ? [{ id: 'audit', label: 'Auditoría', icon: History }] : []),
     { id: 'reports', label: 'Reportes', icon: BarChart3 },
     { id: 'notifications', label: 'Notificaciones', icon: Bell }
   ];
@@ -93,7 +123,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
               />
               <div className="ml-3">
                 <p className="text-sm text-gray-600">
-                  {currentUser?.role === 'owner' ? 'Propietario' : 'Asistente'}
+                  {businessRole ? BUSINESS_ROLE_LABELS[businessRole] : 'Asistente'}
                 </p>
               </div>
             </div>
@@ -151,6 +181,33 @@ export const Sidebar: React.FC<SidebarProps> = ({
           </div>
         )}
 
+        {/* Offline / Pending Sync Indicator */}
+        {showSyncIndicator && (
+          <div className={`${isCollapsed ? 'px-2' : 'px-4'} py-3 border-b border-gray-200`}>
+            <button
+              onClick={() => setShowSyncStatus(true)}
+              className={`w-full flex items-center ${isCollapsed ? 'justify-center p-2' : 'p-3'} rounded-lg text-sm text-left ${
+                conflicts.length > 0
+                  ? 'bg-red-50 text-red-800 border border-red-200'
+                  : !online
+                  ? 'bg-yellow-50 text-yellow-800 border border-yellow-200'
+                  : 'bg-blue-50 text-blue-800 border border-blue-200'
+              }`}
+              title={isCollapsed ? `${syncLabel} (${pending.length} pendiente(s))` : undefined}
+            >
+              <SyncIcon className={`h-4 w-4 flex-shrink-0 ${isCollapsed ? '' : 'mr-2'} ${syncing ? 'animate-spin' : ''}`} />
+              {!isCollapsed && (
+                <div className="min-w-0">
+                  <div className="font-medium">{syncLabel}</div>
+                  <div className="text-xs">
+                    {pending.length > 0 ? `${pending.length} cambio(s) pendiente(s) de sincronizar` : 'Todo sincronizado'}
+                  </div>
+                </div>
+              )}
+            </button>
+          </div>
+        )}
+
         {/* Navigation Menu */}
         <nav className="flex-1 px-4 py-6 overflow-y-auto">
           <ul className="space-y-2">
@@ -194,7 +251,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
 
         {/* Settings and Logout */}
         <div className={`${isCollapsed ? 'p-2' : 'p-4'} border-t border-gray-200 space-y-2`}>
-          {currentUser?.role === 'owner' && (
+          {canEditBusiness && (
             <button
               onClick={() => handleSectionChange('settings')}
               className={`w-full flex items-center ${isCollapsed ? 'px-2 py-3 justify-center' : 'px-4 py-3'} text-left rounded-lg transition-colors ${
@@ -238,6 +295,8 @@ export const Sidebar: React.FC<SidebarProps> = ({
           </div>
         )}
       </div>
+
+      {showSyncStatus && <SyncStatusModal onClose={() => setShowSyncStatus(false)} />}
     </>
   );
 };
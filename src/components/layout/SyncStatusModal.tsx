@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { SyncConflictResolution } from '../../storage';
+import { useOfflineSync } from '../../hooks/useOfflineSync';
+import { describeQueuedMutation } from '../../utils/offlineSync';
+import { X, WifiOff, RefreshCw, AlertTriangle, Clock } from 'lucide-react';
+
+interface SyncStatusModalProps {
+  onClose: () => void;
+}
+
+const formatQueuedAt = (date: string) => format(new Date(date), "d MMM, HH:mm", { locale: es });
+
+export const SyncStatusModal: React.FC<SyncStatusModalProps> = ({ onClose }) => {
+  const { online, syncing, pending, conflicts, sync, resolveConflict } = useOfflineSync();
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleResolve = async (id: string, resolution: SyncConflictResolution) => {
+    if (resolution === 'discard' && !window.confirm('¿Descartar este cambio? No se podrá recuperar.')) return;
+    setError('');
+    setResolvingId(id);
+    try {
+      await resolveConflict(id, resolution);
+    } catch (error) {
+      setError((error as Error).message || 'Error al resolver el conflicto');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">Sincronización</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className={`flex items-start p-3 rounded-lg text-sm ${
+            online ? 'bg-green-50 text-green-800 border border-green-200' : 'bg-yellow-50 text-yellow-800 border border-yellow-200'
+          }`}>
+            {online ? <RefreshCw className={`h-4 w-4 mr-2 mt-0.5 ${syncing ? 'animate-spin' : ''}`} /> : <WifiOff className="h-4 w-4 mr-2 mt-0.5" />}
+            <p>
+              {online
+                ? syncing ? 'Enviando los cambios pendientes...' : 'Conectado. Los cambios se guardan al momento.'
+                : 'Sin conexión. Los cambios se guardan en este dispositivo y se enviarán al reconectar.'}
+            </p>
+          </div>
+
+          {conflicts.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Conflictos ({conflicts.length})</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Estos cambios no se enviaron. Decide si aplicarlos de todas formas o descartarlos.
+              </p>
+              <ul className="space-y-3">
+                {conflicts.map(mutation => (
+                  <li key={mutation.id} className="p-3 border border-red-200 bg-red-50 rounded-lg">
+                    <div className="flex items-start">
+                      <AlertTriangle className="h-4 w-4 text-red-500 mr-2 mt-0.5 flex-shrink-0" />
+                      <div className="min-w-0 flex-1">
+                        <p className="text-sm font-medium text-gray-900">{describeQueuedMutation(mutation)}</p>
+                        <p className="text-sm text-red-700">{mutation.conflict?.reason}</p>
+                        <p className="text-xs text-gray-500 mt-1">Hecho el {formatQueuedAt(mutation.createdAt)}</p>
+                      </div>
+                    </div>
+                    <div className="flex justify-end space-x-2 mt-3">
+                      <button
+                        onClick={() => handleResolve(mutation.id, 'discard')}
+                        disabled={resolvingId !== null}
+                        className="px-3 py-1.5 text-sm text-gray-700 border border-gray-300 bg-white rounded-md hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Descartar
+                      </button>
+                      <button
+                        onClick={() => handleResolve(mutation.id, 'keep')}
+                        disabled={resolvingId !== null || !online}
+                        className="px-3 py-1.5 text-sm bg-pink-600 text-white rounded-md hover:bg-pink-700 disabled:opacity-50"
+                        title={!online ? 'Disponible al reconectar' : undefined}
+                      >
+                        Aplicar de todas formas
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Cambios pendientes ({pending.length})</h3>
+            {pending.length === 0 ? (
+              <p className="text-sm text-gray-500">No hay cambios por enviar.</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {pending.map(mutation => (
+                  <li key={mutation.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                    <span className="text-gray-900 truncate">{describeQueuedMutation(mutation)}</span>
+                    <span className="flex items-center text-xs text-gray-500 ml-3 flex-shrink-0">
+                      <Clock className="h-3 w-3 mr-1" />
+                      {formatQueuedAt(mutation.createdAt)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t border-gray-200">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Cerrar
+          </button>
+          <button
+            onClick={() => sync()}
+            disabled={!online || syncing || pending.length === 0}
+            className="flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`h-4 w-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+            Sincronizar ahora
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
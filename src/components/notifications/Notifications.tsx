@@ -1,6 +1,9 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAppointments, usePendingAppointments } from '../../hooks/useAppointments';
 import { useAuth } from '../../contexts/AuthContext';
+import { notificationService } from '../../utils/notificationService';
+import type { Notification as StoredNotification } from '../../types';
 import { 
   Bell, 
   Calendar, 
@@ -13,6 +16,7 @@ import {
 } from 'lucide-react';
 import { format, isToday, isTomorrow, addDays, isBefore } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { getWindowAroundToday } from '../../utils/dateWindow';
 
 type NotificationType = 'appointment' | 'reminder' | 'alert' | 'system';
 type NotificationPriority = 'low' | 'medium' | 'high';
@@ -28,18 +32,61 @@ interface Notification {
   actionRequired?: boolean;
 }
 
+// Tipo de la vista para las notificaciones guardadas en la base de datos
+const getStoredNotificationType = (type: StoredNotification['type']): NotificationType => {
+  switch (type) {
+    case 'appointment_pending':
+    case 'waitlist_match':
+      return 'appointment';
+    case 'appointment_reminder':
+      return 'reminder';
+    case 'error':
+    case 'license_expiring':
+    case 'license_expired':
+    case 'account_blocked':
+    case 'access_revoked':
+      return 'alert';
+    default:
+      return 'system';
+  }
+};
+
 export const Notifications: React.FC = () => {
   const { currentUser } = useAuth();
-  const { appointments, clients, loading } = useBusinessData(currentUser?.businessId || undefined);
+  const { clients, loading } = useBusinessData(currentUser?.businessId || undefined);
+  // Hoy y mañana; las pendientes se consultan aparte, de cualquier fecha
+  const upcomingWindow = useMemo(() => getWindowAroundToday({}, { days: 1 }), []);
+  const { appointments } = useAppointments(currentUser?.businessId || undefined, upcomingWindow);
+  const { appointments: pendingAppointments } = usePendingAppointments(currentUser?.businessId || undefined);
   
   const [filter, setFilter] = useState<'all' | 'unread' | 'high'>('all');
   const [readNotifications, setReadNotifications] = useState<Set<string>>(new Set());
+  const [storedNotifications, setStoredNotifications] = useState<StoredNotification[]>([]);
+
+  useEffect(() => {
+    if (!currentUser?.uid) return;
+    return notificationService.subscribeToUserNotifications(currentUser.uid, setStoredNotifications);
+  }, [currentUser?.uid]);
 
   // Generate notifications based on business data
   const notifications = useMemo(() => {
     const notifs: Notification[] = [];
     const now = new Date();
 
+    // Notificaciones guardadas (reservas en línea, lista de espera, etc.)
+    storedNotifications.forEach(stored => {
+      notifs.push({
+        id: stored.id,
+        type: getStoredNotificationType(stored.type),
+        priority: stored.priority === 'critical' ? 'high' : stored.priority,
+        title: stored.title,
+        message: stored.message,
+        timestamp: new Date(stored.createdAt),
+        read: stored.isRead || readNotifications.has(stored.id),
+        actionRequired: !stored.isRead && (stored.type === 'appointment_pending' || stored.type === 'waitlist_match')
+      });
+    });
+
     // Upcoming appointments today
     const todayAppointments = appointments.filter(apt => 
       isToday(new Date(apt.date)) && apt.status === 'confirmed'
@@ -77,7 +124,6 @@ export const Notifications: React.FC = () => {
     }
 
     // Pending appointments
-    const pendingAppointments = appointments.filter(apt => apt.status === 'pending');
     if (pendingAppointments.length > 0) {
       notifs.push({
         id: 'pending-appointments',
@@ -92,8 +138,8 @@ export const Notifications: React.FC = () => {
     }
 
     // Overdue appointments (past appointments still pending)
-    const overdueAppointments = appointments.filter(apt => 
-      apt.status === 'pending' && isBefore(new Date(apt.date), now)
+    const overdueAppointments = pendingAppointments.filter(apt => 
+      isBefore(new Date(apt.date), now)
     );
 
     if (overdueAppointments.length > 0) {
@@ -154,7 +200,7 @@ export const Notifications: React.FC = () => {
       }
       return b.timestamp.getTime() - a.timestamp.getTime();
     });
-  }, [appointments, clients, readNotifications]);
+  }, [appointments, pendingAppointments, clients, readNotifications, storedNotifications]);
 
   const filteredNotifications = notifications.filter(notification => {
     switch (filter) {
@@ -169,10 +215,20 @@ export const Notifications: React.FC = () => {
 
   const markAsRead = (notificationId: string) => {
     setReadNotifications(prev => new Set([...prev, notificationId]));
+    if (storedNotifications.some(stored => stored.id === notificationId)) {
+      notificationService.markAsRead(notificationId).catch(error => {
+        console.error('Error marking notification as read:', error);
+      });
+    }
   };
 
   const markAllAsRead = () => {
     setReadNotifications(new Set(notifications.map(n => n.id)));
+    if (currentUser?.uid && storedNotifications.some(stored => !stored.isRead)) {
+      notificationService.markAllAsRead(currentUser.uid).catch(error => {
+        console.error('Error marking notifications as read:', error);
+      });
+    }
   };
 
   const getNotificationIcon = (type: NotificationType) => {
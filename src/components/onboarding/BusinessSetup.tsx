@@ -1,10 +1,10 @@
 import React, { useState } from 'react';
-import { ref, set, push, update } from 'firebase/database';
-import { database } from '../../config/firebase';
+import { businessKeyRepository, businessRepository, getDataStore, serviceRepository, userRepository } from '../../storage';
 import { useAuth } from '../../contexts/AuthContext';
 import type { Business, BusinessCategory, OperatingHours, User } from '../../types';
 import { getCategoryInfo, getAllCategories } from '../../config/businessCategories';
 import { generateUniqueBusinessKey } from '../../utils/businessKey';
+import { BusinessBackup } from '../settings/BusinessBackup';
 import { Building2 as Building, Clock, ArrowRight, X, Check, Save } from 'lucide-react';
 import MakeAgendLogo from '../../assets/images/MakeAgend.png';
 
@@ -23,6 +23,7 @@ export const BusinessSetup: React.FC = () => {
     sunday: { isOpen: false }
   });
   const [loading, setLoading] = useState(false);
+  const [showRestore, setShowRestore] = useState(false);
 
   const availableCategories = getAllCategories();
 
@@ -43,8 +44,7 @@ export const BusinessSetup: React.FC = () => {
       const businessKey = await generateUniqueBusinessKey();
       
       // Create business
-      const businessRef = push(ref(database, 'businesses'));
-      const businessId = businessRef.key!;
+      const businessId = businessRepository.newId();
       
       const businessData: Omit<Business, 'id'> = {
         name: businessName,
@@ -62,20 +62,17 @@ export const BusinessSetup: React.FC = () => {
         description: ''
       };
 
-      await set(businessRef, businessData);
-
-      // Create default services in separate structure
-      const servicesRef = ref(database, `businesses/${businessId}/services`);
-      const defaultServicesPromises: Promise<void>[] = [];
+      // Default services, stored in the services collection of the business
+      const defaultServicesData: Record<string, Record<string, unknown>> = {};
       
       for (const category of selectedCategories) {
         const categoryInfo = getCategoryInfo(category);
         const defaultServices = categoryInfo?.defaultServices || [];
         
         for (const serviceName of defaultServices) {
-          const serviceRef = push(servicesRef);
+          const serviceId = serviceRepository.newId(businessId);
           const serviceData = {
-            id: serviceRef.key,
+            id: serviceId,
             name: serviceName,
             duration: 60,
             category: categoryInfo.name,
@@ -86,12 +83,20 @@ export const BusinessSetup: React.FC = () => {
             createdAt: new Date().toISOString(),
             updatedAt: new Date().toISOString()
           };
-          defaultServicesPromises.push(set(serviceRef, serviceData));
+          defaultServicesData[serviceId] = serviceData;
         }
       }
 
-      // Wait for all services to be created
-      await Promise.all(defaultServicesPromises);
+      // Business, services and the key index entry are created in a single write: the database
+      // rules only allow writing services without a license while the business is created,
+      // and require the business key to be indexed in businessKeys
+      await getDataStore().update('', {
+        [businessRepository.path(businessId)]: {
+          ...businessData,
+          services: defaultServicesData
+        },
+        [businessKeyRepository.path(businessKey)]: { businessId, businessName }
+      });
 
 // Update user with businessId and businessAccess
       const userUpdates: Partial<User> = {
@@ -108,8 +113,7 @@ export const BusinessSetup: React.FC = () => {
         currentBusiness: businessId
       };
 
-      const userRef = ref(database, `users/${currentUser.uid}`);
-      await update(userRef, userUpdates);
+      await userRepository.update(currentUser.uid, userUpdates);
 
       // Reload the page to trigger re-authentication with new businessId
       window.location.reload();
@@ -162,6 +166,20 @@ export const BusinessSetup: React.FC = () => {
                 <ArrowRight className="h-4 w-4 ml-2" />
               </button>
             </div>
+
+            {/* Crear el negocio a partir de un respaldo (p. ej. al moverlo desde otra cuenta) */}
+            <div className="pt-6 border-t border-gray-200">
+              {showRestore ? (
+                <BusinessBackup />
+              ) : (
+                <button
+                  onClick={() => setShowRestore(true)}
+                  className="text-sm text-pink-600 hover:text-pink-700"
+                >
+                  ¿Tienes un respaldo? Restaurar negocio desde archivo
+                </button>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,265 @@
+import React, { useEffect, useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAppointmentBilling } from '../../hooks/usePayments';
+import type { Appointment, PaymentMethod } from '../../types';
+import { PAYMENT_METHOD_LABELS, formatMoney, getChargeBalance, getChargeTotal, getPaidAmount } from '../../utils/payments';
+import { X, DollarSign, AlertCircle, CheckCircle } from 'lucide-react';
+
+interface CheckoutModalProps {
+  appointment: Appointment;
+  onClose: () => void;
+}
+
+const toAmount = (value: string) => Math.max(0, parseFloat(value) || 0);
+
+export const CheckoutModal: React.FC<CheckoutModalProps> = ({ appointment, onClose }) => {
+  const { currentUser, currentBusiness } = useAuth();
+  const businessId = currentUser?.role === 'owner' ? currentUser?.businessId : currentBusiness;
+  const { clients, services, checkoutAppointment } = useBusinessData(businessId || undefined);
+  const { charge, payments, loading: billingLoading } = useAppointmentBilling(businessId || undefined, appointment.id);
+
+  const client = clients.find(c => c.id === appointment.clientId);
+  const service = services.find(s => s.id === appointment.serviceId);
+
+  const [formData, setFormData] = useState({
+    price: '',
+    discount: '0',
+    tip: '0',
+    notes: '',
+    amount: '',
+    method: 'cash' as PaymentMethod
+  });
+  const [prefilled, setPrefilled] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Una cuenta existente se edita con sus importes; si no, se parte del precio del servicio
+  useEffect(() => {
+    if (prefilled || billingLoading || (!charge && !service)) return;
+    const price = charge ? charge.price : service?.price || 0;
+    const discount = charge?.discount || 0;
+    const tip = charge?.tip || 0;
+    const pending = Math.max(0, getChargeTotal(price, discount, tip) - getPaidAmount(payments));
+    setFormData(prev => ({
+      ...prev,
+      price: String(price),
+      discount: String(discount),
+      tip: String(tip),
+      notes: charge?.notes || '',
+      amount: String(pending)
+    }));
+    setPrefilled(true);
+  }, [prefilled, billingLoading, charge, service, payments]);
+
+  const total = getChargeTotal(toAmount(formData.price), toAmount(formData.discount), toAmount(formData.tip));
+  const paid = getPaidAmount(payments);
+  const balance = getChargeBalance({ appointmentId: appointment.id, total }, payments);
+
+  // Al cambiar los importes el pago sugerido sigue al saldo
+  const updateAmounts = (updates: Partial<typeof formData>) => {
+    const next = { ...formData, ...updates };
+    const nextTotal = getChargeTotal(toAmount(next.price), toAmount(next.discount), toAmount(next.tip));
+    setFormData({ ...next, amount: String(Math.max(0, Math.round((nextTotal - paid) * 100) / 100)) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const price = toAmount(formData.price);
+    const discount = toAmount(formData.discount);
+    if (discount > price) {
+      setError('El descuento no puede ser mayor que el precio');
+      return;
+    }
+    if (total < paid) {
+      setError(`El total no puede ser menor que lo ya pagado (${formatMoney(paid)})`);
+      return;
+    }
+
+    const amount = toAmount(formData.amount);
+    if (amount > balance) {
+      setError(`El pago no puede exceder el saldo de ${formatMoney(balance)}`);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await checkoutAppointment(appointment, {
+        price,
+        discount,
+        tip: toAmount(formData.tip),
+        notes: formData.notes,
+        payment: amount > 0 ? { amount, method: formData.method } : undefined
+      });
+      onClose();
+    } catch (error) {
+      setError((error as Error).message || 'Error al registrar el cobro');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Cobrar cita</h2>
+            <p className="text-sm text-gray-500">
+              {client?.name || 'Cliente'} · {service?.name || 'Servicio'} · {appointment.date}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 flex">
+              <AlertCircle className="h-5 w-5 text-red-400 mr-2 flex-shrink-0" />
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Precio</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                required
+                className={inputClass}
+                value={formData.price}
+                onChange={(e) => updateAmounts({ price: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Descuento</label>
+              <input
+                type="number"
+                min="0"
+                max={formData.price || undefined}
+                step="0.01"
+                className={inputClass}
+                value={formData.discount}
+                onChange={(e) => updateAmounts({ discount: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Propina</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                className={inputClass}
+                value={formData.tip}
+                onChange={(e) => updateAmounts({ tip: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="bg-gray-50 rounded-lg p-4 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Total</span>
+              <span className="font-semibold text-gray-900">{formatMoney(total)}</span>
+            </div>
+            {paid > 0 && (
+              <div className="flex justify-between">
+                <span className="text-gray-600">Pagado</span>
+                <span className="text-gray-900">{formatMoney(paid)}</span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-gray-600">Saldo</span>
+              <span className={`font-semibold ${balance > 0 ? 'text-red-600' : 'text-green-600'}`}>{formatMoney(balance)}</span>
+            </div>
+          </div>
+
+          {payments.length > 0 && (
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Pagos registrados</h3>
+              <ul className="divide-y divide-gray-100 text-sm">
+                {payments.map(payment => (
+                  <li key={payment.id} className="flex justify-between py-1">
+                    <span className="text-gray-600">{payment.date} · {PAYMENT_METHOD_LABELS[payment.method]}</span>
+                    <span className="text-gray-900">{formatMoney(payment.amount)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {balance > 0 ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Pago recibido</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  max={balance}
+                  className={inputClass}
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                />
+                <p className="text-xs text-gray-500 mt-1">Deja 0 o un importe menor para registrar un saldo pendiente.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Método</label>
+                <select
+                  className={inputClass}
+                  value={formData.method}
+                  onChange={(e) => setFormData({ ...formData, method: e.target.value as PaymentMethod })}
+                >
+                  {Object.entries(PAYMENT_METHOD_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          ) : charge && (
+            <div className="flex items-center p-3 rounded-lg text-sm bg-green-50 text-green-800 border border-green-200">
+              <CheckCircle className="h-4 w-4 mr-2" />
+              La cuenta está pagada.
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+            <textarea
+              rows={2}
+              className={inputClass}
+              placeholder="Motivo del descuento, referencia de la transferencia..."
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+            />
+          </div>
+
+          <div className="flex items-center justify-end space-x-3 pt-4 border-t border-gray-200">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              {charge ? 'Cerrar' : 'Cobrar después'}
+            </button>
+            <button
+              type="submit"
+              disabled={loading || billingLoading}
+              className="flex items-center px-6 py-2 bg-pink-600 text-white rounded-md hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <DollarSign className="h-4 w-4 mr-2" />
+              {loading ? 'Guardando...' : 'Registrar cobro'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,10 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useBusinessData } from '../../hooks/useBusinessData';
+import { useClientAppointments } from '../../hooks/useAppointments';
+import { useClientRecords, useRecentRecords } from '../../hooks/useDigitalRecords';
 import { useAuth } from '../../contexts/AuthContext';
 import { usePermissions } from '../../hooks/usePermissions';
-import type { DigitalRecord, BusinessCategory } from '../../types';
+import type { DigitalRecord } from '../../types';
 import { 
   FileText, 
   Plus, 
@@ -18,21 +20,42 @@ import {
 import { format } from 'date-fns';
 import { es } from 'date-fns/locale';
 import { RecordModal } from './RecordModal';
+import { RecordDataSummary } from './RecordDataSummary';
+import { ClientFileExportModal } from '../clients/ClientFileExportModal';
+import { getRecordSchema } from '../../utils/recordSchema';
+import { getWindowAroundToday } from '../../utils/dateWindow';
 
 export const DigitalRecords: React.FC = () => {
   const { currentUser, currentBusiness } = useAuth();
-  const { canCreateRecord, canEditRecord, canDeleteRecord, getRestrictionMessage } = usePermissions();
+  const { canViewRecord, canCreateRecord, canEditRecord, canDeleteRecord, getRestrictionMessage } = usePermissions();
   
   // Determinar el businessId según el rol del usuario
   const businessId = currentUser?.role === 'owner' 
     ? currentUser?.businessId 
     : currentBusiness;
   
-  const { clients, digitalRecords, loading, deleteDigitalRecord } = useBusinessData(businessId || undefined);
+  const {
+    business,
+    clients,
+    services,
+    providers,
+    loading,
+    deleteDigitalRecord
+  } = useBusinessData(businessId || undefined);
   const [selectedClient, setSelectedClient] = useState<string>('');
   const [searchTerm, setSearchTerm] = useState('');
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedRecord, setSelectedRecord] = useState<DigitalRecord | null>(null);
+  const [exportClientId, setExportClientId] = useState<string | null>(null);
+  const exportClient = clients.find(client => client.id === exportClientId);
+
+  // Sin cliente elegido se muestran los expedientes recientes; con cliente, todo su historial
+  const recentWindow = useMemo(() => getWindowAroundToday({ days: 30 }, {}), []);
+  const recentRecords = useRecentRecords(businessId || undefined, canViewRecord && !selectedClient ? recentWindow : null);
+  const clientRecords = useClientRecords(businessId || undefined, canViewRecord ? selectedClient || null : null);
+  const digitalRecords = selectedClient ? clientRecords.records : recentRecords.records;
+  const exportRecords = useClientRecords(businessId || undefined, exportClientId);
+  const exportAppointments = useClientAppointments(businessId || undefined, exportClientId);
 
   const filteredRecords = digitalRecords.filter(record => {
     const client = clients.find(c => c.id === record.clientId);
@@ -70,88 +93,6 @@ export const DigitalRecords: React.FC = () => {
     }
   };
 
-  const getRecordTypeLabel = (businessCategory: BusinessCategory) => {
-    switch (businessCategory) {
-      case 'dermatology':
-        return 'Consulta Dermatológica';
-      case 'acupuncture':
-        return 'Sesión de Acupuntura';
-      case 'physiotherapy':
-        return 'Sesión de Fisioterapia';
-      case 'nails':
-        return 'Servicio de Uñas';
-      case 'massage':
-        return 'Sesión de Masaje';
-      case 'beauty':
-        return 'Tratamiento Estético';
-      case 'other':
-        return 'Consulta Especializada';
-      case 'nutrition':
-        return 'Consulta Nutricional';
-      case 'psychology':
-        return 'Sesión de Terapia';
-      case 'dentistry':
-        return 'Consulta Dental';
-      case 'hair':
-        return 'Servicio de Peluquería';
-      case 'barbershop':
-        return 'Servicio de Barbería';
-      case 'yoga':
-        return 'Clase de Yoga/Pilates';
-      case 'fitness':
-        return 'Entrenamiento Personal';
-      case 'veterinary':
-        return 'Consulta Veterinaria';
-      case 'consulting':
-        return 'Consultoría';
-      case 'education':
-        return 'Sesión Educativa';
-      default:
-        return 'Registro';
-    }
-  };
-
-  const renderRecordDetails = (record: DigitalRecord) => {
-    const data = record.data || {};
-    
-    switch (record.category) {
-      case 'dermatology':
-        return (
-          <div className="text-sm text-gray-600">
-            <p><strong>Diagnóstico:</strong> {data.diagnosis || 'N/A'}</p>
-            <p><strong>Tratamiento:</strong> {data.treatment || 'N/A'}</p>
-          </div>
-        );
-      case 'acupuncture':
-        return (
-          <div className="text-sm text-gray-600">
-            <p><strong>Puntos:</strong> {data.acupuncturePoints?.join(', ') || 'N/A'}</p>
-            <p><strong>Síntomas:</strong> {data.symptomsAddressed || 'N/A'}</p>
-          </div>
-        );
-      case 'physiotherapy':
-        return (
-          <div className="text-sm text-gray-600">
-            <p><strong>Terapia:</strong> {data.therapyType || 'N/A'}</p>
-            <p><strong>Progreso:</strong> {data.patientProgress || 'N/A'}</p>
-          </div>
-        );
-      case 'nails':
-        return (
-          <div className="text-sm text-gray-600">
-            <p><strong>Servicio:</strong> {data.serviceType || 'N/A'}</p>
-            <p><strong>Preferencias:</strong> {data.preferences || 'N/A'}</p>
-          </div>
-        );
-      default:
-        return (
-          <div className="text-sm text-gray-600">
-            <p>Registro personalizado</p>
-          </div>
-        );
-    }
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -160,6 +101,16 @@ export const DigitalRecords: React.FC = () => {
     );
   }
 
+  if (!canViewRecord) {
+    return (
+      <div className="text-center py-12">
+        <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Acceso Restringido</h3>
+        <p className="text-gray-500">{getRestrictionMessage('canViewRecord')}</p>
+      </div>
+    );
+  }
+
   return (
     <div>
       {/* Header */}
@@ -200,7 +151,7 @@ export const DigitalRecords: React.FC = () => {
               value={selectedClient}
               onChange={(e) => setSelectedClient(e.target.value)}
             >
-              <option value="">Todos los clientes</option>
+              <option value="">Todos los clientes (últimos 30 días)</option>
               {clients.map((client) => (
                 <option key={client.id} value={client.id}>
                   {client.name}
@@ -221,7 +172,7 @@ export const DigitalRecords: React.FC = () => {
         <div className="bg-white rounded-lg shadow p-8 text-center">
           <FileText className="h-12 w-12 text-gray-400 mx-auto mb-4" />
           <p className="text-gray-500 mb-4">
-            {searchTerm || selectedClient ? 'No se encontraron registros' : 'No hay registros creados'}
+            {searchTerm || selectedClient ? 'No se encontraron registros' : 'No hay registros en los últimos 30 días'}
           </p>
           {!searchTerm && !selectedClient && (
             <button
@@ -248,7 +199,7 @@ export const DigitalRecords: React.FC = () => {
                           {client?.name || 'Cliente desconocido'}
                         </h3>
                         <span className="ml-3 px-2 py-1 bg-pink-100 text-pink-800 text-xs rounded-full">
-                          {getRecordTypeLabel(record.category || 'beauty')}
+                          {getRecordSchema(record.category).recordLabel}
                         </span>
                       </div>
 
@@ -259,7 +210,7 @@ export const DigitalRecords: React.FC = () => {
                         Creado por: {record.createdBy}
                       </div>
 
-                      {renderRecordDetails(record)}
+                      <RecordDataSummary record={record} customFields={business?.recordFields} limit={4} />
                     </div>
 
                     <div className="flex items-center space-x-2">
@@ -306,8 +257,9 @@ export const DigitalRecords: React.FC = () => {
                       )}
                       
                       <button
+                        onClick={() => setExportClientId(record.clientId)}
                         className="p-2 text-gray-400 hover:text-gray-600"
-                        title="Descargar registro"
+                        title="Exportar expediente del cliente en PDF"
                       >
                         <Download className="h-4 w-4" />
                       </button>
@@ -320,6 +272,20 @@ export const DigitalRecords: React.FC = () => {
         </div>
       )}
 
+      {/* Exportación del expediente */}
+      {exportClient && business && !exportRecords.loading && !exportAppointments.loading && (
+        <ClientFileExportModal
+          client={exportClient}
+          business={business}
+          records={exportRecords.records}
+          appointments={exportAppointments.appointments}
+          services={services}
+          providers={providers}
+          generatedBy={currentUser?.displayName}
+          onClose={() => setExportClientId(null)}
+        />
+      )}
+
       {/* Record Modal */}
       <RecordModal
         isOpen={isModalOpen}
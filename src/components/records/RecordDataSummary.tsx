@@ -0,0 +1,30 @@
+import React from 'react';
+import type { Business, DigitalRecord } from '../../types';
+import { getRecordDataEntries } from '../../utils/recordSchema';
+
+interface RecordDataSummaryProps {
+  record: DigitalRecord;
+  customFields?: Business['recordFields'];
+  // Número máximo de campos a mostrar (todos si no se indica)
+  limit?: number;
+}
+
+export const RecordDataSummary: React.FC<RecordDataSummaryProps> = ({ record, customFields, limit }) => {
+  const entries = getRecordDataEntries(record, customFields);
+  if (entries.length === 0) return null;
+  const visibleEntries = limit ? entries.slice(0, limit) : entries;
+
+  return (
+    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-xs sm:text-sm text-gray-600">
+      {visibleEntries.map(entry => (
+        <div key={entry.key} className="min-w-0">
+          <dt className="inline font-medium text-gray-700">{entry.label}:</dt>{' '}
+          <dd className="inline break-words">{entry.value}</dd>
+        </div>
+      ))}
+      {visibleEntries.length < entries.length && (
+        <p className="text-xs text-gray-400">+{entries.length - visibleEntries.length} campo(s) más</p>
+      )}
+    </dl>
+  );
+};
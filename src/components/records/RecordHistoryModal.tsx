@@ -0,0 +1,325 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import type { Business, BusinessCategory, DigitalRecord, DigitalRecordVersion, Service } from '../../types';
+import { recordHistoryService, getRecordVersion } from '../../utils/recordHistoryService';
+import { diffFields } from '../../utils/auditService';
+import { formatRecordValue, getRecordFields, getRecordSchema } from '../../utils/recordSchema';
+import { X, History, RotateCcw, Lock, FilePlus } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+interface RecordHistoryModalProps {
+  record: DigitalRecord;
+  businessId: string;
+  services: Service[];
+  customFields?: Business['recordFields'];
+  canEdit: boolean;
+  onClose: () => void;
+  onRestore: (version: DigitalRecordVersion) => Promise<void>;
+  onSign: () => Promise<void>;
+  onAddAddendum: (text: string) => Promise<void>;
+}
+
+// Campos de control que no se muestran en las diferencias
+const HIDDEN_FIELDS = [
+  'version', 'restoredFrom', 'versionedAt', 'versionedBy', 'versionedByName',
+  'signedAt', 'signedBy', 'signedByName', 'addenda', 'createdAt', 'createdBy', 'businessId'
+];
+
+const FIELD_LABELS: Record<string, string> = {
+  clientId: 'Cliente',
+  serviceId: 'Servicio',
+  treatment: 'Tratamiento',
+  date: 'Fecha',
+  notes: 'Notas',
+  diagnosis: 'Diagnóstico',
+  duration: 'Duración (min)',
+  category: 'Tipo de registro'
+};
+
+// Prefijo de los campos de la categoría al comparar versiones
+const DATA_PREFIX = 'data.';
+
+type RecordContent = DigitalRecord | DigitalRecordVersion;
+
+interface TimelineEntry {
+  version: number;
+  content: RecordContent;
+  // Versión guardada; la actual no tiene
+  saved?: DigitalRecordVersion;
+  editedAt: string;
+  editedBy?: string;
+}
+
+// Los campos de la categoría se comparan uno a uno en lugar de como un solo objeto
+const flattenContent = (content: RecordContent): Record<string, unknown> => {
+  const { data, ...fields } = content;
+  return {
+    ...fields,
+    ...Object.fromEntries(Object.entries(data || {}).map(([key, value]) => [`${DATA_PREFIX}${key}`, value]))
+  };
+};
+
+const formatDateTime = (value: string) => format(new Date(value), "d MMM yyyy, HH:mm", { locale: es });
+
+export const RecordHistoryModal: React.FC<RecordHistoryModalProps> = ({
+  record,
+  businessId,
+  services,
+  customFields,
+  canEdit,
+  onClose,
+  onRestore,
+  onSign,
+  onAddAddendum
+}) => {
+  const [versions, setVersions] = useState<DigitalRecordVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [addendumText, setAddendumText] = useState('');
+  const [error, setError] = useState('');
+
+  const currentVersion = getRecordVersion(record);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setVersions(await recordHistoryService.listVersions(businessId, record.id));
+    } catch (error) {
+      setError((error as Error).message || 'Error al cargar el historial');
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId, record.id]);
+
+  // Recargar cuando cambia la versión actual (edición o restauración)
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions, currentVersion]);
+
+  // La versión guardada N registra quién y cuándo creó la versión N + 1
+  const savedByVersion = new Map(versions.map(version => [getRecordVersion(version), version]));
+  const timeline: TimelineEntry[] = [
+    { version: currentVersion, content: record },
+    ...versions.map(version => ({ version: getRecordVersion(version), content: version, saved: version }))
+  ].map(entry => {
+    const replaced = savedByVersion.get(entry.version - 1);
+    return {
+      ...entry,
+      editedAt: replaced?.versionedAt || entry.content.createdAt,
+      editedBy: replaced?.versionedByName
+    };
+  });
+
+  const recordFields = getRecordFields(record.category, customFields);
+  const findRecordField = (field: string) =>
+    field.startsWith(DATA_PREFIX) ? recordFields.find(f => f.key === field.slice(DATA_PREFIX.length)) : undefined;
+
+  const formatLabel = (field: string): string => {
+    if (field.startsWith(DATA_PREFIX)) return findRecordField(field)?.label || field.slice(DATA_PREFIX.length);
+    return FIELD_LABELS[field] || field;
+  };
+
+  const formatValue = (field: string, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'serviceId') return services.find(s => s.id === value)?.name || String(value);
+    if (field === 'category') return getRecordSchema(value as BusinessCategory).recordLabel;
+    return formatRecordValue(findRecordField(field), value);
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setError('');
+    setSaving(true);
+    try {
+      await action();
+    } catch (error) {
+      setError((error as Error).message || 'No se pudo completar la acción');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = (version: DigitalRecordVersion) => {
+    if (!window.confirm(`¿Restaurar la versión ${getRecordVersion(version)}? El contenido actual se conservará en el historial.`)) return;
+    runAction(() => onRestore(version));
+  };
+
+  const handleSign = () => {
+    if (!window.confirm('Una vez firmado, el expediente no podrá modificarse ni eliminarse; los cambios se agregarán como adendas. ¿Firmar?')) return;
+    runAction(onSign);
+  };
+
+  const handleAddAddendum = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!addendumText.trim()) return;
+    runAction(async () => {
+      await onAddAddendum(addendumText);
+      setAddendumText('');
+    });
+  };
+
+  const addenda = Object.entries(record.addenda || {})
+    .map(([id, addendum]) => ({ id, ...addendum }))
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-pink-600 to-pink-700 text-white p-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center">
+              <History className="h-6 w-6 mr-2" />
+              <div>
+                <h2 className="text-xl font-bold">Historial del expediente</h2>
+                <p className="text-pink-100">{record.treatment} · versión {currentVersion}</p>
+              </div>
+            </div>
+            <button onClick={onClose} className="text-white hover:text-pink-200 transition-colors">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">
+              {error}
+            </div>
+          )}
+
+          {/* Firma */}
+          {record.signedAt ? (
+            <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+              <div className="flex items-center text-gray-900 font-medium">
+                <Lock className="h-4 w-4 mr-2 text-pink-600" />
+                Firmado por {record.signedByName || 'usuario'} el {formatDateTime(record.signedAt)}
+              </div>
+              <p className="text-sm text-gray-500 mt-1">
+                El expediente ya no se modifica; registra cualquier cambio como adenda.
+              </p>
+            </div>
+          ) : canEdit && (
+            <div className="flex items-center justify-between p-4 bg-pink-50 border border-pink-200 rounded-lg">
+              <p className="text-sm text-gray-700">
+                Firma el expediente para bloquearlo contra modificaciones.
+              </p>
+              <button
+                onClick={handleSign}
+                disabled={saving}
+                className="flex items-center px-3 py-2 text-sm bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50"
+              >
+                <Lock className="h-4 w-4 mr-1" />
+                Firmar
+              </button>
+            </div>
+          )}
+
+          {/* Adendas */}
+          {record.signedAt && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-900 mb-2">Adendas ({addenda.length})</h3>
+              <div className="space-y-2">
+                {addenda.map(addendum => (
+                  <div key={addendum.id} className="p-3 border border-gray-200 rounded-lg">
+                    <p className="text-sm text-gray-900 whitespace-pre-line">{addendum.text}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {addendum.createdByName} · {formatDateTime(addendum.createdAt)}
+                    </p>
+                  </div>
+                ))}
+              </div>
+              {canEdit && (
+                <form onSubmit={handleAddAddendum} className="mt-3 space-y-2">
+                  <textarea
+                    value={addendumText}
+                    onChange={(e) => setAddendumText(e.target.value)}
+                    rows={3}
+                    placeholder="Describe la corrección o el dato adicional..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                  />
+                  <div className="flex justify-end">
+                    <button
+                      type="submit"
+                      disabled={saving || !addendumText.trim()}
+                      className="flex items-center px-3 py-2 text-sm bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50"
+                    >
+                      <FilePlus className="h-4 w-4 mr-1" />
+                      Agregar adenda
+                    </button>
+                  </div>
+                </form>
+              )}
+            </div>
+          )}
+
+          {/* Versiones */}
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Versiones</h3>
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pink-500"></div>
+              </div>
+            ) : (
+              <ol className="relative border-l border-gray-200 ml-2 space-y-6">
+                {timeline.map((entry, index) => {
+                  const previous = timeline[index + 1];
+                  const changes = Object.entries(diffFields(previous && flattenContent(previous.content), flattenContent(entry.content)))
+                    .filter(([field]) => !HIDDEN_FIELDS.includes(field));
+                  return (
+                    <li key={`${entry.version}-${entry.saved?.id || 'actual'}`} className="ml-4">
+                      <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-pink-500 border-2 border-white" />
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="text-sm font-medium text-gray-900">
+                            Versión {entry.version}
+                            {!entry.saved && <span className="ml-2 px-2 py-0.5 text-xs bg-green-100 text-green-800 rounded-full">Actual</span>}
+                            {entry.content.restoredFrom && (
+                              <span className="ml-2 text-xs text-gray-500">(restaurada de la versión {entry.content.restoredFrom})</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDateTime(entry.editedAt)}{entry.editedBy ? ` · ${entry.editedBy}` : ''}
+                          </p>
+                        </div>
+                        {entry.saved && canEdit && !record.signedAt && (
+                          <button
+                            onClick={() => handleRestore(entry.saved!)}
+                            disabled={saving}
+                            className="flex items-center px-2 py-1 text-xs text-pink-600 border border-pink-200 rounded-lg hover:bg-pink-50 disabled:opacity-50"
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Restaurar
+                          </button>
+                        )}
+                      </div>
+
+                      {previous ? (
+                        changes.length > 0 ? (
+                          <table className="mt-2 min-w-full text-sm">
+                            <tbody>
+                              {changes.map(([field, change]) => (
+                                <tr key={field} className="align-top">
+                                  <td className="py-1 pr-4 text-gray-700 whitespace-nowrap">{formatLabel(field)}</td>
+                                  <td className="py-1 pr-4 text-red-700 line-through break-all">{formatValue(field, change.before)}</td>
+                                  <td className="py-1 text-green-700 break-all">{formatValue(field, change.after)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        ) : (
+                          <p className="mt-1 text-xs text-gray-500">Sin cambios en el contenido</p>
+                        )
+                      ) : (
+                        <p className="mt-1 text-xs text-gray-500">Versión inicial</p>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
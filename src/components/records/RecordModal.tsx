@@ -1,8 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { useBusinessData } from '../../hooks/useBusinessData';
 import { useAuth } from '../../contexts/AuthContext';
-import type { DigitalRecord } from '../../types';
+import type { BusinessCategory, DigitalRecord, RecordFieldValue } from '../../types';
 import { X, Save, Calendar, FileText, Clock, AlertCircle } from 'lucide-react';
+import { RecordSchemaFields } from './RecordSchemaFields';
+import {
+  getRecordFields,
+  getRecordSchema,
+  normalizeRecordData,
+  validateRecordData,
+  type RecordFormValues
+} from '../../utils/recordSchema';
 
 interface RecordModalProps {
   isOpen: boolean;
@@ -26,7 +34,7 @@ export const RecordModal: React.FC<RecordModalProps> = ({
     ? currentUser?.businessId 
     : currentBusiness;
     
-  const { addDigitalRecord, updateDigitalRecord, addAppointment, services, clients } = useBusinessData(businessId || undefined);
+  const { business, addDigitalRecord, updateDigitalRecord, addAppointment, services, clients } = useBusinessData(businessId || undefined);
 
   const [formData, setFormData] = useState({
     clientId: clientId || '',
@@ -39,6 +47,11 @@ export const RecordModal: React.FC<RecordModalProps> = ({
     followUpDate: ''
   });
   
+  // Campos de la categoría del expediente; se guardan en record.data
+  const [category, setCategory] = useState<BusinessCategory | ''>('');
+  const [categoryData, setCategoryData] = useState<RecordFormValues>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
   const [clientSearchTerm, setClientSearchTerm] = useState('');
   const [showClientDropdown, setShowClientDropdown] = useState(false);
   
@@ -52,8 +65,17 @@ export const RecordModal: React.FC<RecordModalProps> = ({
     (client.email && client.email.toLowerCase().includes(clientSearchTerm.toLowerCase()))
   );
 
+  const categories: BusinessCategory[] = business?.categories?.length ? business.categories : ['other'];
+  // El negocio se carga después de abrir el modal: sin categoría elegida se usa la primera
+  const activeCategory = category || categories[0];
+  const fields = getRecordFields(activeCategory, business?.recordFields);
+
   // Cargar datos del registro si estamos editando
   useEffect(() => {
+    setCategory(record?.category || '');
+    setCategoryData(record?.data || {});
+    setFieldErrors({});
+
     if (record) {
       setFormData({
         clientId: record.clientId || '',
@@ -99,6 +121,19 @@ export const RecordModal: React.FC<RecordModalProps> = ({
     }));
   };
 
+  const handleRecordFieldChange = (key: string, value: RecordFieldValue | undefined) => {
+    setCategoryData(prev => ({ ...prev, [key]: value }));
+    setFieldErrors(prev => ({ ...prev, [key]: '' }));
+  };
+
+  // Al cambiar de categoría solo se conservan los valores de los campos que comparten
+  const handleCategoryChange = (value: BusinessCategory) => {
+    const nextKeys = new Set(getRecordFields(value, business?.recordFields).map(field => field.key));
+    setCategory(value);
+    setCategoryData(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => nextKeys.has(key))));
+    setFieldErrors({});
+  };
+
   const createFollowUpAppointment = async () => {
     if (!formData.followUpDate || !businessId) return;
 
@@ -140,6 +175,15 @@ export const RecordModal: React.FC<RecordModalProps> = ({
         return;
       }
 
+      const errors = validateRecordData(fields, categoryData);
+      if (Object.keys(errors).length > 0) {
+        setFieldErrors(errors);
+        setError('Revisa los campos marcados del expediente');
+        setLoading(false);
+        return;
+      }
+      const data = normalizeRecordData(fields, categoryData);
+
       const recordData = {
         clientId: formData.clientId,
         serviceId: formData.serviceId,
@@ -148,6 +192,8 @@ export const RecordModal: React.FC<RecordModalProps> = ({
         notes: formData.notes.trim(),
         diagnosis: formData.diagnosis.trim(),
         duration: formData.duration ? parseInt(formData.duration) : undefined,
+        category: activeCategory,
+        data: Object.keys(data).length > 0 ? data : undefined,
         businessId: businessId!,
         createdBy: currentUser!.uid,
         createdAt: record?.createdAt || new Date().toISOString(),
@@ -310,6 +356,26 @@ export const RecordModal: React.FC<RecordModalProps> = ({
             </div>
           </div>
 
+          {/* Tipo de registro */}
+          {categories.length > 1 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Tipo de Registro
+              </label>
+              <select
+                value={activeCategory}
+                onChange={(e) => handleCategoryChange(e.target.value as BusinessCategory)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              >
+                {categories.map(option => (
+                  <option key={option} value={option}>
+                    {getRecordSchema(option).recordLabel}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Tratamiento */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -356,6 +422,21 @@ export const RecordModal: React.FC<RecordModalProps> = ({
             />
           </div>
 
+          {/* Campos de la categoría */}
+          {fields.length > 0 && (
+            <div className="pt-6 border-t border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900 mb-4">
+                {getRecordSchema(activeCategory).recordLabel}
+              </h3>
+              <RecordSchemaFields
+                fields={fields}
+                values={categoryData}
+                errors={fieldErrors}
+                onChange={handleRecordFieldChange}
+              />
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             {/* Duración */}
             <div>
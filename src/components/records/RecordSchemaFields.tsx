@@ -0,0 +1,177 @@
+import React from 'react';
+import type { RecordFieldDefinition, RecordFieldValue } from '../../types';
+import { isFieldVisible, type RecordFormValues } from '../../utils/recordSchema';
+
+interface RecordSchemaFieldsProps {
+  fields: RecordFieldDefinition[];
+  values: RecordFormValues;
+  errors: Record<string, string>;
+  onChange: (key: string, value: RecordFieldValue | undefined) => void;
+}
+
+const inputClass = (hasError: boolean) =>
+  `w-full px-3 py-2 border rounded-md focus:ring-2 focus:ring-pink-500 focus:border-transparent ${
+    hasError ? 'border-red-300' : 'border-gray-300'
+  }`;
+
+export const RecordSchemaFields: React.FC<RecordSchemaFieldsProps> = ({ fields, values, errors, onChange }) => {
+  const renderInput = (field: RecordFieldDefinition) => {
+    const value = values[field.key];
+    const hasError = Boolean(errors[field.key]);
+
+    switch (field.type) {
+      case 'textarea':
+        return (
+          <textarea
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            rows={3}
+            placeholder={field.placeholder}
+            className={inputClass(hasError)}
+          />
+        );
+      case 'number':
+        return (
+          <div className="flex items-center">
+            <input
+              type="number"
+              step="any"
+              value={value === undefined ? '' : String(value)}
+              onChange={(e) => onChange(field.key, e.target.value)}
+              min={field.min}
+              max={field.max}
+              placeholder={field.placeholder}
+              className={inputClass(hasError)}
+            />
+            {field.unit && <span className="ml-2 text-sm text-gray-500">{field.unit}</span>}
+          </div>
+        );
+      case 'scale': {
+        const min = field.min ?? 1;
+        const max = field.max ?? 10;
+        return (
+          <div className="flex flex-wrap gap-1">
+            {Array.from({ length: max - min + 1 }, (_, index) => min + index).map(option => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => onChange(field.key, Number(value) === option ? undefined : option)}
+                className={`w-9 h-9 text-sm rounded-md border transition-colors ${
+                  Number(value) === option
+                    ? 'bg-pink-600 text-white border-pink-600'
+                    : 'border-gray-300 text-gray-700 hover:bg-pink-50'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        );
+      }
+      case 'select':
+        return (
+          <select
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.key, e.target.value || undefined)}
+            className={inputClass(hasError)}
+          >
+            <option value="">Seleccionar</option>
+            {field.options?.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'multiselect': {
+        const selected = Array.isArray(value) ? value : [];
+        return (
+          <div className="flex flex-wrap gap-2">
+            {field.options?.map(option => {
+              const isSelected = selected.includes(option);
+              return (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => onChange(
+                    field.key,
+                    isSelected ? selected.filter(item => item !== option) : [...selected, option]
+                  )}
+                  className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                    isSelected
+                      ? 'bg-pink-100 text-pink-800 border-pink-300'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {option}
+                </button>
+              );
+            })}
+          </div>
+        );
+      }
+      case 'list':
+        // Se captura como texto separado por comas y se convierte en lista al guardar
+        return (
+          <input
+            type="text"
+            value={Array.isArray(value) ? value.join(', ') : typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            placeholder={field.placeholder || 'Separados por coma'}
+            className={inputClass(hasError)}
+          />
+        );
+      case 'boolean':
+        return (
+          <label className="inline-flex items-center">
+            <input
+              type="checkbox"
+              checked={value === true}
+              onChange={(e) => onChange(field.key, e.target.checked)}
+              className="h-4 w-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500"
+            />
+            <span className="ml-2 text-sm text-gray-700">Sí</span>
+          </label>
+        );
+      case 'date':
+        return (
+          <input
+            type="date"
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            className={inputClass(hasError)}
+          />
+        );
+      default:
+        return (
+          <input
+            type="text"
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.key, e.target.value)}
+            placeholder={field.placeholder}
+            className={inputClass(hasError)}
+          />
+        );
+    }
+  };
+
+  const visibleFields = fields.filter(field => isFieldVisible(field, values));
+  if (visibleFields.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {visibleFields.map(field => (
+        <div
+          key={field.key}
+          className={field.type === 'textarea' || field.type === 'multiselect' || field.type === 'scale' ? 'md:col-span-2' : ''}
+        >
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {field.label}{field.required ? ' *' : ''}
+          </label>
+          {renderInput(field)}
+          {errors[field.key] && (
+            <p className="mt-1 text-sm text-red-600">{errors[field.key]}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,5 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAppointments } from '../../hooks/useAppointments';
+import { useRevenue } from '../../hooks/usePayments';
 import { useAuth } from '../../contexts/AuthContext';
 import { 
   BarChart3, 
@@ -7,16 +9,20 @@ import {
   Users, 
   TrendingUp, 
   Filter,
-  Scissors
+  Scissors,
+  DollarSign
 } from 'lucide-react';
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
 import { es } from 'date-fns/locale';
+import { toDateKey } from '../../utils/dateWindow';
+import { PAYMENT_METHOD_LABELS, formatMoney } from '../../utils/payments';
+import type { PaymentMethod } from '../../types';
 
 type ReportPeriod = 'week' | 'month' | 'custom';
 
 export const Reports: React.FC = () => {
   const { currentUser } = useAuth();
-  const { appointments, clients, services, loading } = useBusinessData(currentUser?.businessId || undefined);
+  const { clients, services, loading } = useBusinessData(currentUser?.businessId || undefined);
   
   const [period, setPeriod] = useState<ReportPeriod>('week');
   const [customStartDate, setCustomStartDate] = useState('');
@@ -49,6 +55,16 @@ export const Reports: React.FC = () => {
     }
   };
 
+  // Solo se cargan las citas del periodo; las fechas personalizadas ya vienen como yyyy-MM-dd
+  const { start, end } = getDateRange();
+  const range = {
+    from: period === 'custom' && customStartDate ? customStartDate : toDateKey(start),
+    to: period === 'custom' && customEndDate ? customEndDate : toDateKey(end)
+  };
+  const { appointments } = useAppointments(currentUser?.businessId || undefined, range);
+  // Lo cobrado y lo facturado en el periodo según los pagos registrados
+  const { summary: revenue } = useRevenue(currentUser?.businessId || undefined, range);
+
   const filteredAppointments = useMemo(() => {
     const { start, end } = getDateRange();
     return appointments.filter(appointment => {
@@ -85,6 +101,16 @@ export const Reports: React.FC = () => {
     return serviceCount.sort((a, b) => b.appointmentCount - a.appointmentCount);
   }, [services, filteredAppointments]);
 
+  const serviceRevenue = useMemo(() => {
+    return Object.entries(revenue.byService)
+      .map(([serviceId, amount]) => ({
+        serviceId,
+        serviceName: services.find(s => s.id === serviceId)?.name || 'Servicio eliminado',
+        amount
+      }))
+      .sort((a, b) => b.amount - a.amount);
+  }, [revenue, services]);
+
   const clientStats = useMemo(() => {
     const { start, end } = getDateRange();
     const clientsWithAppointments = new Set(filteredAppointments.map(a => a.clientId));
@@ -100,8 +126,6 @@ export const Reports: React.FC = () => {
     };
   }, [clients, filteredAppointments, period, customStartDate, customEndDate]);
 
-  const { start, end } = getDateRange();
-
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -236,6 +260,66 @@ export const Reports: React.FC = () => {
         </div>
       </div>
 
+      {/* Ingresos */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6 mb-8">
+        <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+          <div className="flex items-center mb-4">
+            <div className="bg-pink-500 rounded-lg p-2 sm:p-3 flex-shrink-0">
+              <DollarSign className="h-5 w-5 sm:h-6 sm:w-6 text-white" />
+            </div>
+            <div className="ml-3 sm:ml-4 min-w-0">
+              <p className="text-xs sm:text-sm font-medium text-gray-600 truncate">Cobrado en el período</p>
+              <p className="text-xl sm:text-2xl font-bold text-pink-600">{formatMoney(revenue.collected)}</p>
+            </div>
+          </div>
+          <div className="space-y-2">
+            {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).map(method => (
+              <div key={method} className="flex justify-between items-center">
+                <span className="text-xs sm:text-sm text-gray-600">{PAYMENT_METHOD_LABELS[method]}</span>
+                <span className="text-sm font-medium">{formatMoney(revenue.byMethod[method])}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-4">Cuentas de las Citas</h3>
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <span className="text-xs sm:text-sm text-gray-600">Facturado</span>
+              <span className="text-base font-semibold text-gray-900">{formatMoney(revenue.billed)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs sm:text-sm text-gray-600">Descuentos</span>
+              <span className="text-base font-semibold text-yellow-600">{formatMoney(revenue.discounts)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs sm:text-sm text-gray-600">Propinas</span>
+              <span className="text-base font-semibold text-green-600">{formatMoney(revenue.tips)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-xs sm:text-sm text-gray-600">Saldo pendiente</span>
+              <span className="text-base font-semibold text-red-600">{formatMoney(revenue.outstanding)}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow p-4 sm:p-6">
+          <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-4">Ingresos por Servicio</h3>
+          <div className="space-y-3">
+            {serviceRevenue.slice(0, 5).map(service => (
+              <div key={service.serviceId} className="flex items-center justify-between">
+                <p className="text-sm font-medium text-gray-900 truncate min-w-0">{service.serviceName}</p>
+                <span className="text-sm font-medium text-pink-600 flex-shrink-0 ml-2">{formatMoney(service.amount)}</span>
+              </div>
+            ))}
+            {serviceRevenue.length === 0 && (
+              <p className="text-gray-500 text-center py-4">No hay cobros registrados</p>
+            )}
+          </div>
+        </div>
+      </div>
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
         {/* Appointment Status Chart */}
         <div className="bg-white rounded-lg shadow p-4 sm:p-6">
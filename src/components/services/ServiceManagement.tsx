@@ -3,6 +3,7 @@ import { useBusinessData } from '../../hooks/useBusinessData';
 import { useAuth } from '../../contexts/AuthContext';
 import { usePermissions } from '../../hooks/usePermissions';
 import type { Service } from '../../types';
+import { isValidAvailableHours } from '../../utils/availabilityEngine';
 import { 
   Plus, 
   Edit, 
@@ -33,6 +34,7 @@ export const ServiceManagement: React.FC = () => {
     duration: 60,
     category: '',
     resources: 1,
+    availableHours: '',
     notes: '',
     price: ''
   });
@@ -48,6 +50,7 @@ export const ServiceManagement: React.FC = () => {
       duration: 60,
       category: '',
       resources: 1,
+      availableHours: '',
       notes: '',
       price: ''
     });
@@ -62,6 +65,7 @@ export const ServiceManagement: React.FC = () => {
       duration: service.duration,
       category: service.category,
       resources: service.resources,
+      availableHours: service.availableHours || '',
       notes: service.notes || '',
       price: service.price ? service.price.toString() : ''
     });
@@ -98,12 +102,19 @@ export const ServiceManagement: React.FC = () => {
     setError('');
     setSaveLoading(true);
 
+    if (!isValidAvailableHours(formData.availableHours)) {
+      setError('El horario del servicio debe tener el formato 09:00-13:00, 16:00-20:00');
+      setSaveLoading(false);
+      return;
+    }
+
     try {
       const serviceData = {
         name: formData.name === 'custom' ? '' : formData.name,
         duration: formData.duration,
         category: formData.category,
         resources: formData.resources,
+        availableHours: formData.availableHours.trim(),
         notes: formData.notes,
         price: formData.price ? parseFloat(formData.price) : undefined,
         businessId: currentUser!.businessId!,
@@ -134,6 +145,7 @@ export const ServiceManagement: React.FC = () => {
       duration: 60,
       category: '',
       resources: 1,
+      availableHours: '',
       notes: '',
       price: ''
     });
@@ -486,6 +498,23 @@ export const ServiceManagement: React.FC = () => {
                 />
               </div>
 
+              {/* Available Hours */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Horario del Servicio (opcional)
+                </label>
+                <input
+                  type="text"
+                  placeholder="09:00-13:00, 16:00-20:00"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                  value={formData.availableHours}
+                  onChange={(e) => setFormData({ ...formData, availableHours: e.target.value })}
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Déjalo vacío para usar el horario de operación del negocio.
+                </p>
+              </div>
+
               {/* Price */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
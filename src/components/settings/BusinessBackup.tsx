@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { backupService } from '../../utils/backupService';
+import { BACKUP_COLLECTIONS, getBackupFileName, validateBackup } from '../../utils/businessBackup';
+import type { BusinessBackup as BusinessBackupArchive, RestoreMode, RestoreReport } from '../../utils/businessBackup';
+import { Download, Upload, AlertTriangle, CheckCircle } from 'lucide-react';
+
+interface BusinessBackupProps {
+  // Sin negocio (configuración inicial) solo se puede restaurar en un negocio nuevo
+  businessId?: string;
+}
+
+const ReportTable: React.FC<{ report: RestoreReport }> = ({ report }) => (
+  <div className="space-y-2">
+    {report.profileChanges.length > 0 && (
+      <p className="text-sm text-gray-700">
+        Perfil del negocio: se actualiza {report.profileChanges.join(', ')}
+      </p>
+    )}
+    <table className="min-w-full divide-y divide-gray-200 text-sm">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-3 py-2 text-left font-medium text-gray-500">Datos</th>
+          <th className="px-3 py-2 text-right font-medium text-gray-500">Nuevos</th>
+          <th className="px-3 py-2 text-right font-medium text-gray-500">Actualizados</th>
+          <th className="px-3 py-2 text-right font-medium text-gray-500">Sin cambios</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {BACKUP_COLLECTIONS.map(({ collection, label }) => {
+          const counts = report.collections[collection];
+          return (
+            <tr key={collection}>
+              <td className="px-3 py-2 text-gray-900">{label}</td>
+              <td className="px-3 py-2 text-right text-green-700">{counts.added}</td>
+              <td className="px-3 py-2 text-right text-yellow-700">{counts.updated}</td>
+              <td className="px-3 py-2 text-right text-gray-500">{counts.unchanged}</td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
+
+export const BusinessBackup: React.FC<BusinessBackupProps> = ({ businessId }) => {
+  const { currentUser } = useAuth();
+  const mode: RestoreMode = businessId ? 'merge' : 'new';
+
+  const [exporting, setExporting] = useState(false);
+  const [backup, setBackup] = useState<BusinessBackupArchive | null>(null);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [preview, setPreview] = useState<RestoreReport | null>(null);
+  const [result, setResult] = useState<RestoreReport | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleExport = async () => {
+    if (!businessId) return;
+
+    setExporting(true);
+    setError('');
+    try {
+      const archive = await backupService.exportBusiness(businessId);
+      const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getBackupFileName(archive);
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      setError((error as Error).message || 'Error al generar el respaldo');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBackup(null);
+    setPreview(null);
+    setResult(null);
+    setError('');
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await file.text());
+    } catch {
+      setFileErrors(['El archivo no es un JSON válido']);
+      setWarnings([]);
+      return;
+    }
+
+    const validation = validateBackup(data);
+    setFileErrors(validation.errors);
+    setWarnings(validation.warnings);
+    if (!validation.backup) return;
+
+    try {
+      setPreview(await backupService.previewRestore(validation.backup, mode, businessId));
+      setBackup(validation.backup);
+    } catch (error) {
+      setError((error as Error).message || 'Error al analizar el respaldo');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup || !currentUser) return;
+
+    const message = mode === 'merge'
+      ? '¿Restaurar el respaldo en este negocio? Los registros del respaldo reemplazarán a los que tengan el mismo identificador.'
+      : `¿Crear el negocio "${backup.business.name}" a partir del respaldo?`;
+    if (!confirm(message)) return;
+
+    setRestoring(true);
+    setError('');
+    try {
+      if (mode === 'merge') {
+        setResult(await backupService.mergeIntoBusiness(backup, businessId!, {
+          id: currentUser.uid,
+          name: currentUser.displayName || currentUser.email
+        }));
+        setBackup(null);
+        setPreview(null);
+      } else {
+        await backupService.restoreIntoNewBusiness(backup, currentUser);
+        // Recargar para que el usuario entre al negocio restaurado
+        window.location.reload();
+      }
+    } catch (error) {
+      setError((error as Error).message || 'Error al restaurar el respaldo');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-3">
+          <p className="text-red-600 text-sm">{error}</p>
+        </div>
+      )}
+
+      {businessId && (
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 mb-1">Descargar respaldo</h3>
+          <p className="text-sm text-gray-600 mb-4">
+            Descarga un archivo con el perfil del negocio, servicios, profesionales, clientes, citas y expedientes.
+            Puedes usarlo para restaurar la información o para mover el negocio a otra cuenta.
+          </p>
+          <button
+            onClick={handleExport}
+            disabled={exporting}
+            className="flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? 'Generando...' : 'Descargar respaldo'}
+          </button>
+        </div>
+      )}
+
+      <div className={businessId ? 'pt-6 border-t border-gray-200' : ''}>
+        <h3 className="text-lg font-medium text-gray-900 mb-1">Restaurar respaldo</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          {mode === 'merge'
+            ? 'Agrega a este negocio los registros del respaldo. Los que ya existen se reemplazan por la versión del respaldo y los demás se conservan.'
+            : 'Crea tu negocio a partir de un respaldo descargado desde otra cuenta. La licencia y la dirección de reservas en línea no se transfieren.'}
+        </p>
+        <label className="inline-flex items-center px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 cursor-pointer">
+          <Upload className="h-4 w-4 mr-2" />
+          Seleccionar archivo de respaldo
+          <input type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+        </label>
+
+        {fileErrors.length > 0 && (
+          <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-3">
+            <p className="text-sm font-medium text-red-700 mb-1">El respaldo no se puede restaurar:</p>
+            <ul className="text-sm text-red-600 list-disc list-inside">
+              {fileErrors.map((message, index) => <li key={index}>{message}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {warnings.length > 0 && (
+          <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-md p-3">
+            <p className="text-sm font-medium text-yellow-800 mb-1 flex items-center">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              Advertencias
+            </p>
+            <ul className="text-sm text-yellow-700 list-disc list-inside">
+              {warnings.map((message, index) => <li key={index}>{message}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {backup && preview && (
+          <div className="mt-4 space-y-4">
+            <p className="text-sm text-gray-700">
+              Respaldo de <span className="font-medium">{backup.business.name}</span>
+              {backup.exportedAt && ` generado el ${new Date(backup.exportedAt).toLocaleString('es-ES')}`}
+            </p>
+            <ReportTable report={preview} />
+            <div className="flex justify-end">
+              <button
+                onClick={handleRestore}
+                disabled={restoring}
+                className="flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                {restoring ? 'Restaurando...' : mode === 'merge' ? 'Restaurar en este negocio' : 'Crear negocio desde el respaldo'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {result && (
+          <div className="mt-4 space-y-3">
+            <p className="text-sm text-green-700 flex items-center">
+              <CheckCircle className="h-4 w-4 mr-1" />
+              Respaldo restaurado correctamente
+            </p>
+            <ReportTable report={result} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,199 @@
+import React, { useState } from 'react';
+import type { Business, BusinessFiscalData, InvoiceTaxTreatment } from '../../types';
+import { PRODUCT_CODES } from '../../config/satCatalogs';
+import { getTaxRegimesFor, normalizeFiscalName, normalizeRfc, validateBusinessFiscalData } from '../../utils/cfdi';
+import { Save } from 'lucide-react';
+
+interface FiscalSettingsProps {
+  business: Business;
+  onSave: (fiscal: BusinessFiscalData) => Promise<void>;
+}
+
+const TAX_TREATMENT_LABELS: Record<InvoiceTaxTreatment, string> = {
+  iva16: 'IVA 16% incluido en los precios',
+  exempt: 'Exento de IVA (servicios médicos y de salud)'
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500';
+
+export const FiscalSettings: React.FC<FiscalSettingsProps> = ({ business, onSave }) => {
+  const [data, setData] = useState<BusinessFiscalData>(business.fiscal || {
+    rfc: '',
+    legalName: '',
+    taxRegime: '',
+    postalCode: '',
+    certificateNumber: '',
+    productCode: PRODUCT_CODES[0].code,
+    taxTreatment: 'iva16',
+    series: 'A'
+  });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const rfc = normalizeRfc(data.rfc);
+  const regimes = rfc.length >= 12 ? getTaxRegimesFor(rfc, true) : [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const fiscal: BusinessFiscalData = {
+      ...data,
+      rfc,
+      legalName: normalizeFiscalName(data.legalName),
+      postalCode: data.postalCode.trim(),
+      certificateNumber: data.certificateNumber.trim(),
+      productCode: data.productCode.trim(),
+      series: data.series.trim().toUpperCase()
+    };
+    const validationError = validateBusinessFiscalData(fiscal);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave(fiscal);
+      setData(fiscal);
+    } catch (error) {
+      setError((error as Error).message || 'Error al guardar los datos fiscales');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Datos del negocio como emisor de facturas (CFDI 4.0). Captúralos tal como aparecen en tu constancia de situación fiscal.
+      </p>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">{error}</div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">RFC *</label>
+          <input
+            type="text"
+            required
+            maxLength={13}
+            className={`${inputClass} uppercase`}
+            value={data.rfc}
+            onChange={(e) => setData({ ...data, rfc: e.target.value })}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Código postal del domicilio fiscal *</label>
+          <input
+            type="text"
+            required
+            inputMode="numeric"
+            maxLength={5}
+            className={inputClass}
+            value={data.postalCode}
+            onChange={(e) => setData({ ...data, postalCode: e.target.value })}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Nombre o razón social *</label>
+          <input
+            type="text"
+            required
+            placeholder="Sin el régimen societario (S.A. de C.V.)"
+            className={inputClass}
+            value={data.legalName}
+            onChange={(e) => setData({ ...data, legalName: e.target.value })}
+          />
+        </div>
+
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-2">Régimen fiscal *</label>
+          <select
+            required
+            className={inputClass}
+            value={data.taxRegime}
+            onChange={(e) => setData({ ...data, taxRegime: e.target.value })}
+          >
+            <option value="">{regimes.length > 0 ? 'Seleccionar régimen' : 'Captura primero el RFC'}</option>
+            {regimes.map(regime => (
+              <option key={regime.code} value={regime.code}>{regime.code} - {regime.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Número de certificado (CSD) *</label>
+          <input
+            type="text"
+            required
+            inputMode="numeric"
+            maxLength={20}
+            className={inputClass}
+            value={data.certificateNumber}
+            onChange={(e) => setData({ ...data, certificateNumber: e.target.value })}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Serie *</label>
+          <input
+            type="text"
+            required
+            maxLength={25}
+            className={`${inputClass} uppercase`}
+            value={data.series}
+            onChange={(e) => setData({ ...data, series: e.target.value })}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Clave de producto o servicio *</label>
+          <input
+            type="text"
+            required
+            inputMode="numeric"
+            maxLength={8}
+            list="sat-product-codes"
+            className={inputClass}
+            value={data.productCode}
+            onChange={(e) => setData({ ...data, productCode: e.target.value })}
+          />
+          <datalist id="sat-product-codes">
+            {PRODUCT_CODES.map(product => (
+              <option key={product.code} value={product.code}>{product.name}</option>
+            ))}
+          </datalist>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">IVA *</label>
+          <select
+            className={inputClass}
+            value={data.taxTreatment}
+            onChange={(e) => setData({ ...data, taxTreatment: e.target.value as InvoiceTaxTreatment })}
+          >
+            {(Object.keys(TAX_TREATMENT_LABELS) as InvoiceTaxTreatment[]).map(treatment => (
+              <option key={treatment} value={treatment}>{TAX_TREATMENT_LABELS[treatment]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex justify-end pt-6 border-t border-gray-200">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex items-center px-6 py-2 bg-pink-600 text-white rounded-md hover:bg-pink-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? 'Guardando...' : 'Guardar Datos Fiscales'}
+        </button>
+      </div>
+    </form>
+  );
+};
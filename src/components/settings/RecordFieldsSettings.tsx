@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import type { Business, BusinessCategory, RecordFieldDefinition, RecordFieldType } from '../../types';
+import { getCategoryInfo } from '../../config/businessCategories';
+import { createCustomFieldKey, getRecordFields, validateCustomField } from '../../utils/recordSchema';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface RecordFieldsSettingsProps {
+  business: Business;
+  onSave: (recordFields: NonNullable<Business['recordFields']>) => Promise<void>;
+}
+
+const FIELD_TYPE_LABELS: Record<RecordFieldType, string> = {
+  text: 'Texto corto',
+  textarea: 'Texto largo',
+  number: 'Número',
+  scale: 'Escala',
+  select: 'Lista de opciones',
+  multiselect: 'Opciones múltiples',
+  list: 'Lista libre',
+  boolean: 'Sí / No',
+  date: 'Fecha'
+};
+
+const emptyDraft = {
+  label: '',
+  type: 'text' as RecordFieldType,
+  required: false,
+  options: '',
+  unit: '',
+  min: '',
+  max: ''
+};
+
+export const RecordFieldsSettings: React.FC<RecordFieldsSettingsProps> = ({ business, onSave }) => {
+  const categories: BusinessCategory[] = business.categories?.length ? business.categories : ['other'];
+  const [category, setCategory] = useState<BusinessCategory>(categories[0]);
+  const [draft, setDraft] = useState(emptyDraft);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const fields = getRecordFields(category, business.recordFields);
+  const customFields = business.recordFields?.[category] || [];
+  const hasOptions = draft.type === 'select' || draft.type === 'multiselect';
+  const hasRange = draft.type === 'number' || draft.type === 'scale';
+
+  const saveCategoryFields = async (nextFields: RecordFieldDefinition[]) => {
+    setSaving(true);
+    try {
+      await onSave({ ...business.recordFields, [category]: nextFields });
+      return true;
+    } catch (error) {
+      setError((error as Error).message || 'Error al guardar los campos');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const field: RecordFieldDefinition = {
+      key: createCustomFieldKey(draft.label, fields),
+      label: draft.label.trim(),
+      type: draft.type,
+      ...(draft.required && { required: true }),
+      ...(hasOptions && { options: draft.options.split(',').map(option => option.trim()).filter(Boolean) }),
+      ...(draft.type === 'number' && draft.unit.trim() && { unit: draft.unit.trim() }),
+      ...(hasRange && draft.min !== '' && { min: Number(draft.min) }),
+      ...(hasRange && draft.max !== '' && { max: Number(draft.max) })
+    };
+
+    const validationError = validateCustomField(field);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    if (await saveCategoryFields([...customFields, field])) {
+      setDraft(emptyDraft);
+    }
+  };
+
+  const handleRemove = (key: string) => {
+    if (!window.confirm('¿Quitar este campo? Los valores ya capturados en los expedientes se conservan.')) return;
+    setError('');
+    saveCategoryFields(customFields.filter(field => field.key !== key));
+  };
+
+  return (
+    <div className="space-y-6">
+      <p className="text-sm text-gray-600">
+        Cada categoría tiene sus campos de expediente. Agrega campos propios para capturar información adicional.
+      </p>
+
+      {categories.length > 1 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Categoría</label>
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value as BusinessCategory)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+          >
+            {categories.map(option => (
+              <option key={option} value={option}>{getCategoryInfo(option)?.name || option}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {/* Campos actuales */}
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+        {fields.map(field => (
+          <div key={field.key} className="flex items-center justify-between px-4 py-3">
+            <div>
+              <p className="text-sm font-medium text-gray-900">
+                {field.label}{field.required ? ' *' : ''}
+              </p>
+              <p className="text-xs text-gray-500">
+                {FIELD_TYPE_LABELS[field.type]}
+                {field.unit ? ` · ${field.unit}` : ''}
+                {field.options ? ` · ${field.options.join(', ')}` : ''}
+              </p>
+            </div>
+            {field.custom ? (
+              <button
+                onClick={() => handleRemove(field.key)}
+                disabled={saving}
+                className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                title="Quitar campo"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            ) : (
+              <span className="text-xs text-gray-400">Predeterminado</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Nuevo campo */}
+      <form onSubmit={handleAdd} className="p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+        <h3 className="text-sm font-semibold text-gray-900">Agregar campo</h3>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">{error}</div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+            <input
+              type="text"
+              value={draft.label}
+              onChange={(e) => setDraft(prev => ({ ...prev, label: e.target.value }))}
+              placeholder="Ej: Presión arterial"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Tipo</label>
+            <select
+              value={draft.type}
+              onChange={(e) => setDraft(prev => ({ ...prev, type: e.target.value as RecordFieldType }))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            >
+              {(Object.keys(FIELD_TYPE_LABELS) as RecordFieldType[]).map(type => (
+                <option key={type} value={type}>{FIELD_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+
+          {hasOptions && (
+            <div className="md:col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Opciones</label>
+              <input
+                type="text"
+                value={draft.options}
+                onChange={(e) => setDraft(prev => ({ ...prev, options: e.target.value }))}
+                placeholder="Separadas por coma"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              />
+            </div>
+          )}
+
+          {draft.type === 'number' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Unidad</label>
+              <input
+                type="text"
+                value={draft.unit}
+                onChange={(e) => setDraft(prev => ({ ...prev, unit: e.target.value }))}
+                placeholder="Ej: mmHg"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+              />
+            </div>
+          )}
+
+          {hasRange && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Mínimo</label>
+                <input
+                  type="number"
+                  value={draft.min}
+                  onChange={(e) => setDraft(prev => ({ ...prev, min: e.target.value }))}
+                  placeholder={draft.type === 'scale' ? '1' : ''}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Máximo</label>
+                <input
+                  type="number"
+                  value={draft.max}
+                  onChange={(e) => setDraft(prev => ({ ...prev, max: e.target.value }))}
+                  placeholder={draft.type === 'scale' ? '10' : ''}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="inline-flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.required}
+              onChange={(e) => setDraft(prev => ({ ...prev, required: e.target.checked }))}
+              className="h-4 w-4 text-pink-600 border-gray-300 rounded focus:ring-pink-500 mr-2"
+            />
+            Requerido
+          </label>
+          <button
+            type="submit"
+            disabled={saving || !draft.label.trim()}
+            className="flex items-center px-4 py-2 bg-pink-600 text-white rounded-md hover:bg-pink-700 disabled:opacity-50 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Agregar
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
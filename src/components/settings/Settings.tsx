@@ -1,6 +1,12 @@
 import React, { useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useBusinessData } from '../../hooks/useBusinessData';
+import { bookingService } from '../../utils/bookingService';
+import { slugify } from '../../utils/text';
+import { BusinessBackup } from './BusinessBackup';
+import { RecordFieldsSettings } from './RecordFieldsSettings';
+import { FiscalSettings } from './FiscalSettings';
+import type { Business, BusinessFiscalData } from '../../types';
 import { 
   Settings as SettingsIcon, 
   User, 
@@ -9,14 +15,19 @@ import {
   Bell,
   Save,
   Eye,
-  EyeOff
+  EyeOff,
+  Globe,
+  Copy,
+  Archive,
+  FileText,
+  Receipt
 } from 'lucide-react';
 
 export const Settings: React.FC = () => {
   const { currentUser } = useAuth();
   const { business, updateBusiness, loading } = useBusinessData(currentUser?.businessId || undefined);
   
-  const [activeTab, setActiveTab] = useState<'profile' | 'business' | 'notifications'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'business' | 'notifications' | 'records' | 'fiscal' | 'backup'>('profile');
   const [showPassword, setShowPassword] = useState(false);
   const [saveLoading, setSaveLoading] = useState(false);
   const [successMessage, setSuccessMessage] = useState('');
@@ -41,6 +52,12 @@ export const Settings: React.FC = () => {
     description: business?.description || ''
   });
 
+  // Online booking settings
+  const [bookingData, setBookingData] = useState({
+    slug: business?.slug || slugify(business?.name || ''),
+    enabled: business?.onlineBookingEnabled || false
+  });
+
   // Notification settings
   const [notificationSettings, setNotificationSettings] = useState({
     emailNotifications: true,
@@ -87,10 +104,46 @@ export const Settings: React.FC = () => {
     }
   };
 
+  const handleBookingSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaveLoading(true);
+
+    try {
+      if (business) {
+        await bookingService.assignSlug(business.id, bookingData.slug, business.slug);
+        await updateBusiness({ onlineBookingEnabled: bookingData.enabled });
+        setSuccessMessage('Reservas en línea actualizadas correctamente');
+        setTimeout(() => setSuccessMessage(''), 3000);
+      }
+    } catch (error) {
+      setError((error as Error).message || 'Error al actualizar reservas en línea');
+    } finally {
+      setSaveLoading(false);
+    }
+  };
+
+  const handleRecordFieldsSave = async (recordFields: NonNullable<Business['recordFields']>) => {
+    await updateBusiness({ recordFields });
+    setSuccessMessage('Campos de expedientes actualizados correctamente');
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+
+  const handleFiscalSave = async (fiscal: BusinessFiscalData) => {
+    await updateBusiness({ fiscal });
+    setSuccessMessage('Datos fiscales actualizados correctamente');
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+
   const tabs = [
     { id: 'profile' as const, label: 'Perfil', icon: User },
     { id: 'business' as const, label: 'Negocio', icon: Building },
-    { id: 'notifications' as const, label: 'Notificaciones', icon: Bell }
+    { id: 'notifications' as const, label: 'Notificaciones', icon: Bell },
+    ...(currentUser?.role === 'owner' ? [
+      { id: 'records' as const, label: 'Expedientes', icon: FileText },
+      { id: 'fiscal' as const, label: 'Facturación', icon: Receipt },
+      { id: 'backup' as const, label: 'Respaldo', icon: Archive }
+    ] : [])
   ];
 
   if (loading) {
@@ -357,6 +410,72 @@ export const Settings: React.FC = () => {
                     </button>
                   </div>
                 </form>
+
+                {/* Reservas en línea */}
+                <div className="mt-8 pt-6 border-t border-gray-200">
+                  <h3 className="text-lg font-medium text-gray-900 mb-1 flex items-center">
+                    <Globe className="h-5 w-5 text-pink-600 mr-2" />
+                    Reservas en línea
+                  </h3>
+                  <p className="text-sm text-gray-600 mb-4">
+                    Comparte un enlace para que tus clientes soliciten citas. Las reservas llegan como pendientes de confirmar.
+                  </p>
+
+                  <form onSubmit={handleBookingSave} className="space-y-4">
+                    <label className="flex items-center">
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded"
+                        checked={bookingData.enabled}
+                        onChange={(e) => setBookingData({ ...bookingData, enabled: e.target.checked })}
+                      />
+                      <span className="ml-2 text-sm text-gray-700">Activar página pública de reservas</span>
+                    </label>
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Dirección de la página
+                      </label>
+                      <div className="flex items-center">
+                        <span className="px-3 py-2 bg-gray-50 border border-r-0 border-gray-300 rounded-l-md text-sm text-gray-500">
+                          /reservar/
+                        </span>
+                        <input
+                          type="text"
+                          required
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-r-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                          value={bookingData.slug}
+                          onChange={(e) => setBookingData({ ...bookingData, slug: e.target.value.toLowerCase() })}
+                        />
+                      </div>
+                    </div>
+
+                    {business?.slug && business.onlineBookingEnabled && (
+                      <div className="flex items-center justify-between bg-pink-50 border border-pink-200 rounded-md p-3">
+                        <span className="text-sm text-pink-700 break-all">{bookingService.getBookingUrl(business.slug)}</span>
+                        <button
+                          type="button"
+                          onClick={() => navigator.clipboard.writeText(bookingService.getBookingUrl(business.slug!))}
+                          className="ml-3 p-1 text-pink-600 hover:text-pink-800"
+                          title="Copiar enlace"
+                        >
+                          <Copy className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+
+                    <div className="flex justify-end">
+                      <button
+                        type="submit"
+                        disabled={saveLoading}
+                        className="flex items-center px-6 py-2 bg-pink-600 text-white rounded-md hover:bg-pink-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Save className="h-4 w-4 mr-2" />
+                        {saveLoading ? 'Guardando...' : 'Guardar Reservas'}
+                      </button>
+                    </div>
+                  </form>
+                </div>
               </div>
             )}
 
@@ -410,6 +529,30 @@ export const Settings: React.FC = () => {
               </div>
             )}
 
+            {/* Records Tab */}
+            {activeTab === 'records' && currentUser?.role === 'owner' && business && (
+              <div className="p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-6">Campos de Expedientes</h2>
+                <RecordFieldsSettings business={business} onSave={handleRecordFieldsSave} />
+              </div>
+            )}
+
+            {/* Fiscal Tab */}
+            {activeTab === 'fiscal' && currentUser?.role === 'owner' && business && (
+              <div className="p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-6">Datos Fiscales</h2>
+                <FiscalSettings business={business} onSave={handleFiscalSave} />
+              </div>
+            )}
+
+            {/* Backup Tab */}
+            {activeTab === 'backup' && currentUser?.role === 'owner' && (
+              <div className="p-6">
+                <h2 className="text-xl font-semibold text-gray-900 mb-6">Respaldo del Negocio</h2>
+                <BusinessBackup businessId={currentUser.businessId || undefined} />
+              </div>
+            )}
+
             {/* Access Denied for Business Tab */}
             {activeTab === 'business' && currentUser?.role !== 'owner' && (
               <div className="p-6 text-center">
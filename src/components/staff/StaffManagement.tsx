@@ -0,0 +1,599 @@
+import React, { useState, useEffect } from 'react';
+import { memberRepository } from '../../storage';
+import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import type { OperatingHours, Provider, ProviderTimeOff } from '../../types';
+import {
+  Plus,
+  Edit,
+  Trash2,
+  X,
+  Save,
+  UserCheck,
+  Clock,
+  CalendarOff
+} from 'lucide-react';
+
+const DAY_LABELS: Record<keyof OperatingHours, string> = {
+  monday: 'Lunes',
+  tuesday: 'Martes',
+  wednesday: 'Miércoles',
+  thursday: 'Jueves',
+  friday: 'Viernes',
+  saturday: 'Sábado',
+  sunday: 'Domingo'
+};
+
+const PROVIDER_COLORS = ['#ec4899', '#9333ea', '#3b82f6', '#10b981', '#f97316', '#eab308', '#14b8a6', '#6366f1'];
+
+const DEFAULT_WORKING_HOURS: OperatingHours = {
+  monday: { isOpen: true, openTime: '09:00', closeTime: '18:00' },
+  tuesday: { isOpen: true, openTime: '09:00', closeTime: '18:00' },
+  wednesday: { isOpen: true, openTime: '09:00', closeTime: '18:00' },
+  thursday: { isOpen: true, openTime: '09:00', closeTime: '18:00' },
+  friday: { isOpen: true, openTime: '09:00', closeTime: '18:00' },
+  saturday: { isOpen: true, openTime: '09:00', closeTime: '14:00' },
+  sunday: { isOpen: false }
+};
+
+interface AssistantOption {
+  uid: string;
+  displayName: string;
+  email: string;
+}
+
+export const StaffManagement: React.FC = () => {
+  const { currentUser, currentBusiness } = useAuth();
+  const { canManageStaff, getRestrictionMessage } = usePermissions();
+
+  // Determinar el businessId según el rol del usuario
+  const businessId = currentUser?.role === 'owner'
+    ? currentUser?.businessId
+    : currentBusiness;
+
+  const { business, services, providers, addProvider, updateProvider, loading } = useBusinessData(businessId || undefined);
+
+  const [assistants, setAssistants] = useState<AssistantOption[]>([]);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [selectedProvider, setSelectedProvider] = useState<Provider | null>(null);
+  const [formData, setFormData] = useState({
+    name: '',
+    userId: '',
+    email: '',
+    phone: '',
+    color: PROVIDER_COLORS[0],
+    serviceIds: [] as string[],
+    workingHours: DEFAULT_WORKING_HOURS,
+    timeOff: {} as Record<string, ProviderTimeOff>
+  });
+  const [newTimeOff, setNewTimeOff] = useState({ startDate: '', endDate: '', reason: '' });
+  const [error, setError] = useState('');
+  const [saveLoading, setSaveLoading] = useState(false);
+  const [deleteConfirm, setDeleteConfirm] = useState<{ isOpen: boolean; provider: Provider | null }>({ isOpen: false, provider: null });
+
+  // Cargar asistentes vinculados al negocio para poder asociarlos a un profesional
+  useEffect(() => {
+    if (!businessId) return;
+
+    const loadAssistants = async () => {
+      try {
+        const members = await memberRepository.list(businessId);
+        setAssistants(members.map(member => ({ uid: member.id, displayName: member.displayName || '', email: member.email || '' })));
+      } catch (error) {
+        console.error('Error loading assistants:', error);
+      }
+    };
+
+    loadAssistants();
+  }, [businessId]);
+
+  const activeServices = services.filter(service => service.isActive);
+
+  const handleNewProvider = () => {
+    setFormData({
+      name: '',
+      userId: '',
+      email: '',
+      phone: '',
+      color: PROVIDER_COLORS[providers.length % PROVIDER_COLORS.length],
+      serviceIds: [],
+      workingHours: business?.operatingHours || DEFAULT_WORKING_HOURS,
+      timeOff: {}
+    });
+    setSelectedProvider(null);
+    setError('');
+    setIsModalOpen(true);
+  };
+
+  const handleEditProvider = (provider: Provider) => {
+    setFormData({
+      name: provider.name,
+      userId: provider.userId || '',
+      email: provider.email || '',
+      phone: provider.phone || '',
+      color: provider.color || PROVIDER_COLORS[0],
+      serviceIds: provider.serviceIds || [],
+      workingHours: { ...DEFAULT_WORKING_HOURS, ...provider.workingHours },
+      timeOff: provider.timeOff || {}
+    });
+    setSelectedProvider(provider);
+    setError('');
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setSelectedProvider(null);
+    setNewTimeOff({ startDate: '', endDate: '', reason: '' });
+    setError('');
+  };
+
+  const toggleService = (serviceId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      serviceIds: prev.serviceIds.includes(serviceId)
+        ? prev.serviceIds.filter(id => id !== serviceId)
+        : [...prev.serviceIds, serviceId]
+    }));
+  };
+
+  const handleAddTimeOff = () => {
+    if (!newTimeOff.startDate || !newTimeOff.endDate) {
+      setError('Indica las fechas de inicio y fin de la ausencia');
+      return;
+    }
+    if (newTimeOff.endDate < newTimeOff.startDate) {
+      setError('La fecha de fin de la ausencia debe ser posterior a la de inicio');
+      return;
+    }
+
+    const key = `${newTimeOff.startDate}_${Date.now()}`;
+    setFormData(prev => ({
+      ...prev,
+      timeOff: {
+        ...prev.timeOff,
+        [key]: {
+          startDate: newTimeOff.startDate,
+          endDate: newTimeOff.endDate,
+          reason: newTimeOff.reason
+        }
+      }
+    }));
+    setNewTimeOff({ startDate: '', endDate: '', reason: '' });
+    setError('');
+  };
+
+  const handleRemoveTimeOff = (key: string) => {
+    setFormData(prev => {
+      const timeOff = { ...prev.timeOff };
+      delete timeOff[key];
+      return { ...prev, timeOff };
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaveLoading(true);
+
+    try {
+      const linkedAssistant = assistants.find(a => a.uid === formData.userId);
+      const providerData = {
+        name: formData.name.trim(),
+        userId: formData.userId || null,
+        email: formData.email || linkedAssistant?.email || '',
+        phone: formData.phone,
+        color: formData.color,
+        serviceIds: formData.serviceIds,
+        workingHours: formData.workingHours,
+        timeOff: formData.timeOff,
+        isActive: true,
+        businessId: businessId!,
+        createdAt: selectedProvider?.createdAt || new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      };
+
+      if (selectedProvider) {
+        await updateProvider(selectedProvider.id, providerData);
+      } else {
+        await addProvider(providerData);
+      }
+
+      closeModal();
+    } catch (error) {
+      setError((error as Error).message || 'Error al guardar profesional');
+    } finally {
+      setSaveLoading(false);
+    }
+  };
+
+  const confirmDeleteProvider = async () => {
+    if (!deleteConfirm.provider) return;
+
+    try {
+      // Se desactiva en lugar de borrar para conservar el historial de citas
+      await updateProvider(deleteConfirm.provider.id, { isActive: false, updatedAt: new Date().toISOString() });
+      setDeleteConfirm({ isOpen: false, provider: null });
+    } catch (error) {
+      setError((error as Error).message || 'Error al eliminar profesional');
+    }
+  };
+
+  const getServiceNames = (provider: Provider) => {
+    if (!provider.serviceIds || provider.serviceIds.length === 0) return 'Todos los servicios';
+    return provider.serviceIds
+      .map(id => services.find(s => s.id === id)?.name)
+      .filter(Boolean)
+      .join(', ');
+  };
+
+  const getWorkingDays = (provider: Provider) => {
+    return (Object.keys(DAY_LABELS) as (keyof OperatingHours)[])
+      .filter(day => provider.workingHours?.[day]?.isOpen)
+      .map(day => DAY_LABELS[day].substring(0, 3))
+      .join(', ');
+  };
+
+  const activeProviders = providers.filter(provider => provider.isActive !== false);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <UserCheck className="h-6 w-6 text-pink-600 mr-2" />
+          <h1 className="text-2xl font-bold text-gray-900">Profesionales</h1>
+        </div>
+        {canManageStaff ? (
+          <button
+            onClick={handleNewProvider}
+            className="flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Nuevo Profesional
+          </button>
+        ) : (
+          <div className="flex items-center px-4 py-2 bg-gray-300 text-gray-500 rounded-lg cursor-not-allowed" title={getRestrictionMessage('canManageStaff')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Solo Lectura
+          </div>
+        )}
+      </div>
+
+      {/* Providers Grid */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+        {activeProviders.map((provider) => (
+          <div key={provider.id} className="bg-white rounded-lg shadow-md hover:shadow-lg transition-shadow">
+            <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+              <div className="flex items-center">
+                <div
+                  className="w-10 h-10 rounded-full flex items-center justify-center text-white font-medium"
+                  style={{ backgroundColor: provider.color || PROVIDER_COLORS[0] }}
+                >
+                  {provider.name.charAt(0).toUpperCase()}
+                </div>
+                <div className="ml-3">
+                  <h3 className="text-lg font-semibold text-gray-900">{provider.name}</h3>
+                  {provider.userId && (
+                    <span className="inline-block px-2 py-1 bg-pink-100 text-pink-800 text-xs rounded-full font-medium">
+                      Cuenta vinculada
+                    </span>
+                  )}
+                </div>
+              </div>
+              {canManageStaff && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => handleEditProvider(provider)}
+                    className="p-2 text-gray-400 hover:text-pink-600 hover:bg-pink-50 rounded-lg transition-colors"
+                    title="Editar profesional"
+                  >
+                    <Edit className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => setDeleteConfirm({ isOpen: true, provider })}
+                    className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                    title="Eliminar profesional"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="p-4 space-y-3 text-sm text-gray-600">
+              <div className="flex items-center">
+                <Clock className="h-4 w-4 mr-2 text-pink-500" />
+                <span>{getWorkingDays(provider) || 'Sin horario'}</span>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 mb-1">Servicios</p>
+                <p className="text-gray-700">{getServiceNames(provider)}</p>
+              </div>
+              {Object.keys(provider.timeOff || {}).length > 0 && (
+                <div className="flex items-center">
+                  <CalendarOff className="h-4 w-4 mr-2 text-pink-500" />
+                  <span>{Object.keys(provider.timeOff || {}).length} ausencia(s) registrada(s)</span>
+                </div>
+              )}
+            </div>
+          </div>
+        ))}
+
+        {activeProviders.length === 0 && (
+          <div className="col-span-full text-center py-12">
+            <UserCheck className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No hay profesionales registrados</h3>
+            <p className="text-gray-600">Agrega a las personas que atienden las citas de tu negocio</p>
+          </div>
+        )}
+      </div>
+
+      {/* Provider Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4 max-h-screen overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900">
+                {selectedProvider ? 'Editar Profesional' : 'Nuevo Profesional'}
+              </h2>
+              <button
+                onClick={closeModal}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-6">
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-4">
+                  <p className="text-red-600">{error}</p>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Nombre *
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Cuenta de asistente vinculada
+                  </label>
+                  <select
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                    value={formData.userId}
+                    onChange={(e) => setFormData({ ...formData, userId: e.target.value })}
+                  >
+                    <option value="">Sin cuenta</option>
+                    {assistants.map((assistant) => (
+                      <option key={assistant.uid} value={assistant.uid}>
+                        {assistant.displayName || assistant.email}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Teléfono
+                  </label>
+                  <input
+                    type="tel"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-pink-500 focus:border-pink-500"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Color en el calendario
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {PROVIDER_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        onClick={() => setFormData({ ...formData, color })}
+                        className={`w-7 h-7 rounded-full border-2 ${formData.color === color ? 'border-gray-900' : 'border-transparent'}`}
+                        style={{ backgroundColor: color }}
+                      />
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Services */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Servicios que realiza
+                </label>
+                <p className="text-xs text-gray-500 mb-2">Si no seleccionas ninguno podrá realizar todos los servicios.</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {activeServices.map((service) => (
+                    <label key={service.id} className="flex items-center">
+                      <input
+                        type="checkbox"
+                        checked={formData.serviceIds.includes(service.id)}
+                        onChange={() => toggleService(service.id)}
+                        className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded"
+                      />
+                      <span className="ml-2 text-sm text-gray-700">{service.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Working Hours */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Horario de trabajo
+                </label>
+                <div className="space-y-2">
+                  {(Object.keys(DAY_LABELS) as (keyof OperatingHours)[]).map((day) => {
+                    const schedule = formData.workingHours[day];
+                    return (
+                      <div key={day} className="flex items-center justify-between p-2 border border-gray-200 rounded-lg">
+                        <label className="flex items-center space-x-3">
+                          <input
+                            type="checkbox"
+                            checked={schedule.isOpen}
+                            onChange={(e) => setFormData(prev => ({
+                              ...prev,
+                              workingHours: { ...prev.workingHours, [day]: { ...prev.workingHours[day], isOpen: e.target.checked } }
+                            }))}
+                            className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded"
+                          />
+                          <span className="text-sm font-medium text-gray-900 w-20">{DAY_LABELS[day]}</span>
+                        </label>
+                        {schedule.isOpen && (
+                          <div className="flex items-center space-x-2">
+                            <input
+                              type="time"
+                              value={schedule.openTime || '09:00'}
+                              onChange={(e) => setFormData(prev => ({
+                                ...prev,
+                                workingHours: { ...prev.workingHours, [day]: { ...prev.workingHours[day], openTime: e.target.value } }
+                              }))}
+                              className="px-3 py-1 border border-gray-300 rounded text-sm"
+                            />
+                            <span className="text-gray-500">a</span>
+                            <input
+                              type="time"
+                              value={schedule.closeTime || '18:00'}
+                              onChange={(e) => setFormData(prev => ({
+                                ...prev,
+                                workingHours: { ...prev.workingHours, [day]: { ...prev.workingHours[day], closeTime: e.target.value } }
+                              }))}
+                              className="px-3 py-1 border border-gray-300 rounded text-sm"
+                            />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              {/* Time Off */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Ausencias (vacaciones, permisos)
+                </label>
+                <div className="space-y-2 mb-3">
+                  {Object.entries(formData.timeOff).map(([key, period]) => (
+                    <div key={key} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                      <span>
+                        {period.startDate} — {period.endDate}
+                        {period.reason && <span className="text-gray-500"> · {period.reason}</span>}
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveTimeOff(key)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-2">
+                  <input
+                    type="date"
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    value={newTimeOff.startDate}
+                    onChange={(e) => setNewTimeOff({ ...newTimeOff, startDate: e.target.value })}
+                  />
+                  <input
+                    type="date"
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    value={newTimeOff.endDate}
+                    onChange={(e) => setNewTimeOff({ ...newTimeOff, endDate: e.target.value })}
+                  />
+                  <input
+                    type="text"
+                    placeholder="Motivo"
+                    className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+                    value={newTimeOff.reason}
+                    onChange={(e) => setNewTimeOff({ ...newTimeOff, reason: e.target.value })}
+                  />
+                  <button
+                    type="button"
+                    onClick={handleAddTimeOff}
+                    className="flex items-center justify-center px-3 py-2 border border-pink-300 text-pink-700 rounded-md hover:bg-pink-50 text-sm"
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Agregar
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-end space-x-3 pt-6 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={closeModal}
+                  className="px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  disabled={saveLoading}
+                  className="flex items-center px-6 py-2 bg-pink-600 text-white rounded-md hover:bg-pink-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-pink-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {saveLoading ? 'Guardando...' : 'Guardar'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Modal */}
+      {deleteConfirm.isOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              ¿Eliminar profesional?
+            </h3>
+            <p className="text-gray-600 mb-6">
+              "{deleteConfirm.provider?.name}" dejará de aparecer en el calendario. Sus citas anteriores se conservan.
+            </p>
+            <div className="flex items-center justify-end space-x-3">
+              <button
+                onClick={() => setDeleteConfirm({ isOpen: false, provider: null })}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={confirmDeleteProvider}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700"
+              >
+                Eliminar
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
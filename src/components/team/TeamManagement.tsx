@@ -0,0 +1,367 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { useBusinessData } from '../../hooks/useBusinessData';
+import { usePermissions, BUSINESS_ROLE_LABELS } from '../../hooks/usePermissions';
+import { teamService, type TeamMember } from '../../utils/teamService';
+import { notificationService } from '../../utils/notificationService';
+import { invitationService, isInvitationUsable } from '../../utils/invitationService';
+import type { BusinessInvitation, BusinessRole } from '../../types';
+import { Shield, UserX, Users, Link, Copy, Check, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+
+const ROLES: BusinessRole[] = ['viewer', 'editor', 'admin'];
+
+const ROLE_DESCRIPTIONS: Record<BusinessRole, string> = {
+  viewer: 'Consulta la información del negocio',
+  editor: 'Gestiona clientes, citas y lista de espera',
+  admin: 'Además gestiona servicios, profesionales y expedientes'
+};
+
+const EXPIRY_OPTIONS = [
+  { days: 1, label: '1 día' },
+  { days: 7, label: '7 días' },
+  { days: 30, label: '30 días' }
+];
+
+const MAX_USES_OPTIONS = [1, 5, 10];
+
+export const TeamManagement: React.FC = () => {
+  const { currentUser } = useAuth();
+  const { canManageTeam, getRestrictionMessage } = usePermissions();
+  const businessId = currentUser?.businessId || undefined;
+  const { business } = useBusinessData(businessId);
+
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [revokeConfirm, setRevokeConfirm] = useState<TeamMember | null>(null);
+  const [error, setError] = useState('');
+
+  const [invitations, setInvitations] = useState<BusinessInvitation[]>([]);
+  const [inviteRole, setInviteRole] = useState<BusinessRole>('viewer');
+  const [inviteDays, setInviteDays] = useState(7);
+  const [inviteMaxUses, setInviteMaxUses] = useState(1);
+  const [creatingInvite, setCreatingInvite] = useState(false);
+  const [copiedCode, setCopiedCode] = useState<string | null>(null);
+
+  const loadMembers = useCallback(async () => {
+    if (!businessId) return;
+    try {
+      setLoading(true);
+      const [team, pendingInvitations] = await Promise.all([
+        teamService.listMembers(businessId),
+        invitationService.listInvitations(businessId)
+      ]);
+      setMembers(team);
+      setInvitations(pendingInvitations);
+    } catch (error) {
+      setError((error as Error).message || 'Error al cargar el equipo');
+    } finally {
+      setLoading(false);
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    loadMembers();
+  }, [loadMembers]);
+
+  const handleRoleChange = async (member: TeamMember, role: BusinessRole) => {
+    if (!businessId || role === member.role) return;
+    setError('');
+    setSavingId(member.id);
+
+    try {
+      await teamService.changeRole(businessId, member.id, role);
+      setMembers(prev => prev.map(item => item.id === member.id ? { ...item, role } : item));
+      await notificationService.notifyAccessRoleChanged(member.id, businessId, business?.name || 'el negocio', BUSINESS_ROLE_LABELS[role]);
+    } catch (error) {
+      setError((error as Error).message || 'Error al cambiar el rol');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const confirmRevoke = async () => {
+    if (!businessId || !revokeConfirm) return;
+    const member = revokeConfirm;
+    setError('');
+    setSavingId(member.id);
+
+    try {
+      await teamService.revokeAccess(businessId, member.id);
+      setMembers(prev => prev.filter(item => item.id !== member.id));
+      setRevokeConfirm(null);
+      await notificationService.notifyAccessRevoked(member.id, business?.name || 'el negocio');
+    } catch (error) {
+      setError((error as Error).message || 'Error al revocar el acceso');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleCreateInvitation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!businessId || !currentUser) return;
+    setError('');
+    setCreatingInvite(true);
+
+    try {
+      const invitation = await invitationService.createInvitation({
+        businessId,
+        businessName: business?.name || '',
+        role: inviteRole,
+        createdBy: currentUser.uid,
+        expiresInDays: inviteDays,
+        maxUses: inviteMaxUses
+      });
+      setInvitations(prev => [invitation, ...prev]);
+    } catch (error) {
+      setError((error as Error).message || 'Error al crear la invitación');
+    } finally {
+      setCreatingInvite(false);
+    }
+  };
+
+  const copyInvitationLink = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(invitationService.getInvitationLink(code));
+      setCopiedCode(code);
+      setTimeout(() => setCopiedCode(current => current === code ? null : current), 2000);
+    } catch (err) {
+      console.error('Error al copiar el enlace:', err);
+    }
+  };
+
+  const handleRevokeInvitation = async (code: string) => {
+    setError('');
+    try {
+      await invitationService.revokeInvitation(code);
+      setInvitations(prev => prev.filter(invitation => invitation.id !== code));
+    } catch (error) {
+      setError((error as Error).message || 'Error al revocar la invitación');
+    }
+  };
+
+  if (!canManageTeam) {
+    return (
+      <div className="p-6 text-center">
+        <Shield className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-2">Acceso Restringido</h3>
+        <p className="text-gray-500">{getRestrictionMessage('canManageTeam')}</p>
+      </div>
+    );
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <Shield className="h-6 w-6 text-pink-600 mr-2" />
+          <h1 className="text-2xl font-bold text-gray-900">Equipo</h1>
+        </div>
+        <span className="text-sm text-gray-500">{members.length} miembro(s)</span>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 text-red-700 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {members.length === 0 ? (
+        <div className="bg-white rounded-lg shadow-md p-12 text-center">
+          <Users className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">Aún no hay miembros</h3>
+          <p className="text-gray-500">
+            Crea una invitación para que tus asistentes se unan.
+          </p>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Miembro</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rol</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Se unió</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {members.map(member => (
+                <tr key={member.id}>
+                  <td className="px-6 py-4">
+                    <p className="font-medium text-gray-900">{member.displayName || 'Sin nombre'}</p>
+                    <p className="text-sm text-gray-500">{member.email}</p>
+                  </td>
+                  <td className="px-6 py-4">
+                    <select
+                      value={member.role}
+                      onChange={(e) => handleRoleChange(member, e.target.value as BusinessRole)}
+                      disabled={savingId === member.id}
+                      className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent disabled:opacity-50"
+                    >
+                      {ROLES.map(role => (
+                        <option key={role} value={role}>{BUSINESS_ROLE_LABELS[role]}</option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-gray-500">{ROLE_DESCRIPTIONS[member.role]}</p>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {format(new Date(member.joinedAt), "d 'de' MMMM yyyy", { locale: es })}
+                  </td>
+                  <td className="px-6 py-4 text-right">
+                    <button
+                      onClick={() => setRevokeConfirm(member)}
+                      disabled={savingId === member.id}
+                      className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50"
+                      title="Revocar acceso"
+                    >
+                      <UserX className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Invitations */}
+      <div className="mt-8 bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center mb-4">
+          <Link className="h-5 w-5 text-pink-600 mr-2" />
+          <h2 className="text-lg font-semibold text-gray-900">Invitaciones</h2>
+        </div>
+
+        <form onSubmit={handleCreateInvitation} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end mb-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Rol</label>
+            <select
+              value={inviteRole}
+              onChange={(e) => setInviteRole(e.target.value as BusinessRole)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            >
+              {ROLES.map(role => (
+                <option key={role} value={role}>{BUSINESS_ROLE_LABELS[role]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Vigencia</label>
+            <select
+              value={inviteDays}
+              onChange={(e) => setInviteDays(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.days} value={option.days}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Usos</label>
+            <select
+              value={inviteMaxUses}
+              onChange={(e) => setInviteMaxUses(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-pink-500 focus:border-transparent"
+            >
+              {MAX_USES_OPTIONS.map(uses => (
+                <option key={uses} value={uses}>{uses === 1 ? 'Un solo uso' : `${uses} usos`}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            type="submit"
+            disabled={creatingInvite}
+            className="px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50"
+          >
+            {creatingInvite ? 'Creando...' : 'Crear invitación'}
+          </button>
+        </form>
+
+        {invitations.length === 0 ? (
+          <p className="text-sm text-gray-500">No hay invitaciones creadas.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {invitations.map(invitation => {
+              const usable = isInvitationUsable(invitation);
+              return (
+                <div key={invitation.id} className="flex flex-col md:flex-row md:items-center md:justify-between py-3 gap-2">
+                  <div>
+                    <p className="font-mono font-medium text-gray-900 tracking-wider">{invitation.id}</p>
+                    <p className="text-xs text-gray-500">
+                      {BUSINESS_ROLE_LABELS[invitation.role]} · {invitation.uses}/{invitation.maxUses} usos · vence {format(new Date(invitation.expiresAt), "d MMM yyyy, HH:mm", { locale: es })}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                      usable ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                    }`}>
+                      {usable ? 'Activa' : 'Expirada o agotada'}
+                    </span>
+                    {usable && (
+                      <button
+                        onClick={() => copyInvitationLink(invitation.id)}
+                        className="p-2 text-gray-400 hover:text-pink-600 hover:bg-pink-50 rounded-lg transition-colors"
+                        title="Copiar enlace"
+                      >
+                        {copiedCode === invitation.id ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRevokeInvitation(invitation.id)}
+                      className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title={usable ? 'Revocar invitación' : 'Eliminar invitación'}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Revoke Confirmation Modal */}
+      {revokeConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">
+              ¿Revocar acceso?
+            </h3>
+            <p className="text-gray-600 mb-6">
+              {revokeConfirm.displayName || revokeConfirm.email} dejará de ver el negocio y sus calendarios suscritos dejarán de funcionar. La clave del negocio se renovará; podrá volver a unirse solo con una nueva invitación o la nueva clave.
+            </p>
+            <div className="flex items-center justify-end space-x-3">
+              <button
+                onClick={() => setRevokeConfirm(null)}
+                className="px-4 py-2 text-gray-600 hover:text-gray-800"
+              >
+                Cancelar
+              </button>
+              <button
+                onClick={confirmRevoke}
+                disabled={savingId === revokeConfirm.id}
+                className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                Revocar
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,438 @@
+import React, { useState, useMemo } from 'react';
+import { format, addDays } from 'date-fns';
+import { useBusinessData } from '../../hooks/useBusinessData';
+import { useAppointments } from '../../hooks/useAppointments';
+import { useAuth } from '../../contexts/AuthContext';
+import { usePermissions } from '../../hooks/usePermissions';
+import type { WaitlistEntry } from '../../types';
+import { findNextSlotForEntry, getWaitlistSearchWindow, isFutureSlot } from '../../utils/waitlist';
+import type { WaitlistSlot } from '../../utils/waitlist';
+import { checkSlotAvailability } from '../../utils/availabilityEngine';
+import {
+  Plus,
+  Trash2,
+  X,
+  Save,
+  Hourglass,
+  CalendarCheck,
+  Bell
+} from 'lucide-react';
+
+const STATUS_LABELS: Record<WaitlistEntry['status'], string> = {
+  waiting: 'En espera',
+  booked: 'Agendado',
+  cancelled: 'Cancelado'
+};
+
+const STATUS_COLORS: Record<WaitlistEntry['status'], string> = {
+  waiting: 'bg-yellow-100 text-yellow-800',
+  booked: 'bg-green-100 text-green-800',
+  cancelled: 'bg-gray-100 text-gray-800'
+};
+
+const getInitialFormData = () => ({
+  clientId: '',
+  serviceId: '',
+  preferredStartDate: format(new Date(), 'yyyy-MM-dd'),
+  preferredEndDate: format(addDays(new Date(), 14), 'yyyy-MM-dd'),
+  preferredStartTime: '',
+  preferredEndTime: '',
+  notes: ''
+});
+
+export const Waitlist: React.FC = () => {
+  const { currentUser, currentBusiness } = useAuth();
+  const { canCreateAppointment, getRestrictionMessage } = usePermissions();
+
+  // Determinar el businessId según el rol del usuario
+  const businessId = currentUser?.role === 'owner'
+    ? currentUser?.businessId
+    : currentBusiness;
+
+  const {
+    business,
+    services,
+    clients,
+    waitlist,
+    addWaitlistEntry,
+    updateWaitlistEntry,
+    deleteWaitlistEntry,
+    bookWaitlistEntry,
+    loading
+  } = useBusinessData(businessId || undefined);
+
+  // Solo las citas de las fechas en que se buscan horarios
+  const searchWindow = useMemo(() => getWaitlistSearchWindow(waitlist), [waitlist]);
+  const { appointments } = useAppointments(businessId || undefined, searchWindow);
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState(getInitialFormData);
+  const [showClosed, setShowClosed] = useState(false);
+  const [bookingEntryId, setBookingEntryId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const getClientName = (clientId: string) => clients.find(c => c.id === clientId)?.name || 'Cliente eliminado';
+  const getServiceName = (serviceId: string) => services.find(s => s.id === serviceId)?.name || 'Servicio eliminado';
+
+  // Horario a proponer para cada entrada: el ofrecido si sigue libre, si no el siguiente disponible
+  const suggestedSlots = useMemo(() => {
+    const suggestions: Record<string, WaitlistSlot | null> = {};
+
+    waitlist
+      .filter(entry => entry.status === 'waiting')
+      .forEach(entry => {
+        const service = services.find(s => s.id === entry.serviceId);
+        if (!service) {
+          suggestions[entry.id] = null;
+          return;
+        }
+
+        const offer = entry.offer;
+        if (offer && isFutureSlot(offer.date, offer.startTime)) {
+          const check = checkSlotAvailability({
+            business,
+            service,
+            appointments,
+            date: offer.date,
+            startTime: offer.startTime,
+            endTime: offer.endTime
+          });
+          if (check.isAvailable) {
+            suggestions[entry.id] = { serviceId: entry.serviceId, ...offer };
+            return;
+          }
+        }
+
+        suggestions[entry.id] = findNextSlotForEntry(business, service, appointments, entry);
+      });
+
+    return suggestions;
+  }, [waitlist, services, business, appointments]);
+
+  const visibleEntries = waitlist
+    .filter(entry => showClosed || entry.status === 'waiting')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (formData.preferredEndDate < formData.preferredStartDate) {
+      setError('La fecha final debe ser posterior a la fecha inicial');
+      return;
+    }
+
+    if (formData.preferredStartTime && formData.preferredEndTime && formData.preferredEndTime <= formData.preferredStartTime) {
+      setError('La hora final debe ser posterior a la hora inicial');
+      return;
+    }
+
+    try {
+      const timestamp = new Date().toISOString();
+      await addWaitlistEntry({
+        clientId: formData.clientId,
+        serviceId: formData.serviceId,
+        preferredStartDate: formData.preferredStartDate,
+        preferredEndDate: formData.preferredEndDate,
+        preferredStartTime: formData.preferredStartTime || undefined,
+        preferredEndTime: formData.preferredEndTime || undefined,
+        notes: formData.notes,
+        status: 'waiting',
+        createdBy: currentUser!.uid,
+        businessId: businessId!,
+        createdAt: timestamp,
+        updatedAt: timestamp
+      });
+      setIsModalOpen(false);
+      setFormData(getInitialFormData());
+    } catch (error) {
+      setError((error as Error).message || 'Error al agregar a la lista de espera');
+    }
+  };
+
+  const handleBook = async (entry: WaitlistEntry) => {
+    const slot = suggestedSlots[entry.id];
+    if (!slot) return;
+
+    setBookingEntryId(entry.id);
+    try {
+      await bookWaitlistEntry(entry.id, slot, currentUser!.uid);
+    } catch (error) {
+      alert((error as Error).message || 'Error al agendar la cita');
+    } finally {
+      setBookingEntryId(null);
+    }
+  };
+
+  const handleCancel = async (entry: WaitlistEntry) => {
+    if (!confirm(`¿Quitar a ${getClientName(entry.clientId)} de la lista de espera?`)) return;
+    try {
+      await updateWaitlistEntry(entry.id, { status: 'cancelled', offer: null });
+    } catch (error) {
+      console.error('Error cancelling waitlist entry:', error);
+    }
+  };
+
+  const handleDelete = async (entry: WaitlistEntry) => {
+    if (!confirm('¿Eliminar esta entrada de la lista de espera?')) return;
+    try {
+      await deleteWaitlistEntry(entry.id);
+    } catch (error) {
+      console.error('Error deleting waitlist entry:', error);
+    }
+  };
+
+  const formatPreferredTime = (entry: WaitlistEntry) => {
+    if (!entry.preferredStartTime && !entry.preferredEndTime) return 'Cualquier hora';
+    return `${entry.preferredStartTime || 'Apertura'} - ${entry.preferredEndTime || 'Cierre'}`;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-pink-500"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <Hourglass className="h-6 w-6 text-pink-600 mr-2" />
+          <h1 className="text-2xl font-bold text-gray-900">Lista de Espera</h1>
+        </div>
+        {canCreateAppointment ? (
+          <button
+            onClick={() => {
+              setFormData(getInitialFormData());
+              setError('');
+              setIsModalOpen(true);
+            }}
+            className="flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Agregar a la Lista
+          </button>
+        ) : (
+          <div className="flex items-center px-4 py-2 bg-gray-300 text-gray-500 rounded-lg cursor-not-allowed" title={getRestrictionMessage('canCreateAppointment')}>
+            <Plus className="h-4 w-4 mr-2" />
+            Solo Lectura
+          </div>
+        )}
+      </div>
+
+      <label className="flex items-center mb-4 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={showClosed}
+          onChange={(e) => setShowClosed(e.target.checked)}
+          className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded mr-2"
+        />
+        Mostrar entradas agendadas y canceladas
+      </label>
+
+      {/* Entries */}
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        {visibleEntries.length === 0 ? (
+          <div className="p-8 text-center">
+            <Hourglass className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No hay clientes en espera</h3>
+            <p className="text-gray-500">Agrega clientes para ofrecerles horarios cuando se liberen.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {visibleEntries.map(entry => {
+              const suggestion = suggestedSlots[entry.id];
+              return (
+                <div key={entry.id} className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <h3 className="font-semibold text-gray-900">{getClientName(entry.clientId)}</h3>
+                      <span className={`px-2 py-1 text-xs rounded-full font-medium ${STATUS_COLORS[entry.status]}`}>
+                        {STATUS_LABELS[entry.status]}
+                      </span>
+                      {entry.status === 'waiting' && entry.offer && (
+                        <span className="flex items-center px-2 py-1 text-xs rounded-full font-medium bg-pink-100 text-pink-800">
+                          <Bell className="h-3 w-3 mr-1" />
+                          Horario liberado
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1">
+                      {getServiceName(entry.serviceId)} · {entry.preferredStartDate} al {entry.preferredEndDate} · {formatPreferredTime(entry)}
+                    </p>
+                    {entry.notes && <p className="text-xs text-gray-500 mt-1">{entry.notes}</p>}
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    {entry.status === 'waiting' && (
+                      suggestion ? (
+                        <button
+                          onClick={() => handleBook(entry)}
+                          disabled={!canCreateAppointment || bookingEntryId === entry.id}
+                          className="flex items-center px-3 py-1.5 text-sm bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                          title="Crear la cita en este horario"
+                        >
+                          <CalendarCheck className="h-4 w-4 mr-1" />
+                          {bookingEntryId === entry.id
+                            ? 'Agendando...'
+                            : `Agendar ${suggestion.date} ${suggestion.startTime}`}
+                        </button>
+                      ) : (
+                        <span className="text-sm text-gray-500">Sin horarios disponibles</span>
+                      )
+                    )}
+                    {entry.status === 'waiting' && canCreateAppointment && (
+                      <button
+                        onClick={() => handleCancel(entry)}
+                        className="p-1.5 text-gray-400 hover:text-gray-600"
+                        title="Quitar de la lista"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    )}
+                    {entry.status !== 'waiting' && canCreateAppointment && (
+                      <button
+                        onClick={() => handleDelete(entry)}
+                        className="p-1.5 text-red-400 hover:text-red-600"
+                        title="Eliminar"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Modal */}
+      {isModalOpen && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900">Agregar a la Lista de Espera</h2>
+              <button onClick={() => setIsModalOpen(false)} className="text-gray-400 hover:text-gray-600">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-6 space-y-4">
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-md p-3">
+                  <p className="text-red-600 text-sm">{error}</p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Cliente *</label>
+                <select
+                  required
+                  value={formData.clientId}
+                  onChange={(e) => setFormData({ ...formData, clientId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+                >
+                  <option value="">Seleccionar cliente</option>
+                  {clients.map(client => (
+                    <option key={client.id} value={client.id}>{client.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Servicio *</label>
+                <select
+                  required
+                  value={formData.serviceId}
+                  onChange={(e) => setFormData({ ...formData, serviceId: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+                >
+                  <option value="">Seleccionar servicio</option>
+                  {services.filter(service => service.isActive !== false).map(service => (
+                    <option key={service.id} value={service.id}>{service.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Desde *</label>
+                  <input
+                    type="date"
+                    required
+                    value={formData.preferredStartDate}
+                    onChange={(e) => setFormData({ ...formData, preferredStartDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Hasta *</label>
+                  <input
+                    type="date"
+                    required
+                    value={formData.preferredEndDate}
+                    onChange={(e) => setFormData({ ...formData, preferredEndDate: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Hora desde</label>
+                  <input
+                    type="time"
+                    value={formData.preferredStartTime}
+                    onChange={(e) => setFormData({ ...formData, preferredStartTime: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Hora hasta</label>
+                  <input
+                    type="time"
+                    value={formData.preferredEndTime}
+                    onChange={(e) => setFormData({ ...formData, preferredEndTime: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">Deja las horas vacías si al cliente le sirve cualquier horario.</p>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+                <textarea
+                  rows={2}
+                  value={formData.notes}
+                  onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-pink-500"
+                />
+              </div>
+
+              <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={() => setIsModalOpen(false)}
+                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200"
+                >
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  className="flex items-center px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  Guardar
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -21,7 +21,10 @@ const firebaseConfig = {
 const app = initializeApp(firebaseConfig);
 
 // Initialize Firebase services
-export const analytics = getAnalytics(app);
+// Analytics solo existe en el navegador y no se usa con el almacenamiento en memoria
+export const analytics = typeof window !== 'undefined' && import.meta.env?.VITE_STORAGE_BACKEND !== 'memory'
+  ? getAnalytics(app)
+  : null;
 export const database = getDatabase(app);
 export const auth = getAuth(app);
 
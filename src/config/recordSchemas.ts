@@ -0,0 +1,198 @@
+import type { BusinessCategory, RecordFormSchema } from '../types';
+
+// Campos específicos de cada categoría. Diagnóstico, tratamiento, notas, fecha y duración
+// son comunes a todos los expedientes y no se repiten aquí.
+// Dermatología, acupuntura, fisioterapia y uñas siguen DermatologyRecord, AcupunctureRecord,
+// RehabilitationRecord y NailsRecord.
+export const RECORD_SCHEMAS: Record<BusinessCategory, RecordFormSchema> = {
+  dermatology: {
+    category: 'dermatology',
+    recordLabel: 'Consulta Dermatológica',
+    fields: [
+      { key: 'skinType', label: 'Tipo de piel', type: 'select', options: ['Normal', 'Seca', 'Grasa', 'Mixta', 'Sensible'] },
+      { key: 'fitzpatrick', label: 'Fototipo (Fitzpatrick)', type: 'select', options: ['I', 'II', 'III', 'IV', 'V', 'VI'] },
+      { key: 'medications', label: 'Medicamentos', type: 'textarea', required: true },
+      { key: 'allergies', label: 'Alergias', type: 'list', placeholder: 'Separadas por coma' },
+      { key: 'progress', label: 'Evolución', type: 'textarea', required: true },
+      { key: 'familyHistory', label: 'Antecedentes familiares', type: 'textarea' },
+      { key: 'observations', label: 'Observaciones', type: 'textarea' }
+    ]
+  },
+  nails: {
+    category: 'nails',
+    recordLabel: 'Servicio de Uñas',
+    fields: [
+      { key: 'serviceType', label: 'Tipo de servicio', type: 'select', required: true, options: ['Manicure', 'Pedicure', 'Gel', 'Acrílico', 'Esmaltado permanente', 'Arte en uñas'] },
+      { key: 'shape', label: 'Forma', type: 'select', options: ['Cuadrada', 'Redonda', 'Almendra', 'Stiletto', 'Coffin'] },
+      { key: 'color', label: 'Color / diseño', type: 'text' },
+      { key: 'preferences', label: 'Preferencias', type: 'textarea' },
+      { key: 'allergies', label: 'Alergias', type: 'list', placeholder: 'Separadas por coma' }
+    ]
+  },
+  nutrition: {
+    category: 'nutrition',
+    recordLabel: 'Consulta Nutricional',
+    fields: [
+      { key: 'weight', label: 'Peso', type: 'number', unit: 'kg', min: 1, max: 400, required: true },
+      { key: 'height', label: 'Estatura', type: 'number', unit: 'cm', min: 30, max: 250 },
+      { key: 'waist', label: 'Cintura', type: 'number', unit: 'cm', min: 20, max: 250 },
+      { key: 'bodyFat', label: 'Grasa corporal', type: 'number', unit: '%', min: 1, max: 80 },
+      { key: 'goal', label: 'Objetivo', type: 'select', options: ['Bajar de peso', 'Subir de peso', 'Mantener', 'Rendimiento deportivo', 'Control de enfermedad'] },
+      { key: 'conditions', label: 'Padecimientos', type: 'list', placeholder: 'Separados por coma' },
+      { key: 'mealPlan', label: 'Plan alimentario', type: 'textarea' }
+    ]
+  },
+  psychology: {
+    category: 'psychology',
+    recordLabel: 'Sesión de Terapia',
+    fields: [
+      { key: 'sessionType', label: 'Tipo de sesión', type: 'select', required: true, options: ['Individual', 'Pareja', 'Familiar', 'Grupal', 'Evaluación'] },
+      { key: 'mood', label: 'Estado de ánimo', type: 'scale', min: 1, max: 10 },
+      { key: 'riskDetected', label: 'Se detectó riesgo', type: 'boolean' },
+      { key: 'riskDetails', label: 'Detalle del riesgo y acciones', type: 'textarea', required: true, showWhen: { field: 'riskDetected', values: [true] } },
+      { key: 'topics', label: 'Temas abordados', type: 'textarea' },
+      { key: 'tasks', label: 'Tareas para la siguiente sesión', type: 'textarea' }
+    ]
+  },
+  dentistry: {
+    category: 'dentistry',
+    recordLabel: 'Consulta Dental',
+    fields: [
+      { key: 'teeth', label: 'Piezas tratadas', type: 'list', placeholder: 'Ej: 11, 21, 36' },
+      { key: 'procedure', label: 'Procedimiento', type: 'select', required: true, options: ['Limpieza', 'Resina', 'Endodoncia', 'Extracción', 'Corona', 'Ortodoncia', 'Otro'] },
+      { key: 'anesthesia', label: 'Se aplicó anestesia', type: 'boolean' },
+      { key: 'anesthesiaType', label: 'Tipo de anestesia', type: 'text', showWhen: { field: 'anesthesia', values: [true] } },
+      { key: 'allergies', label: 'Alergias', type: 'list', placeholder: 'Separadas por coma' }
+    ]
+  },
+  physiotherapy: {
+    category: 'physiotherapy',
+    recordLabel: 'Sesión de Fisioterapia',
+    fields: [
+      { key: 'therapyType', label: 'Tipo de terapia', type: 'select', required: true, options: ['Ortopédica', 'Neurológica', 'Deportiva', 'Respiratoria', 'Geriátrica', 'Postquirúrgica'] },
+      { key: 'painScale', label: 'Escala de dolor', type: 'scale', min: 1, max: 10, required: true },
+      { key: 'patientProgress', label: 'Progreso del paciente', type: 'textarea', required: true },
+      { key: 'homeExercises', label: 'Ejercicios en casa', type: 'textarea' },
+      { key: 'complications', label: 'Complicaciones', type: 'textarea' },
+      { key: 'futurePlan', label: 'Plan a seguir', type: 'textarea' }
+    ]
+  },
+  massage: {
+    category: 'massage',
+    recordLabel: 'Sesión de Masaje',
+    fields: [
+      { key: 'massageType', label: 'Tipo de masaje', type: 'select', required: true, options: ['Relajante', 'Descontracturante', 'Deportivo', 'Piedras calientes', 'Drenaje linfático'] },
+      { key: 'pressure', label: 'Presión', type: 'select', options: ['Suave', 'Media', 'Firme'] },
+      { key: 'focusAreas', label: 'Zonas trabajadas', type: 'multiselect', options: ['Cuello', 'Espalda', 'Hombros', 'Brazos', 'Piernas', 'Pies'] },
+      { key: 'oils', label: 'Aceites / productos', type: 'text' },
+      { key: 'contraindications', label: 'Contraindicaciones', type: 'textarea' }
+    ]
+  },
+  acupuncture: {
+    category: 'acupuncture',
+    recordLabel: 'Sesión de Acupuntura',
+    fields: [
+      { key: 'acupuncturePoints', label: 'Puntos', type: 'list', required: true, placeholder: 'Ej: IG4, E36, H3' },
+      { key: 'sessionDuration', label: 'Duración de la aplicación', type: 'number', unit: 'min', min: 1, max: 180 },
+      { key: 'symptomsAddressed', label: 'Síntomas tratados', type: 'textarea', required: true },
+      { key: 'patientResponse', label: 'Respuesta del paciente', type: 'textarea' },
+      { key: 'followUpNotes', label: 'Notas de seguimiento', type: 'textarea' },
+      { key: 'previousSessions', label: 'Sesiones previas', type: 'textarea' }
+    ]
+  },
+  beauty: {
+    category: 'beauty',
+    recordLabel: 'Tratamiento Estético',
+    fields: [
+      { key: 'skinType', label: 'Tipo de piel', type: 'select', options: ['Normal', 'Seca', 'Grasa', 'Mixta', 'Sensible'] },
+      { key: 'area', label: 'Zona tratada', type: 'text', required: true },
+      { key: 'products', label: 'Productos utilizados', type: 'list', placeholder: 'Separados por coma' },
+      { key: 'reaction', label: 'Hubo reacción', type: 'boolean' },
+      { key: 'reactionDetails', label: 'Detalle de la reacción', type: 'textarea', required: true, showWhen: { field: 'reaction', values: [true] } },
+      { key: 'allergies', label: 'Alergias', type: 'list', placeholder: 'Separadas por coma' }
+    ]
+  },
+  hair: {
+    category: 'hair',
+    recordLabel: 'Servicio de Peluquería',
+    fields: [
+      { key: 'serviceType', label: 'Servicio', type: 'select', required: true, options: ['Corte', 'Tinte', 'Mechas', 'Alisado', 'Tratamiento', 'Peinado'] },
+      { key: 'hairType', label: 'Tipo de cabello', type: 'select', options: ['Liso', 'Ondulado', 'Rizado', 'Afro'] },
+      { key: 'formula', label: 'Fórmula de color', type: 'text', showWhen: { field: 'serviceType', values: ['Tinte', 'Mechas'] } },
+      { key: 'processingTime', label: 'Tiempo de exposición', type: 'number', unit: 'min', min: 1, max: 240, showWhen: { field: 'serviceType', values: ['Tinte', 'Mechas', 'Alisado'] } },
+      { key: 'products', label: 'Productos utilizados', type: 'list', placeholder: 'Separados por coma' }
+    ]
+  },
+  fitness: {
+    category: 'fitness',
+    recordLabel: 'Entrenamiento Personal',
+    fields: [
+      { key: 'weight', label: 'Peso', type: 'number', unit: 'kg', min: 1, max: 400 },
+      { key: 'bodyFat', label: 'Grasa corporal', type: 'number', unit: '%', min: 1, max: 80 },
+      { key: 'goal', label: 'Objetivo', type: 'select', options: ['Fuerza', 'Resistencia', 'Pérdida de grasa', 'Hipertrofia', 'Movilidad'] },
+      { key: 'routine', label: 'Rutina realizada', type: 'textarea', required: true },
+      { key: 'effort', label: 'Esfuerzo percibido', type: 'scale', min: 1, max: 10 },
+      { key: 'injuries', label: 'Lesiones', type: 'textarea' }
+    ]
+  },
+  veterinary: {
+    category: 'veterinary',
+    recordLabel: 'Consulta Veterinaria',
+    fields: [
+      { key: 'petName', label: 'Nombre de la mascota', type: 'text', required: true },
+      { key: 'species', label: 'Especie', type: 'select', required: true, options: ['Perro', 'Gato', 'Ave', 'Roedor', 'Reptil', 'Otra'] },
+      { key: 'breed', label: 'Raza', type: 'text' },
+      { key: 'weight', label: 'Peso', type: 'number', unit: 'kg', min: 0.01, max: 200 },
+      { key: 'temperature', label: 'Temperatura', type: 'number', unit: '°C', min: 30, max: 45 },
+      { key: 'vaccinated', label: 'Vacunas al día', type: 'boolean' },
+      { key: 'vaccines', label: 'Vacunas aplicadas', type: 'list', placeholder: 'Separadas por coma' }
+    ]
+  },
+  consulting: {
+    category: 'consulting',
+    recordLabel: 'Consultoría',
+    fields: [
+      { key: 'topic', label: 'Tema', type: 'text', required: true },
+      { key: 'agreements', label: 'Acuerdos', type: 'textarea' },
+      { key: 'nextSteps', label: 'Próximos pasos', type: 'textarea' }
+    ]
+  },
+  education: {
+    category: 'education',
+    recordLabel: 'Sesión Educativa',
+    fields: [
+      { key: 'subject', label: 'Materia', type: 'text', required: true },
+      { key: 'level', label: 'Nivel', type: 'select', options: ['Básico', 'Intermedio', 'Avanzado'] },
+      { key: 'topics', label: 'Temas vistos', type: 'textarea' },
+      { key: 'homework', label: 'Tarea', type: 'textarea' },
+      { key: 'performance', label: 'Desempeño', type: 'scale', min: 1, max: 10 }
+    ]
+  },
+  yoga: {
+    category: 'yoga',
+    recordLabel: 'Clase de Yoga/Pilates',
+    fields: [
+      { key: 'classType', label: 'Tipo de clase', type: 'select', required: true, options: ['Hatha', 'Vinyasa', 'Restaurativo', 'Pilates mat', 'Pilates reformer'] },
+      { key: 'level', label: 'Nivel', type: 'select', options: ['Principiante', 'Intermedio', 'Avanzado'] },
+      { key: 'limitations', label: 'Limitaciones físicas', type: 'textarea' },
+      { key: 'progress', label: 'Progreso', type: 'textarea' }
+    ]
+  },
+  barbershop: {
+    category: 'barbershop',
+    recordLabel: 'Servicio de Barbería',
+    fields: [
+      { key: 'serviceType', label: 'Servicio', type: 'multiselect', required: true, options: ['Corte', 'Barba', 'Afeitado', 'Diseño', 'Tinte'] },
+      { key: 'clipperGuard', label: 'Número de máquina', type: 'text' },
+      { key: 'products', label: 'Productos utilizados', type: 'list', placeholder: 'Separados por coma' },
+      { key: 'preferences', label: 'Preferencias', type: 'textarea' }
+    ]
+  },
+  other: {
+    category: 'other',
+    recordLabel: 'Consulta Especializada',
+    fields: [
+      { key: 'observations', label: 'Observaciones', type: 'textarea' }
+    ]
+  }
+};
@@ -0,0 +1,91 @@
+import type { PaymentMethod } from '../types';
+
+// Subconjunto de los catálogos del SAT para CFDI 4.0 que usan los negocios de servicios.
+// c_ClaveProdServ y c_CodigoPostal son demasiado grandes para incluirlos: de esos solo se
+// valida el formato.
+
+export interface SatTaxRegime {
+  code: string;
+  name: string;
+  physical: boolean; // aplica a personas físicas
+  moral: boolean; // aplica a personas morales
+  issuer: boolean; // permite facturar servicios como emisor
+}
+
+// c_RegimenFiscal
+export const TAX_REGIMES: SatTaxRegime[] = [
+  { code: '601', name: 'General de Ley Personas Morales', physical: false, moral: true, issuer: true },
+  { code: '603', name: 'Personas Morales con Fines no Lucrativos', physical: false, moral: true, issuer: true },
+  { code: '605', name: 'Sueldos y Salarios e Ingresos Asimilados a Salarios', physical: true, moral: false, issuer: false },
+  { code: '606', name: 'Arrendamiento', physical: true, moral: false, issuer: false },
+  { code: '607', name: 'Régimen de Enajenación o Adquisición de Bienes', physical: true, moral: false, issuer: false },
+  { code: '608', name: 'Demás ingresos', physical: true, moral: false, issuer: false },
+  { code: '610', name: 'Residentes en el Extranjero sin Establecimiento Permanente en México', physical: true, moral: true, issuer: false },
+  { code: '611', name: 'Ingresos por Dividendos (socios y accionistas)', physical: true, moral: false, issuer: false },
+  { code: '612', name: 'Personas Físicas con Actividades Empresariales y Profesionales', physical: true, moral: false, issuer: true },
+  { code: '614', name: 'Ingresos por intereses', physical: true, moral: false, issuer: false },
+  { code: '615', name: 'Régimen de los ingresos por obtención de premios', physical: true, moral: false, issuer: false },
+  { code: '616', name: 'Sin obligaciones fiscales', physical: true, moral: false, issuer: false },
+  { code: '620', name: 'Sociedades Cooperativas de Producción que optan por diferir sus ingresos', physical: false, moral: true, issuer: true },
+  { code: '621', name: 'Incorporación Fiscal', physical: true, moral: false, issuer: true },
+  { code: '622', name: 'Actividades Agrícolas, Ganaderas, Silvícolas y Pesqueras', physical: false, moral: true, issuer: false },
+  { code: '623', name: 'Opcional para Grupos de Sociedades', physical: false, moral: true, issuer: true },
+  { code: '624', name: 'Coordinados', physical: false, moral: true, issuer: false },
+  { code: '625', name: 'Régimen de las Actividades Empresariales con ingresos a través de Plataformas Tecnológicas', physical: true, moral: false, issuer: true },
+  { code: '626', name: 'Régimen Simplificado de Confianza', physical: true, moral: true, issuer: true }
+];
+
+export interface SatCfdiUse {
+  code: string;
+  name: string;
+  regimes: string[]; // regímenes del receptor que pueden usarlo
+}
+
+const BUSINESS_REGIMES = ['601', '603', '606', '612', '620', '621', '622', '623', '624', '625', '626'];
+const PERSONAL_DEDUCTION_REGIMES = ['605', '606', '607', '608', '611', '612', '614', '615', '625'];
+
+// c_UsoCFDI: los gastos de la empresa y las deducciones personales de salud y colegiaturas
+export const CFDI_USES: SatCfdiUse[] = [
+  { code: 'G01', name: 'Adquisición de mercancías', regimes: BUSINESS_REGIMES },
+  { code: 'G03', name: 'Gastos en general', regimes: BUSINESS_REGIMES },
+  { code: 'D01', name: 'Honorarios médicos, dentales y gastos hospitalarios', regimes: PERSONAL_DEDUCTION_REGIMES },
+  { code: 'D02', name: 'Gastos médicos por incapacidad o discapacidad', regimes: PERSONAL_DEDUCTION_REGIMES },
+  { code: 'D10', name: 'Pagos por servicios educativos (colegiaturas)', regimes: PERSONAL_DEDUCTION_REGIMES },
+  {
+    code: 'S01',
+    name: 'Sin efectos fiscales',
+    regimes: ['601', '603', '605', '606', '607', '608', '610', '611', '612', '614', '615', '616', '620', '621', '622', '623', '624', '625', '626']
+  }
+];
+
+// c_FormaPago
+export const PAYMENT_FORMS: Record<string, string> = {
+  '01': 'Efectivo',
+  '03': 'Transferencia electrónica de fondos',
+  '04': 'Tarjeta de crédito',
+  '28': 'Tarjeta de débito'
+};
+
+// Forma de pago con la que se registra cada método de cobro; la tarjeta puede cambiarse a débito
+export const PAYMENT_FORM_BY_METHOD: Record<PaymentMethod, string> = {
+  cash: '01',
+  card: '04',
+  transfer: '03'
+};
+
+// Claves c_ClaveProdServ frecuentes; se puede capturar cualquier otra del catálogo
+export const PRODUCT_CODES: { code: string; name: string }[] = [
+  { code: '01010101', name: 'No existe en el catálogo' },
+  { code: '85121502', name: 'Servicios de consulta de médicos de atención primaria' },
+  { code: '80101500', name: 'Servicios de consultoría de negocios y administración corporativa' }
+];
+
+// c_ClaveUnidad de los servicios
+export const SERVICE_UNIT = { code: 'E48', name: 'Unidad de servicio' };
+
+// RFC genéricos: requieren factura global, que no se emite desde una cita
+export const GENERIC_RFCS = ['XAXX010101000', 'XEXX010101000'];
+
+export const getTaxRegime = (code: string) => TAX_REGIMES.find(regime => regime.code === code);
+
+export const getCfdiUse = (code: string) => CFDI_USES.find(use => use.code === code);
@@ -7,30 +7,72 @@ import {
   onAuthStateChanged,
   updateProfile
 } from 'firebase/auth';
-import { ref, get, set, update, push } from 'firebase/database';
-import { auth, database } from '../config/firebase';
-import type { User } from '../types';
+import { auth } from '../config/firebase';
+import type { BusinessRole, User } from '../types';
+import { getDataStore, getOfflineStore, memberRepository, recordRepository, userRepository, clientRepository } from '../storage';
+import { invitationService } from '../utils/invitationService';
 import { realTimeLicenseService, type LicenseStatus } from '../utils/realTimeLicenseService';
+import { licenseService } from '../utils/licenseService';
+import { auditService, type AuditActor } from '../utils/auditService';
+import { recordHistoryService } from '../utils/recordHistoryService';
 
 interface BusinessAccess {
   businessId: string;
   businessName: string;
-  businessKey: string;
-  role: 'admin' | 'editor' | 'viewer';
+  businessKey?: string;
+  invitationId?: string;
+  role: BusinessRole;
   addedAt: string;
 }
 
+// El rol de administrador solo se concede con el custom claim `admin` (npm run admin -- grant <email>)
+const hasAdminClaim = async (firebaseUser: FirebaseUser): Promise<boolean> => {
+  try {
+    const { claims } = await firebaseUser.getIdTokenResult();
+    return claims.admin === true;
+  } catch (error) {
+    console.error('Error reading admin claim:', error);
+    return false;
+  }
+};
+
+// Un rol 'admin' guardado en la base de datos sin el claim no otorga privilegios
+const resolveRole = (storedRole: User['role'], isAdmin: boolean): User['role'] => {
+  if (isAdmin) return 'admin';
+  return storedRole === 'admin' ? 'owner' : storedRole;
+};
+
+// Los administradores provisionados desde la CLI pueden no tener perfil todavía
+const getOrCreateAdminProfile = async (firebaseUser: FirebaseUser): Promise<User | null> => {
+  const userData = await userRepository.get(firebaseUser.uid);
+  if (userData || !(await hasAdminClaim(firebaseUser))) return userData;
+
+  const adminUser: User = {
+    uid: firebaseUser.uid,
+    email: firebaseUser.email || '',
+    displayName: firebaseUser.displayName || 'Administrador',
+    role: 'admin',
+    createdAt: new Date().toISOString(),
+    updatedAt: new Date().toISOString(),
+    businessAccess: {},
+    currentBusiness: null
+  };
+  await userRepository.set(firebaseUser.uid, adminUser);
+  return adminUser;
+};
+
 interface AuthContextType {
   currentUser: User | null;
+  isAdmin: boolean;
   currentBusiness: string | null;
   businessAccess: Record<string, BusinessAccess>;
   licenseStatus: LicenseStatus | null;
   setCurrentBusiness: (businessId: string | null) => void;
   login: (email: string, password: string) => Promise<void>;
-  register: (email: string, password: string, displayName: string, role: 'owner' | 'assistant' | 'admin', businessKey?: string) => Promise<void>;
+  register: (email: string, password: string, displayName: string, role: 'owner' | 'assistant', joinCode?: string) => Promise<void>;
   logout: () => Promise<void>;
   loading: boolean;
-  addBusinessAccess: (businessKey: string) => Promise<boolean>;
+  addBusinessAccess: (code: string) => Promise<boolean>;
   updateUserProfile: (data: { displayName?: string }) => Promise<void>;
   createClientRecord: (businessId: string, clientId: string, recordData: any) => Promise<string>;
   getClientRecords: (businessId: string, clientId: string) => Promise<any[]>;
@@ -84,18 +126,15 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     
     try {
       // Recargar datos del usuario desde la base de datos
-      const userRef = ref(database, `users/${currentUser.uid}`);
-      const snapshot = await get(userRef);
+      const userData = await userRepository.get(currentUser.uid);
       
-      if (snapshot.exists()) {
-        const userData = snapshot.val();
-        
+      if (userData) {
         // Crear objeto de usuario actualizado
         const updatedUser: User = {
           uid: currentUser.uid,
           email: currentUser.email,
           displayName: userData.displayName || currentUser.displayName,
-          role: userData.role,
+          role: resolveRole(userData.role, currentUser.role === 'admin'),
           businessId: userData.businessId,
           businessAccess: userData.businessAccess || {},
           currentBusiness: userData.currentBusiness,
@@ -114,7 +153,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           updatedUser.blockedReason = undefined;
           
           // Actualizar en la base de datos
-          await update(userRef, {
+          await userRepository.update(currentUser.uid, {
             isBlocked: false,
             blockedReason: null,
             updatedAt: new Date().toISOString()
@@ -127,7 +166,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           updatedUser.blockedReason = reason;
           
           // Actualizar en la base de datos
-          await update(userRef, {
+          await userRepository.update(currentUser.uid, {
             isBlocked: true,
             blockedReason: reason,
             updatedAt: new Date().toISOString()
@@ -164,8 +203,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       await updateProfile(auth.currentUser, data);
   
       // Actualizar en Realtime Database
-      const userRef = ref(database, `users/${auth.currentUser.uid}`);
-      await update(userRef, data);
+      await userRepository.update(auth.currentUser.uid, data);
   
       // Actualizar el estado local
       setCurrentUser(prev => {
@@ -185,57 +223,18 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const login = async (email: string, password: string) => {
     try {
-      // Verificar credenciales de admin
-      if (email === 'sauldisel4@gmail.com' && password === '41292002Alv.') {
-        // Login especial para admin
-        const userCredential = await signInWithEmailAndPassword(auth, email, password);
-        const firebaseUser = userCredential.user;
-        
-        // Verificar si ya existe el usuario admin en la base de datos
-        const userRef = ref(database, `users/${firebaseUser.uid}`);
-        const snapshot = await get(userRef);
-        
-        if (!snapshot.exists()) {
-          // Crear usuario admin si no existe
-          const adminUser: User = {
-            uid: firebaseUser.uid,
-            email: firebaseUser.email!,
-            displayName: 'Administrador',
-            role: 'admin',
-            createdAt: new Date().toISOString(),
-            updatedAt: new Date().toISOString(),
-            businessAccess: {},
-            currentBusiness: null
-          };
-          
-          await set(userRef, adminUser);
-          setCurrentUser(adminUser);
-        } else {
-          const userData = snapshot.val();
-          setCurrentUser({
-            uid: firebaseUser.uid,
-            email: firebaseUser.email!,
-            ...userData
-          });
-        }
-        return;
-      }
-      
-      // Login normal para otros usuarios
       const userCredential = await signInWithEmailAndPassword(auth, email, password);
       const firebaseUser = userCredential.user;
       
       // Get user data from Realtime Database
-      const userRef = ref(database, `users/${firebaseUser.uid}`);
-      const snapshot = await get(userRef);
+      const userData = await getOrCreateAdminProfile(firebaseUser);
       
-      if (snapshot.exists()) {
-        const userData = snapshot.val();
+      if (userData) {
         const user: User = {
           uid: firebaseUser.uid,
           email: firebaseUser.email!,
           displayName: userData.displayName || firebaseUser.displayName || '',
-          role: userData.role,
+          role: resolveRole(userData.role, await hasAdminClaim(firebaseUser)),
           businessId: userData.businessId,
           businessAccess: userData.businessAccess || {},
           currentBusiness: userData.currentBusiness || null
@@ -251,7 +250,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             setCurrentBusiness(firstBusinessId);
             // Actualizar en la base de datos si no existe currentBusiness
             if (!userData.currentBusiness) {
-              await update(ref(database, `users/${firebaseUser.uid}`), {
+              await userRepository.update(firebaseUser.uid, {
                 currentBusiness: firstBusinessId
               });
             }
@@ -268,71 +267,54 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const addBusinessAccess = async (businessKey: string): Promise<boolean> => {
+  const addBusinessAccess = async (code: string): Promise<boolean> => {
     if (!currentUser) return false;
     
     try {
-      console.log('Buscando negocio con clave:', businessKey);
+      // Buscar el negocio por código de invitación o clave (índices, sin recorrer negocios)
+      const join = await invitationService.resolveJoinCode(code);
       
-      // Buscar el negocio por su clave
-      const businessesRef = ref(database, 'businesses');
-      const snapshot = await get(businessesRef);
-      
-      if (!snapshot.exists()) {
-        console.log('No existen negocios en la base de datos');
+      if (!join) {
+        console.log('No se encontró negocio con el código proporcionado');
         return false;
       }
       
-      let businessFound = false;
-      let businessData: any = null;
-      let businessId = '';
-      
-      // Buscar el negocio por su clave
-      snapshot.forEach((child) => {
-        const business = child.val();
-        console.log('Revisando negocio:', child.key, 'con clave:', business.businessKey);
-        
-        if (business.businessKey === businessKey) {
-          console.log('¡Negocio encontrado!', child.key);
-          businessFound = true;
-          businessData = business;
-          businessId = child.key!;
-        }
-      });
-      
-      if (!businessFound) {
-        console.log('No se encontró negocio con la clave proporcionada');
-        return false;
-      }
+      const { businessId, businessName } = join;
+      if (businessAccess[businessId]) return true;
       
       // Actualizar el acceso del usuario al negocio
-      const updates: any = {};
-      const businessAccessData = {
+      const updates: Record<string, unknown> = { ...join.updates };
+      const businessAccessData: BusinessAccess = {
         businessId,
-        businessName: businessData.name,
-        businessKey,
-        role: 'viewer', // Rol por defecto
+        businessName,
+        ...join.source,
+        role: join.role, // Rol elegido por el propietario
         addedAt: new Date().toISOString()
       };
       
       updates[`users/${currentUser.uid}/businessAccess/${businessId}`] = businessAccessData;
+      updates[memberRepository.path(businessId, currentUser.uid)] = {
+        displayName: currentUser.displayName || '',
+        email: currentUser.email || '',
+        joinedAt: businessAccessData.addedAt
+      };
       
       // Si es el primer negocio, establecerlo como actual
-      if (Object.keys(businessAccess).length === 0) {
+      const isFirstBusiness = Object.keys(businessAccess).length === 0;
+      if (isFirstBusiness) {
         updates[`users/${currentUser.uid}/currentBusiness`] = businessId;
-        setCurrentBusiness(businessId);
       }
       
-      await update(ref(database), updates);
+      await getDataStore().update('', updates);
       
       // Actualizar el estado local
       setBusinessAccess(prev => ({
         ...prev,
-        [businessId]: {
-          ...businessAccessData,
-          role: 'viewer' as const  // Asegurar que el tipo sea literal 'viewer'
-        }
+        [businessId]: businessAccessData
       }));
+      if (isFirstBusiness) {
+        setCurrentBusiness(businessId);
+      }
       
       return true;
     } catch (error) {
@@ -345,8 +327,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     email: string, 
     password: string, 
     displayName: string, 
-    role: 'owner' | 'assistant' | 'admin', 
-    businessKey?: string
+    role: 'owner' | 'assistant', 
+    joinCode?: string
   ) => {
     try {
       // Crear usuario en Firebase Auth
@@ -368,56 +350,35 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         currentBusiness: null
       };
       
+      // Escrituras que acompañan al registro (uso de la invitación)
+      let joinUpdates: Record<string, unknown> = {};
+      
       // Si es propietario, NO crear el negocio aún - se hará en BusinessSetup
       if (role === 'owner') {
         // Solo marcar que necesita configurar su negocio
         userData.businessId = null;
         userData.businessAccess = {};
         userData.currentBusiness = null;
-      } else if (role === 'assistant' && businessKey) {
-        // Si es asistente, buscar el negocio con la clave proporcionada
-        const businessesRef = ref(database, 'businesses');
-        const businessesSnapshot = await get(businessesRef);
+      } else if (role === 'assistant' && joinCode) {
+        // Si es asistente, buscar el negocio con el código de invitación o la clave
+        const join = await invitationService.resolveJoinCode(joinCode);
         
-        let businessFound = false;
-        let foundBusinessId = '';
-        let foundBusinessData: any = null;
-        
-        if (businessesSnapshot.exists()) {
-          const businesses = businessesSnapshot.val();
-          Object.keys(businesses).forEach(businessId => {
-            const business = businesses[businessId];
-            if (business.businessKey === businessKey.toUpperCase()) {
-              businessFound = true;
-              foundBusinessId = businessId;
-              foundBusinessData = business;
-            }
-          });
-        }
-        
-        if (!businessFound) {
-          throw new Error('No se pudo encontrar el negocio con la clave proporcionada');
+        if (!join) {
+          throw new Error('No se pudo encontrar el negocio con el código proporcionado');
         }
         
         // Configurar acceso al negocio para el asistente
         userData.businessAccess = {
-          [foundBusinessId]: {
-            businessId: foundBusinessId,
-            businessName: foundBusinessData.name,
-            businessKey: businessKey.toUpperCase(),
-            role: 'viewer' as const,
+          [join.businessId]: {
+            businessId: join.businessId,
+            businessName: join.businessName,
+            ...join.source,
+            role: join.role,
             addedAt: new Date().toISOString()
           }
         };
-        userData.currentBusiness = foundBusinessId;
-      } else if (role === 'admin') {
-        // Verificar que solo el email autorizado pueda crear cuenta de admin
-        if (email !== 'sauldisel4@gmail.com') {
-          throw new Error('No autorizado para crear cuenta de administrador');
-        }
-        // Los admins no tienen negocio asociado
-        userData.businessId = null;
-        userData.currentBusiness = null;
+        userData.currentBusiness = join.businessId;
+        joinUpdates = join.updates;
       }
       
       // Preparar el objeto de usuario para guardar en la base de datos
@@ -441,8 +402,20 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         }
       });
       
-      // Guardar datos del usuario en Realtime Database (solo una vez)
-      await set(ref(database, `users/${firebaseUser.uid}`), userToSave);
+      // Guardar datos del usuario en Realtime Database (solo una vez), junto con
+      // su entrada en el índice de miembros y el uso de la invitación
+      const updates: Record<string, unknown> = {
+        ...joinUpdates,
+        [userRepository.path(firebaseUser.uid)]: userToSave
+      };
+      if (role === 'assistant' && userToSave.currentBusiness) {
+        updates[memberRepository.path(userToSave.currentBusiness, firebaseUser.uid)] = {
+          displayName: userToSave.displayName,
+          email: userToSave.email,
+          joinedAt: userToSave.createdAt
+        };
+      }
+      await getDataStore().update('', updates);
       
       // Actualizar el estado local
       const updatedUser: User = {
@@ -463,6 +436,9 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const logout = async () => {
     try {
       await signOut(auth);
+      licenseService.stopLicenseMonitoring();
+      // Los datos de clientes no deben quedar en el dispositivo al salir
+      await getOfflineStore()?.clearCache();
       setCurrentUser(null);
       setCurrentBusiness(null);
       setBusinessAccess({});
@@ -476,16 +452,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const loadUserData = useCallback(async (firebaseUser: FirebaseUser) => {
     try {
       // Obtener datos del usuario desde Realtime Database
-      const userRef = ref(database, `users/${firebaseUser.uid}`);
-      const snapshot = await get(userRef);
+      const userData = await getOrCreateAdminProfile(firebaseUser);
       
-      if (snapshot.exists()) {
-        const userData = snapshot.val();
+      if (userData) {
         const user: User = {
           uid: firebaseUser.uid,
           email: firebaseUser.email!,
           displayName: userData.displayName || firebaseUser.displayName || '',
-          role: userData.role,
+          role: resolveRole(userData.role, await hasAdminClaim(firebaseUser)),
           businessId: userData.businessId,
           businessAccess: userData.businessAccess || {},
           currentBusiness: userData.currentBusiness,
@@ -501,7 +475,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           user.blockedReason = reason;
           
           // Actualizar en la base de datos
-          await update(userRef, {
+          await userRepository.update(firebaseUser.uid, {
             isBlocked: true,
             blockedReason: reason,
             updatedAt: new Date().toISOString()
@@ -513,6 +487,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         
         // Configurar listener de licencias en tiempo real
         setupLicenseListener(user);
+
+        // La revisión periódica de todas las licencias solo la ejecutan los administradores
+        if (user.role === 'admin') {
+          licenseService.startLicenseMonitoring();
+        }
         
         // Establecer el negocio actual
         if (userData.currentBusiness) {
@@ -523,7 +502,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           if (firstBusinessId) {
             setCurrentBusiness(firstBusinessId);
             // Actualizar en la base de datos
-            await update(ref(database, `users/${firebaseUser.uid}`), {
+            await userRepository.update(firebaseUser.uid, {
               currentBusiness: firstBusinessId
             });
           }
@@ -549,6 +528,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           licenseCleanup();
           setLicenseCleanup(null);
         }
+        licenseService.stopLicenseMonitoring();
         
         setCurrentUser(null);
         setCurrentBusiness(null);
@@ -568,6 +548,25 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     };
   }, [loadUserData, licenseCleanup]);
 
+  // Mantener los roles por negocio al día cuando el propietario los cambia
+  const currentUid = currentUser?.uid;
+  useEffect(() => {
+    if (!currentUid) return;
+
+    return getDataStore().subscribe<Record<string, BusinessAccess>>(
+      `${userRepository.path(currentUid)}/businessAccess`,
+      access => setBusinessAccess(access || {}),
+      error => console.error('Error listening to business access:', error)
+    );
+  }, [currentUid]);
+
+  // Si el propietario revocó el acceso al negocio actual, pasar a otro negocio disponible
+  const currentRole = currentUser?.role;
+  useEffect(() => {
+    if (currentRole !== 'assistant' || !currentBusiness || businessAccess[currentBusiness]) return;
+    setCurrentBusiness(Object.keys(businessAccess)[0] || null);
+  }, [currentRole, currentBusiness, businessAccess]);
+
   // Validar permisos para acceder a los expedientes
   const validateRecordAccess = async (businessId: string): Promise<boolean> => {
     if (!currentUser) {
@@ -582,6 +581,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     throw new Error('No tienes permiso para acceder a este recurso');
   };
 
+  // Autor de los cambios en expedientes para la bitácora de auditoría
+  const getAuditActor = (): AuditActor => {
+    if (!currentUser) {
+      throw new Error('Usuario no autenticado');
+    }
+    return { id: currentUser.uid, name: currentUser.displayName || currentUser.email };
+  };
+
   // Crear un nuevo expediente de cliente
   const createClientRecord = async (businessId: string, clientId: string, recordData: any): Promise<string> => {
     try {
@@ -594,17 +601,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
       
       // Verificar que el cliente existe
-      const clientRef = ref(database, `businesses/${businessId}/clients/${clientId}`);
-      const clientSnapshot = await get(clientRef);
+      const client = await clientRepository.get(businessId, clientId);
       
-      if (!clientSnapshot.exists()) {
+      if (!client) {
         throw new Error('El cliente no existe');
       }
       
       // Crear referencia al nuevo expediente usando la estructura unificada
-      const recordsRef = ref(database, `businesses/${businessId}/digitalRecords`);
-      const newRecordRef = push(recordsRef);
-      const recordId = newRecordRef.key;
+      const recordId = recordRepository.newId(businessId);
       
       if (!recordId) {
         throw new Error('No se pudo crear el ID del expediente');
@@ -628,7 +632,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       };
       
       // Guardar el expediente
-      await set(newRecordRef, newRecord);
+      await auditService.create(businessId, getAuditActor(), 'digitalRecord', recordRepository.path(businessId, recordId), newRecord);
       return recordId;
     } catch (error) {
       console.error('Error al crear el expediente:', error);
@@ -642,29 +646,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       // Validar acceso
       await validateRecordAccess(businessId);
       
-      const recordsRef = ref(database, `businesses/${businessId}/digitalRecords`);
-      const snapshot = await get(recordsRef);
-      
-      if (snapshot.exists()) {
-        const records: any[] = [];
-        snapshot.forEach((childSnapshot) => {
-          const recordData = childSnapshot.val();
-          // Filtrar solo los registros del cliente específico
-          if (recordData.clientId === clientId) {
-            records.push({
-              id: childSnapshot.key,
-              ...recordData
-            });
-          }
-        });
-        
-        // Ordenar por fecha de creación (más reciente primero)
-        return records.sort((a, b) => 
-          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-        );
-      }
+      // Filtrar solo los registros del cliente específico
+      const records = await recordRepository.findBy(businessId, 'clientId', clientId);
       
-      return [];
+      // Ordenar por fecha de creación (más reciente primero)
+      return records.sort((a, b) => 
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
     } catch (error) {
       console.error('Error al obtener los expedientes:', error);
       throw error;
@@ -681,28 +669,14 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         throw new Error('ID de expediente no proporcionado');
       }
       
-      // Buscar el registro directamente en la estructura unificada
-      const recordRef = ref(database, `businesses/${businessId}/digitalRecords/${recordId}`);
-      
       // Verificar que el expediente existe
-      const snapshot = await get(recordRef);
-      if (!snapshot.exists()) {
+      const record = await recordRepository.get(businessId, recordId);
+      if (!record) {
         throw new Error('El expediente no existe');
       }
       
-      // Preparar actualización
-      const updateData = {
-        ...updates,
-        updatedAt: new Date().toISOString()
-      };
-      
-      // No permitir modificar ciertos campos
-      delete updateData.id;
-      delete updateData.createdAt;
-      delete updateData.createdBy;
-      
-      // Actualizar el expediente
-      await update(recordRef, updateData);
+      // Actualizar el expediente conservando la versión anterior
+      await recordHistoryService.updateRecord(businessId, getAuditActor(), { ...record, id: recordId }, updates);
     } catch (error) {
       console.error('Error al actualizar el expediente:', error);
       throw error;
@@ -720,15 +694,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
       
       // Buscar el expediente directamente en la estructura unificada
-      const recordRef = ref(database, `businesses/${businessId}/digitalRecords/${recordId}`);
-      const recordSnapshot = await get(recordRef);
+      const recordData = await recordRepository.get(businessId, recordId);
       
-      if (!recordSnapshot.exists()) {
+      if (!recordData) {
         throw new Error('No se encontró el expediente para eliminar');
       }
       
+      if (recordData.signedAt) {
+        throw new Error('Un expediente firmado no se puede eliminar');
+      }
+      
       // Verificar permisos adicionales si es necesario
-      const recordData = recordSnapshot.val();
       if (recordData.createdBy && recordData.createdBy !== currentUser?.uid) {
         // Solo el creador o un administrador puede eliminar
         const isAdmin = currentUser?.role === 'owner' || 
@@ -740,7 +716,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       }
       
       // Eliminar el expediente
-      await set(recordRef, null);
+      await auditService.remove(businessId, getAuditActor(), 'digitalRecord', recordRepository.path(businessId, recordId), recordData);
     } catch (error) {
       console.error('Error al eliminar el expediente:', error);
       throw error;
@@ -749,6 +725,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const value: AuthContextType = {
     currentUser,
+    // El rol 'admin' solo se asigna a partir del custom claim (ver resolveRole)
+    isAdmin: currentUser?.role === 'admin',
     currentBusiness,
     businessAccess,
     licenseStatus,
@@ -759,7 +737,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       
       // Actualizar en la base de datos
       if (businessId) {
-        await update(ref(database, `users/${currentUser.uid}`), {
+        await userRepository.update(currentUser.uid, {
           currentBusiness: businessId
         });
       }
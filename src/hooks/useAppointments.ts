@@ -0,0 +1,89 @@
+import { useEffect, useMemo, useState } from 'react';
+import { appointmentRepository, seriesRepository } from '../storage';
+import type { Appointment, AppointmentSeries } from '../types';
+import { expandSeries } from '../utils/recurrence';
+import { isInDateWindow, type DateWindow } from '../utils/dateWindow';
+
+// Las series son pocas y se escuchan completas; sus ocurrencias se generan aquí
+const useSeriesOccurrences = (businessId: string | undefined, filter: (appointment: Appointment) => boolean) => {
+  const [series, setSeries] = useState<AppointmentSeries[] | null>(null);
+
+  useEffect(() => {
+    setSeries(null);
+    if (!businessId) return;
+    return seriesRepository.subscribe(businessId, setSeries);
+  }, [businessId]);
+
+  const occurrences = useMemo(() => (series || []).flatMap(expandSeries).filter(filter), [series, filter]);
+  return { occurrences, loaded: series !== null };
+};
+
+// Une las citas individuales con las ocurrencias; null = aún no llegan
+const useMergedAppointments = (
+  businessId: string | undefined,
+  single: Appointment[] | null,
+  filter: (appointment: Appointment) => boolean,
+  enabled: boolean
+) => {
+  const { occurrences, loaded } = useSeriesOccurrences(businessId, filter);
+  const appointments = useMemo(() => [...(single || []), ...occurrences], [single, occurrences]);
+  return {
+    appointments,
+    loading: Boolean(businessId) && enabled && (single === null || !loaded)
+  };
+};
+
+/**
+ * Citas (individuales y ocurrencias de series) dentro de la ventana de fechas.
+ * Solo se descargan las citas de esas fechas.
+ */
+export const useAppointments = (businessId: string | undefined, range: DateWindow | null) => {
+  const [single, setSingle] = useState<Appointment[] | null>(null);
+  const from = range?.from;
+  const to = range?.to;
+
+  useEffect(() => {
+    setSingle(null);
+    if (!businessId || !from || !to) return;
+    return appointmentRepository.subscribeByRange(businessId, 'date', from, to, setSingle);
+  }, [businessId, from, to]);
+
+  const filter = useMemo(
+    () => (appointment: Appointment) => Boolean(from && to && isInDateWindow(appointment.date, { from, to })),
+    [from, to]
+  );
+  return useMergedAppointments(businessId, single, filter, Boolean(from && to));
+};
+
+/**
+ * Historial de citas de un cliente
+ */
+export const useClientAppointments = (businessId: string | undefined, clientId: string | null | undefined) => {
+  const [single, setSingle] = useState<Appointment[] | null>(null);
+
+  useEffect(() => {
+    setSingle(null);
+    if (!businessId || !clientId) return;
+    return appointmentRepository.subscribeBy(businessId, 'clientId', clientId, setSingle);
+  }, [businessId, clientId]);
+
+  const filter = useMemo(() => (appointment: Appointment) => appointment.clientId === clientId, [clientId]);
+  return useMergedAppointments(businessId, single, filter, Boolean(clientId));
+};
+
+const isPending = (appointment: Appointment) => appointment.status === 'pending';
+
+/**
+ * Citas pendientes de confirmar, de cualquier fecha
+ */
+export const usePendingAppointments = (businessId: string | undefined) => {
+  const [single, setSingle] = useState<Appointment[] | null>(null);
+
+  useEffect(() => {
+    setSingle(null);
+    if (!businessId) return;
+    return appointmentRepository.subscribeBy(businessId, 'status', 'pending', setSingle);
+  }, [businessId]);
+
+  return useMergedAppointments(businessId, single, isPending, true);
+};
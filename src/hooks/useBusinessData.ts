@@ -1,15 +1,97 @@
 import { useState, useEffect } from 'react';
-import { ref, set, push, update, remove, onValue, off } from 'firebase/database';
-import { database } from '../config/firebase';
-import type { Business, Service, Client, Appointment, DigitalRecord } from '../types';
+import {
+  appointmentRepository,
+  BUSINESS_PROFILE_FIELDS,
+  businessRepository,
+  cashMovementRepository,
+  cashSessionRepository,
+  chargeRepository,
+  clientRepository,
+  getDataStore,
+  invoiceRepository,
+  paymentRepository,
+  providerRepository,
+  recordRepository,
+  seriesRepository,
+  serviceRepository,
+  waitlistRepository
+} from '../storage';
+import type { Business, Service, Client, ClientMergeEntry, Appointment, AppointmentCharge, AppointmentSeries, DigitalRecord, DigitalRecordVersion, CashMovement, CashSession, Invoice, Payment, PaymentMethod, Provider, SeriesEditScope, SeriesException, WaitlistEntry } from '../types';
 import { realTimeLicenseService } from '../utils/realTimeLicenseService';
+import { expandSeries, getDayShift, shiftDate, splitSeries } from '../utils/recurrence';
+import { checkSlotAvailability } from '../utils/availabilityEngine';
+import { getWaitlistMatches, isFutureSlot, isSlotFreed } from '../utils/waitlist';
+import type { WaitlistSlot } from '../utils/waitlist';
+import { notificationService } from '../utils/notificationService';
+import type { AppointmentImport } from '../utils/calendarImport';
+import { normalizePhone } from '../utils/phone';
+import { auditService, toFieldUpdates, type AuditActor, type AuditChange } from '../utils/auditService';
+import { recordHistoryService } from '../utils/recordHistoryService';
+import { formatMoney, getChargeBalance, getChargeTotal, getPaidAmount, type CheckoutInput, type PaymentInput } from '../utils/payments';
+import { toDateKey } from '../utils/dateWindow';
+import { buildReconciliation, getExpectedAmounts } from '../utils/cashRegister';
+import { buildCfdiXml, buildInvoiceConcepts, formatCfdiDate, getInvoiceTotals, validateBusinessFiscalData, validateClientFiscalData } from '../utils/cfdi';
+import { getNextFolio } from '../utils/invoices';
+import { getInvoiceStamper } from '../utils/invoiceStamping';
+import { useAuth } from '../contexts/AuthContext';
+
+// Firebase no acepta valores undefined en escrituras
+const withoutUndefined = <T extends object>(data: T): T => {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as T;
+};
+
+// Campos de una cita que se pueden sobrescribir en una ocurrencia
+const toSeriesException = (updates: Partial<Appointment>): SeriesException => {
+  return withoutUndefined({
+    date: updates.date,
+    startTime: updates.startTime,
+    endTime: updates.endTime,
+    status: updates.status,
+    notes: updates.notes,
+    resourceIndex: updates.resourceIndex,
+    providerId: updates.providerId,
+    updatedAt: new Date().toISOString()
+  });
+};
+
+// Campos de una cita que se aplican a la serie completa
+const toSeriesFields = (updates: Partial<Appointment>): Partial<AppointmentSeries> => {
+  return withoutUndefined({
+    clientId: updates.clientId,
+    serviceId: updates.serviceId,
+    startTime: updates.startTime,
+    endTime: updates.endTime,
+    status: updates.status,
+    notes: updates.notes,
+    resourceIndex: updates.resourceIndex,
+    providerId: updates.providerId
+  });
+};
+
+// Recursos reasignados a ocurrencias concretas al mover varias citas de una serie
+const withResourceIndexes = (exceptions: Record<string, SeriesException>, resourceIndexes: Record<string, number>) => {
+  const merged = { ...exceptions };
+  Object.entries(resourceIndexes).forEach(([date, resourceIndex]) => {
+    merged[date] = { ...merged[date], resourceIndex };
+  });
+  return merged;
+};
+
+const shiftExceptionKeys = (exceptions: Record<string, SeriesException>, days: number) => {
+  if (days === 0) return exceptions;
+  return Object.fromEntries(
+    Object.entries(exceptions).map(([date, exception]) => [shiftDate(date, days), exception])
+  );
+};
 
 export const useBusinessData = (businessId: string | undefined) => {
+  const { currentUser } = useAuth();
   const [business, setBusiness] = useState<Business | null>(null);
   const [services, setServices] = useState<Service[]>([]);
   const [clients, setClients] = useState<Client[]>([]);
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
-  const [digitalRecords, setDigitalRecords] = useState<DigitalRecord[]>([]);
+  const [appointmentSeries, setAppointmentSeries] = useState<AppointmentSeries[]>([]);
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -34,93 +116,58 @@ export const useBusinessData = (businessId: string | undefined) => {
     }
   };
 
+  // Autor de los cambios que se registran en la bitácora de auditoría
+  const getActor = (): AuditActor => {
+    if (!currentUser) {
+      throw new Error('Usuario no autenticado');
+    }
+    return { id: currentUser.uid, name: currentUser.displayName || currentUser.email };
+  };
+
   useEffect(() => {
     if (!businessId) {
       setLoading(false);
       return;
     }
 
-    const businessRef = ref(database, `businesses/${businessId}`);
-    const servicesRef = ref(database, `businesses/${businessId}/services`);
-    const clientsRef = ref(database, `businesses/${businessId}/clients`);
-    const appointmentsRef = ref(database, `businesses/${businessId}/appointments`);
-    const digitalRecordsRef = ref(database, `businesses/${businessId}/digitalRecords`);
-
-    // Set up real-time listeners
-    const unsubscribeBusiness = onValue(businessRef, (snapshot) => {
-      if (snapshot.exists()) {
-        setBusiness({ id: businessId, ...snapshot.val() });
-      }
-    });
-
-    const unsubscribeServices = onValue(servicesRef, (snapshot) => {
-      if (snapshot.exists()) {
-        const servicesData = snapshot.val();
-        const servicesList = Object.keys(servicesData).map(key => ({
-          id: key,
-          ...servicesData[key]
-        }));
-        setServices(servicesList);
-      } else {
-        setServices([]);
-      }
-    });
-
-    const unsubscribeClients = onValue(clientsRef, (snapshot) => {
-      if (snapshot.exists()) {
-        const clientsData = snapshot.val();
-        const clientsList = Object.keys(clientsData).map(key => ({
-          id: key,
-          ...clientsData[key]
-        }));
-        setClients(clientsList);
-      } else {
-        setClients([]);
-      }
-    });
-
-    const unsubscribeAppointments = onValue(appointmentsRef, (snapshot) => {
-      if (snapshot.exists()) {
-        const appointmentsData = snapshot.val();
-        const appointmentsList = Object.keys(appointmentsData).map(key => ({
-          id: key,
-          ...appointmentsData[key]
-        }));
-        setAppointments(appointmentsList);
-      } else {
-        setAppointments([]);
-      }
-    });
+    // Las citas y los expedientes no se escuchan aquí: cada vista carga solo
+    // su rango de fechas o su cliente (useAppointments, useDigitalRecords)
+    const pending = new Set(['business', 'services', 'clients']);
+    const markLoaded = (key: string) => {
+      pending.delete(key);
+      if (pending.size === 0) setLoading(false);
+    };
 
-    const unsubscribeDigitalRecords = onValue(digitalRecordsRef, (snapshot) => {
-      if (snapshot.exists()) {
-        const recordsData = snapshot.val();
-        const recordsList = Object.keys(recordsData).map(key => ({
-          id: key,
-          ...recordsData[key]
-        }));
-        setDigitalRecords(recordsList);
-      } else {
-        setDigitalRecords([]);
-      }
-      setLoading(false);
-    });
+    setLoading(true);
+    const unsubscribers = [
+      businessRepository.subscribeFields(businessId, BUSINESS_PROFILE_FIELDS, (data) => {
+        if (data) {
+          setBusiness({ id: businessId, ...data });
+        }
+        markLoaded('business');
+      }),
+      serviceRepository.subscribe(businessId, (items) => {
+        setServices(items);
+        markLoaded('services');
+      }),
+      clientRepository.subscribe(businessId, (items) => {
+        setClients(items);
+        markLoaded('clients');
+      }),
+      seriesRepository.subscribe(businessId, setAppointmentSeries),
+      providerRepository.subscribe(businessId, setProviders),
+      waitlistRepository.subscribe(businessId, setWaitlist)
+    ];
 
     return () => {
-      off(businessRef, 'value', unsubscribeBusiness);
-      off(servicesRef, 'value', unsubscribeServices);
-      off(clientsRef, 'value', unsubscribeClients);
-      off(appointmentsRef, 'value', unsubscribeAppointments);
-      off(digitalRecordsRef, 'value', unsubscribeDigitalRecords);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
     };
   }, [businessId]);
 
-
   const updateBusiness = async (updates: Partial<Business>) => {
     if (!businessId) return;
     try {
-      const businessRef = ref(database, `businesses/${businessId}`);
-      await update(businessRef, updates);
+      await auditService.update(businessId, getActor(), 'business', businessRepository.path(businessId), business, updates);
     } catch (error) {
       setError('Error updating business');
       throw error;
@@ -137,10 +184,9 @@ export const useBusinessData = (businessId: string | undefined) => {
     }
     
     try {
-      const servicesRef = ref(database, `businesses/${businessId}/services`);
-      const newServiceRef = push(servicesRef);
-      await set(newServiceRef, service);
-      return newServiceRef.key;
+      const serviceId = serviceRepository.newId(businessId);
+      await auditService.create(businessId, getActor(), 'service', serviceRepository.path(businessId, serviceId), service);
+      return serviceId;
     } catch (error) {
       setError('Error al agregar servicio');
       throw error;
@@ -157,8 +203,8 @@ export const useBusinessData = (businessId: string | undefined) => {
     }
     
     try {
-      const serviceRef = ref(database, `businesses/${businessId}/services/${serviceId}`);
-      await update(serviceRef, updates);
+      const previous = services.find(s => s.id === serviceId);
+      await auditService.update(businessId, getActor(), 'service', serviceRepository.path(businessId, serviceId), previous, updates);
     } catch (error) {
       setError('Error al actualizar servicio');
       throw error;
@@ -175,8 +221,8 @@ export const useBusinessData = (businessId: string | undefined) => {
     }
     
     try {
-      const serviceRef = ref(database, `businesses/${businessId}/services/${serviceId}`);
-      await remove(serviceRef);
+      const previous = services.find(s => s.id === serviceId);
+      await auditService.remove(businessId, getActor(), 'service', serviceRepository.path(businessId, serviceId), previous);
     } catch (error) {
       setError('Error al eliminar servicio');
       throw error;
@@ -193,21 +239,49 @@ export const useBusinessData = (businessId: string | undefined) => {
     }
     
     try {
-      const clientsRef = ref(database, `businesses/${businessId}/clients`);
-      const newClientRef = push(clientsRef);
-      await set(newClientRef, { ...client, businessId });
-      return newClientRef.key;
+      const clientId = clientRepository.newId(businessId);
+      await auditService.create(businessId, getActor(), 'client', clientRepository.path(businessId, clientId), { ...client, businessId });
+      return clientId;
     } catch (error) {
       setError('Error adding client');
       throw error;
     }
   };
 
+  // Crea varios clientes en una sola escritura
+  const importClients = async (newClients: Omit<Client, 'id' | 'businessId'>[]) => {
+    if (!businessId || newClients.length === 0) return 0;
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se pueden importar los clientes. Verifique el estado de su licencia.');
+    }
+    
+    try {
+      const clientsPath = `businesses/${businessId}/clients`;
+      const updates: Record<string, unknown> = {};
+      const changes: AuditChange[] = [];
+      newClients.forEach(client => {
+        const clientId = getDataStore().newKey(clientsPath);
+        const data = withoutUndefined({ ...client, businessId });
+        updates[`${clientsPath}/${clientId}`] = data;
+        changes.push({ action: 'create', entityType: 'client', entityPath: `${clientsPath}/${clientId}`, after: data, summary: 'Importación de clientes' });
+      });
+      
+      await auditService.commit(businessId, getActor(), updates, changes);
+      return newClients.length;
+    } catch (error) {
+      setError('Error al importar los clientes');
+      throw error;
+    }
+  };
+
   const updateClient = async (clientId: string, updates: Partial<Client>) => {
     if (!businessId) return;
     try {
-      const clientRef = ref(database, `businesses/${businessId}/clients/${clientId}`);
-      await update(clientRef, updates);
+      const previous = clients.find(c => c.id === clientId);
+      await auditService.update(businessId, getActor(), 'client', clientRepository.path(businessId, clientId), previous, updates);
     } catch (error) {
       setError('Error al actualizar cliente');
       throw error;
@@ -217,14 +291,143 @@ export const useBusinessData = (businessId: string | undefined) => {
   const deleteClient = async (clientId: string) => {
     if (!businessId) return;
     try {
-      const clientRef = ref(database, `businesses/${businessId}/clients/${clientId}`);
-      await remove(clientRef);
+      const previous = clients.find(c => c.id === clientId);
+      await auditService.remove(businessId, getActor(), 'client', clientRepository.path(businessId, clientId), previous);
     } catch (error) {
       setError('Error al eliminar cliente');
       throw error;
     }
   };
 
+  // Fusiona dos clientes: conserva el sobreviviente con los datos elegidos,
+  // apunta al sobreviviente las citas, series, expedientes, lista de espera, cuentas,
+  // pagos y facturas del cliente fusionado y guarda un registro de la fusión, todo en una sola escritura
+  const mergeClients = async (survivorId: string, mergedClientId: string, mergedData: Client, mergedBy: string) => {
+    if (!businessId || survivorId === mergedClientId) return;
+    
+    const survivor = clients.find(c => c.id === survivorId);
+    const mergedClient = clients.find(c => c.id === mergedClientId);
+    if (!survivor || !mergedClient) {
+      throw new Error('No se encontraron los clientes a fusionar');
+    }
+    
+    const basePath = `businesses/${businessId}`;
+    const [mergedAppointments, mergedRecords, mergedCharges, mergedPayments, mergedInvoices] = await Promise.all([
+      appointmentRepository.findBy(businessId, 'clientId', mergedClientId),
+      recordRepository.findBy(businessId, 'clientId', mergedClientId),
+      chargeRepository.findBy(businessId, 'clientId', mergedClientId),
+      paymentRepository.findBy(businessId, 'clientId', mergedClientId),
+      invoiceRepository.findBy(businessId, 'clientId', mergedClientId)
+    ]);
+    const appointmentIds = mergedAppointments.map(a => a.id);
+    const seriesIds = appointmentSeries.filter(s => s.clientId === mergedClientId).map(s => s.id);
+    const digitalRecordIds = mergedRecords.map(r => r.id);
+    const waitlistEntryIds = waitlist.filter(w => w.clientId === mergedClientId).map(w => w.id);
+    const chargeIds = mergedCharges.map(c => c.id);
+    const paymentIds = mergedPayments.map(p => p.id);
+    const invoiceIds = mergedInvoices.map(i => i.id);
+    const timestamp = new Date().toISOString();
+    
+    const survivorData = withoutUndefined({
+      ...mergedData,
+      id: undefined,
+      businessId,
+      updatedAt: timestamp
+    });
+    const updates: Record<string, unknown> = {
+      [`${basePath}/clients/${survivorId}`]: survivorData,
+      [`${basePath}/clients/${mergedClientId}`]: null
+    };
+    appointmentIds.forEach(id => { updates[`${basePath}/appointments/${id}/clientId`] = survivorId; });
+    seriesIds.forEach(id => { updates[`${basePath}/appointmentSeries/${id}/clientId`] = survivorId; });
+    digitalRecordIds.forEach(id => { updates[`${basePath}/digitalRecords/${id}/clientId`] = survivorId; });
+    waitlistEntryIds.forEach(id => { updates[`${basePath}/waitlist/${id}/clientId`] = survivorId; });
+    chargeIds.forEach(id => { updates[`${basePath}/charges/${id}/clientId`] = survivorId; });
+    paymentIds.forEach(id => { updates[`${basePath}/payments/${id}/clientId`] = survivorId; });
+    invoiceIds.forEach(id => { updates[`${basePath}/invoices/${id}/clientId`] = survivorId; });
+    
+    const mergePath = `${basePath}/clientMerges`;
+    const mergeId = getDataStore().newKey(mergePath);
+    const entry: Omit<ClientMergeEntry, 'id'> = {
+      survivorId,
+      mergedClientId,
+      mergedClient: withoutUndefined(mergedClient),
+      previousSurvivor: withoutUndefined(survivor),
+      appointmentIds,
+      seriesIds,
+      digitalRecordIds,
+      waitlistEntryIds,
+      chargeIds,
+      paymentIds,
+      invoiceIds,
+      mergedBy,
+      businessId,
+      createdAt: timestamp
+    };
+    updates[`${mergePath}/${mergeId}`] = entry;
+    
+    const summary = `Fusión de ${mergedClient.name} en ${survivor.name}`;
+    const changes: AuditChange[] = [
+      { action: 'update', entityType: 'client', entityPath: `${basePath}/clients/${survivorId}`, before: survivor, after: survivorData, summary },
+      { action: 'delete', entityType: 'client', entityPath: `${basePath}/clients/${mergedClientId}`, before: mergedClient, summary }
+    ];
+    
+    try {
+      await auditService.commit(businessId, getActor(), updates, changes);
+    } catch (error) {
+      setError('Error al fusionar los clientes');
+      throw error;
+    }
+  };
+
+  const addProvider = async (provider: Omit<Provider, 'id'>) => {
+    if (!businessId) return;
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se puede agregar el profesional. Verifique el estado de su licencia.');
+    }
+    
+    try {
+      const providerId = providerRepository.newId(businessId);
+      await auditService.create(businessId, getActor(), 'provider', providerRepository.path(businessId, providerId), withoutUndefined({ ...provider, businessId }));
+      return providerId;
+    } catch (error) {
+      setError('Error al agregar profesional');
+      throw error;
+    }
+  };
+
+  const updateProvider = async (providerId: string, updates: Partial<Provider>) => {
+    if (!businessId) return;
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se puede actualizar el profesional. Verifique el estado de su licencia.');
+    }
+    
+    try {
+      const previous = providers.find(p => p.id === providerId);
+      await auditService.update(businessId, getActor(), 'provider', providerRepository.path(businessId, providerId), previous, withoutUndefined(updates));
+    } catch (error) {
+      setError('Error al actualizar profesional');
+      throw error;
+    }
+  };
+
+  const deleteProvider = async (providerId: string) => {
+    if (!businessId) return;
+    try {
+      const previous = providers.find(p => p.id === providerId);
+      await auditService.remove(businessId, getActor(), 'provider', providerRepository.path(businessId, providerId), previous);
+    } catch (error) {
+      setError('Error al eliminar profesional');
+      throw error;
+    }
+  };
+
   const addAppointment = async (appointment: Omit<Appointment, 'id'>) => {
     if (!businessId) return;
     
@@ -235,38 +438,453 @@ export const useBusinessData = (businessId: string | undefined) => {
     }
     
     try {
-      const appointmentsRef = ref(database, `businesses/${businessId}/appointments`);
-      const newAppointmentRef = push(appointmentsRef);
-      await set(newAppointmentRef, { ...appointment, businessId });
-      return newAppointmentRef.key;
+      const appointmentId = appointmentRepository.newId(businessId);
+      await auditService.create(businessId, getActor(), 'appointment', appointmentRepository.path(businessId, appointmentId), { ...appointment, businessId });
+      return appointmentId;
     } catch (error) {
       setError('Error adding appointment');
       throw error;
     }
   };
 
+  // Escribe en un solo lote las citas importadas y los clientes nuevos que requieren
+  const importAppointments = async (imports: AppointmentImport[]) => {
+    if (!businessId || imports.length === 0) return 0;
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se pueden importar las citas. Verifique el estado de su licencia.');
+    }
+    
+    const clientsPath = `businesses/${businessId}/clients`;
+    const appointmentsPath = `businesses/${businessId}/appointments`;
+    const updates: Record<string, unknown> = {};
+    const changes: AuditChange[] = [];
+    const newClientIds = new Map<string, string>();
+    let importedCount = 0;
+    
+    imports.forEach(item => {
+      let clientId = item.clientId;
+      
+      if (!clientId && item.newClient) {
+        // Un mismo cliente nuevo puede aparecer en varias citas del archivo
+        const clientKey = normalizePhone(item.newClient.phone) || item.newClient.name.trim().toLowerCase();
+        clientId = newClientIds.get(clientKey);
+        if (!clientId) {
+          clientId = getDataStore().newKey(clientsPath);
+          newClientIds.set(clientKey, clientId);
+          const client = withoutUndefined({ ...item.newClient, businessId });
+          updates[`${clientsPath}/${clientId}`] = client;
+          changes.push({ action: 'create', entityType: 'client', entityPath: `${clientsPath}/${clientId}`, after: client, summary: 'Importación de calendario' });
+        }
+      }
+      
+      if (!clientId) return;
+      
+      const appointmentId = getDataStore().newKey(appointmentsPath);
+      const appointment = withoutUndefined({ ...item.appointment, clientId, businessId });
+      updates[`${appointmentsPath}/${appointmentId}`] = appointment;
+      changes.push({ action: 'create', entityType: 'appointment', entityPath: `${appointmentsPath}/${appointmentId}`, after: appointment, summary: 'Importación de calendario' });
+      importedCount++;
+    });
+    
+    try {
+      await auditService.commit(businessId, getActor(), updates, changes);
+      return importedCount;
+    } catch (error) {
+      setError('Error al importar las citas');
+      throw error;
+    }
+  };
+
   const updateAppointment = async (appointmentId: string, updates: Partial<Appointment>) => {
     if (!businessId) return;
+    const previous = await findAppointment(appointmentId);
     try {
-      const appointmentRef = ref(database, `businesses/${businessId}/appointments/${appointmentId}`);
-      await update(appointmentRef, updates);
+      await auditService.update(businessId, getActor(), 'appointment', appointmentRepository.path(businessId, appointmentId), previous, updates);
     } catch (error) {
       setError('Error updating appointment');
       throw error;
     }
+
+    if (previous && isSlotFreed(previous.status, updates.status)) {
+      await offerFreedSlot({ ...previous, ...updates });
+    }
+  };
+
+  const findAppointment = async (appointmentId: string): Promise<Appointment | undefined> => {
+    if (!businessId) return undefined;
+    const appointment = await appointmentRepository.get(businessId, appointmentId);
+    return appointment ? { id: appointmentId, ...appointment } : undefined;
+  };
+
+  // Sugiere el horario liberado a los primeros clientes de la lista de espera
+  const offerFreedSlot = async (appointment: Appointment) => {
+    if (!businessId || !business) return;
+    if (!isFutureSlot(appointment.date, appointment.startTime)) return;
+
+    const slot: WaitlistSlot = {
+      serviceId: appointment.serviceId,
+      date: appointment.date,
+      startTime: appointment.startTime,
+      endTime: appointment.endTime
+    };
+    const matches = getWaitlistMatches(waitlist, slot);
+    if (matches.length === 0) return;
+
+    try {
+      const offeredAt = new Date().toISOString();
+      const updates: Record<string, unknown> = {};
+      const changes: AuditChange[] = [];
+      matches.forEach(entry => {
+        const offer = {
+          date: slot.date,
+          startTime: slot.startTime,
+          endTime: slot.endTime,
+          offeredAt
+        };
+        updates[`businesses/${businessId}/waitlist/${entry.id}/offer`] = offer;
+        updates[`businesses/${businessId}/waitlist/${entry.id}/updatedAt`] = offeredAt;
+        changes.push({
+          action: 'update',
+          entityType: 'waitlist',
+          entityPath: waitlistRepository.path(businessId, entry.id),
+          before: entry,
+          after: { ...entry, offer },
+          summary: 'Horario liberado ofrecido'
+        });
+      });
+      await auditService.commit(businessId, getActor(), updates, changes);
+
+      const service = services.find(s => s.id === slot.serviceId);
+      const clientNames = matches.map(entry => clients.find(c => c.id === entry.clientId)?.name || 'Cliente');
+      await notificationService.notifyWaitlistMatch(
+        businessId,
+        business.ownerId,
+        service?.name || 'Servicio',
+        slot.date,
+        slot.startTime,
+        clientNames,
+        matches.map(entry => entry.id)
+      );
+    } catch (error) {
+      // La cita ya se actualizó; un fallo aquí no debe revertirla
+      console.error('Error offering freed slot to waitlist:', error);
+    }
   };
 
   const deleteAppointment = async (appointmentId: string) => {
     if (!businessId) return;
     try {
-      const appointmentRef = ref(database, `businesses/${businessId}/appointments/${appointmentId}`);
-      await remove(appointmentRef);
+      const previous = await findAppointment(appointmentId);
+      await auditService.remove(businessId, getActor(), 'appointment', appointmentRepository.path(businessId, appointmentId), previous);
     } catch (error) {
       setError('Error deleting appointment');
       throw error;
     }
   };
 
+  const addAppointmentSeries = async (series: Omit<AppointmentSeries, 'id'>) => {
+    if (!businessId) return;
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se puede crear la serie de citas. Verifique el estado de su licencia.');
+    }
+    
+    try {
+      const seriesId = seriesRepository.newId(businessId);
+      await auditService.create(businessId, getActor(), 'appointmentSeries', seriesRepository.path(businessId, seriesId), withoutUndefined({ ...series, businessId }));
+      return seriesId;
+    } catch (error) {
+      setError('Error adding appointment series');
+      throw error;
+    }
+  };
+
+  // Actualiza una ocurrencia de una serie: solo esta, esta y las siguientes, o toda la serie
+  const updateSeriesOccurrence = async (
+    seriesId: string,
+    occurrenceDate: string,
+    updates: Partial<Appointment>,
+    scope: SeriesEditScope,
+    resourceIndexes: Record<string, number> = {}
+  ) => {
+    if (!businessId) return;
+    
+    const series = appointmentSeries.find(s => s.id === seriesId);
+    if (!series) {
+      throw new Error('No se encontró la serie de citas');
+    }
+    
+    try {
+      const seriesPath = `businesses/${businessId}/appointmentSeries/${seriesId}`;
+      const timestamp = new Date().toISOString();
+      const split = splitSeries(series, occurrenceDate);
+      
+      if (scope === 'this') {
+        const exception = toSeriesException(updates);
+        await auditService.commit(businessId, getActor(), toFieldUpdates(`${seriesPath}/exceptions/${occurrenceDate}`, exception), [{
+          action: 'update',
+          entityType: 'appointmentSeries',
+          entityPath: seriesPath,
+          before: series,
+          after: {
+            ...series,
+            exceptions: { ...series.exceptions, [occurrenceDate]: { ...series.exceptions?.[occurrenceDate], ...exception } }
+          },
+          summary: `Ocurrencia del ${occurrenceDate}`
+        }]);
+        
+        const occurrence = expandSeries(series).find(apt => apt.occurrenceDate === occurrenceDate);
+        if (occurrence && isSlotFreed(occurrence.status, updates.status)) {
+          await offerFreedSlot({ ...occurrence, ...updates });
+        }
+        return;
+      }
+      
+      const shift = updates.date ? getDayShift(occurrenceDate, updates.date) : 0;
+      
+      if (scope === 'all' || split.isFirstOccurrence) {
+        const exceptions = { ...(series.exceptions || {}) };
+        delete exceptions[occurrenceDate];
+        
+        await auditService.update(businessId, getActor(), 'appointmentSeries', seriesPath, series, {
+          ...toSeriesFields(updates),
+          startDate: shiftDate(series.startDate, shift),
+          rule: withoutUndefined({
+            ...series.rule,
+            until: series.rule.until ? shiftDate(series.rule.until, shift) : undefined
+          }),
+          exceptions: shiftExceptionKeys(withResourceIndexes(exceptions, resourceIndexes), shift),
+          updatedAt: timestamp
+        });
+        return;
+      }
+      
+      // Esta y las siguientes: se corta la serie original y se crea una nueva
+      const newSeriesId = seriesRepository.newId(businessId);
+      const tailExceptions = { ...split.tailExceptions };
+      delete tailExceptions[occurrenceDate];
+      
+      const seriesData: Partial<AppointmentSeries> = { ...series };
+      delete seriesData.id;
+      const newSeries = withoutUndefined({
+        ...seriesData,
+        ...toSeriesFields(updates),
+        startDate: shiftDate(occurrenceDate, shift),
+        rule: withoutUndefined({
+          ...split.tailRule,
+          until: split.tailRule.until ? shiftDate(split.tailRule.until, shift) : undefined
+        }),
+        exceptions: shiftExceptionKeys(withResourceIndexes(tailExceptions, resourceIndexes), shift),
+        createdAt: timestamp,
+        updatedAt: timestamp
+      });
+      
+      await auditService.commit(businessId, getActor(), {
+        [`${seriesPath}/rule`]: split.headRule,
+        [`${seriesPath}/exceptions`]: split.headExceptions,
+        [`${seriesPath}/updatedAt`]: timestamp,
+        [seriesRepository.path(businessId, newSeriesId)]: newSeries
+      }, [
+        {
+          action: 'update',
+          entityType: 'appointmentSeries',
+          entityPath: seriesPath,
+          before: series,
+          after: { ...series, rule: split.headRule, exceptions: split.headExceptions },
+          summary: `Serie dividida el ${occurrenceDate}`
+        },
+        {
+          action: 'create',
+          entityType: 'appointmentSeries',
+          entityPath: seriesRepository.path(businessId, newSeriesId),
+          after: newSeries,
+          summary: `Serie dividida el ${occurrenceDate}`
+        }
+      ]);
+    } catch (error) {
+      setError('Error updating appointment series');
+      throw error;
+    }
+  };
+
+  // Elimina una ocurrencia de una serie: solo esta, esta y las siguientes, o toda la serie
+  const deleteSeriesOccurrence = async (seriesId: string, occurrenceDate: string, scope: SeriesEditScope) => {
+    if (!businessId) return;
+    
+    const series = appointmentSeries.find(s => s.id === seriesId);
+    if (!series) {
+      throw new Error('No se encontró la serie de citas');
+    }
+    
+    try {
+      const seriesPath = `businesses/${businessId}/appointmentSeries/${seriesId}`;
+      const split = splitSeries(series, occurrenceDate);
+      
+      if (scope === 'this') {
+        const exception = { cancelled: true, updatedAt: new Date().toISOString() };
+        await auditService.commit(businessId, getActor(), { [`${seriesPath}/exceptions/${occurrenceDate}`]: exception }, [{
+          action: 'update',
+          entityType: 'appointmentSeries',
+          entityPath: seriesPath,
+          before: series,
+          after: { ...series, exceptions: { ...series.exceptions, [occurrenceDate]: exception } },
+          summary: `Ocurrencia del ${occurrenceDate} cancelada`
+        }]);
+        return;
+      }
+      
+      if (scope === 'all' || split.isFirstOccurrence) {
+        await auditService.remove(businessId, getActor(), 'appointmentSeries', seriesPath, series);
+        return;
+      }
+      
+      await auditService.update(businessId, getActor(), 'appointmentSeries', seriesPath, series, {
+        rule: split.headRule,
+        exceptions: split.headExceptions,
+        updatedAt: new Date().toISOString()
+      });
+    } catch (error) {
+      setError('Error deleting appointment series');
+      throw error;
+    }
+  };
+
+  const addWaitlistEntry = async (entry: Omit<WaitlistEntry, 'id'>) => {
+    if (!businessId) return;
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se puede agregar a la lista de espera. Verifique el estado de su licencia.');
+    }
+    
+    try {
+      const entryId = waitlistRepository.newId(businessId);
+      await auditService.create(businessId, getActor(), 'waitlist', waitlistRepository.path(businessId, entryId), withoutUndefined({ ...entry, businessId }));
+      return entryId;
+    } catch (error) {
+      setError('Error al agregar a la lista de espera');
+      throw error;
+    }
+  };
+
+  const updateWaitlistEntry = async (entryId: string, updates: Partial<WaitlistEntry>) => {
+    if (!businessId) return;
+    try {
+      const previous = waitlist.find(e => e.id === entryId);
+      await auditService.update(
+        businessId,
+        getActor(),
+        'waitlist',
+        waitlistRepository.path(businessId, entryId),
+        previous,
+        withoutUndefined({ ...updates, updatedAt: new Date().toISOString() })
+      );
+    } catch (error) {
+      setError('Error al actualizar la lista de espera');
+      throw error;
+    }
+  };
+
+  const deleteWaitlistEntry = async (entryId: string) => {
+    if (!businessId) return;
+    try {
+      const previous = waitlist.find(e => e.id === entryId);
+      await auditService.remove(businessId, getActor(), 'waitlist', waitlistRepository.path(businessId, entryId), previous);
+    } catch (error) {
+      setError('Error al eliminar de la lista de espera');
+      throw error;
+    }
+  };
+
+  // Convierte una entrada de la lista de espera en una cita en el horario indicado
+  const bookWaitlistEntry = async (entryId: string, slot: WaitlistSlot, createdBy: string) => {
+    if (!businessId) return;
+    
+    const entry = waitlist.find(e => e.id === entryId);
+    const service = services.find(s => s.id === slot.serviceId);
+    if (!entry || !service) {
+      throw new Error('No se encontró la entrada de la lista de espera');
+    }
+    
+    // Solo importan las citas del día del horario
+    const dayAppointments = [
+      ...await appointmentRepository.findBy(businessId, 'date', slot.date),
+      ...appointmentSeries.flatMap(expandSeries).filter(apt => apt.date === slot.date)
+    ];
+    const availability = checkSlotAvailability({
+      business,
+      service,
+      appointments: dayAppointments,
+      date: slot.date,
+      startTime: slot.startTime,
+      endTime: slot.endTime
+    });
+    if (!availability.isAvailable) {
+      throw new Error(availability.reason || 'El horario ya no está disponible');
+    }
+    
+    const timestamp = new Date().toISOString();
+    const appointmentId = await addAppointment({
+      clientId: entry.clientId,
+      serviceId: entry.serviceId,
+      date: slot.date,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      status: 'confirmed',
+      notes: entry.notes || '',
+      resourceIndex: availability.resourceIndex ?? 0,
+      providerId: null,
+      createdBy,
+      businessId,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    });
+    if (!appointmentId) return;
+    
+    // Las demás sugerencias del mismo horario dejan de estar vigentes
+    const updates: Record<string, unknown> = {
+      [`businesses/${businessId}/waitlist/${entryId}/status`]: 'booked',
+      [`businesses/${businessId}/waitlist/${entryId}/appointmentId`]: appointmentId,
+      [`businesses/${businessId}/waitlist/${entryId}/offer`]: null,
+      [`businesses/${businessId}/waitlist/${entryId}/updatedAt`]: timestamp
+    };
+    const changes: AuditChange[] = [{
+      action: 'update',
+      entityType: 'waitlist',
+      entityPath: waitlistRepository.path(businessId, entryId),
+      before: entry,
+      after: { ...entry, status: 'booked', appointmentId, offer: undefined }
+    }];
+    waitlist
+      .filter(other => other.id !== entryId && other.offer?.date === slot.date && other.offer.startTime === slot.startTime)
+      .forEach(other => {
+        updates[`businesses/${businessId}/waitlist/${other.id}/offer`] = null;
+        changes.push({
+          action: 'update',
+          entityType: 'waitlist',
+          entityPath: waitlistRepository.path(businessId, other.id),
+          before: other,
+          after: { ...other, offer: undefined },
+          summary: 'Horario asignado a otra entrada'
+        });
+      });
+    
+    try {
+      await auditService.commit(businessId, getActor(), updates, changes);
+    } catch (error) {
+      setError('Error al actualizar la lista de espera');
+      throw error;
+    }
+    
+    return appointmentId;
+  };
+
   const addDigitalRecord = async (record: Omit<DigitalRecord, 'id' | 'createdAt' | 'updatedAt'>) => {
     if (!businessId) {
       throw new Error('No se ha seleccionado un negocio');
@@ -286,17 +904,16 @@ export const useBusinessData = (businessId: string | undefined) => {
         updatedAt: timestamp
       };
       
-      const recordsRef = ref(database, `businesses/${businessId}/digitalRecords`);
-      const newRecordRef = push(recordsRef);
+      const recordId = recordRepository.newId(businessId);
       
-      if (!newRecordRef.key) {
+      if (!recordId) {
         throw new Error('No se pudo generar una clave para el registro');
       }
       
-      await set(newRecordRef, recordWithTimestamps);
+      await auditService.create(businessId, getActor(), 'digitalRecord', recordRepository.path(businessId, recordId), recordWithTimestamps);
       
       return {
-        id: newRecordRef.key,
+        id: recordId,
         ...recordWithTimestamps
       };
     } catch (error) {
@@ -310,45 +927,555 @@ export const useBusinessData = (businessId: string | undefined) => {
       throw new Error('No se ha seleccionado un negocio');
     }
     
+    const record = await findDigitalRecord(recordId);
     try {
-      const recordRef = ref(database, `businesses/${businessId}/digitalRecords/${recordId}`);
-      const updateData = {
-        ...updates,
-        updatedAt: new Date().toISOString()
-      };
-      
-      // No permitir modificar ciertos campos
-      delete updateData.id;
-      delete updateData.createdAt;
-      delete updateData.createdBy;
-      
-      await update(recordRef, updateData);
+      // La versión anterior se conserva en el historial
+      await recordHistoryService.updateRecord(businessId, getActor(), record, updates);
     } catch (error) {
       setError('Error updating digital record');
       throw error;
     }
   };
 
+  const findDigitalRecord = async (recordId: string): Promise<DigitalRecord> => {
+    const record = businessId ? await recordRepository.get(businessId, recordId) : null;
+    if (!record) {
+      throw new Error('No se encontró el expediente');
+    }
+    return { id: recordId, ...record };
+  };
+
+  const restoreDigitalRecordVersion = async (recordId: string, version: DigitalRecordVersion) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    
+    try {
+      await recordHistoryService.restoreVersion(businessId, getActor(), await findDigitalRecord(recordId), version);
+    } catch (error) {
+      setError('Error al restaurar la versión del expediente');
+      throw error;
+    }
+  };
+
+  const signDigitalRecord = async (recordId: string) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    
+    try {
+      await recordHistoryService.signRecord(businessId, getActor(), await findDigitalRecord(recordId));
+    } catch (error) {
+      setError('Error al firmar el expediente');
+      throw error;
+    }
+  };
+
+  const addDigitalRecordAddendum = async (recordId: string, text: string) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    
+    try {
+      await recordHistoryService.addAddendum(businessId, getActor(), await findDigitalRecord(recordId), text);
+    } catch (error) {
+      setError('Error al agregar la adenda');
+      throw error;
+    }
+  };
+
   const deleteDigitalRecord = async (recordId: string) => {
     if (!businessId) {
       throw new Error('No se ha seleccionado un negocio');
     }
     
+    const previous = await findDigitalRecord(recordId);
+    if (previous.signedAt) {
+      throw new Error('Un expediente firmado no se puede eliminar');
+    }
+    
     try {
-      const recordRef = ref(database, `businesses/${businessId}/digitalRecords/${recordId}`);
-      await remove(recordRef);
+      await auditService.remove(businessId, getActor(), 'digitalRecord', recordRepository.path(businessId, recordId), previous);
     } catch (error) {
       setError('Error deleting digital record');
       throw error;
     }
   };
 
+  // Caja abierta del usuario actual; los pagos que recibe se asignan a ella
+  const findOpenCashSession = async (): Promise<CashSession | null> => {
+    if (!businessId || !currentUser) return null;
+    const sessions = await cashSessionRepository.findBy(businessId, 'openedBy', currentUser.uid);
+    return sessions.find(session => session.status === 'open') || null;
+  };
+
+  // Factura en la que aparece la cita, si ya se facturó
+  const findInvoiceFor = async (clientId: string, appointmentId: string): Promise<Invoice | null> => {
+    if (!businessId) return null;
+    const invoices = await invoiceRepository.findBy(businessId, 'clientId', clientId);
+    return invoices.find(invoice => invoice.appointmentIds.includes(appointmentId)) || null;
+  };
+
+  // Escrituras y entrada de bitácora de un pago nuevo, de una cita o suelto con concepto
+  const buildPayment = (
+    target: Pick<Payment, 'appointmentId' | 'clientId' | 'concept'>,
+    input: PaymentInput,
+    timestamp: string,
+    sessionId?: string
+  ) => {
+    if (!businessId || !currentUser) {
+      throw new Error('Usuario no autenticado');
+    }
+    const paymentId = paymentRepository.newId(businessId);
+    const path = paymentRepository.path(businessId, paymentId);
+    const payment: Omit<Payment, 'id'> = withoutUndefined({
+      appointmentId: target.appointmentId,
+      clientId: target.clientId,
+      concept: target.concept,
+      amount: input.amount,
+      method: input.method,
+      date: toDateKey(new Date(timestamp)),
+      sessionId,
+      receivedBy: currentUser.uid,
+      businessId,
+      createdAt: timestamp
+    });
+    const change: AuditChange = { action: 'create', entityType: 'payment', entityPath: path, after: payment };
+    return { updates: { [path]: payment }, change };
+  };
+
+  // Crea o corrige la cuenta de una cita completada y registra el pago recibido, si lo hay
+  const checkoutAppointment = async (appointment: Appointment, checkout: CheckoutInput) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se puede registrar el cobro. Verifique el estado de su licencia.');
+    }
+    
+    if (checkout.price < 0 || checkout.discount < 0 || checkout.tip < 0) {
+      throw new Error('Los importes no pueden ser negativos');
+    }
+    if (checkout.discount > checkout.price) {
+      throw new Error('El descuento no puede ser mayor que el precio');
+    }
+    
+    const timestamp = new Date().toISOString();
+    const path = chargeRepository.path(businessId, appointment.id);
+    const [previous, payments, session, invoice] = await Promise.all([
+      chargeRepository.get(businessId, appointment.id),
+      paymentRepository.findBy(businessId, 'appointmentId', appointment.id),
+      findOpenCashSession(),
+      findInvoiceFor(appointment.clientId, appointment.id)
+    ]);
+    if (invoice) {
+      throw new Error(`La cita ya está en la factura ${invoice.series}-${invoice.folio}; su cuenta no se puede modificar`);
+    }
+    // Un total menor que lo ya pagado dejaría un saldo a favor sin registrar
+    const total = getChargeTotal(checkout.price, checkout.discount, checkout.tip);
+    const paid = getPaidAmount(payments, appointment.id);
+    if (total < paid) {
+      throw new Error(`El total no puede ser menor que lo ya pagado (${formatMoney(paid)})`);
+    }
+    const charge: Omit<AppointmentCharge, 'id'> = withoutUndefined({
+      appointmentId: appointment.id,
+      clientId: appointment.clientId,
+      serviceId: appointment.serviceId,
+      date: appointment.date,
+      price: checkout.price,
+      discount: checkout.discount,
+      tip: checkout.tip,
+      total,
+      notes: checkout.notes?.trim() || undefined,
+      invoiceId: previous?.invoiceId,
+      createdBy: previous?.createdBy || currentUser?.uid || '',
+      businessId,
+      createdAt: previous?.createdAt || timestamp,
+      updatedAt: timestamp
+    });
+    
+    const updates: Record<string, unknown> = { [path]: charge };
+    const changes: AuditChange[] = [previous
+      ? { action: 'update', entityType: 'charge', entityPath: path, before: previous, after: charge }
+      : { action: 'create', entityType: 'charge', entityPath: path, after: charge }];
+    
+    if (checkout.payment && checkout.payment.amount > 0) {
+      const balance = getChargeBalance(charge, payments);
+      if (checkout.payment.amount > balance) {
+        throw new Error('El pago excede el saldo pendiente de la cuenta');
+      }
+      const payment = buildPayment(charge, checkout.payment, timestamp, session?.id);
+      Object.assign(updates, payment.updates);
+      changes.push(payment.change);
+    }
+    
+    try {
+      await auditService.commit(businessId, getActor(), updates, changes);
+    } catch (error) {
+      setError('Error al registrar el cobro');
+      throw error;
+    }
+  };
+
+  // Abono a una cuenta con saldo pendiente
+  const addPayment = async (charge: AppointmentCharge, input: PaymentInput) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se puede registrar el pago. Verifique el estado de su licencia.');
+    }
+    
+    const [payments, session] = await Promise.all([
+      paymentRepository.findBy(businessId, 'appointmentId', charge.appointmentId),
+      findOpenCashSession()
+    ]);
+    if (input.amount <= 0 || input.amount > getChargeBalance(charge, payments)) {
+      throw new Error('El importe debe ser mayor a cero y no exceder el saldo pendiente');
+    }
+    
+    try {
+      const payment = buildPayment(charge, input, new Date().toISOString(), session?.id);
+      await auditService.commit(businessId, getActor(), payment.updates, [payment.change]);
+    } catch (error) {
+      setError('Error al registrar el pago');
+      throw error;
+    }
+  };
+
+  // Cancela un pago capturado por error; solo administradores y gerentes
+  const deletePayment = async (payment: Payment) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    
+    // Un corte cerrado ya cuadró ese pago
+    if (payment.sessionId) {
+      const session = await cashSessionRepository.get(businessId, payment.sessionId);
+      if (session?.status === 'closed') {
+        throw new Error('El pago pertenece a una caja ya cerrada');
+      }
+    }
+    if (payment.appointmentId && payment.clientId && await findInvoiceFor(payment.clientId, payment.appointmentId)) {
+      throw new Error('El pago es de una cita ya facturada');
+    }
+    
+    try {
+      const { id, ...previous } = payment;
+      await auditService.remove(businessId, getActor(), 'payment', paymentRepository.path(businessId, id), previous);
+    } catch (error) {
+      setError('Error al eliminar el pago');
+      throw error;
+    }
+  };
+
+  // Abre la caja del usuario con el fondo inicial en efectivo
+  const openCashSession = async (openingFloat: number) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se puede abrir la caja. Verifique el estado de su licencia.');
+    }
+    
+    if (openingFloat < 0) {
+      throw new Error('El fondo inicial no puede ser negativo');
+    }
+    if (await findOpenCashSession()) {
+      throw new Error('Ya tienes una caja abierta');
+    }
+    
+    const actor = getActor();
+    const timestamp = new Date().toISOString();
+    const sessionId = cashSessionRepository.newId(businessId);
+    const session: Omit<CashSession, 'id'> = {
+      businessId,
+      date: toDateKey(new Date(timestamp)),
+      status: 'open',
+      openingFloat,
+      openedBy: actor.id,
+      openedByName: actor.name,
+      openedAt: timestamp
+    };
+    
+    try {
+      await auditService.create(businessId, actor, 'cashSession', cashSessionRepository.path(businessId, sessionId), session);
+      return sessionId;
+    } catch (error) {
+      setError('Error al abrir la caja');
+      throw error;
+    }
+  };
+
+  // Entrada o salida manual de efectivo en una caja abierta
+  const addCashMovement = async (session: CashSession, movement: Pick<CashMovement, 'type' | 'amount' | 'reason'>) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    if (session.status !== 'open') {
+      throw new Error('La caja ya está cerrada');
+    }
+    if (movement.amount <= 0 || !movement.reason.trim()) {
+      throw new Error('Indica un importe mayor a cero y el motivo');
+    }
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se puede registrar el movimiento. Verifique el estado de su licencia.');
+    }
+    
+    const actor = getActor();
+    const movementId = cashMovementRepository.newId(businessId);
+    const data: Omit<CashMovement, 'id'> = {
+      sessionId: session.id,
+      type: movement.type,
+      amount: movement.amount,
+      reason: movement.reason.trim(),
+      createdBy: actor.id,
+      createdByName: actor.name,
+      businessId,
+      createdAt: new Date().toISOString()
+    };
+    
+    try {
+      await auditService.create(businessId, actor, 'cashMovement', cashMovementRepository.path(businessId, movementId), data);
+    } catch (error) {
+      setError('Error al registrar el movimiento');
+      throw error;
+    }
+  };
+
+  // Cobro en caja sin cita (venta de producto, anticipo...)
+  const addStandalonePayment = async (
+    session: CashSession,
+    payment: PaymentInput & { concept: string; clientId?: string }
+  ) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    if (session.status !== 'open') {
+      throw new Error('La caja ya está cerrada');
+    }
+    if (payment.amount <= 0 || !payment.concept.trim()) {
+      throw new Error('Indica un importe mayor a cero y el concepto');
+    }
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se puede registrar el pago. Verifique el estado de su licencia.');
+    }
+    
+    try {
+      const built = buildPayment(
+        { concept: payment.concept.trim(), clientId: payment.clientId || undefined },
+        payment,
+        new Date().toISOString(),
+        session.id
+      );
+      await auditService.commit(businessId, getActor(), built.updates, [built.change]);
+    } catch (error) {
+      setError('Error al registrar el pago');
+      throw error;
+    }
+  };
+
+  // Cierra la caja con lo contado; lo esperado se calcula con los pagos y movimientos guardados
+  const closeCashSession = async (session: CashSession, counted: Record<PaymentMethod, number>, notes?: string) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    if (session.status !== 'open') {
+      throw new Error('La caja ya está cerrada');
+    }
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se puede cerrar la caja. Verifique el estado de su licencia.');
+    }
+    
+    const [payments, movements] = await Promise.all([
+      paymentRepository.findBy(businessId, 'sessionId', session.id),
+      cashMovementRepository.findBy(businessId, 'sessionId', session.id)
+    ]);
+    const actor = getActor();
+    const reconciliation = buildReconciliation(getExpectedAmounts(session.openingFloat, payments, movements), counted, notes);
+    const { id, ...previous } = session;
+    
+    try {
+      await auditService.update(businessId, actor, 'cashSession', cashSessionRepository.path(businessId, id), previous, {
+        status: 'closed',
+        closedBy: actor.id,
+        closedByName: actor.name,
+        closedAt: new Date().toISOString(),
+        reconciliation
+      });
+      return reconciliation;
+    } catch (error) {
+      setError('Error al cerrar la caja');
+      throw error;
+    }
+  };
+
+  // Factura sin timbrar de citas pagadas de un cliente
+  const createInvoice = async (client: Client, charges: AppointmentCharge[], paymentForm: string) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    const fiscal = business?.fiscal;
+    if (!fiscal || validateBusinessFiscalData(fiscal)) {
+      throw new Error('Completa los datos fiscales del negocio en Configuración');
+    }
+    if (!client.fiscal) {
+      throw new Error('El cliente no tiene datos fiscales');
+    }
+    const receiverError = validateClientFiscalData(client.fiscal);
+    if (receiverError) {
+      throw new Error(receiverError);
+    }
+    if (charges.length === 0 || charges.some(charge => charge.clientId !== client.id)) {
+      throw new Error('Selecciona al menos una cita del cliente');
+    }
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se puede emitir la factura. Verifique el estado de su licencia.');
+    }
+    
+    const [invoices, payments] = await Promise.all([
+      invoiceRepository.list(businessId),
+      paymentRepository.findBy(businessId, 'clientId', client.id)
+    ]);
+    const invoiced = charges.find(charge => invoices.some(invoice => invoice.appointmentIds.includes(charge.appointmentId)));
+    if (invoiced) {
+      throw new Error(`La cita del ${invoiced.date} ya está facturada`);
+    }
+    if (charges.some(charge => getChargeBalance(charge, payments) > 0)) {
+      throw new Error('Solo se facturan citas pagadas por completo');
+    }
+    
+    const concepts = buildInvoiceConcepts(charges, services, fiscal);
+    const timestamp = new Date();
+    const invoiceData = {
+      series: fiscal.series,
+      folio: getNextFolio(invoices, fiscal.series),
+      clientId: client.id,
+      appointmentIds: charges.map(charge => charge.appointmentId),
+      issuedAt: formatCfdiDate(timestamp),
+      paymentForm,
+      issuer: { rfc: fiscal.rfc, legalName: fiscal.legalName, taxRegime: fiscal.taxRegime, postalCode: fiscal.postalCode },
+      receiver: client.fiscal,
+      taxTreatment: fiscal.taxTreatment,
+      concepts,
+      ...getInvoiceTotals(concepts)
+    };
+    const invoice: Omit<Invoice, 'id'> = {
+      ...invoiceData,
+      xml: buildCfdiXml({ ...invoiceData, certificateNumber: fiscal.certificateNumber }),
+      status: 'draft',
+      createdBy: currentUser?.uid || '',
+      businessId,
+      createdAt: timestamp.toISOString()
+    };
+    
+    try {
+      // Cada cuenta apunta a su factura: las reglas la protegen una vez timbrada
+      const invoiceId = invoiceRepository.newId(businessId);
+      const path = invoiceRepository.path(businessId, invoiceId);
+      const updates: Record<string, unknown> = { [path]: invoice };
+      charges.forEach(charge => {
+        updates[`${chargeRepository.path(businessId, charge.appointmentId)}/invoiceId`] = invoiceId;
+      });
+      await auditService.commit(businessId, getActor(), updates, [{ action: 'create', entityType: 'invoice', entityPath: path, after: invoice }]);
+      return invoiceId;
+    } catch (error) {
+      setError('Error al emitir la factura');
+      throw error;
+    }
+  };
+
+  // Envía la factura al PAC. La fecha se renueva porque el SAT solo timbra
+  // comprobantes de las últimas 72 horas.
+  const stampInvoice = async (invoice: Invoice) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    if (invoice.status !== 'draft') {
+      throw new Error('La factura ya está timbrada');
+    }
+    const fiscal = business?.fiscal;
+    if (!fiscal || validateBusinessFiscalData(fiscal)) {
+      throw new Error('Completa los datos fiscales del negocio en Configuración');
+    }
+    
+    // Verificar licencia antes de la acción
+    const canProceed = await checkLicenseBeforeAction();
+    if (!canProceed) {
+      throw new Error('No se puede timbrar la factura. Verifique el estado de su licencia.');
+    }
+    
+    const { id, ...previous } = invoice;
+    const issuedAt = formatCfdiDate(new Date());
+    const stamper = getInvoiceStamper();
+    
+    try {
+      const result = await stamper.stamp(buildCfdiXml({ ...previous, issuedAt, certificateNumber: fiscal.certificateNumber }));
+      await auditService.update(businessId, getActor(), 'invoice', invoiceRepository.path(businessId, id), previous, {
+        issuedAt,
+        xml: result.xml,
+        status: 'stamped',
+        uuid: result.uuid,
+        stampedAt: result.stampedAt,
+        stampProvider: stamper.provider
+      });
+    } catch (error) {
+      setError('Error al timbrar la factura');
+      throw error;
+    }
+  };
+
+  // Solo se descartan facturas sin timbrar; una timbrada se cancela ante el SAT
+  const deleteInvoice = async (invoice: Invoice) => {
+    if (!businessId) {
+      throw new Error('No se ha seleccionado un negocio');
+    }
+    if (invoice.status !== 'draft') {
+      throw new Error('Una factura timbrada no se puede eliminar');
+    }
+    
+    try {
+      const { id, ...previous } = invoice;
+      const path = invoiceRepository.path(businessId, id);
+      const updates: Record<string, unknown> = { [path]: null };
+      invoice.appointmentIds.forEach(appointmentId => {
+        updates[`${chargeRepository.path(businessId, appointmentId)}/invoiceId`] = null;
+      });
+      await auditService.commit(businessId, getActor(), updates, [{ action: 'delete', entityType: 'invoice', entityPath: path, before: previous }]);
+    } catch (error) {
+      setError('Error al eliminar la factura');
+      throw error;
+    }
+  };
+
   return {
     business,
     services,
     clients,
-    appointments,
-    digitalRecords,
+    appointmentSeries,
+    providers,
+    waitlist,
     loading,
     error,
     updateBusiness,
@@ -356,13 +1483,39 @@ export const useBusinessData = (businessId: string | undefined) => {
     updateService,
     deleteService,
     addClient,
+    importClients,
     updateClient,
     deleteClient,
+    mergeClients,
+    addProvider,
+    updateProvider,
+    deleteProvider,
     addAppointment,
     updateAppointment,
     deleteAppointment,
+    importAppointments,
+    addAppointmentSeries,
+    updateSeriesOccurrence,
+    deleteSeriesOccurrence,
+    addWaitlistEntry,
+    updateWaitlistEntry,
+    deleteWaitlistEntry,
+    bookWaitlistEntry,
     addDigitalRecord,
     updateDigitalRecord,
-    deleteDigitalRecord
+    restoreDigitalRecordVersion,
+    signDigitalRecord,
+    addDigitalRecordAddendum,
+    deleteDigitalRecord,
+    checkoutAppointment,
+    addPayment,
+    deletePayment,
+    openCashSession,
+    addCashMovement,
+    addStandalonePayment,
+    closeCashSession,
+    createInvoice,
+    stampInvoice,
+    deleteInvoice
   };
 };
@@ -0,0 +1,82 @@
+import { useEffect, useMemo, useState } from 'react';
+import { cashMovementRepository, cashSessionRepository, paymentRepository } from '../storage';
+import type { CashMovement, CashSession, Payment } from '../types';
+import type { DateWindow } from '../utils/dateWindow';
+import { getExpectedAmounts } from '../utils/cashRegister';
+
+/**
+ * Cajas abiertas por el usuario; normalmente una sola
+ */
+export const useOpenCashSession = (businessId: string | undefined, userId: string | undefined) => {
+  const [sessions, setSessions] = useState<CashSession[] | null>(null);
+
+  useEffect(() => {
+    setSessions(null);
+    if (!businessId || !userId) return;
+    return cashSessionRepository.subscribeBy(businessId, 'openedBy', userId, setSessions);
+  }, [businessId, userId]);
+
+  return {
+    session: (sessions || []).find(session => session.status === 'open') || null,
+    loading: Boolean(businessId && userId) && sessions === null
+  };
+};
+
+/**
+ * Pagos y movimientos de una caja con lo que se espera encontrar al contarla
+ */
+export const useCashSessionDetail = (businessId: string | undefined, session: CashSession | null) => {
+  const [payments, setPayments] = useState<Payment[] | null>(null);
+  const [movements, setMovements] = useState<CashMovement[] | null>(null);
+  const sessionId = session?.id;
+
+  useEffect(() => {
+    setPayments(null);
+    if (!businessId || !sessionId) return;
+    return paymentRepository.subscribeBy(businessId, 'sessionId', sessionId, setPayments);
+  }, [businessId, sessionId]);
+
+  useEffect(() => {
+    setMovements(null);
+    if (!businessId || !sessionId) return;
+    return cashMovementRepository.subscribeBy(businessId, 'sessionId', sessionId, setMovements);
+  }, [businessId, sessionId]);
+
+  const openingFloat = session?.openingFloat || 0;
+  const expected = useMemo(
+    () => getExpectedAmounts(openingFloat, payments || [], movements || []),
+    [openingFloat, payments, movements]
+  );
+
+  return {
+    payments: payments || [],
+    movements: movements || [],
+    expected,
+    loading: Boolean(businessId && sessionId) && (payments === null || movements === null)
+  };
+};
+
+/**
+ * Cajas abiertas en los días de la ventana, de todos los usuarios
+ */
+export const useCashSessions = (businessId: string | undefined, range: DateWindow | null) => {
+  const [sessions, setSessions] = useState<CashSession[] | null>(null);
+  const from = range?.from;
+  const to = range?.to;
+
+  useEffect(() => {
+    setSessions(null);
+    if (!businessId || !from || !to) return;
+    return cashSessionRepository.subscribeByRange(businessId, 'date', from, to, setSessions);
+  }, [businessId, from, to]);
+
+  const sorted = useMemo(
+    () => [...(sessions || [])].sort((a, b) => b.openedAt.localeCompare(a.openedAt)),
+    [sessions]
+  );
+
+  return {
+    sessions: sorted,
+    loading: Boolean(businessId && from && to) && sessions === null
+  };
+};
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react';
+import { recordRepository } from '../storage';
+import type { DigitalRecord } from '../types';
+import type { DateWindow } from '../utils/dateWindow';
+
+/**
+ * Expedientes de un cliente; no descarga nada si no se indica el cliente
+ */
+export const useClientRecords = (businessId: string | undefined, clientId: string | null | undefined) => {
+  const [records, setRecords] = useState<DigitalRecord[] | null>(null);
+
+  useEffect(() => {
+    setRecords(null);
+    if (!businessId || !clientId) return;
+    return recordRepository.subscribeBy(businessId, 'clientId', clientId, setRecords);
+  }, [businessId, clientId]);
+
+  return {
+    records: records || [],
+    loading: Boolean(businessId && clientId) && records === null
+  };
+};
+
+/**
+ * Expedientes con fecha dentro de la ventana indicada
+ */
+export const useRecentRecords = (businessId: string | undefined, range: DateWindow | null) => {
+  const [records, setRecords] = useState<DigitalRecord[] | null>(null);
+  const from = range?.from;
+  const to = range?.to;
+
+  useEffect(() => {
+    setRecords(null);
+    if (!businessId || !from || !to) return;
+    return recordRepository.subscribeByRange(businessId, 'date', from, to, setRecords);
+  }, [businessId, from, to]);
+
+  return {
+    records: records || [],
+    loading: Boolean(businessId && from && to) && records === null
+  };
+};
@@ -0,0 +1,26 @@
+import { useEffect, useMemo, useState } from 'react';
+import { invoiceRepository } from '../storage';
+import type { Invoice } from '../types';
+
+/**
+ * Facturas de un cliente, de la más reciente a la más antigua
+ */
+export const useClientInvoices = (businessId: string | undefined, clientId: string | null | undefined) => {
+  const [invoices, setInvoices] = useState<Invoice[] | null>(null);
+
+  useEffect(() => {
+    setInvoices(null);
+    if (!businessId || !clientId) return;
+    return invoiceRepository.subscribeBy(businessId, 'clientId', clientId, setInvoices);
+  }, [businessId, clientId]);
+
+  const sorted = useMemo(
+    () => [...(invoices || [])].sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    [invoices]
+  );
+
+  return {
+    invoices: sorted,
+    loading: Boolean(businessId && clientId) && invoices === null
+  };
+};
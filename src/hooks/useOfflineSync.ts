@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+import { getOfflineStore, type OfflineStatus, type SyncConflictResolution } from '../storage';
+
+const ALWAYS_ONLINE: OfflineStatus = { online: true, syncing: false, pending: [], conflicts: [] };
+
+/**
+ * Estado de la conexión y de los cambios hechos sin conexión
+ */
+export const useOfflineSync = () => {
+  const store = getOfflineStore();
+  const [status, setStatus] = useState<OfflineStatus>(() => store?.getStatus() || ALWAYS_ONLINE);
+
+  useEffect(() => {
+    if (!store) return;
+    return store.onStatusChange(setStatus);
+  }, [store]);
+
+  const sync = async () => {
+    await store?.sync();
+  };
+
+  const resolveConflict = async (id: string, resolution: SyncConflictResolution) => {
+    await store?.resolveConflict(id, resolution);
+  };
+
+  return {
+    ...status,
+    sync,
+    resolveConflict
+  };
+};
@@ -0,0 +1,98 @@
+import { useEffect, useMemo, useState } from 'react';
+import { chargeRepository, paymentRepository } from '../storage';
+import type { AppointmentCharge, Payment } from '../types';
+import { isInDateWindow, type DateWindow } from '../utils/dateWindow';
+import { getClientBalance, summarizeRevenue } from '../utils/payments';
+
+// Fecha posterior a cualquier pago, para consultar "desde" una fecha
+const OPEN_END = '9999-12-31';
+
+/**
+ * Cuentas y pagos de un cliente con su saldo pendiente
+ */
+export const useClientBilling = (businessId: string | undefined, clientId: string | null | undefined) => {
+  const [charges, setCharges] = useState<AppointmentCharge[] | null>(null);
+  const [payments, setPayments] = useState<Payment[] | null>(null);
+
+  useEffect(() => {
+    setCharges(null);
+    if (!businessId || !clientId) return;
+    return chargeRepository.subscribeBy(businessId, 'clientId', clientId, setCharges);
+  }, [businessId, clientId]);
+
+  useEffect(() => {
+    setPayments(null);
+    if (!businessId || !clientId) return;
+    return paymentRepository.subscribeBy(businessId, 'clientId', clientId, setPayments);
+  }, [businessId, clientId]);
+
+  const balance = useMemo(() => getClientBalance(charges || [], payments || []), [charges, payments]);
+
+  return {
+    charges: charges || [],
+    payments: payments || [],
+    balance,
+    loading: Boolean(businessId && clientId) && (charges === null || payments === null)
+  };
+};
+
+/**
+ * Cuenta de una cita (null si aún no se cobra) y sus pagos
+ */
+export const useAppointmentBilling = (businessId: string | undefined, appointmentId: string | null | undefined) => {
+  const [charge, setCharge] = useState<AppointmentCharge | null | undefined>(undefined);
+  const [payments, setPayments] = useState<Payment[] | null>(null);
+
+  useEffect(() => {
+    setCharge(undefined);
+    if (!businessId || !appointmentId) return;
+    return chargeRepository.subscribeBy(businessId, 'appointmentId', appointmentId, items => setCharge(items[0] || null));
+  }, [businessId, appointmentId]);
+
+  useEffect(() => {
+    setPayments(null);
+    if (!businessId || !appointmentId) return;
+    return paymentRepository.subscribeBy(businessId, 'appointmentId', appointmentId, setPayments);
+  }, [businessId, appointmentId]);
+
+  return {
+    charge: charge || null,
+    payments: payments || [],
+    loading: Boolean(businessId && appointmentId) && (charge === undefined || payments === null)
+  };
+};
+
+/**
+ * Ingresos del periodo: cuentas de las citas con fecha en la ventana y pagos
+ * recibidos en ella. Los pagos posteriores se incluyen para calcular el saldo pendiente.
+ */
+export const useRevenue = (businessId: string | undefined, range: DateWindow | null) => {
+  const [charges, setCharges] = useState<AppointmentCharge[] | null>(null);
+  const [payments, setPayments] = useState<Payment[] | null>(null);
+  const from = range?.from;
+  const to = range?.to;
+
+  useEffect(() => {
+    setCharges(null);
+    if (!businessId || !from || !to) return;
+    return chargeRepository.subscribeByRange(businessId, 'date', from, to, setCharges);
+  }, [businessId, from, to]);
+
+  useEffect(() => {
+    setPayments(null);
+    if (!businessId || !from) return;
+    return paymentRepository.subscribeByRange(businessId, 'date', from, OPEN_END, setPayments);
+  }, [businessId, from]);
+
+  const summary = useMemo(() => {
+    const all = payments || [];
+    const periodPayments = from && to ? all.filter(payment => isInDateWindow(payment.date, { from, to })) : [];
+    return summarizeRevenue(charges || [], periodPayments, all);
+  }, [charges, payments, from, to]);
+
+  return {
+    charges: charges || [],
+    summary,
+    loading: Boolean(businessId && from && to) && (charges === null || payments === null)
+  };
+};
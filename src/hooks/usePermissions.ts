@@ -1,48 +1,84 @@
 import { useAuth } from '../contexts/AuthContext';
+import type { BusinessRole } from '../types';
+
+// Rol efectivo en el negocio actual: el propietario o el rol de su BusinessAccess
+export type ResolvedBusinessRole = 'owner' | BusinessRole;
+
+export const BUSINESS_ROLE_LABELS: Record<ResolvedBusinessRole, string> = {
+  owner: 'Propietario',
+  admin: 'Administrador',
+  editor: 'Editor',
+  viewer: 'Visualizador'
+};
 
 export const usePermissions = () => {
-  const { currentUser } = useAuth();
+  const { currentUser, currentBusiness, businessAccess, isAdmin } = useAuth();
+
+  // Los permisos replican los de database.rules.json para el negocio actual
+  const businessRole: ResolvedBusinessRole | null = currentUser?.role === 'owner'
+    ? 'owner'
+    : (currentBusiness && businessAccess[currentBusiness]?.role) || null;
+  const isOwner = businessRole === 'owner';
+  const isManager = isOwner || businessRole === 'admin';
+  const isStaff = isManager || businessRole === 'editor';
 
   // Permisos para diferentes acciones según el rol
   const permissions = {
     // Servicios
-    canCreateService: currentUser?.role === 'owner',
-    canEditService: currentUser?.role === 'owner',
-    canDeleteService: currentUser?.role === 'owner',
+    canCreateService: isManager,
+    canEditService: isManager,
+    canDeleteService: isManager,
     canViewService: true, // Todos pueden ver servicios
 
     // Clientes
-    canCreateClient: currentUser?.role === 'owner' || currentUser?.role === 'assistant',
-    canEditClient: currentUser?.role === 'owner' || currentUser?.role === 'assistant',
-    canDeleteClient: currentUser?.role === 'owner',
+    canCreateClient: isStaff,
+    canEditClient: isStaff,
+    canDeleteClient: isManager,
     canViewClient: true, // Todos pueden ver clientes
 
     // Citas
-    canCreateAppointment: currentUser?.role === 'owner' || currentUser?.role === 'assistant',
-    canEditAppointment: currentUser?.role === 'owner' || currentUser?.role === 'assistant',
-    canDeleteAppointment: currentUser?.role === 'owner' || currentUser?.role === 'assistant',
+    canCreateAppointment: isStaff,
+    canEditAppointment: isStaff,
+    canDeleteAppointment: isStaff,
     canViewAppointment: true, // Todos pueden ver citas
 
-    // Expedientes - Solo para owners
-    canCreateRecord: currentUser?.role === 'owner',
-    canEditRecord: currentUser?.role === 'owner',
-    canDeleteRecord: currentUser?.role === 'owner',
-    canViewRecord: currentUser?.role === 'owner', // Solo owners pueden ver expedientes
+    // Profesionales
+    canManageStaff: isManager,
+    canViewStaff: true, // Todos pueden ver profesionales
+
+    // Equipo (accesos al negocio)
+    canManageTeam: isOwner,
+
+    // Bitácora de auditoría
+    canViewAuditLog: isOwner,
+
+    // Expedientes - propietario y administradores del negocio
+    canCreateRecord: isManager,
+    canEditRecord: isManager,
+    canDeleteRecord: isManager,
+    canViewRecord: isManager,
+
+    // Caja: el personal abre la suya; administradores ven y cierran las de todos
+    canOperateCashRegister: isStaff,
+    canManageCashRegister: isManager,
+
+    // Facturación: el emisor responde ante el SAT por lo que se timbra
+    canIssueInvoices: isManager,
 
     // Reportes
     canViewReports: true, // Todos pueden ver reportes
-    canExportReports: currentUser?.role === 'owner',
+    canExportReports: isManager,
 
     // Configuración del negocio
-    canEditBusiness: currentUser?.role === 'owner',
-    canViewBusinessKey: currentUser?.role === 'owner',
+    canEditBusiness: isOwner,
+    canViewBusinessKey: isOwner,
 
     // Notificaciones
     canViewNotifications: true, // Todos pueden ver notificaciones
-    canDeleteNotifications: currentUser?.role === 'owner' || currentUser?.role === 'assistant',
+    canDeleteNotifications: isStaff,
 
     // Administración
-    canAccessAdminPanel: currentUser?.role === 'admin',
+    canAccessAdminPanel: isAdmin,
   };
 
   // Función helper para verificar si el usuario puede realizar una acción
@@ -52,27 +88,47 @@ export const usePermissions = () => {
 
   // Función para obtener el mensaje de restricción
   const getRestrictionMessage = (action: keyof typeof permissions): string => {
-    if (currentUser?.role === 'assistant') {
+    if (businessRole === 'editor' || businessRole === 'viewer') {
       switch (action) {
         case 'canCreateService':
         case 'canEditService':
         case 'canDeleteService':
-          return 'Solo el propietario puede gestionar servicios. Tienes acceso de solo lectura.';
+          return 'Solo el propietario o un administrador del negocio puede gestionar servicios. Tienes acceso de solo lectura.';
         case 'canDeleteClient':
-          return 'Solo el propietario puede eliminar clientes.';
+          return 'Solo el propietario o un administrador del negocio puede eliminar clientes.';
+        case 'canManageStaff':
+          return 'Solo el propietario o un administrador del negocio puede gestionar a los profesionales.';
         case 'canCreateRecord':
         case 'canEditRecord':
         case 'canDeleteRecord':
         case 'canViewRecord':
-          return 'Solo el propietario tiene acceso a los expedientes digitales.';
+          return 'Solo el propietario y los administradores del negocio tienen acceso a los expedientes digitales.';
         case 'canExportReports':
-          return 'Solo el propietario puede exportar reportes.';
-        case 'canEditBusiness':
-          return 'Solo el propietario puede modificar la configuración del negocio.';
+          return 'Solo el propietario o un administrador del negocio puede exportar reportes.';
+        case 'canManageCashRegister':
+          return 'Solo el propietario o un administrador del negocio puede revisar las cajas de otros usuarios.';
+        case 'canIssueInvoices':
+          return 'Solo el propietario o un administrador del negocio puede emitir facturas.';
+        case 'canCreateClient':
+        case 'canEditClient':
+        case 'canOperateCashRegister':
+        case 'canCreateAppointment':
+        case 'canEditAppointment':
+        case 'canDeleteAppointment':
+          return 'Tu rol de visualizador solo permite consultar la información.';
         default:
-          return 'No tienes permisos para realizar esta acción.';
+          break;
       }
     }
+    if (action === 'canEditBusiness' || action === 'canViewBusinessKey') {
+      return 'Solo el propietario puede modificar la configuración del negocio.';
+    }
+    if (action === 'canManageTeam') {
+      return 'Solo el propietario puede gestionar el equipo.';
+    }
+    if (action === 'canViewAuditLog') {
+      return 'Solo el propietario puede consultar la bitácora de auditoría.';
+    }
     return 'No tienes permisos para realizar esta acción.';
   };
 
@@ -80,8 +136,9 @@ export const usePermissions = () => {
     ...permissions,
     can,
     getRestrictionMessage,
-    isOwner: currentUser?.role === 'owner',
+    businessRole,
+    isOwner,
     isAssistant: currentUser?.role === 'assistant',
-    isAdmin: currentUser?.role === 'admin',
+    isAdmin,
   };
 };
@@ -2,10 +2,6 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
-import { licenseService } from './utils/licenseService'
-
-// Inicializar el monitoreo de licencias
-licenseService.startLicenseMonitoring();
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
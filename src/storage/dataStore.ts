@@ -0,0 +1,52 @@
+export type Unsubscribe = () => void;
+
+/**
+ * Almacenamiento jerárquico por rutas ("businesses/{id}/clients/{clientId}"),
+ * con la misma semántica que Realtime Database:
+ * - escribir null elimina el nodo y los nodos vacíos desaparecen
+ * - update acepta rutas relativas en las llaves y aplica todo en una sola escritura
+ * - las suscripciones reciben el valor completo de la ruta cada vez que cambia
+ */
+export interface DataStore {
+  get<T = unknown>(path: string): Promise<T | null>;
+  set(path: string, value: unknown): Promise<void>;
+  update(path: string, values: Record<string, unknown>): Promise<void>;
+  remove(path: string): Promise<void>;
+  // Genera una llave única y ordenada cronológicamente bajo la ruta, sin escribir
+  newKey(path: string): string;
+  // Hijos de la ruta cuyo campo `child` es igual a `value`
+  queryByChild<T = unknown>(path: string, child: string, value: string | number | boolean): Promise<Record<string, T>>;
+  subscribe<T = unknown>(path: string, callback: (value: T | null) => void, onError?: (error: Error) => void): Unsubscribe;
+  // Suscripción a los hijos que cumplen la misma condición que queryByChild
+  subscribeByChild<T = unknown>(
+    path: string,
+    child: string,
+    value: string | number | boolean,
+    callback: (items: Record<string, T>) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+  // Hijos de la ruta cuyo campo `child` está entre `start` y `end` (inclusive); requiere .indexOn
+  queryByRange<T = unknown>(path: string, child: string, start: string | number, end: string | number): Promise<Record<string, T>>;
+  subscribeByRange<T = unknown>(
+    path: string,
+    child: string,
+    start: string | number,
+    end: string | number,
+    callback: (items: Record<string, T>) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe;
+}
+
+/**
+ * Separa una ruta en sus segmentos ignorando diagonales repetidas
+ */
+export const splitPath = (path: string): string[] => {
+  return path.split('/').filter(segment => segment.length > 0);
+};
+
+/**
+ * Une segmentos de ruta
+ */
+export const joinPath = (...parts: string[]): string => {
+  return parts.flatMap(splitPath).join('/');
+};
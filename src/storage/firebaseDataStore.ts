@@ -0,0 +1,80 @@
+import { ref, get, set, update, remove, push, query, orderByChild, equalTo, startAt, endAt, onValue } from 'firebase/database';
+import { database } from '../config/firebase';
+import type { DataStore, Unsubscribe } from './dataStore';
+import type { ConnectionMonitor } from './offlineDataStore';
+
+// Implementación sobre Firebase Realtime Database
+export class FirebaseDataStore implements DataStore, ConnectionMonitor {
+  async get<T = unknown>(path: string): Promise<T | null> {
+    const snapshot = await get(ref(database, path));
+    return snapshot.exists() ? snapshot.val() as T : null;
+  }
+
+  async set(path: string, value: unknown): Promise<void> {
+    await set(ref(database, path), value);
+  }
+
+  async update(path: string, values: Record<string, unknown>): Promise<void> {
+    await update(ref(database, path || undefined), values);
+  }
+
+  async remove(path: string): Promise<void> {
+    await remove(ref(database, path));
+  }
+
+  newKey(path: string): string {
+    return push(ref(database, path)).key!;
+  }
+
+  async queryByChild<T = unknown>(path: string, child: string, value: string | number | boolean): Promise<Record<string, T>> {
+    const snapshot = await get(query(ref(database, path), orderByChild(child), equalTo(value)));
+    return snapshot.exists() ? snapshot.val() as Record<string, T> : {};
+  }
+
+  subscribe<T = unknown>(path: string, callback: (value: T | null) => void, onError?: (error: Error) => void): Unsubscribe {
+    return onValue(
+      ref(database, path),
+      snapshot => callback(snapshot.exists() ? snapshot.val() as T : null),
+      onError
+    );
+  }
+
+  subscribeByChild<T = unknown>(
+    path: string,
+    child: string,
+    value: string | number | boolean,
+    callback: (items: Record<string, T>) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return onValue(
+      query(ref(database, path), orderByChild(child), equalTo(value)),
+      snapshot => callback(snapshot.exists() ? snapshot.val() as Record<string, T> : {}),
+      onError
+    );
+  }
+
+  async queryByRange<T = unknown>(path: string, child: string, start: string | number, end: string | number): Promise<Record<string, T>> {
+    const snapshot = await get(query(ref(database, path), orderByChild(child), startAt(start), endAt(end)));
+    return snapshot.exists() ? snapshot.val() as Record<string, T> : {};
+  }
+
+  subscribeByRange<T = unknown>(
+    path: string,
+    child: string,
+    start: string | number,
+    end: string | number,
+    callback: (items: Record<string, T>) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return onValue(
+      query(ref(database, path), orderByChild(child), startAt(start), endAt(end)),
+      snapshot => callback(snapshot.exists() ? snapshot.val() as Record<string, T> : {}),
+      onError
+    );
+  }
+
+  // Estado de la conexión con el servidor
+  onConnectionChange(callback: (connected: boolean) => void): Unsubscribe {
+    return onValue(ref(database, '.info/connected'), snapshot => callback(snapshot.val() === true));
+  }
+}
@@ -0,0 +1,107 @@
+import type {
+  Appointment,
+  AppointmentCharge,
+  AppointmentSeries,
+  AuditEntry,
+  Business,
+  BusinessInvitation,
+  BusinessKeyEntry,
+  BusinessMember,
+  CalendarFeed,
+  CashMovement,
+  CashSession,
+  Client,
+  DigitalRecord,
+  DigitalRecordVersion,
+  Invoice,
+  Notification,
+  Payment,
+  Provider,
+  Service,
+  User,
+  WaitlistEntry
+} from '../types';
+import type { DataStore } from './dataStore';
+import { FirebaseDataStore } from './firebaseDataStore';
+import { MemoryDataStore } from './memoryDataStore';
+import { OfflineDataStore } from './offlineDataStore';
+import { SharedDataStore } from './sharedDataStore';
+import { detectConcurrentEdit, detectSlotConflict } from './offlineConflicts';
+import { BusinessCollectionRepository, CollectionRepository } from './repositories';
+
+export type { DataStore, Unsubscribe } from './dataStore';
+export type { WithId } from './repositories';
+export { MemoryDataStore } from './memoryDataStore';
+export { OfflineDataStore, getEntityChanges } from './offlineDataStore';
+export { SharedDataStore } from './sharedDataStore';
+export type { EntityChange, OfflineStatus, QueuedMutation, SyncConflictResolution } from './offlineDataStore';
+
+let activeStore: DataStore | null = null;
+
+// VITE_STORAGE_BACKEND=memory ejecuta la aplicación sin Firebase
+const createDefaultDataStore = (): DataStore => {
+  if (import.meta.env?.VITE_STORAGE_BACKEND === 'memory') {
+    return new SharedDataStore(new MemoryDataStore());
+  }
+  const firebase = new FirebaseDataStore();
+  return new SharedDataStore(new OfflineDataStore(firebase, firebase, [detectConcurrentEdit, detectSlotConflict]));
+};
+
+/**
+ * Almacenamiento activo; se crea al primer uso
+ */
+export const getDataStore = (): DataStore => {
+  if (!activeStore) {
+    activeStore = createDefaultDataStore();
+  }
+  return activeStore;
+};
+
+/**
+ * Almacenamiento sin conexión activo; null si el almacenamiento no lo soporta (p. ej. en memoria)
+ */
+export const getOfflineStore = (): OfflineDataStore | null => {
+  const active = getDataStore();
+  const store = active instanceof SharedDataStore ? active.store : active;
+  return store instanceof OfflineDataStore ? store : null;
+};
+
+/**
+ * Reemplaza el almacenamiento activo (p. ej. por un MemoryDataStore en pruebas)
+ */
+export const setDataStore = (store: DataStore): void => {
+  activeStore = store;
+};
+
+// Campos del perfil del negocio; el resto del nodo son sus colecciones
+export const BUSINESS_PROFILE_FIELDS = [
+  'name', 'categories', 'operatingHours', 'ownerId', 'businessKey', 'joinRole', 'createdAt', 'updatedAt',
+  'category', 'address', 'phone', 'email', 'description', 'license', 'isActive', 'slug', 'onlineBookingEnabled',
+  'recordFields', 'fiscal'
+] as const satisfies readonly (keyof Business)[];
+
+export const businessRepository = new CollectionRepository<Omit<Business, 'id'>>(getDataStore, 'businesses');
+export const userRepository = new CollectionRepository<User>(getDataStore, 'users');
+export const notificationRepository = new CollectionRepository<Omit<Notification, 'id'>>(getDataStore, 'notifications');
+export const calendarFeedRepository = new CollectionRepository<Omit<CalendarFeed, 'id'>>(getDataStore, 'calendarFeeds');
+export const businessKeyRepository = new CollectionRepository<BusinessKeyEntry>(getDataStore, 'businessKeys');
+export const invitationRepository = new CollectionRepository<Omit<BusinessInvitation, 'id'>>(getDataStore, 'invitations');
+// auditLogs/{businessId}/{yyyy-MM-dd}/{entryId}
+export const auditLogRepository = new CollectionRepository<Record<string, Record<string, Omit<AuditEntry, 'id'>>>>(getDataStore, 'auditLogs');
+
+export const serviceRepository = new BusinessCollectionRepository<Omit<Service, 'id'>>(getDataStore, 'services');
+export const clientRepository = new BusinessCollectionRepository<Omit<Client, 'id'>>(getDataStore, 'clients');
+export const appointmentRepository = new BusinessCollectionRepository<Omit<Appointment, 'id'>>(getDataStore, 'appointments');
+export const seriesRepository = new BusinessCollectionRepository<Omit<AppointmentSeries, 'id'>>(getDataStore, 'appointmentSeries');
+export const providerRepository = new BusinessCollectionRepository<Omit<Provider, 'id'>>(getDataStore, 'providers');
+export const waitlistRepository = new BusinessCollectionRepository<Omit<WaitlistEntry, 'id'>>(getDataStore, 'waitlist');
+export const recordRepository = new BusinessCollectionRepository<Omit<DigitalRecord, 'id'>>(getDataStore, 'digitalRecords');
+// businesses/{businessId}/recordVersions/{recordId}/{versionId}
+export const recordVersionRepository = new BusinessCollectionRepository<Record<string, Omit<DigitalRecordVersion, 'id'>>>(getDataStore, 'recordVersions');
+export const memberRepository = new BusinessCollectionRepository<Omit<BusinessMember, 'id'>>(getDataStore, 'members');
+// businesses/{businessId}/charges/{appointmentId}: una cuenta por cita
+export const chargeRepository = new BusinessCollectionRepository<Omit<AppointmentCharge, 'id'>>(getDataStore, 'charges');
+export const paymentRepository = new BusinessCollectionRepository<Omit<Payment, 'id'>>(getDataStore, 'payments');
+export const cashSessionRepository = new BusinessCollectionRepository<Omit<CashSession, 'id'>>(getDataStore, 'cashSessions');
+export const cashMovementRepository = new BusinessCollectionRepository<Omit<CashMovement, 'id'>>(getDataStore, 'cashMovements');
+export const invoiceRepository = new BusinessCollectionRepository<Omit<Invoice, 'id'>>(getDataStore, 'invoices');
@@ -0,0 +1,262 @@
+import type { DataStore, Unsubscribe } from './dataStore';
+import { splitPath } from './dataStore';
+
+type TreeNode = Record<string, unknown>;
+
+interface Listener {
+  path: string[];
+  read: () => unknown;
+  callback: (value: unknown) => void;
+  lastValue: string;
+}
+
+// Caracteres de las llaves generadas, en orden ASCII para que se ordenen cronológicamente
+const PUSH_CHARS = '-0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ_abcdefghijklmnopqrstuvwxyz';
+
+const isNode = (value: unknown): value is TreeNode => {
+  return typeof value === 'object' && value !== null;
+};
+
+// Firebase rechaza escrituras con undefined; se replica para detectar errores sin red
+const assertNoUndefined = (value: unknown, path: string): void => {
+  if (value === undefined) {
+    throw new Error(`Valor undefined en la ruta "${path}"`);
+  }
+  if (isNode(value)) {
+    Object.entries(value).forEach(([key, child]) => assertNoUndefined(child, `${path}/${key}`));
+  }
+};
+
+// Quita los hijos null y convierte los nodos vacíos en null, como Realtime Database
+const normalize = (value: unknown): unknown => {
+  if (value === null || !isNode(value)) return value;
+
+  if (Array.isArray(value)) {
+    const items = value.map(normalize);
+    return items.length > 0 ? items : null;
+  }
+
+  const result: TreeNode = {};
+  Object.entries(value).forEach(([key, child]) => {
+    const normalized = normalize(child);
+    if (normalized !== null) result[key] = normalized;
+  });
+  return Object.keys(result).length > 0 ? result : null;
+};
+
+const clone = <T>(value: T): T => {
+  return value === null || !isNode(value) ? value : JSON.parse(JSON.stringify(value));
+};
+
+// Mismo criterio que startAt/endAt: solo se comparan valores del mismo tipo
+const isInRange = (value: unknown, start: string | number, end: string | number): boolean => {
+  return typeof value === typeof start && (value as string | number) >= start && (value as string | number) <= end;
+};
+
+const isRelated = (a: string[], b: string[]): boolean => {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+/**
+ * Implementación en memoria, sin red. Útil para pruebas y para ejecutar
+ * la aplicación sin Firebase (VITE_STORAGE_BACKEND=memory).
+ */
+export class MemoryDataStore implements DataStore {
+  private root: TreeNode = {};
+  private listeners = new Set<Listener>();
+  private lastPushTime = 0;
+  private lastRandomChars: number[] = [];
+
+  constructor(initialData: TreeNode = {}) {
+    this.root = (normalize(clone(initialData)) as TreeNode | null) || {};
+  }
+
+  // Copia del contenido completo, para inspeccionarlo en pruebas
+  dump(): TreeNode {
+    return clone(this.root);
+  }
+
+  async get<T = unknown>(path: string): Promise<T | null> {
+    return this.read(splitPath(path)) as T | null;
+  }
+
+  async set(path: string, value: unknown): Promise<void> {
+    assertNoUndefined(value, path);
+    const segments = splitPath(path);
+    this.write(segments, value);
+    this.notify([segments]);
+  }
+
+  async update(path: string, values: Record<string, unknown>): Promise<void> {
+    assertNoUndefined(values, path);
+    const base = splitPath(path);
+    const changed = Object.keys(values).map(key => [...base, ...splitPath(key)]);
+
+    Object.entries(values).forEach(([key, value], index) => {
+      if (splitPath(key).length === 0) {
+        throw new Error(`Ruta inválida en update: "${key}"`);
+      }
+      this.write(changed[index], value);
+    });
+
+    this.notify(changed);
+  }
+
+  async remove(path: string): Promise<void> {
+    await this.set(path, null);
+  }
+
+  newKey(): string {
+    let now = Date.now();
+    const duplicateTime = now === this.lastPushTime;
+    this.lastPushTime = now;
+
+    const timeChars: string[] = [];
+    for (let i = 0; i < 8; i++) {
+      timeChars.unshift(PUSH_CHARS.charAt(now % 64));
+      now = Math.floor(now / 64);
+    }
+
+    if (!duplicateTime) {
+      this.lastRandomChars = Array.from({ length: 12 }, () => Math.floor(Math.random() * 64));
+    } else {
+      // Misma milésima: incrementar para conservar el orden
+      let i = 11;
+      while (i >= 0 && this.lastRandomChars[i] === 63) {
+        this.lastRandomChars[i] = 0;
+        i--;
+      }
+      if (i >= 0) this.lastRandomChars[i]++;
+    }
+
+    return timeChars.join('') + this.lastRandomChars.map(index => PUSH_CHARS.charAt(index)).join('');
+  }
+
+  async queryByChild<T = unknown>(path: string, child: string, value: string | number | boolean): Promise<Record<string, T>> {
+    return this.filterChildren<T>(path, child, current => current === value);
+  }
+
+  async queryByRange<T = unknown>(path: string, child: string, start: string | number, end: string | number): Promise<Record<string, T>> {
+    return this.filterChildren<T>(path, child, current => isInRange(current, start, end));
+  }
+
+  subscribe<T = unknown>(path: string, callback: (value: T | null) => void): Unsubscribe {
+    const segments = splitPath(path);
+    return this.addListener(segments, () => this.read(segments), callback as (value: unknown) => void);
+  }
+
+  subscribeByChild<T = unknown>(
+    path: string,
+    child: string,
+    value: string | number | boolean,
+    callback: (items: Record<string, T>) => void
+  ): Unsubscribe {
+    return this.addListener(
+      splitPath(path),
+      () => this.filterChildren(path, child, current => current === value),
+      callback as (value: unknown) => void
+    );
+  }
+
+  subscribeByRange<T = unknown>(
+    path: string,
+    child: string,
+    start: string | number,
+    end: string | number,
+    callback: (items: Record<string, T>) => void
+  ): Unsubscribe {
+    return this.addListener(
+      splitPath(path),
+      () => this.filterChildren(path, child, current => isInRange(current, start, end)),
+      callback as (value: unknown) => void
+    );
+  }
+
+  private addListener(path: string[], read: () => unknown, callback: (value: unknown) => void): Unsubscribe {
+    const value = read();
+    const listener: Listener = { path, read, callback, lastValue: JSON.stringify(value) };
+    this.listeners.add(listener);
+    callback(value);
+
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private filterChildren<T>(path: string, child: string, matches: (value: unknown) => boolean): Record<string, T> {
+    const node = this.read(splitPath(path));
+    if (!isNode(node)) return {};
+
+    const childPath = splitPath(child);
+    return Object.fromEntries(
+      Object.entries(node).filter(([, item]) => {
+        let current: unknown = item;
+        for (const segment of childPath) {
+          current = isNode(current) ? current[segment] : undefined;
+        }
+        return matches(current);
+      })
+    ) as Record<string, T>;
+  }
+
+  private read(segments: string[]): unknown {
+    let current: unknown = this.root;
+    for (const segment of segments) {
+      if (!isNode(current) || !(segment in current)) return null;
+      current = current[segment];
+    }
+    return clone(current ?? null);
+  }
+
+  private write(segments: string[], value: unknown): void {
+    const normalized = normalize(clone(value));
+
+    if (segments.length === 0) {
+      this.root = isNode(normalized) && !Array.isArray(normalized) ? normalized : {};
+      return;
+    }
+
+    // Crear los nodos intermedios que falten
+    const parents: TreeNode[] = [this.root];
+    for (const segment of segments.slice(0, -1)) {
+      const parent = parents[parents.length - 1];
+      if (!isNode(parent[segment])) {
+        if (normalized === null) return;
+        parent[segment] = {};
+      }
+      parents.push(parent[segment] as TreeNode);
+    }
+
+    const key = segments[segments.length - 1];
+    const parent = parents[parents.length - 1];
+    if (normalized === null) {
+      delete parent[key];
+    } else {
+      parent[key] = normalized;
+    }
+
+    // Eliminar los nodos intermedios que quedaron vacíos
+    for (let i = parents.length - 1; i > 0; i--) {
+      if (Object.keys(parents[i]).length > 0) break;
+      delete parents[i - 1][segments[i - 1]];
+    }
+  }
+
+  private notify(changed: string[][]): void {
+    [...this.listeners].forEach(listener => {
+      if (!this.listeners.has(listener)) return;
+      if (!changed.some(segments => isRelated(segments, listener.path))) return;
+
+      const value = listener.read();
+      const serialized = JSON.stringify(value);
+      if (serialized === listener.lastValue) return;
+
+      listener.lastValue = serialized;
+      listener.callback(value);
+    });
+  }
+}
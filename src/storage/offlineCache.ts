@@ -0,0 +1,108 @@
+import type { QueuedMutation } from './offlineDataStore';
+
+const DB_NAME = 'makeagend-offline';
+const DB_VERSION = 1;
+const SNAPSHOTS = 'snapshots';
+const MUTATIONS = 'mutations';
+
+// Convierte una petición de IndexedDB en promesa
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+  return new Promise(resolve => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SNAPSHOTS)) db.createObjectStore(SNAPSHOTS);
+      if (!db.objectStoreNames.contains(MUTATIONS)) db.createObjectStore(MUTATIONS, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    // Navegación privada o almacenamiento bloqueado: se trabaja solo en memoria
+    request.onerror = () => {
+      console.error('No se pudo abrir el almacenamiento sin conexión:', request.error);
+      resolve(null);
+    };
+  });
+};
+
+/**
+ * Copia local en IndexedDB de las colecciones del negocio y de los cambios
+ * pendientes de sincronizar. Sin IndexedDB conserva todo en memoria.
+ */
+export class OfflineCache {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private snapshots = new Map<string, unknown>();
+  private mutations = new Map<string, QueuedMutation>();
+
+  private getDatabase(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = openDatabase();
+    }
+    return this.db;
+  }
+
+  private async run<T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | undefined> {
+    const db = await this.getDatabase();
+    if (!db) return undefined;
+    return toPromise(operation(db.transaction(storeName, mode).objectStore(storeName)));
+  }
+
+  // Último valor guardado de la ruta; undefined si nunca se guardó
+  async getSnapshot(path: string): Promise<unknown> {
+    if (this.snapshots.has(path)) return this.snapshots.get(path);
+    try {
+      const value = await this.run(SNAPSHOTS, 'readonly', store => store.get(path));
+      if (value !== undefined) this.snapshots.set(path, value);
+      return value;
+    } catch (error) {
+      console.error('Error leyendo la copia local:', error);
+      return undefined;
+    }
+  }
+
+  async saveSnapshot(path: string, value: unknown): Promise<void> {
+    this.snapshots.set(path, value);
+    try {
+      await this.run(SNAPSHOTS, 'readwrite', store => store.put(value, path));
+    } catch (error) {
+      console.error('Error guardando la copia local:', error);
+    }
+  }
+
+  async clearSnapshots(): Promise<void> {
+    this.snapshots.clear();
+    await this.run(SNAPSHOTS, 'readwrite', store => store.clear());
+  }
+
+  // Cambios pendientes en el orden en que se hicieron
+  async getMutations(): Promise<QueuedMutation[]> {
+    try {
+      const stored = await this.run(MUTATIONS, 'readonly', store => store.getAll() as IDBRequest<QueuedMutation[]>);
+      stored?.forEach(mutation => this.mutations.set(mutation.id, mutation));
+    } catch (error) {
+      console.error('Error leyendo los cambios pendientes:', error);
+    }
+    return Array.from(this.mutations.values()).sort((a, b) => (a.id < b.id ? -1 : 1));
+  }
+
+  async saveMutation(mutation: QueuedMutation): Promise<void> {
+    this.mutations.set(mutation.id, mutation);
+    await this.run(MUTATIONS, 'readwrite', store => store.put(mutation));
+  }
+
+  async deleteMutation(id: string): Promise<void> {
+    this.mutations.delete(id);
+    await this.run(MUTATIONS, 'readwrite', store => store.delete(id));
+  }
+}
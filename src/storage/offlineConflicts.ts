@@ -0,0 +1,81 @@
+import type { Appointment, Provider, Service } from '../types';
+import {
+  FREE_STATUSES,
+  getOverlappingAppointments,
+  getProviderConflicts,
+  getResourceCount
+} from '../utils/availabilityEngine';
+import type { ConflictDetector } from './offlineDataStore';
+
+// Serializa con las llaves ordenadas para comparar valores
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value).sort().map(key =>
+      `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`
+    ).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * El registro cambió en el servidor (otro dispositivo) después de que se
+ * modificó sin conexión
+ */
+export const detectConcurrentEdit: ConflictDetector = async (change, remote) => {
+  if (change.before === undefined) return null;
+
+  const current = stableStringify(await remote.get(change.path));
+  // Sin cambios en el servidor, o el mismo cambio ya se hizo en otro dispositivo
+  if (current === stableStringify(change.before) || current === stableStringify(change.after)) return null;
+
+  if (current === 'null') return 'Se eliminó desde otro dispositivo mientras no había conexión.';
+  return 'Se modificó desde otro dispositivo mientras no había conexión.';
+};
+
+/**
+ * Una cita creada o movida sin conexión ocupa un horario que se reservó
+ * desde otro dispositivo
+ */
+export const detectSlotConflict: ConflictDetector = async (change, remote) => {
+  if (change.collection !== 'appointments' || !change.after) return null;
+
+  const appointment = { ...(change.after as Omit<Appointment, 'id'>), id: change.id };
+  if (FREE_STATUSES.includes(appointment.status) || !appointment.date || !appointment.startTime || !appointment.endTime) {
+    return null;
+  }
+
+  const before = change.before as Omit<Appointment, 'id'> | null | undefined;
+  const slotChanged = !before
+    || FREE_STATUSES.includes(before.status)
+    || before.date !== appointment.date
+    || before.startTime !== appointment.startTime
+    || before.endTime !== appointment.endTime
+    || before.providerId !== appointment.providerId
+    || before.resourceIndex !== appointment.resourceIndex;
+  if (!slotChanged) return null;
+
+  const basePath = `businesses/${change.businessId}`;
+  const { date, startTime, endTime } = appointment;
+  const sameDay = Object.entries(
+    await remote.queryByChild<Omit<Appointment, 'id'>>(`${basePath}/appointments`, 'date', date)
+  ).map(([id, data]) => ({ ...data, id }));
+
+  if (appointment.providerId) {
+    const providerConflicts = getProviderConflicts(sameDay, appointment.providerId, date, startTime, endTime, appointment.id);
+    if (providerConflicts.length > 0) {
+      const provider = await remote.get<Omit<Provider, 'id'>>(`${basePath}/providers/${appointment.providerId}`);
+      return `${provider?.name || 'El profesional'} ya tiene otra cita el ${date} a las ${providerConflicts[0].startTime}.`;
+    }
+  }
+
+  const overlapping = getOverlappingAppointments(sameDay, appointment.serviceId, date, startTime, endTime, appointment.id);
+  if (overlapping.length === 0) return null;
+
+  const service = await remote.get<Omit<Service, 'id'>>(`${basePath}/services/${appointment.serviceId}`);
+  const resourceTaken = appointment.resourceIndex !== undefined
+    && overlapping.some(other => other.resourceIndex === appointment.resourceIndex);
+  if (overlapping.length < getResourceCount(service || { resources: 1 }) && !resourceTaken) return null;
+
+  return `El horario del ${date} a las ${startTime} ya se reservó desde otro dispositivo.`;
+};
@@ -0,0 +1,559 @@
+import type { DataStore, Unsubscribe } from './dataStore';
+import { joinPath, splitPath } from './dataStore';
+import { OfflineCache } from './offlineCache';
+
+type TreeNode = Record<string, unknown>;
+
+// Colecciones del negocio que se guardan en el dispositivo para trabajar sin conexión
+export const OFFLINE_COLLECTIONS = ['services', 'clients', 'appointments'];
+
+/**
+ * Escritura hecha sin conexión, pendiente de enviarse al servidor
+ */
+export interface QueuedMutation {
+  id: string;
+  // Escritura multiruta desde la raíz; null elimina
+  changes: Record<string, unknown>;
+  // Valor de cada registro afectado antes del cambio, según la copia local
+  base: Record<string, unknown>;
+  createdAt: string;
+  conflict?: {
+    reason: string;
+    detectedAt: string;
+  };
+  // El usuario decidió aplicar el cambio a pesar del conflicto
+  force?: boolean;
+}
+
+/**
+ * Cambio de un registro (businesses/{businessId}/{collection}/{id}) dentro de una escritura en cola
+ */
+export interface EntityChange {
+  path: string;
+  businessId: string;
+  collection: string;
+  id: string;
+  // undefined cuando no se conocía el valor anterior
+  before: unknown;
+  after: unknown;
+}
+
+export interface OfflineStatus {
+  online: boolean;
+  syncing: boolean;
+  pending: QueuedMutation[];
+  conflicts: QueuedMutation[];
+}
+
+export type SyncConflictResolution = 'keep' | 'discard';
+
+// Revisa un cambio contra el servidor antes de enviarlo; devuelve el motivo del conflicto
+export type ConflictDetector = (change: EntityChange, remote: DataStore) => Promise<string | null>;
+
+export interface ConnectionMonitor {
+  onConnectionChange(callback: (connected: boolean) => void): Unsubscribe;
+}
+
+// Condición de una consulta sobre un campo de los hijos
+interface ChildFilter {
+  // Identifica la consulta en la copia local
+  key: string;
+  child: string;
+  matches: (value: unknown) => boolean;
+}
+
+interface Subscription {
+  segments: string[];
+  // Último valor del servidor o de la copia local; undefined mientras no llega ninguno
+  value: unknown;
+  filter?: ChildFilter;
+  deliver: (value: unknown) => void;
+}
+
+const isNode = (value: unknown): value is TreeNode => {
+  return typeof value === 'object' && value !== null;
+};
+
+const isPrefix = (prefix: string[], segments: string[]): boolean => {
+  return prefix.length <= segments.length && prefix.every((segment, index) => segments[index] === segment);
+};
+
+const getIn = (value: unknown, segments: string[]): unknown => {
+  let current = value;
+  for (const segment of segments) {
+    if (!isNode(current)) return null;
+    current = current[segment];
+  }
+  return current ?? null;
+};
+
+// Escribe sin modificar el original; null elimina y los nodos vacíos desaparecen
+const setIn = (value: unknown, segments: string[], child: unknown): unknown => {
+  if (segments.length === 0) return child;
+
+  const [head, ...rest] = segments;
+  const node: TreeNode = isNode(value) ? { ...value } : {};
+  const next = setIn(node[head], rest, child);
+  if (next === null || (isNode(next) && Object.keys(next).length === 0)) {
+    delete node[head];
+  } else {
+    node[head] = next;
+  }
+  return Object.keys(node).length > 0 ? node : null;
+};
+
+// Aplica una escritura multiruta al valor de una ruta
+const applyChanges = (segments: string[], value: unknown, changes: Record<string, unknown>): unknown => {
+  return Object.entries(changes).reduce((current, [key, child]) => {
+    const keySegments = splitPath(key);
+    if (isPrefix(keySegments, segments)) return getIn(child, segments.slice(keySegments.length));
+    if (isPrefix(segments, keySegments)) return setIn(current, keySegments.slice(segments.length), child);
+    return current;
+  }, value);
+};
+
+const equalTo = (child: string, value: string | number | boolean): ChildFilter => ({
+  key: `${child}=${JSON.stringify(value)}`,
+  child,
+  matches: current => current === value
+});
+
+const between = (child: string, start: string | number, end: string | number): ChildFilter => ({
+  key: `${child}=${JSON.stringify(start)}..${JSON.stringify(end)}`,
+  child,
+  matches: current => typeof current === typeof start && (current as string | number) >= start && (current as string | number) <= end
+});
+
+const applyFilter = <T>(items: unknown, filter: ChildFilter): Record<string, T> => {
+  if (!isNode(items)) return {};
+  return Object.fromEntries(
+    Object.entries(items).filter(([, item]) => isNode(item) && filter.matches(item[filter.child]))
+  ) as Record<string, T>;
+};
+
+// Segmentos del registro que contiene la ruta: businesses/{businessId}/{collection}/{id}
+const getEntitySegments = (path: string): string[] | null => {
+  const segments = splitPath(path);
+  return segments.length >= 4 && segments[0] === 'businesses' ? segments.slice(0, 4) : null;
+};
+
+const isOfflineCollection = (segments: string[]): boolean => {
+  return segments.length === 3 && segments[0] === 'businesses' && OFFLINE_COLLECTIONS.includes(segments[2]);
+};
+
+const assertNoUndefined = (changes: Record<string, unknown>): void => {
+  const check = (value: unknown, path: string): void => {
+    if (value === undefined) {
+      throw new Error(`Valor undefined en la ruta "${path}"`);
+    }
+    if (isNode(value)) {
+      Object.entries(value).forEach(([key, child]) => check(child, `${path}/${key}`));
+    }
+  };
+  Object.entries(changes).forEach(([path, value]) => check(value, path));
+};
+
+/**
+ * Registros que modifica una escritura en cola, con su valor antes y después
+ */
+export const getEntityChanges = (mutation: QueuedMutation): EntityChange[] => {
+  const paths = new Set<string>();
+  Object.keys(mutation.changes).forEach(key => {
+    const segments = getEntitySegments(key);
+    if (segments) paths.add(segments.join('/'));
+  });
+
+  return Array.from(paths).map(path => {
+    const segments = splitPath(path);
+    const before = path in mutation.base ? mutation.base[path] : undefined;
+    return {
+      path,
+      businessId: segments[1],
+      collection: segments[2],
+      id: segments[3],
+      before,
+      after: applyChanges(segments, before ?? null, mutation.changes)
+    };
+  });
+};
+
+/**
+ * Almacenamiento que sigue funcionando sin conexión. Envuelve al almacenamiento
+ * remoto: guarda en el dispositivo las colecciones de OFFLINE_COLLECTIONS, pone
+ * en cola las escrituras hechas sin conexión (y las muestra a los suscriptores
+ * como si ya estuvieran aplicadas) y las envía en orden al reconectar, revisando
+ * antes cada cambio con los detectores de conflictos.
+ */
+export class OfflineDataStore implements DataStore {
+  private remote: DataStore;
+  private cache: OfflineCache;
+  private detectors: ConflictDetector[];
+  private subscriptions = new Set<Subscription>();
+  private statusListeners = new Set<(status: OfflineStatus) => void>();
+  private queue: QueuedMutation[] = [];
+  private ready: Promise<void>;
+  private browserOnline = typeof navigator === 'undefined' || navigator.onLine;
+  // Firebase informa "desconectado" mientras establece la primera conexión
+  private serverConnected = true;
+  private wasConnected = false;
+  private online: boolean;
+  private syncing = false;
+
+  constructor(remote: DataStore, connection: ConnectionMonitor, detectors: ConflictDetector[] = [], cache = new OfflineCache()) {
+    this.remote = remote;
+    this.cache = cache;
+    this.detectors = detectors;
+    this.online = this.browserOnline;
+
+    this.ready = cache.getMutations().then(mutations => {
+      this.queue = mutations;
+      this.subscriptions.forEach(subscription => this.deliver(subscription));
+      this.emitStatus();
+    });
+    void this.ready.then(() => this.sync());
+
+    connection.onConnectionChange(connected => {
+      if (connected) this.wasConnected = true;
+      this.serverConnected = connected || !this.wasConnected;
+      this.updateOnline();
+    });
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', () => {
+        this.browserOnline = true;
+        this.updateOnline();
+      });
+      window.addEventListener('offline', () => {
+        this.browserOnline = false;
+        this.updateOnline();
+      });
+    }
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
+
+  getStatus(): OfflineStatus {
+    return {
+      online: this.online,
+      syncing: this.syncing,
+      pending: this.queue.filter(mutation => !mutation.conflict),
+      conflicts: this.queue.filter(mutation => mutation.conflict)
+    };
+  }
+
+  onStatusChange(listener: (status: OfflineStatus) => void): Unsubscribe {
+    this.statusListeners.add(listener);
+    listener(this.getStatus());
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  async get<T = unknown>(path: string): Promise<T | null> {
+    await this.ready;
+    const segments = splitPath(path);
+    if (!this.online) {
+      const local = await this.readLocal(segments);
+      if (local !== undefined) return local as T | null;
+    }
+    return this.withPending(segments, await this.remote.get<T>(path)) as T | null;
+  }
+
+  async set(path: string, value: unknown): Promise<void> {
+    await this.write({ [joinPath(path)]: value }, () => this.remote.set(path, value));
+  }
+
+  async update(path: string, values: Record<string, unknown>): Promise<void> {
+    const changes = Object.fromEntries(
+      Object.entries(values).map(([key, value]) => [joinPath(path, key), value])
+    );
+    await this.write(changes, () => this.remote.update(path, values));
+  }
+
+  async remove(path: string): Promise<void> {
+    await this.write({ [joinPath(path)]: null }, () => this.remote.remove(path));
+  }
+
+  newKey(path: string): string {
+    return this.remote.newKey(path);
+  }
+
+  async queryByChild<T = unknown>(path: string, child: string, value: string | number | boolean): Promise<Record<string, T>> {
+    return this.query<T>(path, equalTo(child, value), () => this.remote.queryByChild<T>(path, child, value));
+  }
+
+  async queryByRange<T = unknown>(path: string, child: string, start: string | number, end: string | number): Promise<Record<string, T>> {
+    return this.query<T>(path, between(child, start, end), () => this.remote.queryByRange<T>(path, child, start, end));
+  }
+
+  subscribe<T = unknown>(path: string, callback: (value: T | null) => void, onError?: (error: Error) => void): Unsubscribe {
+    return this.watch(
+      path,
+      undefined,
+      value => callback(value as T | null),
+      emit => this.remote.subscribe(path, emit, onError)
+    );
+  }
+
+  subscribeByChild<T = unknown>(
+    path: string,
+    child: string,
+    value: string | number | boolean,
+    callback: (items: Record<string, T>) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.watch(
+      path,
+      equalTo(child, value),
+      items => callback(items as Record<string, T>),
+      emit => this.remote.subscribeByChild(path, child, value, emit, onError)
+    );
+  }
+
+  subscribeByRange<T = unknown>(
+    path: string,
+    child: string,
+    start: string | number,
+    end: string | number,
+    callback: (items: Record<string, T>) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.watch(
+      path,
+      between(child, start, end),
+      items => callback(items as Record<string, T>),
+      emit => this.remote.subscribeByRange(path, child, start, end, emit, onError)
+    );
+  }
+
+  /**
+   * Envía en orden los cambios en cola. Un cambio con conflicto queda en espera
+   * junto con los cambios posteriores del mismo registro hasta que se resuelva.
+   */
+  async sync(): Promise<void> {
+    await this.ready;
+    if (this.syncing || !this.online || this.queue.length === 0) return;
+
+    this.syncing = true;
+    this.emitStatus();
+
+    const processed = new Set<string>();
+    const blocked = new Set<string>();
+
+    try {
+      let mutation: QueuedMutation | undefined = this.queue[0];
+      while (this.online && mutation) {
+        processed.add(mutation.id);
+        const changes = getEntityChanges(mutation);
+
+        if (mutation.conflict || changes.some(change => blocked.has(change.path))) {
+          changes.forEach(change => blocked.add(change.path));
+        } else {
+          let reason = mutation.force ? null : await this.detectConflict(changes);
+          if (!reason) {
+            try {
+              await this.remote.update('', mutation.changes);
+              await this.dequeue(mutation);
+            } catch (error) {
+              reason = `El servidor rechazó el cambio: ${(error as Error).message}`;
+            }
+          }
+          if (reason) {
+            mutation.conflict = { reason, detectedAt: new Date().toISOString() };
+            await this.cache.saveMutation(mutation);
+            changes.forEach(change => blocked.add(change.path));
+            this.emitStatus();
+          }
+        }
+
+        // Incluye los cambios que se agreguen mientras se sincroniza
+        mutation = this.queue.find(next => !processed.has(next.id));
+      }
+    } catch (error) {
+      // Sin conexión a media sincronización: lo pendiente se reintenta al reconectar
+      console.error('Error sincronizando cambios pendientes:', error);
+    } finally {
+      this.syncing = false;
+      this.emitStatus();
+    }
+  }
+
+  /**
+   * Aplica un cambio en conflicto de todas formas ('keep') o lo descarta
+   */
+  async resolveConflict(id: string, resolution: SyncConflictResolution): Promise<void> {
+    await this.ready;
+    const mutation = this.queue.find(item => item.id === id);
+    if (!mutation) return;
+
+    if (resolution === 'discard') {
+      await this.dequeue(mutation);
+    } else {
+      delete mutation.conflict;
+      mutation.force = true;
+      await this.cache.saveMutation(mutation);
+      this.emitStatus();
+    }
+    await this.sync();
+  }
+
+  // Borra la copia local de las colecciones (p. ej. al cerrar sesión); los cambios pendientes se conservan
+  async clearCache(): Promise<void> {
+    await this.cache.clearSnapshots();
+  }
+
+  private updateOnline(): void {
+    const online = this.browserOnline && this.serverConnected;
+    if (online === this.online) return;
+
+    this.online = online;
+    this.emitStatus();
+    if (online) void this.sync();
+  }
+
+  private emitStatus(): void {
+    const status = this.getStatus();
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private async write(changes: Record<string, unknown>, writeRemote: () => Promise<void>): Promise<void> {
+    await this.ready;
+    // Con cambios en cola se encola también para conservar el orden
+    if (this.online && this.queue.length === 0) {
+      await writeRemote();
+      return;
+    }
+    await this.enqueue(changes);
+  }
+
+  private async enqueue(changes: Record<string, unknown>): Promise<void> {
+    assertNoUndefined(changes);
+
+    const base: Record<string, unknown> = {};
+    for (const key of Object.keys(changes)) {
+      const segments = getEntitySegments(key);
+      if (!segments || !isOfflineCollection(segments.slice(0, 3))) continue;
+      const path = segments.join('/');
+      if (path in base) continue;
+      const value = await this.readLocal(segments);
+      if (value !== undefined) base[path] = value;
+    }
+
+    const mutation: QueuedMutation = {
+      id: this.remote.newKey('syncQueue'),
+      changes,
+      base,
+      createdAt: new Date().toISOString()
+    };
+    this.queue.push(mutation);
+    await this.cache.saveMutation(mutation);
+
+    this.refresh(Object.keys(changes));
+    this.emitStatus();
+    if (this.online) void this.sync();
+  }
+
+  private async dequeue(mutation: QueuedMutation): Promise<void> {
+    this.queue = this.queue.filter(item => item.id !== mutation.id);
+    await this.cache.deleteMutation(mutation.id);
+    this.refresh(Object.keys(mutation.changes));
+    this.emitStatus();
+  }
+
+  private async query<T>(path: string, filter: ChildFilter, queryRemote: () => Promise<Record<string, T>>): Promise<Record<string, T>> {
+    await this.ready;
+    const segments = splitPath(path);
+    const local = this.online ? undefined : await this.readLocal(segments);
+    const items = local !== undefined ? local : this.withPending(segments, await queryRemote());
+    return applyFilter<T>(items, filter);
+  }
+
+  // Suscripción al servidor que muestra encima los cambios en cola y guarda las colecciones en el dispositivo
+  private watch(
+    path: string,
+    filter: ChildFilter | undefined,
+    deliver: (value: unknown) => void,
+    open: (emit: (value: unknown) => void) => Unsubscribe
+  ): Unsubscribe {
+    const segments = splitPath(path);
+    const subscription: Subscription = { segments, value: undefined, filter, deliver };
+    this.subscriptions.add(subscription);
+
+    const cacheKey = isOfflineCollection(segments)
+      ? [segments.join('/'), filter?.key].filter(Boolean).join('?')
+      : null;
+    if (cacheKey) {
+      // La copia local se muestra mientras llega el servidor, o en su lugar sin conexión
+      void this.cache.getSnapshot(cacheKey).then(snapshot => {
+        if (snapshot === undefined || subscription.value !== undefined || !this.subscriptions.has(subscription)) return;
+        subscription.value = snapshot;
+        this.deliver(subscription);
+      });
+    }
+
+    const unsubscribe = open(value => {
+      subscription.value = value;
+      if (cacheKey) void this.cache.saveSnapshot(cacheKey, value);
+      this.deliver(subscription);
+    });
+
+    return () => {
+      this.subscriptions.delete(subscription);
+      unsubscribe();
+    };
+  }
+
+  private async detectConflict(changes: EntityChange[]): Promise<string | null> {
+    for (const change of changes) {
+      for (const detector of this.detectors) {
+        const reason = await detector(change, this.remote);
+        if (reason) return reason;
+      }
+    }
+    return null;
+  }
+
+  private withPending(segments: string[], value: unknown): unknown {
+    return this.queue.reduce((current, mutation) => applyChanges(segments, current, mutation.changes), value);
+  }
+
+  // Valor conocido de la ruta según las suscripciones activas o la copia local; undefined si no se conoce
+  private async readLocal(segments: string[]): Promise<unknown> {
+    for (const subscription of this.subscriptions) {
+      if (subscription.value === undefined || !isPrefix(subscription.segments, segments)) continue;
+
+      const value = this.withPending(subscription.segments, subscription.value);
+      const relative = segments.slice(subscription.segments.length);
+      // Una consulta solo trae algunos hijos: sirve si incluye el registro buscado
+      if (subscription.filter && (relative.length === 0 || getIn(value, relative.slice(0, 1)) === null)) continue;
+      return getIn(value, relative);
+    }
+
+    const collection = segments.slice(0, 3);
+    if (isOfflineCollection(collection)) {
+      const snapshot = await this.cache.getSnapshot(collection.join('/'));
+      if (snapshot !== undefined) {
+        return getIn(this.withPending(collection, snapshot), segments.slice(3));
+      }
+    }
+    return undefined;
+  }
+
+  private refresh(paths: string[]): void {
+    const changed = paths.map(splitPath);
+    this.subscriptions.forEach(subscription => {
+      if (changed.some(segments => isPrefix(segments, subscription.segments) || isPrefix(subscription.segments, segments))) {
+        this.deliver(subscription);
+      }
+    });
+  }
+
+  private deliver(subscription: Subscription): void {
+    if (subscription.value === undefined) return;
+
+    const value = this.withPending(subscription.segments, subscription.value);
+    subscription.deliver(subscription.filter ? applyFilter(value, subscription.filter) : value);
+  }
+}
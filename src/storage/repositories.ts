@@ -0,0 +1,201 @@
+import type { DataStore, Unsubscribe } from './dataStore';
+import { joinPath } from './dataStore';
+
+export type WithId<T> = T & { id: string };
+
+type StoreProvider = () => DataStore;
+
+type Updates<T> = Partial<T> | Record<string, unknown>;
+
+const toList = <T>(data: Record<string, T> | null): WithId<T>[] => {
+  if (!data) return [];
+  return Object.keys(data).map(key => ({ id: key, ...data[key] }));
+};
+
+// Arma el objeto con los campos leídos; null si ninguno existe
+const toFields = <T, K extends keyof T & string>(fields: readonly K[], values: unknown[]): Pick<T, K> | null => {
+  if (values.every(value => value === null || value === undefined)) return null;
+  const item: Record<string, unknown> = {};
+  fields.forEach((field, index) => {
+    if (values[index] !== null && values[index] !== undefined) item[field] = values[index];
+  });
+  return item as Pick<T, K>;
+};
+
+/**
+ * Colección de nivel superior (businesses, users, notifications)
+ */
+export class CollectionRepository<T> {
+  private readonly getStore: StoreProvider;
+  private readonly basePath: string;
+
+  constructor(getStore: StoreProvider, basePath: string) {
+    this.getStore = getStore;
+    this.basePath = basePath;
+  }
+
+  path(id?: string): string {
+    return id ? joinPath(this.basePath, id) : this.basePath;
+  }
+
+  newId(): string {
+    return this.getStore().newKey(this.basePath);
+  }
+
+  get(id: string): Promise<T | null> {
+    return this.getStore().get<T>(this.path(id));
+  }
+
+  // Lee solo los campos indicados, sin descargar el resto del nodo
+  async getFields<K extends keyof T & string>(id: string, fields: readonly K[]): Promise<Pick<T, K> | null> {
+    const values = await Promise.all(fields.map(field => this.getStore().get(joinPath(this.path(id), field))));
+    return toFields<T, K>(fields, values);
+  }
+
+  async getAll(): Promise<Record<string, T>> {
+    return (await this.getStore().get<Record<string, T>>(this.basePath)) || {};
+  }
+
+  async list(): Promise<WithId<T>[]> {
+    return toList(await this.getAll());
+  }
+
+  async findBy(field: string, value: string | number | boolean): Promise<WithId<T>[]> {
+    return toList(await this.getStore().queryByChild<T>(this.basePath, field, value));
+  }
+
+  async create(data: T): Promise<string> {
+    const id = this.newId();
+    await this.set(id, data);
+    return id;
+  }
+
+  set(id: string, data: T): Promise<void> {
+    return this.getStore().set(this.path(id), data);
+  }
+
+  update(id: string, updates: Updates<T>): Promise<void> {
+    return this.getStore().update(this.path(id), updates as Record<string, unknown>);
+  }
+
+  remove(id: string): Promise<void> {
+    return this.getStore().remove(this.path(id));
+  }
+
+  subscribe(id: string, callback: (item: T | null) => void, onError?: (error: Error) => void): Unsubscribe {
+    return this.getStore().subscribe<T>(this.path(id), callback, onError);
+  }
+
+  // Escucha solo los campos indicados; avisa cuando han llegado todos
+  subscribeFields<K extends keyof T & string>(
+    id: string,
+    fields: readonly K[],
+    callback: (item: Pick<T, K> | null) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    const values: unknown[] = new Array(fields.length);
+    const received = new Set<number>();
+    const unsubscribes = fields.map((field, index) =>
+      this.getStore().subscribe(joinPath(this.path(id), field), value => {
+        values[index] = value;
+        received.add(index);
+        if (received.size === fields.length) callback(toFields<T, K>(fields, values));
+      }, onError)
+    );
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+
+  subscribeAll(callback: (items: WithId<T>[]) => void, onError?: (error: Error) => void): Unsubscribe {
+    return this.getStore().subscribe<Record<string, T>>(this.basePath, data => callback(toList(data)), onError);
+  }
+
+  subscribeBy(
+    field: string,
+    value: string | number | boolean,
+    callback: (items: WithId<T>[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.getStore().subscribeByChild<T>(this.basePath, field, value, data => callback(toList(data)), onError);
+  }
+}
+
+/**
+ * Colección dentro de un negocio: businesses/{businessId}/{collection}
+ */
+export class BusinessCollectionRepository<T> {
+  private readonly getStore: StoreProvider;
+  private readonly collection: string;
+
+  constructor(getStore: StoreProvider, collection: string) {
+    this.getStore = getStore;
+    this.collection = collection;
+  }
+
+  path(businessId: string, id?: string): string {
+    return joinPath('businesses', businessId, this.collection, id || '');
+  }
+
+  newId(businessId: string): string {
+    return this.getStore().newKey(this.path(businessId));
+  }
+
+  get(businessId: string, id: string): Promise<T | null> {
+    return this.getStore().get<T>(this.path(businessId, id));
+  }
+
+  async list(businessId: string): Promise<WithId<T>[]> {
+    return toList(await this.getStore().get<Record<string, T>>(this.path(businessId)));
+  }
+
+  async findBy(businessId: string, field: string, value: string | number | boolean): Promise<WithId<T>[]> {
+    return toList(await this.getStore().queryByChild<T>(this.path(businessId), field, value));
+  }
+
+  // Elementos con el campo entre start y end (inclusive); el campo debe estar en .indexOn
+  async findByRange(businessId: string, field: string, start: string | number, end: string | number): Promise<WithId<T>[]> {
+    return toList(await this.getStore().queryByRange<T>(this.path(businessId), field, start, end));
+  }
+
+  async create(businessId: string, data: T): Promise<string> {
+    const id = this.newId(businessId);
+    await this.set(businessId, id, data);
+    return id;
+  }
+
+  set(businessId: string, id: string, data: T): Promise<void> {
+    return this.getStore().set(this.path(businessId, id), data);
+  }
+
+  update(businessId: string, id: string, updates: Updates<T>): Promise<void> {
+    return this.getStore().update(this.path(businessId, id), updates as Record<string, unknown>);
+  }
+
+  remove(businessId: string, id: string): Promise<void> {
+    return this.getStore().remove(this.path(businessId, id));
+  }
+
+  subscribe(businessId: string, callback: (items: WithId<T>[]) => void, onError?: (error: Error) => void): Unsubscribe {
+    return this.getStore().subscribe<Record<string, T>>(this.path(businessId), data => callback(toList(data)), onError);
+  }
+
+  subscribeBy(
+    businessId: string,
+    field: string,
+    value: string | number | boolean,
+    callback: (items: WithId<T>[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.getStore().subscribeByChild<T>(this.path(businessId), field, value, data => callback(toList(data)), onError);
+  }
+
+  subscribeByRange(
+    businessId: string,
+    field: string,
+    start: string | number,
+    end: string | number,
+    callback: (items: WithId<T>[]) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.getStore().subscribeByRange<T>(this.path(businessId), field, start, end, data => callback(toList(data)), onError);
+  }
+}
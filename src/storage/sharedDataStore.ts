@@ -0,0 +1,151 @@
+import type { DataStore, Unsubscribe } from './dataStore';
+
+interface Subscriber {
+  callback: (value: unknown) => void;
+  onError?: (error: Error) => void;
+}
+
+interface SharedListener {
+  subscribers: Set<Subscriber>;
+  hasValue: boolean;
+  value: unknown;
+  unsubscribe: Unsubscribe;
+  closeTimer?: ReturnType<typeof setTimeout>;
+}
+
+// Tiempo que un listener sin suscriptores sigue abierto, para no volver a
+// descargar los datos al cambiar de sección
+const DEFAULT_LINGER_MS = 10000;
+
+/**
+ * Comparte las suscripciones entre componentes: una sola por ruta y consulta,
+ * abierta mientras alguien la use. Quien se suscribe cuando ya hay datos los
+ * recibe al momento, sin esperar al servidor.
+ */
+export class SharedDataStore implements DataStore {
+  readonly store: DataStore;
+  private lingerMs: number;
+  private listeners = new Map<string, SharedListener>();
+
+  constructor(store: DataStore, lingerMs = DEFAULT_LINGER_MS) {
+    this.store = store;
+    this.lingerMs = lingerMs;
+  }
+
+  // Listeners abiertos en el almacenamiento envuelto
+  get openListeners(): number {
+    return this.listeners.size;
+  }
+
+  get<T = unknown>(path: string): Promise<T | null> {
+    return this.store.get<T>(path);
+  }
+
+  set(path: string, value: unknown): Promise<void> {
+    return this.store.set(path, value);
+  }
+
+  update(path: string, values: Record<string, unknown>): Promise<void> {
+    return this.store.update(path, values);
+  }
+
+  remove(path: string): Promise<void> {
+    return this.store.remove(path);
+  }
+
+  newKey(path: string): string {
+    return this.store.newKey(path);
+  }
+
+  queryByChild<T = unknown>(path: string, child: string, value: string | number | boolean): Promise<Record<string, T>> {
+    return this.store.queryByChild<T>(path, child, value);
+  }
+
+  queryByRange<T = unknown>(path: string, child: string, start: string | number, end: string | number): Promise<Record<string, T>> {
+    return this.store.queryByRange<T>(path, child, start, end);
+  }
+
+  subscribe<T = unknown>(path: string, callback: (value: T | null) => void, onError?: (error: Error) => void): Unsubscribe {
+    return this.share(
+      `value:${path}`,
+      (emit, fail) => this.store.subscribe(path, emit, fail),
+      { callback: value => callback(value as T | null), onError }
+    );
+  }
+
+  subscribeByChild<T = unknown>(
+    path: string,
+    child: string,
+    value: string | number | boolean,
+    callback: (items: Record<string, T>) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.share(
+      `child:${path}:${child}=${JSON.stringify(value)}`,
+      (emit, fail) => this.store.subscribeByChild(path, child, value, emit, fail),
+      { callback: items => callback(items as Record<string, T>), onError }
+    );
+  }
+
+  subscribeByRange<T = unknown>(
+    path: string,
+    child: string,
+    start: string | number,
+    end: string | number,
+    callback: (items: Record<string, T>) => void,
+    onError?: (error: Error) => void
+  ): Unsubscribe {
+    return this.share(
+      `range:${path}:${child}=${JSON.stringify(start)}..${JSON.stringify(end)}`,
+      (emit, fail) => this.store.subscribeByRange(path, child, start, end, emit, fail),
+      { callback: items => callback(items as Record<string, T>), onError }
+    );
+  }
+
+  private share(
+    key: string,
+    open: (emit: (value: unknown) => void, fail: (error: Error) => void) => Unsubscribe,
+    subscriber: Subscriber
+  ): Unsubscribe {
+    let listener = this.listeners.get(key);
+
+    if (listener) {
+      clearTimeout(listener.closeTimer);
+      listener.subscribers.add(subscriber);
+      if (listener.hasValue) subscriber.callback(listener.value);
+    } else {
+      const created: SharedListener = { subscribers: new Set([subscriber]), hasValue: false, value: undefined, unsubscribe: () => {} };
+      listener = created;
+      this.listeners.set(key, created);
+      created.unsubscribe = open(
+        value => {
+          created.value = value;
+          created.hasValue = true;
+          [...created.subscribers].forEach(item => item.callback(value));
+        },
+        error => {
+          // El servidor cancela la suscripción con error; la siguiente vuelve a intentarlo
+          if (this.listeners.get(key) === created) this.listeners.delete(key);
+          [...created.subscribers].forEach(item => item.onError?.(error));
+        }
+      );
+    }
+
+    const shared = listener;
+    return () => {
+      shared.subscribers.delete(subscriber);
+      if (shared.subscribers.size > 0) return;
+
+      const close = () => {
+        if (shared.subscribers.size > 0) return;
+        shared.unsubscribe();
+        if (this.listeners.get(key) === shared) this.listeners.delete(key);
+      };
+      if (this.lingerMs > 0) {
+        shared.closeTimer = setTimeout(close, this.lingerMs);
+      } else {
+        close();
+      }
+    };
+  }
+}
@@ -9,8 +9,9 @@ export interface User {
   businessAccess?: Record<string, {
     businessId: string;
     businessName: string;
-    businessKey: string;
-    role: 'admin' | 'editor' | 'viewer';
+    businessKey?: string; // Clave con la que se unió (accesos anteriores a las invitaciones)
+    invitationId?: string; // Invitación canjeada
+    role: BusinessRole;
     addedAt: string;
   }>;
   currentBusiness?: string | null;
@@ -20,6 +21,30 @@ export interface User {
   businessKeys?: BusinessKeyAccess[];
 }
 
+// Rol de un usuario dentro de un negocio ajeno (BusinessAccess.role):
+// admin gestiona servicios, profesionales y expedientes; editor, clientes y citas; viewer solo consulta
+export type BusinessRole = 'admin' | 'editor' | 'viewer';
+
+// Índice de claves de negocio: businessKeys/{businessKey}.
+// Permite encontrar el negocio de una clave sin recorrer todos los negocios.
+export interface BusinessKeyEntry {
+  businessId: string;
+  businessName: string;
+}
+
+// Invitación para unirse a un negocio; el id es el código que se comparte
+export interface BusinessInvitation {
+  id: string;
+  businessId: string;
+  businessName: string;
+  role: BusinessRole;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: number; // milisegundos, como las reglas de la base de datos
+  maxUses: number;
+  uses: number;
+}
+
 export interface BusinessKeyAccess {
   businessId: string;
   businessName: string;
@@ -27,10 +52,20 @@ export interface BusinessKeyAccess {
   addedAt: string;
 }
 
+// Índice de usuarios con acceso a un negocio: businesses/{businessId}/members/{uid}.
+// Permite al propietario listar a su equipo sin leer todos los usuarios.
+export interface BusinessMember {
+  id: string; // uid del usuario
+  displayName: string;
+  email: string;
+  joinedAt: string;
+}
+
 export interface BusinessLicense {
   type: '15days' | '1month' | '3months' | '6months' | '1year';
   startDate: string;
   endDate: string;
+  expiresAt?: number; // endDate en milisegundos; las reglas de la base de datos solo comparan números
   isActive: boolean;
   assignedBy: string; // Admin user ID
   assignedAt: string;
@@ -45,6 +80,7 @@ export interface Business {
   operatingHours: OperatingHours;
   ownerId: string;
   businessKey: string; // Clave hexadecimal única para asistentes
+  joinRole?: BusinessRole; // Rol que recibe quien se une con la clave (viewer si no se define)
   createdAt: string;
   updatedAt: string;
   category?: string;
@@ -54,6 +90,25 @@ export interface Business {
   description?: string;
   license?: BusinessLicense;
   isActive?: boolean;
+  slug?: string; // Dirección pública para reservas en línea
+  onlineBookingEnabled?: boolean;
+  recordFields?: Partial<Record<BusinessCategory, RecordFieldDefinition[]>>; // Campos propios que el propietario agrega a los expedientes
+  fiscal?: BusinessFiscalData; // Datos del emisor para facturar
+}
+
+// Trato del IVA en los servicios: los consultorios de salud suelen estar exentos
+export type InvoiceTaxTreatment = 'iva16' | 'exempt';
+
+// Datos fiscales del negocio como emisor de CFDI 4.0
+export interface BusinessFiscalData {
+  rfc: string;
+  legalName: string; // nombre o razón social como aparece en la constancia de situación fiscal
+  taxRegime: string; // clave del catálogo c_RegimenFiscal
+  postalCode: string; // código postal del domicilio fiscal; es el lugar de expedición
+  certificateNumber: string; // número del certificado de sello digital (CSD)
+  productCode: string; // clave c_ClaveProdServ de los servicios
+  taxTreatment: InvoiceTaxTreatment;
+  series: string;
 }
 
 export type BusinessCategory = 
@@ -122,11 +177,41 @@ export interface Client {
   age?: number;
   allergies?: string[];
   notes?: string;
+  fiscal?: ClientFiscalData; // Solo para quien pide factura
   createdAt: string;
   updatedAt: string;
   businessId: string;
 }
 
+// Datos fiscales del cliente como receptor de CFDI 4.0
+export interface ClientFiscalData {
+  rfc: string;
+  legalName: string;
+  taxRegime: string; // c_RegimenFiscal
+  postalCode: string; // domicilio fiscal
+  cfdiUse: string; // c_UsoCFDI
+}
+
+// Registro de una fusión de clientes duplicados
+export interface ClientMergeEntry {
+  id: string;
+  survivorId: string;
+  mergedClientId: string;
+  mergedClient: Client; // datos del cliente eliminado al momento de fusionar
+  previousSurvivor: Client;
+  appointmentIds: string[];
+  seriesIds: string[];
+  digitalRecordIds: string[];
+  waitlistEntryIds: string[];
+  // Las fusiones anteriores a los cobros y la facturación no los registran
+  chargeIds?: string[];
+  paymentIds?: string[];
+  invoiceIds?: string[];
+  mergedBy: string;
+  businessId: string;
+  createdAt: string;
+}
+
 export interface Appointment {
   id: string;
   clientId: string;
@@ -141,6 +226,234 @@ export interface Appointment {
   createdAt: string;
   updatedAt: string;
   resourceIndex?: number; // for services with multiple resources
+  providerId?: string | null; // profesional que atiende la cita
+  seriesId?: string; // citas generadas a partir de una serie recurrente
+  occurrenceDate?: string; // fecha original de la ocurrencia dentro de la serie
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'transfer';
+
+// Cuenta de una cita completada: businesses/{businessId}/charges/{appointmentId}
+export interface AppointmentCharge {
+  id: string; // id de la cita o de la ocurrencia de la serie
+  appointmentId: string;
+  clientId: string;
+  serviceId: string;
+  date: string; // fecha de la cita
+  price: number; // precio del servicio al cobrar
+  discount: number;
+  tip: number;
+  total: number; // precio - descuento + propina
+  notes?: string;
+  invoiceId?: string; // factura en la que aparece; timbrada, la cuenta y sus pagos ya no cambian
+  createdBy: string;
+  businessId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Pago recibido de una cuenta (una cuenta puede pagarse en varias partes) o cobro
+// suelto en caja, sin cita, que lleva concepto
+export interface Payment {
+  id: string;
+  appointmentId?: string;
+  clientId?: string;
+  concept?: string;
+  amount: number;
+  method: PaymentMethod;
+  date: string; // día en que se recibió
+  sessionId?: string; // caja abierta de quien lo recibió
+  receivedBy: string;
+  businessId: string;
+  createdAt: string;
+}
+
+// Lo esperado y lo contado al cerrar la caja, por método de pago
+export interface CashReconciliation {
+  expected: Record<PaymentMethod, number>;
+  counted: Record<PaymentMethod, number>;
+  difference: Record<PaymentMethod, number>; // contado - esperado
+  notes?: string;
+}
+
+// Turno de caja de un usuario: businesses/{businessId}/cashSessions/{sessionId}
+export interface CashSession {
+  id: string;
+  businessId: string;
+  date: string; // día de apertura
+  status: 'open' | 'closed';
+  openingFloat: number; // fondo inicial en efectivo
+  openedBy: string;
+  openedByName: string;
+  openedAt: string;
+  closedBy?: string;
+  closedByName?: string;
+  closedAt?: string;
+  reconciliation?: CashReconciliation;
+}
+
+export type CashMovementType = 'in' | 'out';
+
+// Entrada o salida manual de efectivo durante el turno
+export interface CashMovement {
+  id: string;
+  sessionId: string;
+  type: CashMovementType;
+  amount: number;
+  reason: string;
+  createdBy: string;
+  createdByName: string;
+  businessId: string;
+  createdAt: string;
+}
+
+export type InvoiceStatus = 'draft' | 'stamped';
+
+export type InvoiceIssuer = Pick<BusinessFiscalData, 'rfc' | 'legalName' | 'taxRegime' | 'postalCode'>;
+
+// Concepto de la factura: una cita, con importes antes de impuestos
+export interface InvoiceConcept {
+  appointmentId: string;
+  productCode: string;
+  description: string;
+  unitValue: number;
+  discount: number;
+  tax: number; // IVA trasladado; 0 si está exento
+}
+
+// Factura de citas pagadas de un cliente: businesses/{businessId}/invoices/{invoiceId}.
+// El XML se guarda sin sello hasta que un PAC lo timbra
+export interface Invoice {
+  id: string;
+  series: string;
+  folio: number;
+  clientId: string;
+  appointmentIds: string[];
+  issuedAt: string; // fecha del comprobante en hora local (AAAA-MM-DDThh:mm:ss)
+  paymentForm: string; // c_FormaPago
+  issuer: InvoiceIssuer; // datos fiscales al emitirla
+  receiver: ClientFiscalData;
+  taxTreatment: InvoiceTaxTreatment;
+  concepts: InvoiceConcept[];
+  subtotal: number;
+  discount: number;
+  taxes: number;
+  total: number;
+  xml: string;
+  status: InvoiceStatus;
+  uuid?: string; // folio fiscal que asigna el PAC al timbrar
+  stampedAt?: string;
+  stampProvider?: string;
+  createdBy: string;
+  businessId: string;
+  createdAt: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  count?: number; // número total de ocurrencias
+  until?: string; // fecha límite inclusiva "2025-12-31"
+}
+
+// Cambios aplicados a una sola ocurrencia de la serie
+export interface SeriesException {
+  cancelled?: boolean; // ocurrencia eliminada
+  date?: string;
+  startTime?: string;
+  endTime?: string;
+  status?: Appointment['status'];
+  notes?: string;
+  resourceIndex?: number;
+  providerId?: string | null;
+  updatedAt?: string;
+}
+
+export interface AppointmentSeries {
+  id: string;
+  clientId: string;
+  serviceId: string;
+  startDate: string; // fecha de la primera ocurrencia
+  startTime: string;
+  endTime: string;
+  status: Appointment['status'];
+  notes?: string;
+  rule: RecurrenceRule;
+  exceptions?: Record<string, SeriesException>; // llave: fecha original de la ocurrencia
+  resourceIndex?: number;
+  providerId?: string | null;
+  createdBy: string;
+  businessId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
+export type CalendarFeedScope = 'business' | 'provider' | 'client';
+
+// Enlace de suscripción iCalendar; el id es el token secreto de la URL
+export interface CalendarFeed {
+  id: string;
+  scope: CalendarFeedScope;
+  providerId?: string;
+  clientId?: string;
+  label: string;
+  businessId: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+export type WaitlistStatus = 'waiting' | 'booked' | 'cancelled';
+
+// Horario liberado que se ofreció a una entrada de la lista de espera
+export interface WaitlistOffer {
+  date: string;
+  startTime: string;
+  endTime: string;
+  offeredAt: string;
+}
+
+export interface WaitlistEntry {
+  id: string;
+  clientId: string;
+  serviceId: string;
+  preferredStartDate: string;
+  preferredEndDate: string;
+  preferredStartTime?: string; // Sin valor: cualquier hora del día
+  preferredEndTime?: string;
+  notes?: string;
+  status: WaitlistStatus;
+  offer?: WaitlistOffer | null;
+  appointmentId?: string;
+  createdBy: string;
+  businessId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProviderTimeOff {
+  startDate: string; // "2025-01-31"
+  endDate: string; // inclusiva
+  reason?: string;
+}
+
+// Profesional del negocio que atiende citas (estilista, terapeuta, etc.)
+export interface Provider {
+  id: string;
+  name: string;
+  userId?: string | null; // asistente vinculado, si tiene cuenta
+  email?: string;
+  phone?: string;
+  color?: string;
+  serviceIds?: string[]; // servicios que puede realizar; vacío = todos
+  workingHours: OperatingHours;
+  timeOff?: Record<string, ProviderTimeOff>;
+  isActive?: boolean;
+  businessId: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface DigitalRecord {
@@ -158,6 +471,55 @@ export interface DigitalRecord {
   createdBy: string;
   createdAt: string;
   updatedAt: string;
+  // Número de la versión actual; los registros anteriores a las versiones cuentan como 1
+  version?: number;
+  // Versión desde la que se restauró el contenido actual
+  restoredFrom?: number;
+  // Un expediente firmado ya no se modifica: los cambios se agregan como adendas
+  signedAt?: string;
+  signedBy?: string;
+  signedByName?: string;
+  addenda?: Record<string, DigitalRecordAddendum>;
+}
+
+export interface DigitalRecordAddendum {
+  text: string;
+  createdAt: string;
+  createdBy: string;
+  createdByName: string;
+}
+
+// Versión anterior de un expediente: businesses/{businessId}/recordVersions/{recordId}/{versionId}
+export type DigitalRecordVersion = Omit<DigitalRecord, 'addenda' | 'signedAt' | 'signedBy' | 'signedByName'> & {
+  versionedAt: string;
+  versionedBy: string;
+  versionedByName: string;
+};
+
+export type RecordFieldType = 'text' | 'textarea' | 'number' | 'scale' | 'select' | 'multiselect' | 'list' | 'boolean' | 'date';
+
+export type RecordFieldValue = string | number | boolean | string[];
+
+// Campo de un expediente; su valor se guarda en DigitalRecord.data[key]
+export interface RecordFieldDefinition {
+  key: string;
+  label: string;
+  type: RecordFieldType;
+  required?: boolean;
+  options?: string[]; // select y multiselect
+  unit?: string; // se muestra junto al valor (kg, min, cm...)
+  min?: number; // number y scale
+  max?: number;
+  placeholder?: string;
+  // Solo se muestra (y se valida) cuando otro campo tiene alguno de estos valores
+  showWhen?: { field: string; values: (string | number | boolean)[] };
+  custom?: boolean; // agregado por el propietario del negocio
+}
+
+export interface RecordFormSchema {
+  category: BusinessCategory;
+  recordLabel: string; // nombre del tipo de registro (Consulta Dermatológica, Servicio de Uñas...)
+  fields: RecordFieldDefinition[];
 }
 
 // Specific record types for different business types
@@ -202,15 +564,57 @@ export interface NailsRecord {
   notes?: string;
 }
 
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export type AuditEntityType =
+  | 'business'
+  | 'license'
+  | 'service'
+  | 'client'
+  | 'appointment'
+  | 'appointmentSeries'
+  | 'provider'
+  | 'waitlist'
+  | 'digitalRecord'
+  | 'charge'
+  | 'payment'
+  | 'cashSession'
+  | 'cashMovement'
+  | 'invoice';
+
+// Valor de un campo antes y después del cambio (ausente si el campo no existía)
+export interface AuditFieldChange {
+  before?: unknown;
+  after?: unknown;
+}
+
+// Entrada inmutable de la bitácora: auditLogs/{businessId}/{yyyy-MM-dd}/{entryId}
+export interface AuditEntry {
+  id: string;
+  businessId: string;
+  actorId: string;
+  actorName: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  entityPath: string;
+  entityLabel?: string;
+  changes?: Record<string, AuditFieldChange>;
+  summary?: string;
+  createdAt: string;
+}
+
 export interface Notification {
   id: string;
-  type: 'appointment_pending' | 'appointment_reminder' | 'system' | 'error' | 'license_expiring' | 'license_expired' | 'account_blocked' | 'account_reactivated' | 'assistant_linked' | 'record_updated';
+  type: 'appointment_pending' | 'appointment_reminder' | 'system' | 'error' | 'license_expiring' | 'license_expired' | 'account_blocked' | 'account_reactivated' | 'assistant_linked' | 'access_updated' | 'access_revoked' | 'record_updated' | 'waitlist_match';
   title: string;
   message: string;
   isRead: boolean;
   createdAt: string;
   businessId?: string;
   userId?: string;
+  // 'admins': para los usuarios con el custom claim admin, en lugar de un userId
+  audience?: 'admins';
   priority: 'low' | 'medium' | 'high' | 'critical';
   actionUrl?: string;
   metadata?: Record<string, any>;
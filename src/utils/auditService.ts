@@ -0,0 +1,179 @@
+import { auditLogRepository, getDataStore } from '../storage';
+import type { AuditAction, AuditEntityType, AuditEntry, AuditFieldChange } from '../types';
+import { format, eachDayOfInterval } from 'date-fns';
+import { buildBookingProjectionUpdates } from './bookingProjection';
+
+// Campos que cambian en cada escritura y no aportan a la bitácora
+const IGNORED_FIELDS = ['id', 'updatedAt'];
+
+type AuditDay = Record<string, Omit<AuditEntry, 'id'>>;
+
+// Quién hace el cambio
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
+// Cambio a registrar; el id de la entidad es el último segmento de su ruta
+export interface AuditChange {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityPath: string;
+  before?: object | null;
+  after?: object | null;
+  summary?: string;
+}
+
+// Firebase no acepta undefined; JSON lo descarta también dentro de objetos anidados
+const toStorable = (value: unknown): unknown => {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+};
+
+/**
+ * Campos que cambiaron entre dos versiones de una entidad
+ */
+export const diffFields = (
+  before: object | null | undefined,
+  after: object | null | undefined
+): Record<string, AuditFieldChange> => {
+  const previous = (before || {}) as Record<string, unknown>;
+  const next = (after || {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const changes: Record<string, AuditFieldChange> = {};
+
+  fields.forEach(field => {
+    if (IGNORED_FIELDS.includes(field)) return;
+    // null y undefined significan lo mismo: el campo no existe
+    if (JSON.stringify(previous[field] ?? null) === JSON.stringify(next[field] ?? null)) return;
+    changes[field] = {
+      before: toStorable(previous[field]),
+      after: toStorable(next[field])
+    };
+  });
+
+  return changes;
+};
+
+/**
+ * Nombre legible de la entidad para mostrar en la bitácora
+ */
+const describeEntity = (data: Record<string, unknown>): string | undefined => {
+  if (typeof data.name === 'string') return data.name;
+  if (typeof data.treatment === 'string' && data.treatment) return data.treatment;
+  if (typeof data.date === 'string') {
+    return typeof data.startTime === 'string' ? `${data.date} ${data.startTime}` : data.date;
+  }
+  return undefined;
+};
+
+/**
+ * Rutas de cada campo, equivalentes a update(path, values), para combinarlas con otras escrituras
+ */
+export const toFieldUpdates = (path: string, values: object): Record<string, unknown> => {
+  return Object.fromEntries(Object.entries(values).map(([field, value]) => [`${path}/${field}`, value]));
+};
+
+export class AuditService {
+  private static instance: AuditService;
+
+  private constructor() {}
+
+  static getInstance(): AuditService {
+    if (!AuditService.instance) {
+      AuditService.instance = new AuditService();
+    }
+    return AuditService.instance;
+  }
+
+  // Las entradas se agrupan por día local para consultar la bitácora por rango de fechas
+  private dayPath(businessId: string, day: string): string {
+    return auditLogRepository.path(`${businessId}/${day}`);
+  }
+
+  // Escrituras de las entradas de la bitácora; las actualizaciones sin cambios no se registran,
+  // salvo que lleven un resumen (p. ej. la restauración de un respaldo)
+  buildEntries(businessId: string, actor: AuditActor, changes: AuditChange[]): Record<string, unknown> {
+    const now = new Date();
+    const path = this.dayPath(businessId, format(now, 'yyyy-MM-dd'));
+    const updates: Record<string, unknown> = {};
+
+    changes.forEach(change => {
+      const fieldChanges = diffFields(change.before, change.after);
+      if (change.action === 'update' && Object.keys(fieldChanges).length === 0 && !change.summary) return;
+
+      const entry: Omit<AuditEntry, 'id'> = {
+        businessId,
+        actorId: actor.id,
+        actorName: actor.name,
+        action: change.action,
+        entityType: change.entityType,
+        entityId: change.entityPath.split('/').pop() || '',
+        entityPath: change.entityPath,
+        entityLabel: describeEntity({ ...(change.before || {}), ...(change.after || {}) }),
+        changes: fieldChanges,
+        summary: change.summary,
+        createdAt: now.toISOString()
+      };
+      updates[`${path}/${getDataStore().newKey(path)}`] = toStorable(entry);
+    });
+
+    return updates;
+  }
+
+  // Aplica las escrituras, sus entradas de la bitácora y la proyección pública de la agenda
+  // en una sola actualización
+  async commit(
+    businessId: string,
+    actor: AuditActor,
+    updates: Record<string, unknown>,
+    changes: AuditChange[]
+  ): Promise<void> {
+    const projection = await buildBookingProjectionUpdates(businessId, changes);
+    await getDataStore().update('', { ...updates, ...projection, ...this.buildEntries(businessId, actor, changes) });
+  }
+
+  // Crear una entidad en la ruta indicada
+  async create(businessId: string, actor: AuditActor, entityType: AuditEntityType, path: string, data: object): Promise<void> {
+    await this.commit(businessId, actor, { [path]: data }, [{ action: 'create', entityType, entityPath: path, after: data }]);
+  }
+
+  // Actualizar campos de una entidad; before es su versión actual
+  async update(
+    businessId: string,
+    actor: AuditActor,
+    entityType: AuditEntityType,
+    path: string,
+    before: object | null | undefined,
+    updates: object
+  ): Promise<void> {
+    await this.commit(businessId, actor, toFieldUpdates(path, updates), [
+      { action: 'update', entityType, entityPath: path, before, after: { ...(before || {}), ...updates } }
+    ]);
+  }
+
+  // Eliminar una entidad; before es su última versión
+  async remove(
+    businessId: string,
+    actor: AuditActor,
+    entityType: AuditEntityType,
+    path: string,
+    before: object | null | undefined
+  ): Promise<void> {
+    await this.commit(businessId, actor, { [path]: null }, [{ action: 'delete', entityType, entityPath: path, before }]);
+  }
+
+  // Entradas de un rango de días (más recientes primero)
+  async listEntries(businessId: string, from: Date, to: Date): Promise<AuditEntry[]> {
+    const days = eachDayOfInterval({ start: from, end: to }).map(day => format(day, 'yyyy-MM-dd'));
+    const results = await Promise.all(
+      days.map(day => getDataStore().get<AuditDay>(this.dayPath(businessId, day)))
+    );
+
+    return results
+      .flatMap(entries => Object.entries(entries || {}).map(([id, entry]) => ({ id, ...entry })))
+      // Las llaves son cronológicas: desempatan entradas del mismo milisegundo
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime() || b.id.localeCompare(a.id));
+  }
+}
+
+export const auditService = AuditService.getInstance();
@@ -0,0 +1,418 @@
+import type { Appointment, Business, DaySchedule, OperatingHours, Provider, Service } from '../types';
+
+export interface TimeRange {
+  start: number; // minutos desde medianoche
+  end: number;
+}
+
+export interface AvailableSlot {
+  startTime: string;
+  endTime: string;
+  resourceIndex: number;
+  freeResources: number;
+}
+
+export interface SlotCheckResult {
+  isAvailable: boolean;
+  reason?: string;
+  resourceIndex?: number;
+  conflicts: Appointment[];
+}
+
+export interface SlotCheckParams {
+  business: Business | null;
+  service: Service;
+  appointments: Appointment[];
+  date: string; // "2025-01-31"
+  startTime: string;
+  endTime: string;
+  excludeAppointmentId?: string;
+  provider?: Provider | null;
+}
+
+const WEEK_DAYS: (keyof OperatingHours)[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday'
+];
+
+// Estados que no ocupan un recurso
+export const FREE_STATUSES: Appointment['status'][] = ['cancelled', 'no-show'];
+
+/**
+ * Convierte una hora "HH:mm" a minutos desde medianoche
+ */
+export const timeToMinutes = (timeString: string): number => {
+  const [hours, minutes] = timeString.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/**
+ * Convierte minutos desde medianoche a una hora "HH:mm"
+ */
+export const minutesToTime = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Obtiene la llave del día de la semana para una fecha "yyyy-MM-dd"
+ */
+export const getWeekDayKey = (date: string): keyof OperatingHours => {
+  const [year, month, day] = date.split('-').map(Number);
+  return WEEK_DAYS[new Date(year, month - 1, day).getDay()];
+};
+
+/**
+ * Obtiene el horario de operación del negocio para una fecha
+ */
+export const getDaySchedule = (operatingHours: OperatingHours | undefined, date: string): DaySchedule | null => {
+  if (!operatingHours) return null;
+  return operatingHours[getWeekDayKey(date)] || null;
+};
+
+/**
+ * Interpreta el horario específico de un servicio.
+ * Formato aceptado: "09:00-13:00, 16:00-20:00"
+ */
+export const parseAvailableHours = (availableHours?: string): TimeRange[] => {
+  if (!availableHours || !availableHours.trim()) return [];
+
+  const ranges: TimeRange[] = [];
+  availableHours.split(/[,;]/).forEach(part => {
+    const match = part.trim().match(/^(\d{1,2}:\d{2})\s*-\s*(\d{1,2}:\d{2})$/);
+    if (match) {
+      const start = timeToMinutes(match[1]);
+      const end = timeToMinutes(match[2]);
+      if (end > start) {
+        ranges.push({ start, end });
+      }
+    }
+  });
+
+  return ranges.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Verifica que el texto de horario de un servicio sea válido
+ */
+export const isValidAvailableHours = (availableHours?: string): boolean => {
+  if (!availableHours || !availableHours.trim()) return true;
+  const parts = availableHours.split(/[,;]/).filter(part => part.trim());
+  return parseAvailableHours(availableHours).length === parts.length;
+};
+
+const intersectRanges = (a: TimeRange[], b: TimeRange[]): TimeRange[] => {
+  const result: TimeRange[] = [];
+  a.forEach(rangeA => {
+    b.forEach(rangeB => {
+      const start = Math.max(rangeA.start, rangeB.start);
+      const end = Math.min(rangeA.end, rangeB.end);
+      if (end > start) {
+        result.push({ start, end });
+      }
+    });
+  });
+  return result.sort((x, y) => x.start - y.start);
+};
+
+/**
+ * Verifica si un profesional puede realizar un servicio
+ */
+export const canProviderPerformService = (provider: Provider, serviceId: string): boolean => {
+  return !provider.serviceIds || provider.serviceIds.length === 0 || provider.serviceIds.includes(serviceId);
+};
+
+/**
+ * Verifica si una fecha cae dentro de algún periodo de ausencia del profesional
+ */
+export const isProviderOnTimeOff = (provider: Provider, date: string): boolean => {
+  return Object.values(provider.timeOff || {}).some(period => date >= period.startDate && date <= period.endDate);
+};
+
+/**
+ * Rangos en que trabaja un profesional en una fecha
+ */
+export const getProviderRanges = (provider: Provider, date: string): TimeRange[] => {
+  if (provider.isActive === false || isProviderOnTimeOff(provider, date)) return [];
+
+  const schedule = getDaySchedule(provider.workingHours, date);
+  if (!schedule || !schedule.isOpen || !schedule.openTime || !schedule.closeTime) return [];
+
+  return [{ start: timeToMinutes(schedule.openTime), end: timeToMinutes(schedule.closeTime) }];
+};
+
+/**
+ * Calcula los rangos en que se puede agendar un servicio en una fecha,
+ * combinando el horario del negocio con el horario propio del servicio
+ * y, si se indica, con el horario del profesional.
+ * Si no se conoce el horario del negocio se considera el día completo.
+ */
+export const getOpenRanges = (
+  business: Business | null,
+  service: Service,
+  date: string,
+  provider?: Provider | null
+): TimeRange[] => {
+  let ranges: TimeRange[] = [{ start: 0, end: 24 * 60 }];
+
+  const schedule = business ? getDaySchedule(business.operatingHours, date) : null;
+  if (business?.operatingHours) {
+    if (!schedule || !schedule.isOpen || !schedule.openTime || !schedule.closeTime) {
+      return [];
+    }
+    ranges = [{ start: timeToMinutes(schedule.openTime), end: timeToMinutes(schedule.closeTime) }];
+  }
+
+  const serviceRanges = parseAvailableHours(service.availableHours);
+  if (serviceRanges.length > 0) {
+    ranges = intersectRanges(ranges, serviceRanges);
+  }
+
+  if (provider) {
+    ranges = intersectRanges(ranges, getProviderRanges(provider, date));
+  }
+
+  return ranges;
+};
+
+/**
+ * Número de recursos de un servicio (al menos uno)
+ */
+export const getResourceCount = (service: Pick<Service, 'resources'>): number => {
+  return Math.max(1, service.resources || 1);
+};
+
+/**
+ * Obtiene las citas activas del mismo servicio que se traslapan con un horario
+ */
+export const getOverlappingAppointments = (
+  appointments: Appointment[],
+  serviceId: string,
+  date: string,
+  startTime: string,
+  endTime: string,
+  excludeAppointmentId?: string
+): Appointment[] => {
+  const startMinutes = timeToMinutes(startTime);
+  const endMinutes = timeToMinutes(endTime);
+
+  return appointments.filter(apt => {
+    if (excludeAppointmentId && apt.id === excludeAppointmentId) return false;
+    if (apt.serviceId !== serviceId || apt.date !== date) return false;
+    if (FREE_STATUSES.includes(apt.status)) return false;
+
+    return startMinutes < timeToMinutes(apt.endTime) && endMinutes > timeToMinutes(apt.startTime);
+  });
+};
+
+/**
+ * Obtiene las citas activas de un profesional que se traslapan con un horario,
+ * sin importar el servicio
+ */
+export const getProviderConflicts = (
+  appointments: Appointment[],
+  providerId: string,
+  date: string,
+  startTime: string,
+  endTime: string,
+  excludeAppointmentId?: string
+): Appointment[] => {
+  const startMinutes = timeToMinutes(startTime);
+  const endMinutes = timeToMinutes(endTime);
+
+  return appointments.filter(apt => {
+    if (excludeAppointmentId && apt.id === excludeAppointmentId) return false;
+    if (apt.providerId !== providerId || apt.date !== date) return false;
+    if (FREE_STATUSES.includes(apt.status)) return false;
+
+    return startMinutes < timeToMinutes(apt.endTime) && endMinutes > timeToMinutes(apt.startTime);
+  });
+};
+
+/**
+ * Busca el primer recurso libre dado un conjunto de citas que se traslapan.
+ * Las citas antiguas sin resourceIndex ocupan el primer recurso disponible.
+ */
+const findFreeResource = (overlapping: Appointment[], resourceCount: number): { index: number | null; free: number } => {
+  const used = new Set<number>();
+  let unassigned = 0;
+
+  overlapping.forEach(apt => {
+    if (apt.resourceIndex !== undefined && apt.resourceIndex !== null && apt.resourceIndex < resourceCount && !used.has(apt.resourceIndex)) {
+      used.add(apt.resourceIndex);
+    } else {
+      unassigned++;
+    }
+  });
+
+  const freeIndexes: number[] = [];
+  for (let i = 0; i < resourceCount; i++) {
+    if (!used.has(i)) freeIndexes.push(i);
+  }
+  // Las citas sin recurso asignado consumen los primeros recursos libres
+  const available = freeIndexes.slice(unassigned);
+
+  return {
+    index: available.length > 0 ? available[0] : null,
+    free: available.length
+  };
+};
+
+/**
+ * Verifica si un horario se puede reservar para un servicio y asigna el recurso
+ */
+export const checkSlotAvailability = ({
+  business,
+  service,
+  appointments,
+  date,
+  startTime,
+  endTime,
+  excludeAppointmentId,
+  provider
+}: SlotCheckParams): SlotCheckResult => {
+  const startMinutes = timeToMinutes(startTime);
+  const endMinutes = timeToMinutes(endTime);
+
+  if (endMinutes <= startMinutes) {
+    return {
+      isAvailable: false,
+      reason: 'La hora de fin debe ser posterior a la hora de inicio.',
+      conflicts: []
+    };
+  }
+
+  const schedule = business ? getDaySchedule(business.operatingHours, date) : null;
+  if (business?.operatingHours && (!schedule || !schedule.isOpen)) {
+    return {
+      isAvailable: false,
+      reason: 'El negocio está cerrado en la fecha seleccionada.',
+      conflicts: []
+    };
+  }
+
+  if (provider) {
+    if (!canProviderPerformService(provider, service.id)) {
+      return {
+        isAvailable: false,
+        reason: `${provider.name} no realiza este servicio.`,
+        conflicts: []
+      };
+    }
+    if (isProviderOnTimeOff(provider, date)) {
+      return {
+        isAvailable: false,
+        reason: `${provider.name} no está disponible en la fecha seleccionada (ausencia registrada).`,
+        conflicts: []
+      };
+    }
+    if (getProviderRanges(provider, date).length === 0) {
+      return {
+        isAvailable: false,
+        reason: `${provider.name} no trabaja en la fecha seleccionada.`,
+        conflicts: []
+      };
+    }
+  }
+
+  const openRanges = getOpenRanges(business, service, date, provider);
+  const fitsInRange = openRanges.some(range => startMinutes >= range.start && endMinutes <= range.end);
+  if (!fitsInRange) {
+    const hours = openRanges.map(range => `${minutesToTime(range.start)} - ${minutesToTime(range.end)}`).join(', ');
+    return {
+      isAvailable: false,
+      reason: hours
+        ? `El horario está fuera del horario disponible para este servicio (${hours}).`
+        : 'El servicio no está disponible en la fecha seleccionada.',
+      conflicts: []
+    };
+  }
+
+  if (provider) {
+    const providerConflicts = getProviderConflicts(appointments, provider.id, date, startTime, endTime, excludeAppointmentId);
+    if (providerConflicts.length > 0) {
+      return {
+        isAvailable: false,
+        reason: `${provider.name} ya tiene una cita en el horario seleccionado.`,
+        conflicts: providerConflicts
+      };
+    }
+  }
+
+  const overlapping = getOverlappingAppointments(appointments, service.id, date, startTime, endTime, excludeAppointmentId);
+  const { index } = findFreeResource(overlapping, getResourceCount(service));
+
+  if (index === null) {
+    return {
+      isAvailable: false,
+      reason: 'No hay recursos disponibles para este servicio en el horario seleccionado.',
+      conflicts: overlapping
+    };
+  }
+
+  return {
+    isAvailable: true,
+    resourceIndex: index,
+    conflicts: []
+  };
+};
+
+/**
+ * Calcula los horarios libres de un servicio en una fecha
+ */
+export const getAvailableSlots = (
+  business: Business | null,
+  service: Service,
+  appointments: Appointment[],
+  date: string,
+  stepMinutes: number = 30,
+  excludeAppointmentId?: string,
+  provider?: Provider | null
+): AvailableSlot[] => {
+  const slots: AvailableSlot[] = [];
+  const duration = service.duration;
+  const resourceCount = getResourceCount(service);
+
+  if (provider && !canProviderPerformService(provider, service.id)) return slots;
+
+  getOpenRanges(business, service, date, provider).forEach(range => {
+    for (let start = range.start; start + duration <= range.end; start += stepMinutes) {
+      const startTime = minutesToTime(start);
+      const endTime = minutesToTime(start + duration);
+
+      if (provider && getProviderConflicts(appointments, provider.id, date, startTime, endTime, excludeAppointmentId).length > 0) {
+        continue;
+      }
+      const overlapping = getOverlappingAppointments(appointments, service.id, date, startTime, endTime, excludeAppointmentId);
+      const { index, free } = findFreeResource(overlapping, resourceCount);
+
+      if (index !== null) {
+        slots.push({ startTime, endTime, resourceIndex: index, freeResources: free });
+      }
+    }
+  });
+
+  return slots;
+};
+
+/**
+ * Convierte el horario de operación al formato businessHours de FullCalendar
+ */
+export const toCalendarBusinessHours = (operatingHours: OperatingHours | undefined) => {
+  if (!operatingHours) return [];
+
+  return WEEK_DAYS
+    .map((day, index) => ({ schedule: operatingHours[day], index }))
+    .filter(({ schedule }) => schedule?.isOpen && schedule.openTime && schedule.closeTime)
+    .map(({ schedule, index }) => ({
+      daysOfWeek: [index],
+      startTime: schedule.openTime!,
+      endTime: schedule.closeTime!
+    }));
+};
@@ -0,0 +1,112 @@
+import { businessKeyRepository, businessRepository, getDataStore } from '../storage';
+import type { User } from '../types';
+import { auditService, type AuditActor } from './auditService';
+import { buildRestorePlan, createBackup, describeRestore } from './businessBackup';
+import type { BusinessBackup, RestoreMode, RestoreReport } from './businessBackup';
+import { generateUniqueBusinessKey } from './businessKey';
+import { buildBookingProjectionUpdates, toProjectionChanges } from './bookingProjection';
+
+// Campos del perfil que escribe una restauración, para su entrada en la bitácora
+const getProfileUpdates = (businessId: string, updates: Record<string, unknown>): Record<string, unknown> => {
+  const prefix = `${businessRepository.path(businessId)}/`;
+  return Object.fromEntries(
+    Object.entries(updates)
+      .filter(([path]) => path.startsWith(prefix) && !path.slice(prefix.length).includes('/'))
+      .map(([path, value]) => [path.slice(prefix.length), value])
+  );
+};
+
+export class BackupService {
+  private static instance: BackupService;
+
+  private constructor() {}
+
+  static getInstance(): BackupService {
+    if (!BackupService.instance) {
+      BackupService.instance = new BackupService();
+    }
+    return BackupService.instance;
+  }
+
+  // Generar el respaldo completo de un negocio
+  async exportBusiness(businessId: string): Promise<BusinessBackup> {
+    const node = await getDataStore().get<Record<string, unknown>>(businessRepository.path(businessId));
+    if (!node) {
+      throw new Error('No se encontró el negocio');
+    }
+    return createBackup(businessId, node);
+  }
+
+  // Calcular qué cambiaría al restaurar, sin escribir nada
+  async previewRestore(backup: BusinessBackup, mode: RestoreMode, businessId?: string): Promise<RestoreReport> {
+    if (mode === 'merge') {
+      if (!businessId) throw new Error('Selecciona el negocio en el que se restaurará el respaldo');
+      const node = await getDataStore().get<Record<string, unknown>>(businessRepository.path(businessId));
+      return buildRestorePlan(backup, businessId, mode, node).report;
+    }
+    return buildRestorePlan(backup, 'preview', mode, null).report;
+  }
+
+  // Fusionar el respaldo en un negocio existente: agrega o reemplaza registros por id.
+  // La bitácora recibe una sola entrada con el resumen de la fusión
+  async mergeIntoBusiness(backup: BusinessBackup, businessId: string, actor: AuditActor): Promise<RestoreReport> {
+    const node = await getDataStore().get<Record<string, unknown>>(businessRepository.path(businessId));
+    if (!node) {
+      throw new Error('No se encontró el negocio');
+    }
+
+    const { updates, report } = buildRestorePlan(backup, businessId, 'merge', node);
+    if (Object.keys(updates).length > 0) {
+      const projection = await buildBookingProjectionUpdates(businessId, toProjectionChanges(businessId, backup.collections, node));
+      const profile = getProfileUpdates(businessId, updates);
+      await auditService.commit(businessId, actor, { ...updates, ...projection }, [{
+        action: 'update',
+        entityType: 'business',
+        entityPath: businessRepository.path(businessId),
+        before: Object.fromEntries(Object.keys(profile).map(field => [field, node[field] ?? null])),
+        after: profile,
+        summary: describeRestore(report)
+      }]);
+    }
+    return report;
+  }
+
+  // Crear un negocio nuevo a partir del respaldo y asignarlo al propietario.
+  // También sirve para mover un negocio a otra cuenta; la bitácora del negocio nuevo
+  // empieza con el resumen de la restauración
+  async restoreIntoNewBusiness(backup: BusinessBackup, owner: User): Promise<{ businessId: string; report: RestoreReport }> {
+    const businessKey = await generateUniqueBusinessKey();
+    const businessId = businessRepository.newId();
+    const timestamp = new Date().toISOString();
+
+    const { updates, report } = buildRestorePlan(backup, businessId, 'new', null, {
+      ownerId: owner.uid,
+      businessKey,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    });
+
+    updates[businessKeyRepository.path(businessKey)] = { businessId, businessName: backup.business.name || '' };
+    updates[`users/${owner.uid}/businessId`] = businessId;
+    updates[`users/${owner.uid}/currentBusiness`] = businessId;
+    updates[`users/${owner.uid}/businessAccess/${businessId}`] = {
+      businessId,
+      businessName: backup.business.name || '',
+      businessKey,
+      role: 'admin',
+      addedAt: timestamp
+    };
+    Object.assign(updates, await buildBookingProjectionUpdates(businessId, toProjectionChanges(businessId, backup.collections)));
+
+    await auditService.commit(businessId, { id: owner.uid, name: owner.displayName || owner.email }, updates, [{
+      action: 'create',
+      entityType: 'business',
+      entityPath: businessRepository.path(businessId),
+      after: getProfileUpdates(businessId, updates),
+      summary: describeRestore(report)
+    }]);
+    return { businessId, report };
+  }
+}
+
+export const backupService = BackupService.getInstance();
@@ -0,0 +1,175 @@
+import type { Appointment, AppointmentSeries, AuditEntityType } from '../types';
+import { FREE_STATUSES } from './availabilityEngine';
+import { toDateKey } from './dateWindow';
+import { normalizePhone } from './phone';
+import { expandSeries } from './recurrence';
+
+// Proyección pública de la agenda. La página de reservas no lee citas, series ni clientes:
+// - bookingSlots/{businessId}/{fecha}/{idCita}: horarios ocupados, sin cliente ni notas
+// - bookingClients/{businessId}/{hashTeléfono}: id del cliente con ese teléfono
+export const BOOKING_SLOTS_PATH = 'bookingSlots';
+export const BOOKING_CLIENTS_PATH = 'bookingClients';
+
+export interface BookingSlot {
+  serviceId: string;
+  startTime: string;
+  endTime: string;
+  resourceIndex: number;
+}
+
+// Cambio de una entidad (compatible con AuditChange); el id es el último segmento de la ruta
+export interface ProjectionChange {
+  entityType: AuditEntityType;
+  entityPath: string;
+  before?: object | null;
+  after?: object | null;
+}
+
+export type ProjectedCollection = 'appointments' | 'appointmentSeries' | 'clients';
+
+const ENTITY_TYPES: Record<ProjectedCollection, AuditEntityType> = {
+  appointments: 'appointment',
+  appointmentSeries: 'appointmentSeries',
+  clients: 'client'
+};
+
+export const getBookingSlotsPath = (businessId: string, date: string): string => {
+  return `${BOOKING_SLOTS_PATH}/${businessId}/${date}`;
+};
+
+export const getBookingClientPath = (businessId: string, phoneHash: string): string => {
+  return `${BOOKING_CLIENTS_PATH}/${businessId}/${phoneHash}`;
+};
+
+/**
+ * Hash SHA-256 (hex) del teléfono normalizado; el índice público no expone números
+ */
+export const hashPhone = async (businessId: string, phone: string): Promise<string> => {
+  const data = new TextEncoder().encode(`${businessId}:${normalizePhone(phone)}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Horario ocupado de una cita; las canceladas y sin asistencia no ocupan
+ */
+export const toBookingSlot = (appointment: Appointment): BookingSlot | null => {
+  if (FREE_STATUSES.includes(appointment.status)) return null;
+  return {
+    serviceId: appointment.serviceId,
+    startTime: appointment.startTime,
+    endTime: appointment.endTime,
+    resourceIndex: appointment.resourceIndex ?? 0
+  };
+};
+
+/**
+ * Cita mínima a partir de un horario publicado, para el motor de disponibilidad
+ */
+export const fromBookingSlot = (businessId: string, date: string, id: string, slot: BookingSlot): Appointment => ({
+  id,
+  clientId: '',
+  serviceId: slot.serviceId,
+  date,
+  startTime: slot.startTime,
+  endTime: slot.endTime,
+  status: 'confirmed',
+  resourceIndex: slot.resourceIndex,
+  providerId: null,
+  createdBy: '',
+  businessId,
+  createdAt: '',
+  updatedAt: ''
+});
+
+const isAgendaData = (data: Record<string, unknown>): boolean => {
+  return typeof data.serviceId === 'string' && typeof data.startTime === 'string' && typeof data.endTime === 'string';
+};
+
+// Ocurrencias que representa una versión de una cita o de una serie
+const getOccurrences = (change: ProjectionChange, data: object | null | undefined): Appointment[] => {
+  if (!data) return [];
+  const id = change.entityPath.split('/').pop() || '';
+  if (change.entityType === 'appointment') {
+    return [{ ...(data as Appointment), id }];
+  }
+  return expandSeries({ ...(data as AppointmentSeries), id });
+};
+
+// Horarios a quitar y a publicar por los cambios en citas y series
+const getSlotUpdates = (businessId: string, changes: ProjectionChange[]): Record<string, unknown> => {
+  const today = toDateKey(new Date());
+  const removed: Record<string, null> = {};
+  const published: Record<string, BookingSlot> = {};
+
+  changes.forEach(change => {
+    if (change.entityType !== 'appointment' && change.entityType !== 'appointmentSeries') return;
+    // Un cambio sin la versión completa (p. ej. solo el cliente) no mueve horarios
+    const complete = [change.before, change.after].every(data => !data || isAgendaData(data as Record<string, unknown>));
+    if (!complete) return;
+
+    getOccurrences(change, change.before).forEach(apt => {
+      removed[`${getBookingSlotsPath(businessId, apt.date)}/${apt.id}`] = null;
+    });
+    getOccurrences(change, change.after).forEach(apt => {
+      const slot = apt.date >= today ? toBookingSlot(apt) : null;
+      if (slot) published[`${getBookingSlotsPath(businessId, apt.date)}/${apt.id}`] = slot;
+    });
+  });
+
+  return { ...removed, ...published };
+};
+
+// Entradas del índice de teléfonos por los cambios en clientes
+const getClientIndexUpdates = async (businessId: string, changes: ProjectionChange[]): Promise<Record<string, unknown>> => {
+  const removed: Record<string, null> = {};
+  const published: Record<string, string> = {};
+
+  for (const change of changes) {
+    if (change.entityType !== 'client') continue;
+    const beforePhone = (change.before as { phone?: string } | null | undefined)?.phone;
+    const afterPhone = (change.after as { phone?: string } | null | undefined)?.phone;
+
+    if (beforePhone && normalizePhone(beforePhone)) {
+      removed[getBookingClientPath(businessId, await hashPhone(businessId, beforePhone))] = null;
+    }
+    if (afterPhone && normalizePhone(afterPhone)) {
+      published[getBookingClientPath(businessId, await hashPhone(businessId, afterPhone))] = change.entityPath.split('/').pop() || '';
+    }
+  }
+
+  // Al fusionar duplicados con el mismo teléfono, la entrada queda con el cliente que sigue existiendo
+  return { ...removed, ...published };
+};
+
+/**
+ * Escrituras de la proyección pública que acompañan a los cambios de la agenda y los clientes
+ */
+export const buildBookingProjectionUpdates = async (
+  businessId: string,
+  changes: ProjectionChange[]
+): Promise<Record<string, unknown>> => {
+  return {
+    ...getSlotUpdates(businessId, changes),
+    ...await getClientIndexUpdates(businessId, changes)
+  };
+};
+
+/**
+ * Cambios equivalentes a escribir colecciones completas (restauración, migración):
+ * current son las versiones que se reemplazan
+ */
+export const toProjectionChanges = (
+  businessId: string,
+  collections: Partial<Record<ProjectedCollection, Record<string, object>>>,
+  current: Partial<Record<ProjectedCollection, Record<string, object>>> = {}
+): ProjectionChange[] => {
+  return (Object.keys(ENTITY_TYPES) as ProjectedCollection[]).flatMap(collection =>
+    Object.entries(collections[collection] || {}).map(([id, after]) => ({
+      entityType: ENTITY_TYPES[collection],
+      entityPath: `businesses/${businessId}/${collection}/${id}`,
+      before: current[collection]?.[id] || null,
+      after
+    }))
+  );
+};
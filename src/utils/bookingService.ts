@@ -0,0 +1,255 @@
+import { appointmentRepository, businessRepository, clientRepository, getDataStore, serviceRepository } from '../storage';
+import type { Appointment, Business, Service } from '../types';
+import { checkSlotAvailability } from './availabilityEngine';
+import { fromBookingSlot, getBookingClientPath, getBookingSlotsPath, hashPhone, toBookingSlot } from './bookingProjection';
+import type { BookingSlot } from './bookingProjection';
+import { normalizePhone } from './phone';
+import { notificationService } from './notificationService';
+
+// Valor de createdBy para las citas creadas desde la página pública
+export const PUBLIC_BOOKING_CREATOR = 'public-booking';
+
+export interface PublicBusiness {
+  business: Business;
+  services: Service[];
+}
+
+// Campos del perfil que la página pública puede leer; deben coincidir con database.rules.json
+export const PUBLIC_BUSINESS_FIELDS = [
+  'name',
+  'categories',
+  'category',
+  'operatingHours',
+  'ownerId',
+  'address',
+  'phone',
+  'email',
+  'description',
+  'slug'
+] as const;
+
+type PublicProfile = Pick<Business, 'onlineBookingEnabled' | 'isActive' | typeof PUBLIC_BUSINESS_FIELDS[number]>;
+
+export interface PublicBookingRequest {
+  businessId: string;
+  serviceId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  name: string;
+  phone: string;
+  email?: string;
+  notes?: string;
+}
+
+/**
+ * Verifica que un slug tenga un formato válido
+ */
+export const isValidSlug = (slug: string): boolean => {
+  return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug) && slug.length >= 3 && slug.length <= 50;
+};
+
+export class BookingService {
+  private static instance: BookingService;
+
+  private constructor() {}
+
+  static getInstance(): BookingService {
+    if (!BookingService.instance) {
+      BookingService.instance = new BookingService();
+    }
+    return BookingService.instance;
+  }
+
+  // URL pública de reservas de un negocio
+  getBookingUrl(slug: string): string {
+    return `${window.location.origin}/reservar/${slug}`;
+  }
+
+  // Verificar si un slug está libre o ya pertenece al negocio
+  async isSlugAvailable(slug: string, businessId: string): Promise<boolean> {
+    const owner = await getDataStore().get<string>(`businessSlugs/${slug}`);
+    return owner === null || owner === businessId;
+  }
+
+  // Asignar slug a un negocio liberando el anterior
+  async assignSlug(businessId: string, slug: string, previousSlug?: string): Promise<void> {
+    if (!isValidSlug(slug)) {
+      throw new Error('La dirección solo puede contener letras minúsculas, números y guiones (mínimo 3 caracteres)');
+    }
+
+    const isAvailable = await this.isSlugAvailable(slug, businessId);
+    if (!isAvailable) {
+      throw new Error('Esta dirección ya está en uso por otro negocio');
+    }
+
+    const updates: Record<string, string | null> = {
+      [`businessSlugs/${slug}`]: businessId,
+      [`businesses/${businessId}/slug`]: slug,
+      [`businesses/${businessId}/updatedAt`]: new Date().toISOString()
+    };
+
+    if (previousSlug && previousSlug !== slug) {
+      updates[`businessSlugs/${previousSlug}`] = null;
+    }
+
+    await getDataStore().update('', updates);
+  }
+
+  // Leer el perfil público campo por campo: las reglas no permiten leer el nodo
+  // completo del negocio (clientes, expedientes, licencia) sin ser miembro
+  private async getPublicBusiness(businessId: string): Promise<Business | null> {
+    const basePath = businessRepository.path(businessId);
+    const [onlineBookingEnabled, isActive] = await Promise.all([
+      getDataStore().get<boolean>(`${basePath}/onlineBookingEnabled`),
+      getDataStore().get<boolean>(`${basePath}/isActive`)
+    ]);
+    if (!onlineBookingEnabled || isActive === false) return null;
+
+    const values = await Promise.all(
+      PUBLIC_BUSINESS_FIELDS.map(field => getDataStore().get(`${basePath}/${field}`))
+    );
+    const profile = Object.fromEntries(
+      PUBLIC_BUSINESS_FIELDS
+        .map((field, index) => [field, values[index]])
+        .filter(([, value]) => value !== null)
+    ) as PublicProfile;
+
+    return {
+      id: businessId,
+      businessKey: '',
+      createdAt: '',
+      updatedAt: '',
+      ...profile,
+      onlineBookingEnabled,
+      isActive: isActive ?? undefined
+    };
+  }
+
+  // Obtener negocio y servicios activos a partir del slug
+  async getBusinessBySlug(slug: string): Promise<PublicBusiness | null> {
+    const businessId = await getDataStore().get<string>(`businessSlugs/${slug}`);
+    if (!businessId) return null;
+
+    const business = await this.getPublicBusiness(businessId);
+    if (!business) return null;
+
+    const services = (await serviceRepository.list(businessId)).filter(service => service.isActive);
+
+    return { business, services };
+  }
+
+  // Horarios ocupados de una fecha, desde la proyección pública de la agenda
+  async getAppointmentsForDate(businessId: string, date: string): Promise<Appointment[]> {
+    const slots = await getDataStore().get<Record<string, BookingSlot>>(getBookingSlotsPath(businessId, date));
+    return Object.entries(slots || {}).map(([id, slot]) => fromBookingSlot(businessId, date, id, slot));
+  }
+
+  // Buscar el cliente por teléfono en el índice público o preparar su alta.
+  // Devuelve las escrituras del cliente nuevo para hacerlas junto con la cita.
+  async findOrCreateClient(
+    businessId: string,
+    data: { name: string; phone: string; email?: string }
+  ): Promise<{ clientId: string; updates: Record<string, unknown> }> {
+    const normalizedPhone = normalizePhone(data.phone);
+    const indexPath = getBookingClientPath(businessId, await hashPhone(businessId, normalizedPhone));
+
+    const existingId = await getDataStore().get<string>(indexPath);
+    if (existingId) return { clientId: existingId, updates: {} };
+
+    const timestamp = new Date().toISOString();
+    const clientId = clientRepository.newId(businessId);
+    return {
+      clientId,
+      updates: {
+        [clientRepository.path(businessId, clientId)]: {
+          name: data.name.trim(),
+          phone: normalizedPhone,
+          email: data.email?.trim() || '',
+          businessId,
+          createdAt: timestamp,
+          updatedAt: timestamp
+        },
+        [indexPath]: clientId
+      }
+    };
+  }
+
+  // Crear una cita pendiente desde la página pública
+  async createBooking(request: PublicBookingRequest): Promise<string> {
+    const business = await this.getPublicBusiness(request.businessId);
+    if (!business) {
+      throw new Error('Negocio no encontrado');
+    }
+
+    const serviceData = await serviceRepository.get(request.businessId, request.serviceId);
+    if (!serviceData || !serviceData.isActive) {
+      throw new Error('El servicio seleccionado no está disponible');
+    }
+    const service: Service = { id: request.serviceId, ...serviceData };
+
+    // Se vuelve a validar por si el horario se ocupó mientras el cliente llenaba el formulario
+    const appointments = await this.getAppointmentsForDate(request.businessId, request.date);
+    const availability = checkSlotAvailability({
+      business,
+      service,
+      appointments,
+      date: request.date,
+      startTime: request.startTime,
+      endTime: request.endTime
+    });
+
+    if (!availability.isAvailable) {
+      throw new Error('El horario seleccionado ya no está disponible. Por favor elige otro.');
+    }
+
+    const { clientId, updates } = await this.findOrCreateClient(request.businessId, {
+      name: request.name,
+      phone: request.phone,
+      email: request.email
+    });
+
+    const timestamp = new Date().toISOString();
+    const appointmentId = appointmentRepository.newId(request.businessId);
+    const appointment: Omit<Appointment, 'id'> = {
+      clientId,
+      serviceId: request.serviceId,
+      date: request.date,
+      startTime: request.startTime,
+      endTime: request.endTime,
+      status: 'pending',
+      notes: request.notes || '',
+      resourceIndex: availability.resourceIndex ?? 0,
+      providerId: null,
+      createdBy: PUBLIC_BOOKING_CREATOR,
+      businessId: request.businessId,
+      createdAt: timestamp,
+      updatedAt: timestamp
+    };
+
+    // Cliente, cita y horario ocupado se escriben juntos: las reglas solo aceptan el horario
+    // público de una cita que se crea en la misma escritura
+    await getDataStore().update('', {
+      ...updates,
+      [appointmentRepository.path(request.businessId, appointmentId)]: appointment,
+      [`${getBookingSlotsPath(request.businessId, request.date)}/${appointmentId}`]: toBookingSlot({ ...appointment, id: appointmentId })
+    });
+
+    try {
+      await notificationService.notifyPublicBooking(
+        request.businessId,
+        business.ownerId,
+        request.name,
+        service.name,
+        request.date,
+        request.startTime
+      );
+    } catch (error) {
+      console.error('Error notifying public booking:', error);
+    }
+
+    return appointmentId;
+  }
+}
+
+export const bookingService = BookingService.getInstance();
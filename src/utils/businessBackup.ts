@@ -0,0 +1,396 @@
+import type { Business } from '../types';
+
+export const BACKUP_FORMAT = 'makeagend-business-backup';
+export const BACKUP_VERSION = 1;
+
+export type BackupCollection =
+  | 'services'
+  | 'clients'
+  | 'providers'
+  | 'appointments'
+  | 'appointmentSeries'
+  | 'waitlist'
+  | 'digitalRecords'
+  | 'recordVersions'
+  | 'clientMerges'
+  | 'charges'
+  | 'payments'
+  | 'cashSessions'
+  | 'cashMovements'
+  | 'invoices';
+
+export const BACKUP_COLLECTIONS: { collection: BackupCollection; label: string }[] = [
+  { collection: 'services', label: 'Servicios' },
+  { collection: 'clients', label: 'Clientes' },
+  { collection: 'providers', label: 'Profesionales' },
+  { collection: 'appointments', label: 'Citas' },
+  { collection: 'appointmentSeries', label: 'Citas recurrentes' },
+  { collection: 'waitlist', label: 'Lista de espera' },
+  { collection: 'digitalRecords', label: 'Expedientes' },
+  { collection: 'recordVersions', label: 'Historial de expedientes' },
+  { collection: 'clientMerges', label: 'Fusiones de clientes' },
+  { collection: 'charges', label: 'Cuentas' },
+  { collection: 'payments', label: 'Pagos' },
+  { collection: 'cashSessions', label: 'Cajas' },
+  { collection: 'cashMovements', label: 'Movimientos de caja' },
+  { collection: 'invoices', label: 'Facturas' }
+];
+
+type BackupItems = Record<string, Record<string, unknown>>;
+
+// Colecciones agrupadas por registro: recordVersions/{recordId}/{versionId}
+const NESTED_COLLECTIONS: BackupCollection[] = ['recordVersions'];
+
+// Colecciones que solo se agregan (historial y bitácora): al fusionar no se reemplazan
+const APPEND_ONLY_COLLECTIONS: BackupCollection[] = ['recordVersions', 'clientMerges'];
+
+// Archivo de respaldo: perfil del negocio y sus colecciones tal como están en la base de datos
+export interface BusinessBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  sourceBusinessId: string;
+  business: Partial<Omit<Business, 'id'>>;
+  collections: Record<BackupCollection, BackupItems>;
+}
+
+export interface BackupValidationResult {
+  backup: BusinessBackup | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export type RestoreMode = 'new' | 'merge';
+
+export interface RestoreCollectionReport {
+  added: number;
+  updated: number;
+  unchanged: number;
+}
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  profileChanges: string[]; // etiquetas de los campos del perfil que cambian
+  collections: Record<BackupCollection, RestoreCollectionReport>;
+}
+
+// Campos del perfil que no se copian a un negocio nuevo
+const NON_TRANSFERABLE_PROFILE_FIELDS: (keyof Business)[] = ['license', 'isActive', 'slug', 'onlineBookingEnabled'];
+
+// Campos del perfil que forman parte del respaldo
+const PROFILE_FIELDS: (keyof Business)[] = [
+  'name', 'categories', 'operatingHours', 'ownerId', 'businessKey', 'joinRole', 'createdAt', 'updatedAt',
+  'category', 'address', 'phone', 'email', 'description', 'license', 'isActive', 'slug', 'onlineBookingEnabled',
+  'recordFields', 'fiscal'
+];
+
+// Campos del perfil que se actualizan al fusionar un respaldo en un negocio existente
+const MERGEABLE_PROFILE_FIELDS: { field: keyof Business; label: string }[] = [
+  { field: 'name', label: 'Nombre' },
+  { field: 'categories', label: 'Categorías' },
+  { field: 'category', label: 'Categoría principal' },
+  { field: 'operatingHours', label: 'Horario' },
+  { field: 'address', label: 'Dirección' },
+  { field: 'phone', label: 'Teléfono' },
+  { field: 'email', label: 'Email' },
+  { field: 'description', label: 'Descripción' },
+  { field: 'joinRole', label: 'Rol al unirse con la clave' },
+  { field: 'recordFields', label: 'Campos de expedientes' },
+  { field: 'fiscal', label: 'Datos fiscales' }
+];
+
+type FieldType = 'string' | 'number' | 'boolean' | 'object';
+
+const REQUIRED_PROFILE_FIELDS: Record<string, FieldType> = {
+  name: 'string',
+  categories: 'object',
+  operatingHours: 'object'
+};
+
+const REQUIRED_FIELDS: Record<BackupCollection, Record<string, FieldType>> = {
+  services: { name: 'string', duration: 'number' },
+  clients: { name: 'string', phone: 'string' },
+  providers: { name: 'string', workingHours: 'object' },
+  appointments: { clientId: 'string', serviceId: 'string', date: 'string', startTime: 'string', endTime: 'string', status: 'string' },
+  appointmentSeries: { clientId: 'string', serviceId: 'string', startDate: 'string', startTime: 'string', endTime: 'string', rule: 'object' },
+  waitlist: { clientId: 'string', serviceId: 'string', status: 'string' },
+  digitalRecords: { clientId: 'string', date: 'string' },
+  recordVersions: { version: 'number', versionedAt: 'string' },
+  clientMerges: { survivorId: 'string', mergedClientId: 'string', createdAt: 'string' },
+  charges: { appointmentId: 'string', clientId: 'string', date: 'string', price: 'number', total: 'number' },
+  payments: { amount: 'number', method: 'string', date: 'string' },
+  cashSessions: { date: 'string', status: 'string', openingFloat: 'number', openedBy: 'string' },
+  cashMovements: { sessionId: 'string', type: 'string', amount: 'number', reason: 'string' },
+  invoices: { series: 'string', folio: 'number', clientId: 'string', xml: 'string', status: 'string' }
+};
+
+const FIELD_PATTERNS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}/,
+  startDate: /^\d{4}-\d{2}-\d{2}$/,
+  startTime: /^\d{2}:\d{2}$/,
+  endTime: /^\d{2}:\d{2}$/
+};
+
+// Referencias a otras colecciones que deben existir en el mismo respaldo
+const REFERENCES: Partial<Record<BackupCollection, Record<string, BackupCollection>>> = {
+  appointments: { clientId: 'clients', serviceId: 'services', providerId: 'providers' },
+  appointmentSeries: { clientId: 'clients', serviceId: 'services', providerId: 'providers' },
+  waitlist: { clientId: 'clients', serviceId: 'services' },
+  digitalRecords: { clientId: 'clients' },
+  clientMerges: { survivorId: 'clients' },
+  charges: { clientId: 'clients' },
+  payments: { clientId: 'clients', appointmentId: 'charges', sessionId: 'cashSessions' },
+  cashMovements: { sessionId: 'cashSessions' },
+  invoices: { clientId: 'clients' }
+};
+
+const MAX_REPORTED_ISSUES = 20;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const emptyCollections = (): Record<BackupCollection, BackupItems> => {
+  return Object.fromEntries(BACKUP_COLLECTIONS.map(({ collection }) => [collection, {}])) as Record<BackupCollection, BackupItems>;
+};
+
+// Serialización con llaves ordenadas para comparar valores sin importar el orden
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (isRecord(value)) {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+};
+
+// Entradas de una colección como [ruta relativa, registro]; las agrupadas se aplanan por versión
+const getEntries = (collection: BackupCollection, items: Record<string, unknown>): [string, unknown][] => {
+  if (!NESTED_COLLECTIONS.includes(collection)) return Object.entries(items);
+  return Object.entries(items).flatMap(([groupId, group]) =>
+    isRecord(group) ? Object.entries(group).map(([id, item]) => [`${groupId}/${id}`, item] as [string, unknown]) : [[groupId, group]]
+  );
+};
+
+const getAtPath = (items: Record<string, unknown>, path: string): unknown => {
+  return path.split('/').reduce<unknown>((value, key) => (isRecord(value) ? value[key] : undefined), items);
+};
+
+const limitIssues = (issues: string[]): string[] => {
+  if (issues.length <= MAX_REPORTED_ISSUES) return issues;
+  return [...issues.slice(0, MAX_REPORTED_ISSUES), `... y ${issues.length - MAX_REPORTED_ISSUES} más`];
+};
+
+/**
+ * Genera el respaldo a partir del nodo businesses/{id} de la base de datos
+ */
+export const createBackup = (businessId: string, node: Record<string, unknown>): BusinessBackup => {
+  const business: Partial<Omit<Business, 'id'>> = {};
+  PROFILE_FIELDS.forEach(field => {
+    if (node[field] !== undefined) Object.assign(business, { [field]: node[field] });
+  });
+
+  const collections = emptyCollections();
+  BACKUP_COLLECTIONS.forEach(({ collection }) => {
+    if (isRecord(node[collection])) collections[collection] = node[collection] as BackupItems;
+  });
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    sourceBusinessId: businessId,
+    business,
+    collections
+  };
+};
+
+/**
+ * Nombre sugerido para el archivo de respaldo
+ */
+export const getBackupFileName = (backup: BusinessBackup): string => {
+  const name = (backup.business.name || 'negocio')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+  return `respaldo-${name || 'negocio'}-${backup.exportedAt.slice(0, 10)}.json`;
+};
+
+/**
+ * Valida la estructura de un respaldo leído de un archivo.
+ * Los errores impiden restaurarlo; las advertencias (referencias rotas) solo se informan.
+ */
+export const validateBackup = (data: unknown): BackupValidationResult => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isRecord(data) || data.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: ['El archivo no es un respaldo de MakeAgend'], warnings };
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    return { backup: null, errors: ['El respaldo no indica una versión válida'], warnings };
+  }
+  if (data.version > BACKUP_VERSION) {
+    return { backup: null, errors: ['El respaldo fue creado con una versión más reciente de la aplicación'], warnings };
+  }
+  const profile = data.business;
+  if (!isRecord(profile)) {
+    return { backup: null, errors: ['El respaldo no contiene el perfil del negocio'], warnings };
+  }
+
+  Object.entries(REQUIRED_PROFILE_FIELDS).forEach(([field, type]) => {
+    if (typeof profile[field] !== type) {
+      errors.push(`Perfil del negocio: falta el campo "${field}"`);
+    }
+  });
+  if (profile.joinRole !== undefined && !['admin', 'editor', 'viewer'].includes(profile.joinRole as string)) {
+    errors.push('Perfil del negocio: el rol al unirse con la clave no es válido');
+  }
+
+  const rawCollections = isRecord(data.collections) ? data.collections : {};
+  const collections = emptyCollections();
+
+  BACKUP_COLLECTIONS.forEach(({ collection, label }) => {
+    const items = rawCollections[collection];
+    if (items === undefined) return;
+    if (!isRecord(items)) {
+      errors.push(`${label}: formato inválido`);
+      return;
+    }
+
+    getEntries(collection, items).forEach(([id, item]) => {
+      if (!isRecord(item)) {
+        errors.push(`${label} ${id}: formato inválido`);
+        return;
+      }
+      Object.entries(REQUIRED_FIELDS[collection]).forEach(([field, type]) => {
+        if (typeof item[field] !== type) {
+          errors.push(`${label} ${id}: falta el campo "${field}"`);
+        }
+      });
+      Object.entries(FIELD_PATTERNS).forEach(([field, pattern]) => {
+        if (typeof item[field] === 'string' && !pattern.test(item[field] as string)) {
+          errors.push(`${label} ${id}: el campo "${field}" tiene un formato inválido`);
+        }
+      });
+    });
+
+    collections[collection] = items as BackupItems;
+  });
+
+  BACKUP_COLLECTIONS.forEach(({ collection, label }) => {
+    const references = REFERENCES[collection];
+    if (!references) return;
+
+    Object.entries(collections[collection]).forEach(([id, item]) => {
+      Object.entries(references).forEach(([field, target]) => {
+        const value = item[field];
+        if (typeof value === 'string' && value && !collections[target][value]) {
+          warnings.push(`${label} ${id}: hace referencia a un registro inexistente (${field})`);
+        }
+      });
+    });
+  });
+
+  if (errors.length > 0) {
+    return { backup: null, errors: limitIssues(errors), warnings: limitIssues(warnings) };
+  }
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      version: data.version,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      sourceBusinessId: typeof data.sourceBusinessId === 'string' ? data.sourceBusinessId : '',
+      business: profile as Partial<Omit<Business, 'id'>>,
+      collections
+    },
+    errors,
+    warnings: limitIssues(warnings)
+  };
+};
+
+/**
+ * Calcula las escrituras para restaurar un respaldo en businesses/{targetBusinessId}
+ * y el reporte de lo que cambia.
+ * - 'new': crea el negocio con el perfil del respaldo y los campos de identidad indicados
+ *   (propietario, clave, fechas); no conserva la licencia ni la dirección pública.
+ * - 'merge': agrega o reemplaza los registros del respaldo por su id y conserva los demás.
+ *   El historial de expedientes y las fusiones de clientes solo se agregan.
+ */
+export const buildRestorePlan = (
+  backup: BusinessBackup,
+  targetBusinessId: string,
+  mode: RestoreMode,
+  current: Record<string, unknown> | null,
+  profileOverrides: Partial<Business> = {}
+): { updates: Record<string, unknown>; report: RestoreReport } => {
+  const basePath = `businesses/${targetBusinessId}`;
+  const updates: Record<string, unknown> = {};
+  const profileChanges: string[] = [];
+
+  if (mode === 'new') {
+    Object.entries({ ...backup.business, ...profileOverrides }).forEach(([field, value]) => {
+      if (value === undefined || NON_TRANSFERABLE_PROFILE_FIELDS.includes(field as keyof Business)) return;
+      updates[`${basePath}/${field}`] = value;
+    });
+  } else {
+    MERGEABLE_PROFILE_FIELDS.forEach(({ field, label }) => {
+      const value = backup.business[field as keyof typeof backup.business];
+      if (value === undefined || stableStringify(value) === stableStringify(current?.[field])) return;
+      updates[`${basePath}/${field}`] = value;
+      profileChanges.push(label);
+    });
+    if (profileChanges.length > 0) {
+      updates[`${basePath}/updatedAt`] = new Date().toISOString();
+    }
+  }
+
+  const collections = {} as Record<BackupCollection, RestoreCollectionReport>;
+  BACKUP_COLLECTIONS.forEach(({ collection }) => {
+    const report: RestoreCollectionReport = { added: 0, updated: 0, unchanged: 0 };
+    const existing = mode === 'merge' && isRecord(current?.[collection])
+      ? current[collection] as BackupItems
+      : {};
+
+    getEntries(collection, backup.collections[collection]).forEach(([id, item]) => {
+      const restored = { ...(item as Record<string, unknown>), businessId: targetBusinessId };
+      const current = getAtPath(existing, id);
+      if (!current) {
+        report.added++;
+      } else if (APPEND_ONLY_COLLECTIONS.includes(collection) || stableStringify(current) === stableStringify(restored)) {
+        report.unchanged++;
+        return;
+      } else {
+        report.updated++;
+      }
+      updates[`${basePath}/${collection}/${id}`] = restored;
+    });
+
+    collections[collection] = report;
+  });
+
+  return { updates, report: { mode, profileChanges, collections } };
+};
+
+/**
+ * Resumen de una restauración para la bitácora: registros agregados y actualizados por colección
+ */
+export const describeRestore = (report: RestoreReport): string => {
+  const title = report.mode === 'merge' ? 'Respaldo fusionado' : 'Negocio restaurado desde un respaldo';
+  const details = BACKUP_COLLECTIONS
+    .map(({ collection, label }) => {
+      const { added, updated } = report.collections[collection];
+      const parts = [
+        added > 0 ? `${added} agregados` : '',
+        updated > 0 ? `${updated} actualizados` : ''
+      ].filter(Boolean);
+      return parts.length > 0 ? `${label} ${parts.join(' y ')}` : '';
+    })
+    .filter(Boolean);
+  if (report.profileChanges.length > 0) {
+    details.unshift(`Perfil: ${report.profileChanges.join(', ')}`);
+  }
+  return details.length > 0 ? `${title}: ${details.join('; ')}` : `${title} sin cambios`;
+};
@@ -1,5 +1,5 @@
-import { ref, get } from 'firebase/database';
-import { database } from '../config/firebase';
+import { businessKeyRepository, businessRepository, getDataStore } from '../storage';
+import type { BusinessRole } from '../types';
 
 /**
  * Genera una clave hexadecimal aleatoria de 16 caracteres
@@ -14,25 +14,11 @@ export const generateBusinessKey = (): string => {
 };
 
 /**
- * Verifica si una clave de negocio ya existe en la base de datos
+ * Verifica si una clave de negocio ya existe en el índice businessKeys
  */
 export const isBusinessKeyUnique = async (key: string): Promise<boolean> => {
   try {
-    const businessesRef = ref(database, 'businesses');
-    const snapshot = await get(businessesRef);
-    
-    if (!snapshot.exists()) return true;
-    
-    const businesses = snapshot.val();
-    
-    // Buscar si algún negocio ya tiene esta clave
-    for (const businessId in businesses) {
-      if (businesses[businessId].businessKey === key) {
-        return false;
-      }
-    }
-    
-    return true;
+    return (await businessKeyRepository.get(key)) === null;
   } catch (error) {
     console.error('Error checking business key uniqueness:', error);
     return false;
@@ -62,27 +48,48 @@ export const generateUniqueBusinessKey = async (): Promise<string> => {
 };
 
 /**
- * Busca un negocio por su clave
+ * Escrituras para asignar una clave a un negocio y mantener el índice businessKeys
  */
-export const findBusinessByKey = async (businessKey: string): Promise<{ businessId: string; businessName: string } | null> => {
+export const buildBusinessKeyUpdates = (
+  businessId: string,
+  businessName: string,
+  newKey: string,
+  previousKey?: string
+): Record<string, unknown> => {
+  const updates: Record<string, unknown> = {
+    [`${businessRepository.path(businessId)}/businessKey`]: newKey,
+    [businessKeyRepository.path(newKey)]: { businessId, businessName }
+  };
+  if (previousKey && previousKey !== newKey) {
+    updates[businessKeyRepository.path(previousKey)] = null;
+  }
+  return updates;
+};
+
+/**
+ * Reemplaza la clave de un negocio; la anterior deja de servir para unirse.
+ * Los accesos ya concedidos se conservan.
+ */
+export const rotateBusinessKey = async (businessId: string, businessName: string, previousKey?: string): Promise<string> => {
+  const newKey = await generateUniqueBusinessKey();
+  await getDataStore().update('', buildBusinessKeyUpdates(businessId, businessName, newKey, previousKey));
+  return newKey;
+};
+
+/**
+ * Busca un negocio por su clave, junto con el rol que el propietario asigna a quien se une
+ */
+export const findBusinessByKey = async (businessKey: string): Promise<{ businessId: string; businessName: string; joinRole: BusinessRole } | null> => {
   try {
-    const businessesRef = ref(database, 'businesses');
-    const snapshot = await get(businessesRef);
-    
-    if (!snapshot.exists()) return null;
-    
-    const businesses = snapshot.val();
-    
-    for (const businessId in businesses) {
-      if (businesses[businessId].businessKey === businessKey) {
-        return {
-          businessId,
-          businessName: businesses[businessId].name
-        };
-      }
-    }
-    
-    return null;
+    const entry = await businessKeyRepository.get(businessKey);
+    if (!entry) return null;
+
+    const joinRole = await getDataStore().get<BusinessRole>(`${businessRepository.path(entry.businessId)}/joinRole`);
+    return {
+      businessId: entry.businessId,
+      businessName: entry.businessName,
+      joinRole: joinRole || 'viewer'
+    };
   } catch (error) {
     console.error('Error finding business by key:', error);
     return null;
@@ -0,0 +1,56 @@
+import { calendarFeedRepository } from '../storage';
+import type { CalendarFeed } from '../types';
+import { getCalendarFeedPath } from './icalendar';
+
+// Servidor local por defecto (npm run calendar-feed)
+const DEFAULT_FEED_URL = 'http://localhost:8787';
+
+export class CalendarFeedService {
+  private static instance: CalendarFeedService;
+
+  private constructor() {}
+
+  static getInstance(): CalendarFeedService {
+    if (!CalendarFeedService.instance) {
+      CalendarFeedService.instance = new CalendarFeedService();
+    }
+    return CalendarFeedService.instance;
+  }
+
+  // Generar un token aleatorio de 128 bits en hexadecimal
+  private generateToken(): string {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  // URL de suscripción de un calendario
+  getFeedUrl(token: string): string {
+    const baseUrl = (import.meta.env.VITE_CALENDAR_FEED_URL || DEFAULT_FEED_URL).replace(/\/+$/, '');
+    return `${baseUrl}${getCalendarFeedPath(token)}`;
+  }
+
+  // Crear un enlace de suscripción
+  async createFeed(feed: Omit<CalendarFeed, 'id' | 'createdAt'>): Promise<CalendarFeed> {
+    const token = this.generateToken();
+    const data = Object.fromEntries(
+      Object.entries({ ...feed, createdAt: new Date().toISOString() }).filter(([, value]) => value !== undefined)
+    ) as Omit<CalendarFeed, 'id'>;
+
+    await calendarFeedRepository.set(token, data);
+    return { id: token, ...data };
+  }
+
+  // Obtener los enlaces de suscripción de un negocio
+  async getBusinessFeeds(businessId: string): Promise<CalendarFeed[]> {
+    const feeds = await calendarFeedRepository.findBy('businessId', businessId);
+    return feeds.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  // Revocar un enlace: la URL deja de funcionar de inmediato
+  async revokeFeed(token: string): Promise<void> {
+    await calendarFeedRepository.remove(token);
+  }
+}
+
+export const calendarFeedService = CalendarFeedService.getInstance();
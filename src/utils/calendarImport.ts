@@ -0,0 +1,180 @@
+import type { Appointment, Business, Client, Service } from '../types';
+import type { ParsedICalEvent } from './icalendar';
+import { checkSlotAvailability, minutesToTime, timeToMinutes } from './availabilityEngine';
+import type { SlotCheckResult } from './availabilityEngine';
+import { normalizePhone, phonesMatch } from './phone';
+
+// Fila del asistente de importación: un evento y cómo se asigna
+export interface ImportCandidate {
+  event: ParsedICalEvent;
+  include: boolean;
+  serviceId: string;
+  clientId: string; // Vacío: se crea un cliente nuevo
+  newClientName: string;
+  newClientPhone: string;
+}
+
+// Cita lista para escribirse, con su cliente existente o nuevo
+export interface AppointmentImport {
+  appointment: Omit<Appointment, 'id' | 'clientId' | 'businessId'>;
+  clientId?: string;
+  newClient?: Omit<Client, 'id' | 'businessId'>;
+}
+
+const normalizeText = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+/**
+ * Extrae el primer número telefónico de un texto
+ */
+export const extractPhone = (text: string): string => {
+  const matches = text.match(/\+?\d[\d\s().-]{5,}\d/g) || [];
+  const phone = matches.find(match => {
+    const digits = match.replace(/\D/g, '');
+    return digits.length >= 7 && digits.length <= 15;
+  });
+  return phone ? normalizePhone(phone) : '';
+};
+
+/**
+ * Sugiere el servicio cuyo nombre aparece en el título o descripción del evento
+ */
+export const guessService = (event: ParsedICalEvent, services: Service[]): Service | null => {
+  const text = normalizeText(`${event.summary} ${event.description}`);
+  const matches = services.filter(service => service.name.trim() && text.includes(normalizeText(service.name)));
+  return matches.sort((a, b) => b.name.length - a.name.length)[0] || null;
+};
+
+/**
+ * Sugiere el cliente del evento: primero por teléfono y luego por nombre en el título.
+ * Si no hay coincidencia, propone el nombre y teléfono para un cliente nuevo.
+ */
+export const guessClient = (
+  event: ParsedICalEvent,
+  clients: Client[],
+  service: Service | null
+): { client: Client | null; name: string; phone: string } => {
+  const phone = extractPhone(`${event.summary} ${event.description}`);
+  if (phone) {
+    const byPhone = clients.find(client => phonesMatch(client.phone, phone));
+    if (byPhone) return { client: byPhone, name: byPhone.name, phone };
+  }
+
+  const summary = normalizeText(event.summary);
+  const byName = clients
+    .filter(client => client.name.trim() && summary.includes(normalizeText(client.name)))
+    .sort((a, b) => b.name.length - a.name.length)[0];
+  if (byName) return { client: byName, name: byName.name, phone };
+
+  // Nombre propuesto: el título sin el servicio, el teléfono ni separadores
+  let name = event.summary;
+  if (service) {
+    name = name.replace(new RegExp(service.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i'), '');
+  }
+  name = name
+    .replace(/\+?\d[\d\s().-]{5,}\d/g, '')
+    .replace(/^[\s\-–—:|,/]+|[\s\-–—:|,/]+$/g, '')
+    .trim();
+
+  return { client: null, name, phone };
+};
+
+/**
+ * Prepara las filas del asistente con las sugerencias de servicio y cliente.
+ * Los eventos cancelados o de todo el día quedan desmarcados.
+ */
+export const buildImportCandidates = (
+  events: ParsedICalEvent[],
+  clients: Client[],
+  services: Service[]
+): ImportCandidate[] => {
+  const activeServices = services.filter(service => service.isActive !== false);
+
+  return [...events]
+    .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`))
+    .map(event => {
+      const service = guessService(event, activeServices);
+      const clientGuess = guessClient(event, clients, service);
+
+      return {
+        event,
+        include: !event.cancelled && !event.allDay,
+        serviceId: service?.id || '',
+        clientId: clientGuess.client?.id || '',
+        newClientName: clientGuess.name,
+        newClientPhone: clientGuess.phone
+      };
+    });
+};
+
+/**
+ * Horario final de una fila: si el evento no tiene duración se usa la del servicio
+ */
+export const getCandidateTimes = (candidate: ImportCandidate, service?: Service) => {
+  const { startTime, endTime } = candidate.event;
+  if (timeToMinutes(endTime) > timeToMinutes(startTime) || !service) {
+    return { startTime, endTime };
+  }
+  return {
+    startTime,
+    endTime: minutesToTime(Math.min(timeToMinutes(startTime) + service.duration, 23 * 60 + 59))
+  };
+};
+
+/**
+ * Valida cada fila incluida contra las reglas de disponibilidad,
+ * considerando las citas existentes y las filas anteriores del mismo archivo.
+ * Devuelve el resultado por UID del evento.
+ */
+export const checkImportAvailability = (
+  candidates: ImportCandidate[],
+  business: Business | null,
+  services: Service[],
+  appointments: Appointment[]
+): Record<string, SlotCheckResult> => {
+  const results: Record<string, SlotCheckResult> = {};
+  const accepted: Appointment[] = [...appointments];
+
+  candidates
+    .filter(candidate => candidate.include && candidate.serviceId)
+    .forEach((candidate, index) => {
+      const service = services.find(s => s.id === candidate.serviceId);
+      if (!service) return;
+
+      const { startTime, endTime } = getCandidateTimes(candidate, service);
+      const result = checkSlotAvailability({
+        business,
+        service,
+        appointments: accepted,
+        date: candidate.event.date,
+        startTime,
+        endTime
+      });
+
+      results[candidate.event.uid] = result;
+      if (!result.isAvailable) return;
+
+      accepted.push({
+        id: `import-${index}`,
+        clientId: candidate.clientId,
+        serviceId: service.id,
+        date: candidate.event.date,
+        startTime,
+        endTime,
+        status: 'confirmed',
+        resourceIndex: result.resourceIndex,
+        createdBy: '',
+        businessId: business?.id || '',
+        createdAt: '',
+        updatedAt: ''
+      });
+    });
+
+  return results;
+};
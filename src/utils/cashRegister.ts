@@ -0,0 +1,181 @@
+import { jsPDF } from 'jspdf';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { Business, CashMovement, CashMovementType, CashReconciliation, CashSession, Client, Payment, PaymentMethod } from '../types';
+import { PAYMENT_METHOD_LABELS, formatMoney, roundMoney } from './payments';
+import { PdfWriter } from './pdfWriter';
+import { slugify } from './text';
+
+export const CASH_MOVEMENT_LABELS: Record<CashMovementType, string> = {
+  in: 'Entrada',
+  out: 'Salida'
+};
+
+export const PAYMENT_METHODS = Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[];
+
+const emptyAmounts = (): Record<PaymentMethod, number> => ({ cash: 0, card: 0, transfer: 0 });
+
+const formatDateTime = (date: string) => format(new Date(date), 'dd/MM/yyyy HH:mm', { locale: es });
+
+/**
+ * Lo que debería haber en caja por método: el efectivo parte del fondo inicial
+ * y suma o resta los movimientos manuales
+ */
+export const getExpectedAmounts = (
+  openingFloat: number,
+  payments: Payment[],
+  movements: CashMovement[]
+): Record<PaymentMethod, number> => {
+  const expected = emptyAmounts();
+  expected.cash = openingFloat;
+  payments.forEach(payment => {
+    expected[payment.method] = roundMoney(expected[payment.method] + payment.amount);
+  });
+  movements.forEach(movement => {
+    expected.cash = roundMoney(expected.cash + (movement.type === 'in' ? movement.amount : -movement.amount));
+  });
+  return expected;
+};
+
+/**
+ * Cuadre del corte: diferencia entre lo contado y lo esperado por método
+ */
+export const buildReconciliation = (
+  expected: Record<PaymentMethod, number>,
+  counted: Record<PaymentMethod, number>,
+  notes?: string
+): CashReconciliation => {
+  const difference = emptyAmounts();
+  PAYMENT_METHODS.forEach(method => {
+    difference[method] = roundMoney(counted[method] - expected[method]);
+  });
+  return { expected, counted, difference, ...(notes?.trim() ? { notes: notes.trim() } : {}) };
+};
+
+/**
+ * Suma de los importes de todos los métodos
+ */
+export const sumAmounts = (amounts: Record<PaymentMethod, number>): number => {
+  return roundMoney(PAYMENT_METHODS.reduce((sum, method) => sum + (amounts[method] || 0), 0));
+};
+
+/**
+ * Concepto de un pago para listarlo en la caja
+ */
+export const describeCashPayment = (payment: Payment, clients: Client[]): string => {
+  if (payment.concept) return payment.concept;
+  const client = clients.find(c => c.id === payment.clientId);
+  return client ? `Cita de ${client.name}` : 'Cobro de cita';
+};
+
+/**
+ * Nombre del archivo PDF del corte de caja
+ */
+export const getCashReportFileName = (session: CashSession): string => {
+  return `corte-de-caja-${session.date}-${slugify(session.openedByName) || 'caja'}.pdf`;
+};
+
+export interface CashReportOptions {
+  business: Business;
+  session: CashSession;
+  payments: Payment[];
+  movements: CashMovement[];
+  clients: Client[];
+}
+
+/**
+ * Genera el PDF imprimible del corte de caja; una caja abierta muestra solo lo esperado
+ */
+export const createCashReportPdf = (options: CashReportOptions): Blob => {
+  const { business, session, clients } = options;
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const writer = new PdfWriter(doc);
+  const reconciliation = session.reconciliation;
+  const expected = reconciliation?.expected || getExpectedAmounts(session.openingFloat, options.payments, options.movements);
+
+  doc.setProperties({ title: `Corte de caja ${session.date}`, author: business.name, creator: business.name });
+  writer.brandHeader(business);
+  writer.title('Corte de caja', [
+    `Abierta por ${session.openedByName} el ${formatDateTime(session.openedAt)}`,
+    session.closedAt
+      ? `Cerrada por ${session.closedByName || session.openedByName} el ${formatDateTime(session.closedAt)}`
+      : 'Caja abierta: el corte aún no se ha hecho'
+  ]);
+
+  writer.heading('Cuadre por método de pago');
+  writer.table(
+    [
+      { label: 'Método', width: 0.31 },
+      { label: 'Esperado', width: 0.23 },
+      { label: 'Contado', width: 0.23 },
+      { label: 'Diferencia', width: 0.23 }
+    ],
+    [
+      ...PAYMENT_METHODS.map(method => [
+        PAYMENT_METHOD_LABELS[method],
+        formatMoney(expected[method]),
+        reconciliation ? formatMoney(reconciliation.counted[method]) : '—',
+        reconciliation ? formatMoney(reconciliation.difference[method]) : '—'
+      ]),
+      [
+        'Total',
+        formatMoney(sumAmounts(expected)),
+        reconciliation ? formatMoney(sumAmounts(reconciliation.counted)) : '—',
+        reconciliation ? formatMoney(sumAmounts(reconciliation.difference)) : '—'
+      ]
+    ]
+  );
+  writer.field('Fondo inicial', formatMoney(session.openingFloat));
+  if (reconciliation?.notes) writer.field('Observaciones', reconciliation.notes);
+  writer.space(2);
+
+  writer.heading(`Cobros (${options.payments.length})`);
+  if (options.payments.length === 0) {
+    writer.paragraph('Sin cobros en este turno', { muted: true });
+  } else {
+    writer.table(
+      [
+        { label: 'Hora', width: 0.14 },
+        { label: 'Concepto', width: 0.5 },
+        { label: 'Método', width: 0.18 },
+        { label: 'Importe', width: 0.18 }
+      ],
+      [...options.payments]
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(payment => [
+          format(new Date(payment.createdAt), 'HH:mm'),
+          describeCashPayment(payment, clients),
+          PAYMENT_METHOD_LABELS[payment.method],
+          formatMoney(payment.amount)
+        ])
+    );
+  }
+  writer.space(2);
+
+  writer.heading(`Movimientos de efectivo (${options.movements.length})`);
+  if (options.movements.length === 0) {
+    writer.paragraph('Sin entradas ni salidas manuales', { muted: true });
+  } else {
+    writer.table(
+      [
+        { label: 'Hora', width: 0.14 },
+        { label: 'Tipo', width: 0.14 },
+        { label: 'Motivo', width: 0.4 },
+        { label: 'Registró', width: 0.14 },
+        { label: 'Importe', width: 0.18 }
+      ],
+      [...options.movements]
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(movement => [
+          format(new Date(movement.createdAt), 'HH:mm'),
+          CASH_MOVEMENT_LABELS[movement.type],
+          movement.reason,
+          movement.createdByName,
+          formatMoney(movement.type === 'in' ? movement.amount : -movement.amount)
+        ])
+    );
+  }
+
+  writer.footer(business, 'Corte de caja');
+  return doc.output('blob');
+};
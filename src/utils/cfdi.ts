@@ -0,0 +1,245 @@
+import { format } from 'date-fns';
+import type { AppointmentCharge, BusinessFiscalData, ClientFiscalData, Invoice, InvoiceConcept, InvoiceTaxTreatment, Service } from '../types';
+import { CFDI_USES, GENERIC_RFCS, SERVICE_UNIT, TAX_REGIMES, getCfdiUse, getTaxRegime } from '../config/satCatalogs';
+import { roundMoney } from './payments';
+
+export const VAT_RATE = 0.16;
+
+const CFDI_NAMESPACE = 'http://www.sat.gob.mx/cfd/4';
+const CFDI_SCHEMA_LOCATION = 'http://www.sat.gob.mx/cfd/4 http://www.sat.gob.mx/sitio_internet/cfd/4/cfdv40.xsd';
+
+// Tres letras (persona moral) o cuatro (física), fecha AAMMDD y homoclave con dígito verificador
+const RFC_PATTERN = /^([A-ZÑ&]{3,4})(\d{2})(\d{2})(\d{2})([A-Z\d]{2})([A\d])$/;
+// Valor de cada carácter para el dígito verificador
+const RFC_CHARS = '0123456789ABCDEFGHIJKLMN&OPQRSTUVWXYZ Ñ';
+
+export type RfcPersonType = 'physical' | 'moral';
+
+/**
+ * RFC sin espacios y en mayúsculas
+ */
+export const normalizeRfc = (rfc: string): string => rfc.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Nombre o razón social como lo pide el SAT: en mayúsculas y sin espacios dobles
+ */
+export const normalizeFiscalName = (name: string): string => name.trim().replace(/\s+/g, ' ').toLocaleUpperCase('es-MX');
+
+const getRfcCheckDigit = (rfc: string): string => {
+  const base = rfc.slice(0, -1).padStart(12, ' ');
+  const sum = [...base].reduce((total, char, index) => total + RFC_CHARS.indexOf(char) * (13 - index), 0);
+  const digit = 11 - (sum % 11);
+  if (digit === 11) return '0';
+  return digit === 10 ? 'A' : String(digit);
+};
+
+/**
+ * Persona física (13 caracteres) o moral (12)
+ */
+export const getRfcPersonType = (rfc: string): RfcPersonType => (rfc.length === 13 ? 'physical' : 'moral');
+
+/**
+ * Valida formato, fecha y dígito verificador del RFC; null si es válido
+ */
+export const validateRfc = (rfc: string): string | null => {
+  const match = RFC_PATTERN.exec(rfc);
+  if (!match) return 'El RFC no tiene un formato válido';
+
+  const month = parseInt(match[3]);
+  const day = parseInt(match[4]);
+  const daysInMonth = new Date(2000 + parseInt(match[2]), month, 0).getDate();
+  if (month < 1 || month > 12 || day < 1 || day > daysInMonth) return 'La fecha del RFC no es válida';
+
+  if (getRfcCheckDigit(rfc) !== match[6]) return 'El dígito verificador del RFC no coincide';
+  return null;
+};
+
+/**
+ * Regímenes que corresponden al tipo de persona del RFC
+ */
+export const getTaxRegimesFor = (rfc: string, issuer = false) => {
+  const type = getRfcPersonType(normalizeRfc(rfc));
+  return TAX_REGIMES.filter(regime => (type === 'physical' ? regime.physical : regime.moral) && (!issuer || regime.issuer));
+};
+
+/**
+ * Usos CFDI permitidos para el régimen del receptor
+ */
+export const getCfdiUsesFor = (taxRegime: string) => CFDI_USES.filter(use => use.regimes.includes(taxRegime));
+
+const validateRegime = (rfc: string, code: string, issuer: boolean): string | null => {
+  const regime = getTaxRegime(code);
+  if (!regime) return 'Selecciona un régimen fiscal del catálogo del SAT';
+  const physical = getRfcPersonType(rfc) === 'physical';
+  if (physical ? !regime.physical : !regime.moral) {
+    return `El régimen ${code} no corresponde a una persona ${physical ? 'física' : 'moral'}`;
+  }
+  if (issuer && !regime.issuer) return `El régimen ${code} no permite facturar servicios`;
+  return null;
+};
+
+const validatePostalCode = (postalCode: string): string | null => {
+  return /^\d{5}$/.test(postalCode) ? null : 'El código postal debe tener 5 dígitos';
+};
+
+/**
+ * Valida los datos del negocio como emisor; null si son válidos
+ */
+export const validateBusinessFiscalData = (data: BusinessFiscalData): string | null => {
+  const rfcError = validateRfc(data.rfc);
+  if (rfcError) return rfcError;
+  if (GENERIC_RFCS.includes(data.rfc)) return 'El negocio no puede facturar con un RFC genérico';
+  if (!data.legalName.trim()) return 'El nombre o razón social es requerido';
+  return validateRegime(data.rfc, data.taxRegime, true)
+    || validatePostalCode(data.postalCode)
+    || (/^\d{20}$/.test(data.certificateNumber) ? null : 'El número de certificado debe tener 20 dígitos')
+    || (/^\d{8}$/.test(data.productCode) ? null : 'La clave de producto o servicio debe tener 8 dígitos')
+    || (/^[A-Z0-9]{1,25}$/.test(data.series) ? null : 'La serie solo admite letras y números, hasta 25');
+};
+
+/**
+ * Valida los datos del cliente como receptor; null si son válidos
+ */
+export const validateClientFiscalData = (data: ClientFiscalData): string | null => {
+  if (GENERIC_RFCS.includes(data.rfc)) {
+    return 'Se necesita el RFC del cliente: el RFC genérico solo se usa en la factura global';
+  }
+  const rfcError = validateRfc(data.rfc);
+  if (rfcError) return rfcError;
+  if (!data.legalName.trim()) return 'El nombre o razón social es requerido';
+
+  const regimeError = validateRegime(data.rfc, data.taxRegime, false) || validatePostalCode(data.postalCode);
+  if (regimeError) return regimeError;
+
+  const use = getCfdiUse(data.cfdiUse);
+  if (!use) return 'Selecciona un uso CFDI del catálogo del SAT';
+  if (!use.regimes.includes(data.taxRegime)) return `El uso ${use.code} no aplica al régimen ${data.taxRegime}`;
+  return null;
+};
+
+/**
+ * Un concepto por cita. Los precios ya incluyen el IVA, así que se desglosa; la propina no se factura.
+ * El descuento se limita al precio, como en el total de la cuenta.
+ */
+export const buildInvoiceConcepts = (
+  charges: AppointmentCharge[],
+  services: Service[],
+  fiscal: Pick<BusinessFiscalData, 'productCode' | 'taxTreatment'>
+): InvoiceConcept[] => {
+  const divisor = fiscal.taxTreatment === 'iva16' ? 1 + VAT_RATE : 1;
+  return charges.map(charge => {
+    const unitValue = roundMoney(charge.price / divisor);
+    const discount = roundMoney(Math.min(Math.max(0, charge.discount), charge.price) / divisor);
+    const [year, month, day] = charge.date.split('-');
+    return {
+      appointmentId: charge.appointmentId,
+      productCode: fiscal.productCode,
+      description: `${services.find(s => s.id === charge.serviceId)?.name || 'Servicio'} del ${day}/${month}/${year}`,
+      unitValue,
+      discount,
+      tax: fiscal.taxTreatment === 'iva16' ? roundMoney((unitValue - discount) * VAT_RATE) : 0
+    };
+  });
+};
+
+/**
+ * Subtotal, descuento, impuestos y total; el total se calcula como lo valida el SAT
+ */
+export const getInvoiceTotals = (concepts: InvoiceConcept[]) => {
+  const subtotal = roundMoney(concepts.reduce((sum, concept) => sum + concept.unitValue, 0));
+  const discount = roundMoney(concepts.reduce((sum, concept) => sum + concept.discount, 0));
+  const taxes = roundMoney(concepts.reduce((sum, concept) => sum + concept.tax, 0));
+  return { subtotal, discount, taxes, total: roundMoney(subtotal - discount + taxes) };
+};
+
+/**
+ * Fecha del comprobante en hora local, sin zona horaria
+ */
+export const formatCfdiDate = (date: Date): string => format(date, "yyyy-MM-dd'T'HH:mm:ss");
+
+const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const element = (name: string, attributes: Record<string, string | undefined>, children: string[] = []): string => {
+  const attrs = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => ` ${key}="${escapeXml(value as string)}"`)
+    .join('');
+  return children.length > 0 ? `<cfdi:${name}${attrs}>${children.join('')}</cfdi:${name}>` : `<cfdi:${name}${attrs}/>`;
+};
+
+const amount = (value: number): string => value.toFixed(2);
+
+const transfer = (base: number, tax: number, treatment: InvoiceTaxTreatment) => element('Traslado', treatment === 'iva16'
+  ? { Base: amount(base), Impuesto: '002', TipoFactor: 'Tasa', TasaOCuota: VAT_RATE.toFixed(6), Importe: amount(tax) }
+  : { Base: amount(base), Impuesto: '002', TipoFactor: 'Exento' });
+
+export type CfdiData = Pick<
+  Invoice,
+  'series' | 'folio' | 'issuedAt' | 'paymentForm' | 'issuer' | 'receiver' | 'taxTreatment' | 'concepts' | 'subtotal' | 'discount' | 'taxes' | 'total'
+> & { certificateNumber: string };
+
+/**
+ * XML del CFDI 4.0 de ingreso pagado en una exhibición (PUE). Va sin sello: el PAC lo sella y timbra.
+ */
+export const buildCfdiXml = (data: CfdiData): string => {
+  const concepts = data.concepts.map(concept => element('Concepto', {
+    ClaveProdServ: concept.productCode,
+    Cantidad: '1',
+    ClaveUnidad: SERVICE_UNIT.code,
+    Unidad: SERVICE_UNIT.name,
+    Descripcion: concept.description,
+    ValorUnitario: amount(concept.unitValue),
+    Importe: amount(concept.unitValue),
+    Descuento: concept.discount > 0 ? amount(concept.discount) : undefined,
+    ObjetoImp: '02'
+  }, [
+    element('Impuestos', {}, [
+      element('Traslados', {}, [transfer(roundMoney(concept.unitValue - concept.discount), concept.tax, data.taxTreatment)])
+    ])
+  ]));
+
+  const taxBase = roundMoney(data.subtotal - data.discount);
+  const comprobante = element('Comprobante', {
+    'xmlns:cfdi': CFDI_NAMESPACE,
+    'xmlns:xsi': 'http://www.w3.org/2001/XMLSchema-instance',
+    'xsi:schemaLocation': CFDI_SCHEMA_LOCATION,
+    Version: '4.0',
+    Serie: data.series,
+    Folio: String(data.folio),
+    Fecha: data.issuedAt,
+    Sello: '',
+    FormaPago: data.paymentForm,
+    NoCertificado: data.certificateNumber,
+    Certificado: '',
+    SubTotal: amount(data.subtotal),
+    Descuento: data.discount > 0 ? amount(data.discount) : undefined,
+    Moneda: 'MXN',
+    Total: amount(data.total),
+    TipoDeComprobante: 'I',
+    Exportacion: '01',
+    MetodoPago: 'PUE',
+    LugarExpedicion: data.issuer.postalCode
+  }, [
+    element('Emisor', { Rfc: data.issuer.rfc, Nombre: data.issuer.legalName, RegimenFiscal: data.issuer.taxRegime }),
+    element('Receptor', {
+      Rfc: data.receiver.rfc,
+      Nombre: data.receiver.legalName,
+      DomicilioFiscalReceptor: data.receiver.postalCode,
+      RegimenFiscalReceptor: data.receiver.taxRegime,
+      UsoCFDI: data.receiver.cfdiUse
+    }),
+    element('Conceptos', {}, concepts),
+    element('Impuestos', {
+      TotalImpuestosTrasladados: data.taxTreatment === 'iva16' ? amount(data.taxes) : undefined
+    }, [
+      element('Traslados', {}, [transfer(taxBase, data.taxes, data.taxTreatment)])
+    ])
+  ]);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${comprobante}`;
+};
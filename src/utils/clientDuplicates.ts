@@ -0,0 +1,156 @@
+import type { Client } from '../types';
+import { phonesMatch } from './phone';
+
+export type DuplicateReason = 'phone' | 'email' | 'name';
+
+// Par de clientes que probablemente son la misma persona
+export interface ClientDuplicatePair {
+  clientA: Client;
+  clientB: Client;
+  score: number; // 0-100
+  reasons: DuplicateReason[];
+}
+
+// Campos que se eligen de uno de los clientes al fusionar
+export type ClientMergeField = 'name' | 'phone' | 'email' | 'age' | 'notes';
+
+// Cliente del que se toma cada campo al fusionar
+export type ClientMergeSelections = Record<ClientMergeField, string>;
+
+export const CLIENT_MERGE_FIELDS: { field: ClientMergeField; label: string }[] = [
+  { field: 'name', label: 'Nombre' },
+  { field: 'phone', label: 'Teléfono' },
+  { field: 'email', label: 'Email' },
+  { field: 'age', label: 'Edad' },
+  { field: 'notes', label: 'Notas' }
+];
+
+export const DUPLICATE_SCORE_THRESHOLD = 50;
+
+const PHONE_SCORE = 60;
+const EMAIL_SCORE = 50;
+const NAME_SCORE = 40;
+const MIN_NAME_SIMILARITY = 0.8;
+
+const normalizeName = (name: string): string => {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+    .sort()
+    .join(' ');
+};
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Similitud entre dos nombres de 0 a 1, sin importar acentos, mayúsculas ni el orden de las palabras
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const nameA = normalizeName(a);
+  const nameB = normalizeName(b);
+  if (!nameA || !nameB) return 0;
+  if (nameA === nameB) return 1;
+
+  const longest = Math.max(nameA.length, nameB.length);
+  return 1 - levenshtein(nameA, nameB) / longest;
+};
+
+/**
+ * Calcula qué tan probable es que dos clientes sean la misma persona
+ */
+export const scoreClientPair = (a: Client, b: Client): { score: number; reasons: DuplicateReason[] } => {
+  const reasons: DuplicateReason[] = [];
+  let score = 0;
+
+  if (a.phone && b.phone && phonesMatch(a.phone, b.phone)) {
+    reasons.push('phone');
+    score += PHONE_SCORE;
+  }
+
+  if (a.email && b.email && a.email.trim().toLowerCase() === b.email.trim().toLowerCase()) {
+    reasons.push('email');
+    score += EMAIL_SCORE;
+  }
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity >= MIN_NAME_SIMILARITY) {
+    reasons.push('name');
+    score += Math.round(NAME_SCORE * similarity);
+  }
+
+  return { score: Math.min(score, 100), reasons };
+};
+
+/**
+ * Busca pares de clientes posiblemente duplicados, ordenados por puntaje
+ */
+export const findDuplicateClients = (
+  clients: Client[],
+  threshold: number = DUPLICATE_SCORE_THRESHOLD
+): ClientDuplicatePair[] => {
+  const pairs: ClientDuplicatePair[] = [];
+
+  for (let i = 0; i < clients.length; i++) {
+    for (let j = i + 1; j < clients.length; j++) {
+      const { score, reasons } = scoreClientPair(clients[i], clients[j]);
+      if (score >= threshold) {
+        pairs.push({ clientA: clients[i], clientB: clients[j], score, reasons });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Selección inicial de campos: el valor del cliente que se conserva,
+ * o el del otro cliente si el que se conserva no lo tiene
+ */
+export const getDefaultMergeSelections = (survivor: Client, merged: Client): ClientMergeSelections => {
+  const selections = {} as ClientMergeSelections;
+
+  CLIENT_MERGE_FIELDS.forEach(({ field }) => {
+    const hasValue = survivor[field] !== undefined && survivor[field] !== '';
+    selections[field] = hasValue ? survivor.id : merged.id;
+  });
+
+  return selections;
+};
+
+/**
+ * Datos finales del cliente fusionado; las alergias se combinan de ambos
+ */
+export const buildMergedClient = (
+  survivor: Client,
+  merged: Client,
+  selections: ClientMergeSelections
+): Client => {
+  const result: Client = { ...survivor };
+
+  CLIENT_MERGE_FIELDS.forEach(({ field }) => {
+    const source = selections[field] === merged.id ? merged : survivor;
+    Object.assign(result, { [field]: source[field] });
+  });
+
+  const allergies = Array.from(new Set([...(survivor.allergies || []), ...(merged.allergies || [])]));
+  result.allergies = allergies.length > 0 ? allergies : undefined;
+
+  return result;
+};
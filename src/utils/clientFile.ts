@@ -0,0 +1,167 @@
+import { jsPDF } from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { Appointment, Business, Client, DigitalRecord, Provider, Service } from '../types';
+import { getRecordDataEntries, getRecordSchema } from './recordSchema';
+import { STATUS_LABELS } from './icalendar';
+import { slugify } from './text';
+import { PdfWriter } from './pdfWriter';
+
+export type ClientFileSection = 'demographics' | 'allergies' | 'records' | 'appointments';
+
+export const CLIENT_FILE_SECTIONS: { section: ClientFileSection; label: string }[] = [
+  { section: 'demographics', label: 'Datos personales' },
+  { section: 'allergies', label: 'Alergias' },
+  { section: 'records', label: 'Expedientes' },
+  { section: 'appointments', label: 'Historial de citas' }
+];
+
+export interface ClientFileOptions {
+  business: Business;
+  client: Client;
+  records: DigitalRecord[];
+  appointments: Appointment[];
+  services: Service[];
+  providers?: Provider[];
+  sections: ClientFileSection[];
+  from?: string; // "2025-01-01", inclusivo; sin fecha = desde el inicio
+  to?: string; // inclusivo; sin fecha = hasta hoy
+  generatedBy?: string;
+}
+
+const formatDate = (date: string) => format(parseISO(date.slice(0, 10)), 'dd/MM/yyyy', { locale: es });
+
+const formatDateTime = (date: string) => format(new Date(date), "dd/MM/yyyy HH:mm", { locale: es });
+
+/**
+ * Indica si una fecha ("2025-01-01" o ISO) cae dentro del periodo
+ */
+export const isWithinPeriod = (date: string, from?: string, to?: string): boolean => {
+  const day = date.slice(0, 10);
+  return (!from || day >= from) && (!to || day <= to);
+};
+
+/**
+ * Alergias del cliente más las capturadas en sus expedientes, sin repetir
+ */
+export const getClientAllergies = (client: Client, records: DigitalRecord[]): string[] => {
+  const allergies = [
+    ...(client.allergies || []),
+    ...records.flatMap(record => Array.isArray(record.data?.allergies) ? record.data.allergies as string[] : [])
+  ];
+  // Se conserva la primera forma escrita de cada alergia
+  const unique = new Map<string, string>();
+  allergies.forEach(allergy => {
+    const key = allergy.trim().toLowerCase();
+    if (key && !unique.has(key)) unique.set(key, allergy.trim());
+  });
+  return Array.from(unique.values());
+};
+
+/**
+ * Nombre del archivo PDF del expediente
+ */
+export const getClientFileName = (client: Client, date: Date = new Date()): string => {
+  return `expediente-${slugify(client.name) || 'cliente'}-${format(date, 'yyyy-MM-dd')}.pdf`;
+};
+
+/**
+ * Genera el PDF del expediente del cliente en el navegador
+ */
+export const createClientFilePdf = (options: ClientFileOptions): Blob => {
+  const { business, client, sections, from, to } = options;
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const writer = new PdfWriter(doc);
+  const serviceName = (id: string) => options.services.find(service => service.id === id)?.name || 'Servicio';
+  const providerName = (id?: string | null) => options.providers?.find(provider => provider.id === id)?.name || '—';
+
+  const records = options.records
+    .filter(record => record.clientId === client.id && isWithinPeriod(record.date, from, to))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+  const appointments = options.appointments
+    .filter(appointment => appointment.clientId === client.id && isWithinPeriod(appointment.date, from, to))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+
+  const period = from || to
+    ? `Periodo: ${from ? formatDate(from) : 'inicio'} a ${to ? formatDate(to) : 'hoy'}`
+    : 'Periodo: todo el historial';
+
+  doc.setProperties({ title: `Expediente de ${client.name}`, author: business.name, creator: business.name });
+  writer.brandHeader(business);
+  writer.title(`Expediente de ${client.name}`, [
+    period,
+    `Generado el ${format(new Date(), "dd/MM/yyyy 'a las' HH:mm", { locale: es })}${options.generatedBy ? ` por ${options.generatedBy}` : ''}`
+  ]);
+
+  if (sections.includes('demographics')) {
+    writer.heading('Datos personales');
+    writer.field('Nombre', client.name);
+    writer.field('Teléfono', client.phone || '—');
+    if (client.email) writer.field('Email', client.email);
+    if (client.age) writer.field('Edad', `${client.age} años`);
+    if (client.createdAt) writer.field('Cliente desde', formatDate(client.createdAt));
+    if (client.notes) writer.field('Notas', client.notes);
+    writer.space(2);
+  }
+
+  if (sections.includes('allergies')) {
+    // Las alergias se toman de todos los expedientes, no solo del periodo: son antecedentes vigentes
+    const allergies = getClientAllergies(client, options.records.filter(record => record.clientId === client.id));
+    writer.heading('Alergias');
+    writer.paragraph(allergies.length > 0 ? allergies.join(', ') : 'Sin alergias registradas', { muted: allergies.length === 0 });
+    writer.space(2);
+  }
+
+  if (sections.includes('records')) {
+    writer.heading(`Expedientes (${records.length})`);
+    if (records.length === 0) {
+      writer.paragraph('Sin expedientes en el periodo seleccionado', { muted: true });
+    }
+    records.forEach(record => {
+      writer.subheading(`${formatDate(record.date)} · ${getRecordSchema(record.category).recordLabel}`);
+      writer.field('Servicio', serviceName(record.serviceId), 3);
+      writer.field('Tratamiento', record.treatment || '—', 3);
+      if (record.diagnosis) writer.field('Diagnóstico', record.diagnosis, 3);
+      if (record.duration) writer.field('Duración', `${record.duration} min`, 3);
+      if (record.notes) writer.field('Notas', record.notes, 3);
+      getRecordDataEntries(record, business.recordFields).forEach(entry => writer.field(entry.label, entry.value, 3));
+
+      if (record.signedAt) {
+        writer.paragraph(`Firmado por ${record.signedByName || 'usuario'} el ${formatDateTime(record.signedAt)}`, { indent: 3, muted: true });
+      }
+      Object.values(record.addenda || {})
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .forEach(addendum => {
+          writer.field(`Adenda (${formatDateTime(addendum.createdAt)}, ${addendum.createdByName})`, addendum.text, 3);
+        });
+      writer.space(2);
+    });
+  }
+
+  if (sections.includes('appointments')) {
+    writer.heading(`Historial de citas (${appointments.length})`);
+    if (appointments.length === 0) {
+      writer.paragraph('Sin citas en el periodo seleccionado', { muted: true });
+    } else {
+      writer.table(
+        [
+          { label: 'Fecha', width: 0.16 },
+          { label: 'Horario', width: 0.16 },
+          { label: 'Servicio', width: 0.3 },
+          { label: 'Profesional', width: 0.22 },
+          { label: 'Estado', width: 0.16 }
+        ],
+        appointments.map(appointment => [
+          formatDate(appointment.date),
+          `${appointment.startTime} - ${appointment.endTime}`,
+          serviceName(appointment.serviceId),
+          providerName(appointment.providerId),
+          STATUS_LABELS[appointment.status] || appointment.status
+        ])
+      );
+    }
+  }
+
+  writer.footer(business);
+  return doc.output('blob');
+};
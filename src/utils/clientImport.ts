@@ -0,0 +1,148 @@
+import type { Client } from '../types';
+import { isValidPhone, normalizePhone, phonesMatch } from './phone';
+
+export type ClientImportField = 'name' | 'phone' | 'email' | 'age' | 'allergies' | 'notes';
+
+// Columna del archivo asignada a cada campo; -1 si no se importa
+export type ClientColumnMapping = Record<ClientImportField, number>;
+
+export type ClientImportRowStatus = 'valid' | 'duplicate' | 'invalid';
+
+export interface ClientImportRow {
+  rowNumber: number; // número de fila en el archivo, para el reporte
+  client: Omit<Client, 'id' | 'businessId' | 'createdAt' | 'updatedAt'>;
+  status: ClientImportRowStatus;
+  messages: string[];
+}
+
+export const CLIENT_IMPORT_FIELDS: { field: ClientImportField; label: string; required: boolean }[] = [
+  { field: 'name', label: 'Nombre', required: true },
+  { field: 'phone', label: 'Teléfono', required: true },
+  { field: 'email', label: 'Email', required: false },
+  { field: 'age', label: 'Edad', required: false },
+  { field: 'allergies', label: 'Alergias', required: false },
+  { field: 'notes', label: 'Notas', required: false }
+];
+
+// Encabezados comunes para sugerir la asignación de columnas
+const HEADER_ALIASES: Record<ClientImportField, string[]> = {
+  name: ['nombre', 'name', 'cliente', 'nombre completo', 'full name'],
+  phone: ['telefono', 'phone', 'celular', 'movil', 'whatsapp', 'tel'],
+  email: ['email', 'correo', 'correo electronico', 'e-mail', 'mail'],
+  age: ['edad', 'age'],
+  allergies: ['alergias', 'allergies', 'alergia'],
+  notes: ['notas', 'notes', 'observaciones', 'comentarios']
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const normalizeHeader = (header: string): string => {
+  return header
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+};
+
+/**
+ * Sugiere qué columna corresponde a cada campo a partir de los encabezados
+ */
+export const guessColumnMapping = (headers: string[]): ClientColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ClientColumnMapping;
+
+  CLIENT_IMPORT_FIELDS.forEach(({ field }) => {
+    mapping[field] = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+  });
+
+  return mapping;
+};
+
+/**
+ * Separa una lista de alergias escrita en una sola celda
+ */
+export const parseAllergies = (value: string): string[] => {
+  return value
+    .split(/[,;|/]/)
+    .map(allergy => allergy.trim())
+    .filter(allergy => allergy.length > 0);
+};
+
+/**
+ * Convierte las filas del archivo en clientes y las valida.
+ * Marca como duplicadas las filas cuyo teléfono o email ya existe
+ * en los clientes del negocio o en una fila anterior del archivo.
+ */
+export const buildClientImportRows = (
+  rows: string[][],
+  mapping: ClientColumnMapping,
+  existingClients: Client[],
+  hasHeaderRow: boolean
+): ClientImportRow[] => {
+  const dataRows = hasHeaderRow ? rows.slice(1) : rows;
+  const firstRowNumber = hasHeaderRow ? 2 : 1;
+  const seenPhones: string[] = [];
+  const seenEmails = new Set<string>();
+
+  existingClients.forEach(client => {
+    if (client.email) seenEmails.add(client.email.trim().toLowerCase());
+  });
+
+  return dataRows.map((cells, index) => {
+    const cell = (field: ClientImportField) => (mapping[field] >= 0 ? (cells[mapping[field]] || '').trim() : '');
+    const messages: string[] = [];
+
+    const name = cell('name');
+    const rawPhone = cell('phone');
+    const email = cell('email').toLowerCase();
+    const ageText = cell('age');
+    const allergies = parseAllergies(cell('allergies'));
+    const notes = cell('notes');
+
+    if (!name) messages.push('Falta el nombre');
+    if (!rawPhone) {
+      messages.push('Falta el teléfono');
+    } else if (!isValidPhone(rawPhone)) {
+      messages.push('Teléfono inválido');
+    }
+    if (email && !EMAIL_PATTERN.test(email)) messages.push('Email inválido');
+
+    let age: number | undefined;
+    if (ageText) {
+      age = Number(ageText);
+      if (!Number.isInteger(age) || age < 0 || age > 120) {
+        messages.push('Edad inválida');
+        age = undefined;
+      }
+    }
+
+    const phone = normalizePhone(rawPhone);
+    const client: ClientImportRow['client'] = {
+      name,
+      phone,
+      ...(email ? { email } : {}),
+      ...(age !== undefined ? { age } : {}),
+      ...(allergies.length > 0 ? { allergies } : {}),
+      ...(notes ? { notes } : {})
+    };
+
+    if (messages.length > 0) {
+      return { rowNumber: firstRowNumber + index, client, status: 'invalid', messages };
+    }
+
+    const duplicatePhone = existingClients.some(existing => phonesMatch(existing.phone, phone))
+      || seenPhones.includes(phone);
+    const duplicateEmail = Boolean(email) && seenEmails.has(email);
+
+    seenPhones.push(phone);
+    if (email) seenEmails.add(email);
+
+    if (duplicatePhone || duplicateEmail) {
+      if (duplicatePhone) messages.push('Teléfono ya registrado');
+      if (duplicateEmail) messages.push('Email ya registrado');
+      return { rowNumber: firstRowNumber + index, client, status: 'duplicate', messages };
+    }
+
+    return { rowNumber: firstRowNumber + index, client, status: 'valid', messages };
+  });
+};
@@ -0,0 +1,65 @@
+// Separadores que se prueban al detectar el formato del archivo
+const CSV_DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Detecta el separador de un CSV a partir de su primera línea
+ */
+export const detectCsvDelimiter = (content: string): string => {
+  const firstLine = content.split(/\r\n|\n|\r/)[0] || '';
+  return CSV_DELIMITERS
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+};
+
+/**
+ * Interpreta un CSV (RFC 4180) con soporte para comillas, saltos de línea
+ * dentro de campos y separadores "," ";" o tabulador.
+ * Devuelve las filas como arreglos de texto, sin filas vacías.
+ */
+export const parseCsv = (content: string, delimiter: string = detectCsvDelimiter(content)): string[][] => {
+  const text = content.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map(cells => cells.map(cell => cell.trim()))
+    .filter(cells => cells.some(cell => cell.length > 0));
+};
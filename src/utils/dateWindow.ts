@@ -0,0 +1,39 @@
+import { addDays, addMonths, format, subDays, subMonths } from 'date-fns';
+
+// Rango de fechas yyyy-MM-dd, ambos extremos incluidos
+export interface DateWindow {
+  from: string;
+  to: string;
+}
+
+/**
+ * Fecha en el formato con el que se guardan las citas (yyyy-MM-dd)
+ */
+export const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Ventana entre dos fechas, incluidas ambas
+ */
+export const getDateWindow = (start: Date, end: Date): DateWindow => {
+  return { from: toDateKey(start), to: toDateKey(end) };
+};
+
+/**
+ * Ventana que abarca los días o meses indicados antes y después de hoy
+ */
+export const getWindowAroundToday = (
+  before: { days?: number; months?: number },
+  after: { days?: number; months?: number },
+  now: Date = new Date()
+): DateWindow => {
+  const start = subDays(subMonths(now, before.months || 0), before.days || 0);
+  const end = addDays(addMonths(now, after.months || 0), after.days || 0);
+  return getDateWindow(start, end);
+};
+
+/**
+ * Indica si una fecha yyyy-MM-dd cae dentro de la ventana
+ */
+export const isInDateWindow = (date: string, window: DateWindow): boolean => {
+  return date >= window.from && date <= window.to;
+};
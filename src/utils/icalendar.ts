@@ -0,0 +1,339 @@
+import type { Appointment, CalendarFeedScope, Client, Provider, Service } from '../types';
+
+// Identificador del producto que genera los calendarios (RFC 5545, PRODID)
+export const ICAL_PRODID = '-//MakeAgend//Agenda//ES';
+
+// Dominio usado para formar los UID de los eventos
+const UID_DOMAIN = 'makeagend';
+
+// Longitud máxima de una línea en octetos antes de plegarla
+const MAX_LINE_OCTETS = 75;
+
+export const STATUS_LABELS: Record<Appointment['status'], string> = {
+  pending: 'Pendiente',
+  confirmed: 'Confirmada',
+  completed: 'Completada',
+  cancelled: 'Cancelada',
+  'no-show': 'No asistió'
+};
+
+const ICAL_STATUS: Record<Appointment['status'], 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED'> = {
+  pending: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+  'no-show': 'CANCELLED'
+};
+
+export interface CalendarFeedFilter {
+  scope: CalendarFeedScope;
+  providerId?: string;
+  clientId?: string;
+}
+
+export interface ICalendarOptions {
+  calendarName: string;
+  appointments: Appointment[];
+  clients: Client[];
+  services: Service[];
+  providers?: Provider[];
+}
+
+/**
+ * Escapa un texto para usarlo como valor TEXT de iCalendar
+ */
+export const escapeICalText = (text: string): string => {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+};
+
+/**
+ * Pliega una línea de contenido a 75 octetos sin partir caracteres UTF-8
+ */
+export const foldICalLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const charOctets = encoder.encode(char).length;
+    // Las líneas de continuación empiezan con un espacio que cuenta en el límite
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+};
+
+/**
+ * Convierte fecha "yyyy-MM-dd" y hora "HH:mm" a fecha-hora local de iCalendar
+ */
+export const toICalDateTime = (date: string, time: string): string => {
+  const [hours, minutes] = time.split(':');
+  return `${date.replace(/-/g, '')}T${hours.padStart(2, '0')}${(minutes || '00').padStart(2, '0')}00`;
+};
+
+/**
+ * Convierte una fecha ISO a fecha-hora UTC de iCalendar
+ */
+export const toICalTimestamp = (isoDate: string): string => {
+  const date = new Date(isoDate);
+  const valid = isNaN(date.getTime()) ? new Date() : date;
+  return valid.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+};
+
+/**
+ * Filtra las citas que corresponden a un calendario del negocio, de un profesional o de un cliente
+ */
+export const filterAppointmentsForFeed = (appointments: Appointment[], filter: CalendarFeedFilter): Appointment[] => {
+  switch (filter.scope) {
+    case 'provider':
+      return appointments.filter(apt => apt.providerId === filter.providerId);
+    case 'client':
+      return appointments.filter(apt => apt.clientId === filter.clientId);
+    default:
+      return appointments;
+  }
+};
+
+const buildEvent = (
+  appointment: Appointment,
+  { clients, services, providers = [] }: Omit<ICalendarOptions, 'calendarName' | 'appointments'>
+): string[] => {
+  const client = clients.find(c => c.id === appointment.clientId);
+  const service = services.find(s => s.id === appointment.serviceId);
+  const provider = providers.find(p => p.id === appointment.providerId);
+
+  const clientName = client?.name || 'Cliente';
+  const serviceName = service?.name || 'Servicio';
+
+  const description = [
+    `Cliente: ${clientName}`,
+    client?.phone ? `Teléfono: ${client.phone}` : null,
+    `Servicio: ${serviceName}`,
+    provider ? `Profesional: ${provider.name}` : null,
+    `Estado: ${STATUS_LABELS[appointment.status]}`,
+    appointment.notes ? `Notas: ${appointment.notes}` : null
+  ].filter(Boolean).join('\n');
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${appointment.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${toICalTimestamp(appointment.updatedAt || appointment.createdAt)}`,
+    `DTSTART:${toICalDateTime(appointment.date, appointment.startTime)}`,
+    `DTEND:${toICalDateTime(appointment.date, appointment.endTime)}`,
+    `SUMMARY:${escapeICalText(`${serviceName} - ${clientName}`)}`,
+    `DESCRIPTION:${escapeICalText(description)}`,
+    `STATUS:${ICAL_STATUS[appointment.status]}`,
+    `CATEGORIES:${escapeICalText(STATUS_LABELS[appointment.status])}`,
+    'END:VEVENT'
+  ];
+};
+
+/**
+ * Genera un calendario iCalendar (RFC 5545) con las citas indicadas.
+ * Las horas se escriben como hora local, igual que se guardan en la agenda.
+ */
+export const generateICalendar = (options: ICalendarOptions): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICAL_PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(options.calendarName)}`,
+    ...[...options.appointments]
+      .sort((a, b) => `${a.date} ${a.startTime}`.localeCompare(`${b.date} ${b.startTime}`))
+      .flatMap(appointment => buildEvent(appointment, options)),
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * Nombre de archivo .ics a partir del nombre del calendario
+ */
+export const getICalendarFileName = (calendarName: string): string => {
+  const base = calendarName
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+  return `${base || 'agenda'}.ics`;
+};
+
+// Formato de la ruta de los calendarios suscribibles: /calendar/<token>.ics
+export const CALENDAR_FEED_PATH = /^\/calendar\/([a-f0-9]{32})\.ics$/;
+
+/**
+ * Ruta pública de un calendario suscribible
+ */
+export const getCalendarFeedPath = (token: string): string => {
+  return `/calendar/${token}.ics`;
+};
+
+export interface ParsedICalEvent {
+  uid: string;
+  summary: string;
+  description: string;
+  location: string;
+  date: string; // "yyyy-MM-dd"
+  startTime: string; // "HH:mm"
+  endTime: string;
+  allDay: boolean;
+  cancelled: boolean;
+  hasRecurrence: boolean;
+}
+
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Revierte el escape de un valor TEXT de iCalendar
+ */
+export const unescapeICalText = (text: string): string => {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+};
+
+// Une las líneas plegadas y separa cada propiedad en nombre, parámetros y valor
+const parseProperties = (content: string): ICalProperty[] => {
+  const unfolded = content.replace(/\r\n[ \t]|\n[ \t]/g, '');
+
+  return unfolded
+    .split(/\r\n|\n|\r/)
+    .filter(line => line.trim().length > 0)
+    .map(line => {
+      const colonIndex = line.search(/:(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+      const head = colonIndex >= 0 ? line.substring(0, colonIndex) : line;
+      const value = colonIndex >= 0 ? line.substring(colonIndex + 1) : '';
+      const [name, ...paramParts] = head.split(';');
+      const params = Object.fromEntries(
+        paramParts.map(part => {
+          const [key, ...rest] = part.split('=');
+          return [key.toUpperCase(), rest.join('=').replace(/^"|"$/g, '')];
+        })
+      );
+      return { name: name.toUpperCase(), params, value };
+    });
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+// Convierte un DTSTART/DTEND a fecha y hora locales
+const parseICalDateValue = (property: ICalProperty): { date: string; time: string; allDay: boolean } | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, , utc] = match;
+  if (!hours || property.params.VALUE === 'DATE') {
+    return { date: `${year}-${month}-${day}`, time: '00:00', allDay: true };
+  }
+
+  if (utc) {
+    // Las horas UTC se convierten a la hora local del equipo
+    const local = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes)));
+    return {
+      date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+      time: `${pad(local.getHours())}:${pad(local.getMinutes())}`,
+      allDay: false
+    };
+  }
+
+  // Hora flotante o con TZID: se conserva la hora de reloj del evento
+  return { date: `${year}-${month}-${day}`, time: `${hours}:${minutes}`, allDay: false };
+};
+
+// Duración ISO 8601 (p. ej. PT1H30M) en minutos
+const parseDurationMinutes = (duration: string): number => {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(duration.trim());
+  if (!match) return 0;
+  const [, weeks, days, hours, minutes] = match;
+  return (Number(weeks || 0) * 7 + Number(days || 0)) * 1440 + Number(hours || 0) * 60 + Number(minutes || 0);
+};
+
+/**
+ * Interpreta un archivo iCalendar y devuelve sus eventos (VEVENT).
+ * Los eventos recurrentes se devuelven solo con su primera ocurrencia.
+ */
+export const parseICalendar = (content: string): ParsedICalEvent[] => {
+  const events: ParsedICalEvent[] = [];
+  let current: ICalProperty[] | null = null;
+  let nestedDepth = 0;
+
+  for (const property of parseProperties(content)) {
+    if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+      current = [];
+      nestedDepth = 0;
+      continue;
+    }
+    if (!current) continue;
+
+    // Se ignoran los componentes anidados (VALARM)
+    if (property.name === 'BEGIN') {
+      nestedDepth++;
+      continue;
+    }
+    if (property.name === 'END' && nestedDepth > 0) {
+      nestedDepth--;
+      continue;
+    }
+    if (nestedDepth > 0) continue;
+
+    if (property.name === 'END' && property.value.toUpperCase() === 'VEVENT') {
+      const properties = current;
+      const get = (name: string) => properties.find(p => p.name === name);
+      const start = get('DTSTART') ? parseICalDateValue(get('DTSTART')!) : null;
+      current = null;
+      if (!start) continue;
+
+      // Los eventos que terminan otro día se recortan al final del día de inicio
+      const endProperty = get('DTEND');
+      const durationProperty = get('DURATION');
+      let endTime = start.allDay ? '23:59' : start.time;
+      if (!start.allDay && endProperty) {
+        const end = parseICalDateValue(endProperty);
+        endTime = end && end.date === start.date && !end.allDay ? end.time : '23:59';
+      } else if (!start.allDay && durationProperty) {
+        const [hours, minutes] = start.time.split(':').map(Number);
+        const total = Math.min(hours * 60 + minutes + parseDurationMinutes(durationProperty.value), 23 * 60 + 59);
+        endTime = `${pad(Math.floor(total / 60))}:${pad(total % 60)}`;
+      }
+
+      events.push({
+        uid: get('UID')?.value || `${start.date}-${start.time}-${events.length}`,
+        summary: unescapeICalText(get('SUMMARY')?.value || ''),
+        description: unescapeICalText(get('DESCRIPTION')?.value || ''),
+        location: unescapeICalText(get('LOCATION')?.value || ''),
+        date: start.date,
+        startTime: start.time,
+        endTime,
+        allDay: start.allDay,
+        cancelled: get('STATUS')?.value.toUpperCase() === 'CANCELLED',
+        hasRecurrence: Boolean(get('RRULE'))
+      });
+      continue;
+    }
+
+    current.push(property);
+  }
+
+  return events;
+};
@@ -0,0 +1,134 @@
+import { invitationRepository } from '../storage';
+import type { BusinessInvitation, BusinessRole } from '../types';
+import { findBusinessByKey } from './businessKey';
+
+// Sin 0/O ni 1/I para que el código se pueda dictar o escribir a mano
+const CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 12;
+const CODE_PATTERN = /^[A-HJ-NP-Z2-9]{12}$/;
+const LEGACY_KEY_PATTERN = /^[0-9A-F]{16}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const INVITATION_QUERY_PARAM = 'invitacion';
+
+// Negocio al que se une un usuario con un código de invitación o la clave del negocio
+export interface BusinessJoin {
+  businessId: string;
+  businessName: string;
+  role: BusinessRole;
+  // Origen del acceso, se guarda en su BusinessAccess
+  source: { businessKey: string } | { invitationId: string };
+  // Escrituras que acompañan al acceso en la misma actualización (uso de la invitación)
+  updates: Record<string, unknown>;
+}
+
+/**
+ * Código de invitación recibido en el enlace (?invitacion=CODIGO)
+ */
+export const getInvitationCodeFromUrl = (): string | null => {
+  return new URLSearchParams(window.location.search).get(INVITATION_QUERY_PARAM);
+};
+
+/**
+ * Indica si la invitación todavía se puede canjear
+ */
+export const isInvitationUsable = (invitation: Omit<BusinessInvitation, 'id'>, now: number = Date.now()): boolean => {
+  return invitation.expiresAt > now && invitation.uses < invitation.maxUses;
+};
+
+export class InvitationService {
+  private static instance: InvitationService;
+
+  private constructor() {}
+
+  static getInstance(): InvitationService {
+    if (!InvitationService.instance) {
+      InvitationService.instance = new InvitationService();
+    }
+    return InvitationService.instance;
+  }
+
+  private generateCode(): string {
+    const bytes = new Uint8Array(CODE_LENGTH);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, byte => CODE_CHARS.charAt(byte % CODE_CHARS.length)).join('');
+  }
+
+  // Enlace que abre el registro con el código ya capturado
+  getInvitationLink(code: string): string {
+    return `${window.location.origin}/?${INVITATION_QUERY_PARAM}=${code}`;
+  }
+
+  // Crear una invitación con rol, vigencia y número de usos
+  async createInvitation(options: {
+    businessId: string;
+    businessName: string;
+    role: BusinessRole;
+    createdBy: string;
+    expiresInDays: number;
+    maxUses: number;
+  }): Promise<BusinessInvitation> {
+    const code = this.generateCode();
+    const invitation: Omit<BusinessInvitation, 'id'> = {
+      businessId: options.businessId,
+      businessName: options.businessName,
+      role: options.role,
+      createdBy: options.createdBy,
+      createdAt: new Date().toISOString(),
+      expiresAt: Date.now() + options.expiresInDays * DAY_MS,
+      maxUses: options.maxUses,
+      uses: 0
+    };
+
+    await invitationRepository.set(code, invitation);
+    return { id: code, ...invitation };
+  }
+
+  // Invitaciones de un negocio (más recientes primero)
+  async listInvitations(businessId: string): Promise<BusinessInvitation[]> {
+    const invitations: BusinessInvitation[] = await invitationRepository.findBy('businessId', businessId);
+    return invitations.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  // Revocar una invitación antes de que se use o expire
+  async revokeInvitation(code: string): Promise<void> {
+    await invitationRepository.remove(code);
+  }
+
+  // Resolver un código de invitación o una clave de negocio (acceso anterior a las invitaciones)
+  async resolveJoinCode(input: string): Promise<BusinessJoin | null> {
+    const code = input.trim().toUpperCase();
+
+    if (LEGACY_KEY_PATTERN.test(code)) {
+      const business = await findBusinessByKey(code);
+      if (!business) return null;
+
+      return {
+        businessId: business.businessId,
+        businessName: business.businessName,
+        role: business.joinRole,
+        source: { businessKey: code },
+        updates: {}
+      };
+    }
+
+    if (!CODE_PATTERN.test(code)) return null;
+
+    const invitation = await invitationRepository.get(code);
+    if (!invitation) return null;
+
+    if (!isInvitationUsable(invitation)) {
+      throw new Error('La invitación expiró o ya fue utilizada');
+    }
+
+    return {
+      businessId: invitation.businessId,
+      businessName: invitation.businessName,
+      role: invitation.role,
+      source: { invitationId: code },
+      updates: { [`${invitationRepository.path(code)}/uses`]: invitation.uses + 1 }
+    };
+  }
+}
+
+export const invitationService = InvitationService.getInstance();
@@ -0,0 +1,47 @@
+// Timbrado de facturas: un proveedor autorizado de certificación (PAC) sella el XML con
+// el CSD del negocio, lo certifica ante el SAT y devuelve el folio fiscal (UUID).
+
+export interface StampResult {
+  uuid: string;
+  stampedAt: string;
+  xml: string; // XML sellado con el complemento del timbre
+}
+
+export interface InvoiceStamper {
+  readonly provider: string;
+  stamp(xml: string): Promise<StampResult>;
+}
+
+export const LOCAL_STAMP_PROVIDER = 'local';
+
+// Timbrado simulado para desarrollo y pruebas: asigna un folio fiscal al azar y deja el XML igual
+export class LocalInvoiceStamper implements InvoiceStamper {
+  readonly provider = LOCAL_STAMP_PROVIDER;
+
+  async stamp(xml: string): Promise<StampResult> {
+    return {
+      uuid: crypto.randomUUID().toUpperCase(),
+      stampedAt: new Date().toISOString(),
+      xml
+    };
+  }
+}
+
+let activeStamper: InvoiceStamper | null = null;
+
+/**
+ * PAC activo; mientras no se configure uno se usa el timbrado local
+ */
+export const getInvoiceStamper = (): InvoiceStamper => {
+  if (!activeStamper) {
+    activeStamper = new LocalInvoiceStamper();
+  }
+  return activeStamper;
+};
+
+/**
+ * Reemplaza el PAC activo (p. ej. por la integración con un proveedor real)
+ */
+export const setInvoiceStamper = (stamper: InvoiceStamper): void => {
+  activeStamper = stamper;
+};
@@ -0,0 +1,132 @@
+import { jsPDF } from 'jspdf';
+import { format } from 'date-fns';
+import { es } from 'date-fns/locale';
+import type { Appointment, AppointmentCharge, Business, Invoice, Payment } from '../types';
+import { PAYMENT_FORMS, PAYMENT_FORM_BY_METHOD, getCfdiUse, getTaxRegime } from '../config/satCatalogs';
+import { PAYMENT_METHODS } from './cashRegister';
+import { formatMoney, getChargeBalance, roundMoney } from './payments';
+import { PdfWriter } from './pdfWriter';
+import { LOCAL_STAMP_PROVIDER } from './invoiceStamping';
+
+/**
+ * Cuentas de citas completadas y pagadas que aún no aparecen en una factura
+ */
+export const getInvoiceableCharges = (
+  charges: AppointmentCharge[],
+  appointments: Appointment[],
+  payments: Payment[],
+  invoices: Invoice[]
+): AppointmentCharge[] => {
+  const invoiced = new Set(invoices.flatMap(invoice => invoice.appointmentIds));
+  return charges
+    .filter(charge => {
+      const appointment = appointments.find(a => a.id === charge.appointmentId);
+      return appointment?.status === 'completed'
+        && !invoiced.has(charge.appointmentId)
+        && charge.price - charge.discount > 0
+        && getChargeBalance(charge, payments) <= 0;
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Forma de pago de la factura: la del método con el que se pagó la mayor cantidad
+ */
+export const getPaymentForm = (payments: Payment[]): string => {
+  const totals = PAYMENT_METHODS.map(method => ({
+    method,
+    amount: payments.filter(payment => payment.method === method).reduce((sum, payment) => sum + payment.amount, 0)
+  }));
+  const top = totals.reduce((best, current) => (current.amount > best.amount ? current : best), totals[0]);
+  return PAYMENT_FORM_BY_METHOD[top.method];
+};
+
+/**
+ * Siguiente folio de la serie
+ */
+export const getNextFolio = (invoices: Invoice[], series: string): number => {
+  return invoices.filter(invoice => invoice.series === series).reduce((max, invoice) => Math.max(max, invoice.folio), 0) + 1;
+};
+
+/**
+ * Nombre de los archivos de la factura
+ */
+export const getInvoiceFileName = (invoice: Invoice, extension: 'xml' | 'pdf'): string => {
+  return `factura-${invoice.series}${invoice.folio}-${invoice.receiver.rfc}.${extension}`;
+};
+
+const describeRegime = (code: string) => `${code} - ${getTaxRegime(code)?.name || ''}`;
+
+/**
+ * Representación impresa de la factura
+ */
+export const createInvoicePdf = (business: Business, invoice: Invoice): Blob => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const writer = new PdfWriter(doc);
+  const taxLabel = invoice.taxTreatment === 'iva16' ? 'IVA 16%' : 'IVA exento';
+  const status = invoice.status === 'stamped'
+    ? `Folio fiscal ${invoice.uuid}`
+    : 'Sin timbrar: este documento no tiene validez fiscal';
+
+  doc.setProperties({ title: `Factura ${invoice.series}-${invoice.folio}`, author: business.name, creator: business.name });
+  writer.brandHeader(business);
+  writer.title(`Factura ${invoice.series}-${invoice.folio}`, [
+    `Emitida el ${format(new Date(invoice.issuedAt), "dd/MM/yyyy 'a las' HH:mm", { locale: es })}`,
+    status
+  ]);
+
+  writer.heading('Emisor');
+  writer.field('RFC', invoice.issuer.rfc);
+  writer.field('Nombre', invoice.issuer.legalName);
+  writer.field('Régimen fiscal', describeRegime(invoice.issuer.taxRegime));
+  writer.field('Lugar de expedición', invoice.issuer.postalCode);
+  writer.space(2);
+
+  writer.heading('Receptor');
+  writer.field('RFC', invoice.receiver.rfc);
+  writer.field('Nombre', invoice.receiver.legalName);
+  writer.field('Régimen fiscal', describeRegime(invoice.receiver.taxRegime));
+  writer.field('Domicilio fiscal', invoice.receiver.postalCode);
+  writer.field('Uso CFDI', `${invoice.receiver.cfdiUse} - ${getCfdiUse(invoice.receiver.cfdiUse)?.name || ''}`);
+  writer.space(2);
+
+  writer.heading('Conceptos');
+  writer.table(
+    [
+      { label: 'Clave', width: 0.14 },
+      { label: 'Descripción', width: 0.38 },
+      { label: 'Valor unitario', width: 0.16 },
+      { label: 'Descuento', width: 0.16 },
+      { label: 'Importe', width: 0.16 }
+    ],
+    invoice.concepts.map(concept => [
+      concept.productCode,
+      concept.description,
+      formatMoney(concept.unitValue),
+      formatMoney(concept.discount),
+      formatMoney(roundMoney(concept.unitValue - concept.discount))
+    ])
+  );
+  writer.field('Subtotal', formatMoney(invoice.subtotal));
+  if (invoice.discount > 0) writer.field('Descuento', formatMoney(invoice.discount));
+  writer.field(taxLabel, formatMoney(invoice.taxes));
+  writer.field('Total', formatMoney(invoice.total));
+  writer.space(2);
+
+  writer.heading('Pago');
+  writer.field('Forma de pago', `${invoice.paymentForm} - ${PAYMENT_FORMS[invoice.paymentForm] || ''}`);
+  writer.field('Método de pago', 'PUE - Pago en una sola exhibición');
+  writer.field('Moneda', 'MXN - Peso mexicano');
+  if (invoice.status === 'stamped') {
+    writer.space(2);
+    writer.heading('Timbrado');
+    writer.field('Folio fiscal', invoice.uuid || '');
+    if (invoice.stampedAt) writer.field('Fecha de timbrado', format(new Date(invoice.stampedAt), 'dd/MM/yyyy HH:mm:ss'));
+    if (invoice.stampProvider === LOCAL_STAMP_PROVIDER) {
+      writer.paragraph('Timbrado local de prueba: el SAT no reconoce este folio fiscal.', { muted: true });
+    }
+  }
+
+  writer.footer(business, 'Representación impresa de un CFDI 4.0');
+  return doc.output('blob');
+};
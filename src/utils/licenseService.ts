@@ -1,9 +1,14 @@
-import { ref, get, update } from 'firebase/database';
-import { database } from '../config/firebase';
+import { businessRepository, getDataStore, userRepository } from '../storage';
 import type { BusinessLicense, Business } from '../types';
+import { auditService, toFieldUpdates, type AuditActor } from './auditService';
+
+// Las acciones sobre licencias se registran en la bitácora del negocio
+const adminActor = (adminUserId: string): AuditActor => ({ id: adminUserId, name: 'Administrador del sistema' });
+const SYSTEM_ACTOR: AuditActor = { id: 'system', name: 'Sistema' };
 
 export class LicenseService {
   private static instance: LicenseService;
+  private monitoringInterval: ReturnType<typeof setInterval> | null = null;
 
   private constructor() {}
 
@@ -48,31 +53,37 @@ export class LicenseService {
     const startDate = new Date().toISOString();
     const endDate = this.calculateEndDate(startDate, licenseType);
     
-    const businessRef = ref(database, `businesses/${businessId}`);
-    const snapshot = await get(businessRef);
+    const business = await businessRepository.getFields(businessId, ['ownerId', 'license']);
     
-    if (!snapshot.exists()) {
+    if (!business) {
       throw new Error('Negocio no encontrado');
     }
     
-    const business = snapshot.val() as Business;
     const currentRenewalCount = business.license?.renewalCount || 0;
     
     const newLicense: BusinessLicense = {
       type: licenseType,
       startDate,
       endDate,
+      expiresAt: new Date(endDate).getTime(),
       isActive: true,
       assignedBy: adminUserId,
       assignedAt: new Date().toISOString(),
       renewalCount: currentRenewalCount + 1
     };
 
-    await update(businessRef, {
+    await auditService.commit(businessId, adminActor(adminUserId), toFieldUpdates(businessRepository.path(businessId), {
       license: newLicense,
       isActive: true,
       updatedAt: new Date().toISOString()
-    });
+    }), [{
+      action: business.license ? 'update' : 'create',
+      entityType: 'license',
+      entityPath: `${businessRepository.path(businessId)}/license`,
+      before: business.license,
+      after: newLicense,
+      summary: `Licencia asignada (${licenseType})`
+    }]);
 
     // Desbloquear usuarios asociados al negocio
     await this.unblockBusinessUsers(businessId);
@@ -103,13 +114,20 @@ export class LicenseService {
 
   // Bloquear negocio por licencia expirada
   async blockBusinessForExpiredLicense(businessId: string): Promise<void> {
-    const businessRef = ref(database, `businesses/${businessId}`);
-    
-    await update(businessRef, {
+    const license = await this.getBusinessLicense(businessId);
+
+    await auditService.commit(businessId, SYSTEM_ACTOR, toFieldUpdates(businessRepository.path(businessId), {
       isActive: false,
       'license/isActive': false,
       updatedAt: new Date().toISOString()
-    });
+    }), [{
+      action: 'update',
+      entityType: 'license',
+      entityPath: `${businessRepository.path(businessId)}/license`,
+      before: license,
+      after: { ...license, isActive: false },
+      summary: 'Negocio bloqueado por licencia expirada'
+    }]);
 
     // Bloquear todos los usuarios asociados
     await this.blockBusinessUsers(businessId, 'Licencia expirada');
@@ -119,14 +137,12 @@ export class LicenseService {
   async cancelLicense(businessId: string, adminUserId: string): Promise<void> {
     console.log('Cancelando licencia para negocio:', businessId, 'por admin:', adminUserId);
     
-    const businessRef = ref(database, `businesses/${businessId}`);
-    const snapshot = await get(businessRef);
+    const business = await businessRepository.getFields(businessId, ['ownerId', 'license']);
     
-    if (!snapshot.exists()) {
+    if (!business) {
       throw new Error('Negocio no encontrado');
     }
 
-    const business = snapshot.val();
     const currentLicense = business.license;
 
     if (!currentLicense) {
@@ -141,15 +157,23 @@ export class LicenseService {
       isActive: false,
       canceledAt: new Date().toISOString(),
       canceledBy: adminUserId,
-      endDate: new Date().toISOString() // Terminar inmediatamente
+      endDate: new Date().toISOString(), // Terminar inmediatamente
+      expiresAt: Date.now()
     };
 
     console.log('Actualizando negocio con licencia cancelada');
-    await update(businessRef, {
+    await auditService.commit(businessId, adminActor(adminUserId), toFieldUpdates(businessRepository.path(businessId), {
       license: canceledLicense,
       isActive: false,
       updatedAt: new Date().toISOString()
-    });
+    }), [{
+      action: 'update',
+      entityType: 'license',
+      entityPath: `${businessRepository.path(businessId)}/license`,
+      before: currentLicense,
+      after: canceledLicense,
+      summary: 'Licencia cancelada por administrador'
+    }]);
 
     console.log('Bloqueando usuarios del negocio');
     // Bloquear todos los usuarios asociados
@@ -161,11 +185,9 @@ export class LicenseService {
   private async blockBusinessUsers(businessId: string, reason: string): Promise<void> {
     console.log('Bloqueando usuarios del negocio:', businessId, 'razón:', reason);
     
-    const usersRef = ref(database, 'users');
-    const snapshot = await get(usersRef);
+    const users = await userRepository.getAll();
     
-    if (snapshot.exists()) {
-      const users = snapshot.val();
+    if (Object.keys(users).length > 0) {
       const updates: Record<string, any> = {};
       
       Object.keys(users).forEach(userId => {
@@ -207,7 +229,7 @@ export class LicenseService {
       
       console.log('Actualizaciones a aplicar:', Object.keys(updates).length);
       if (Object.keys(updates).length > 0) {
-        await update(usersRef, updates);
+        await getDataStore().update('', updates);
         console.log('Usuarios bloqueados exitosamente');
       } else {
         console.log('No se encontraron usuarios para bloquear');
@@ -217,11 +239,9 @@ export class LicenseService {
 
   // Desbloquear usuarios de un negocio
   private async unblockBusinessUsers(businessId: string): Promise<void> {
-    const usersRef = ref(database, 'users');
-    const snapshot = await get(usersRef);
+    const users = await userRepository.getAll();
     
-    if (snapshot.exists()) {
-      const users = snapshot.val();
+    if (Object.keys(users).length > 0) {
       const updates: Record<string, any> = {};
       
       Object.keys(users).forEach(userId => {
@@ -253,22 +273,20 @@ export class LicenseService {
       });
       
       if (Object.keys(updates).length > 0) {
-        await update(usersRef, updates);
+        await getDataStore().update('', updates);
       }
     }
   }
 
   // Verificar todas las licencias y bloquear las expiradas
   async checkAllLicenses(): Promise<void> {
-    const businessesRef = ref(database, 'businesses');
-    const snapshot = await get(businessesRef);
+    const businesses = await businessRepository.getAll();
     
-    if (snapshot.exists()) {
-      const businesses = snapshot.val();
+    if (Object.keys(businesses).length > 0) {
       const promises: Promise<void>[] = [];
       
       Object.keys(businesses).forEach(businessId => {
-        const business = businesses[businessId] as Business;
+        const business = businesses[businessId];
         
         if (business.license && business.isActive !== false) {
           if (this.isLicenseExpired(business.license)) {
@@ -281,10 +299,12 @@ export class LicenseService {
     }
   }
 
-  // Configurar listener para verificación automática de licencias
+  // Configurar verificación automática de licencias (solo administradores: recorre todos los negocios)
   startLicenseMonitoring(): void {
+    if (this.monitoringInterval) return;
+
     // Verificar cada hora
-    setInterval(() => {
+    this.monitoringInterval = setInterval(() => {
       this.checkAllLicenses().catch(console.error);
     }, 60 * 60 * 1000);
 
@@ -292,26 +312,22 @@ export class LicenseService {
     this.checkAllLicenses().catch(console.error);
   }
 
+  // Detener la verificación automática de licencias
+  stopLicenseMonitoring(): void {
+    if (this.monitoringInterval) {
+      clearInterval(this.monitoringInterval);
+      this.monitoringInterval = null;
+    }
+  }
+
   // Obtener información de licencia de un negocio
   async getBusinessLicense(businessId: string): Promise<BusinessLicense | null> {
-    const businessRef = ref(database, `businesses/${businessId}/license`);
-    const snapshot = await get(businessRef);
-    
-    return snapshot.exists() ? snapshot.val() : null;
+    return getDataStore().get<BusinessLicense>(`${businessRepository.path(businessId)}/license`);
   }
 
   // Obtener todos los negocios con información de licencias (para Admin)
   async getAllBusinessesWithLicenses(): Promise<Array<Business & { id: string }>> {
-    const businessesRef = ref(database, 'businesses');
-    const snapshot = await get(businessesRef);
-    
-    if (!snapshot.exists()) return [];
-    
-    const businesses = snapshot.val();
-    return Object.keys(businesses).map(id => ({
-      id,
-      ...businesses[id]
-    }));
+    return businessRepository.list();
   }
 }
 
@@ -1,5 +1,4 @@
-import { ref, push, set, get, update, onValue, off, query, orderByChild, equalTo } from 'firebase/database';
-import { database } from '../config/firebase';
+import { getDataStore, notificationRepository } from '../storage';
 import type { Notification } from '../types';
 
 export class NotificationService {
@@ -17,10 +16,9 @@ export class NotificationService {
 
   // Crear una nueva notificación
   async createNotification(notification: Omit<Notification, 'id' | 'createdAt' | 'isRead'>): Promise<string> {
-    const notificationsRef = ref(database, 'notifications');
-    const newNotificationRef = push(notificationsRef);
+    const notificationId = notificationRepository.newId();
     
-    if (!newNotificationRef.key) {
+    if (!notificationId) {
       throw new Error('No se pudo generar ID para la notificación');
     }
 
@@ -30,15 +28,15 @@ export class NotificationService {
 
     const fullNotification: Notification = {
       ...notification,
-      id: newNotificationRef.key,
+      id: notificationId,
       title: cleanTitle,
       message: cleanMessage,
       createdAt: new Date().toISOString(),
       isRead: false
     };
 
-    await set(newNotificationRef, fullNotification);
-    return newNotificationRef.key;
+    await notificationRepository.set(notificationId, fullNotification);
+    return notificationId;
   }
 
   // Limpiar mensajes de notificación
@@ -54,19 +52,7 @@ export class NotificationService {
 
   // Obtener notificaciones de un usuario
   async getUserNotifications(userId: string): Promise<Notification[]> {
-    const notificationsRef = ref(database, 'notifications');
-    const userQuery = query(notificationsRef, orderByChild('userId'), equalTo(userId));
-    const snapshot = await get(userQuery);
-    
-    if (!snapshot.exists()) return [];
-    
-    const notifications: Notification[] = [];
-    snapshot.forEach(childSnapshot => {
-      notifications.push({
-        id: childSnapshot.key!,
-        ...childSnapshot.val()
-      });
-    });
+    const notifications: Notification[] = await notificationRepository.findBy('userId', userId);
     
     // Ordenar por fecha (más reciente primero)
     return notifications.sort((a, b) => 
@@ -76,19 +62,7 @@ export class NotificationService {
 
   // Obtener notificaciones de un negocio
   async getBusinessNotifications(businessId: string): Promise<Notification[]> {
-    const notificationsRef = ref(database, 'notifications');
-    const businessQuery = query(notificationsRef, orderByChild('businessId'), equalTo(businessId));
-    const snapshot = await get(businessQuery);
-    
-    if (!snapshot.exists()) return [];
-    
-    const notifications: Notification[] = [];
-    snapshot.forEach(childSnapshot => {
-      notifications.push({
-        id: childSnapshot.key!,
-        ...childSnapshot.val()
-      });
-    });
+    const notifications: Notification[] = await notificationRepository.findBy('businessId', businessId);
     
     return notifications.sort((a, b) => 
       new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
@@ -97,8 +71,7 @@ export class NotificationService {
 
   // Marcar notificación como leída
   async markAsRead(notificationId: string): Promise<void> {
-    const notificationRef = ref(database, `notifications/${notificationId}`);
-    await update(notificationRef, {
+    await notificationRepository.update(notificationId, {
       isRead: true,
       readAt: new Date().toISOString()
     });
@@ -115,33 +88,18 @@ export class NotificationService {
     });
     
     if (Object.keys(updates).length > 0) {
-      await update(ref(database), updates);
+      await getDataStore().update('', updates);
     }
   }
 
   // Eliminar notificación
   async deleteNotification(notificationId: string): Promise<void> {
-    const notificationRef = ref(database, `notifications/${notificationId}`);
-    await set(notificationRef, null);
+    await notificationRepository.remove(notificationId);
   }
 
   // Configurar listener en tiempo real para notificaciones de usuario
   subscribeToUserNotifications(userId: string, callback: (notifications: Notification[]) => void): () => void {
-    const notificationsRef = ref(database, 'notifications');
-    const userQuery = query(notificationsRef, orderByChild('userId'), equalTo(userId));
-    
-    const unsubscribe = onValue(userQuery, (snapshot) => {
-      const notifications: Notification[] = [];
-      
-      if (snapshot.exists()) {
-        snapshot.forEach(childSnapshot => {
-          notifications.push({
-            id: childSnapshot.key!,
-            ...childSnapshot.val()
-          });
-        });
-      }
-      
+    const unsubscribe = notificationRepository.subscribeBy('userId', userId, (notifications) => {
       // Ordenar por fecha (más reciente primero)
       const sortedNotifications = notifications.sort((a, b) => 
         new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
@@ -151,16 +109,30 @@ export class NotificationService {
     });
 
     // Guardar referencia para cleanup
-    this.listeners.set(`user_${userId}`, () => {
-      off(userQuery, 'value', unsubscribe);
-    });
+    this.listeners.set(`user_${userId}`, unsubscribe);
 
     return () => {
-      off(userQuery, 'value', unsubscribe);
+      unsubscribe();
       this.listeners.delete(`user_${userId}`);
     };
   }
 
+  // Listener en tiempo real para las notificaciones dirigidas a los administradores
+  subscribeToAdminNotifications(callback: (notifications: Notification[]) => void): () => void {
+    const unsubscribe = notificationRepository.subscribeBy('audience', 'admins', (notifications) => {
+      callback(notifications.sort((a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      ));
+    });
+
+    this.listeners.set('admins', unsubscribe);
+
+    return () => {
+      unsubscribe();
+      this.listeners.delete('admins');
+    };
+  }
+
   // Limpiar todos los listeners
   cleanup(): void {
     this.listeners.forEach(unsubscribe => unsubscribe());
@@ -231,6 +203,29 @@ export class NotificationService {
     });
   }
 
+  // Notificación al asistente cuando el propietario cambia su rol
+  async notifyAccessRoleChanged(userId: string, businessId: string, businessName: string, roleLabel: string): Promise<void> {
+    await this.createNotification({
+      type: 'access_updated',
+      title: 'Rol actualizado',
+      message: `Su rol en ${businessName} ahora es ${roleLabel}.`,
+      priority: 'medium',
+      businessId,
+      userId
+    });
+  }
+
+  // Notificación al asistente cuando pierde el acceso a un negocio
+  async notifyAccessRevoked(userId: string, businessName: string): Promise<void> {
+    await this.createNotification({
+      type: 'access_revoked',
+      title: 'Acceso revocado',
+      message: `Ya no tiene acceso a ${businessName}.`,
+      priority: 'high',
+      userId
+    });
+  }
+
   // Notificación de expediente actualizado
   async notifyRecordUpdated(businessId: string, clientName: string, updatedBy: string, targetUserId?: string): Promise<void> {
     await this.createNotification({
@@ -243,34 +238,63 @@ export class NotificationService {
     });
   }
 
+  // Notificación de cita reservada desde la página pública
+  async notifyPublicBooking(
+    businessId: string,
+    ownerId: string,
+    clientName: string,
+    serviceName: string,
+    date: string,
+    time: string
+  ): Promise<void> {
+    await this.createNotification({
+      type: 'appointment_pending',
+      title: 'Nueva reserva en línea',
+      message: `${clientName} reservó ${serviceName} para el ${date} a las ${time}. Confirme la cita.`,
+      priority: 'high',
+      businessId,
+      userId: ownerId,
+      metadata: { date, time }
+    });
+  }
+
+  // Notificación de horario liberado con clientes en lista de espera
+  async notifyWaitlistMatch(
+    businessId: string,
+    ownerId: string,
+    serviceName: string,
+    date: string,
+    time: string,
+    clientNames: string[],
+    waitlistEntryIds: string[]
+  ): Promise<void> {
+    await this.createNotification({
+      type: 'waitlist_match',
+      title: 'Horario disponible para lista de espera',
+      message: `Se liberó un horario de ${serviceName} el ${date} a las ${time}. Clientes sugeridos: ${clientNames.join(', ')}.`,
+      priority: 'high',
+      businessId,
+      userId: ownerId,
+      metadata: { date, time, waitlistEntryIds }
+    });
+  }
+
   // Notificación para admin sobre solicitud de reactivación
   async notifyAdminReactivationRequest(businessId: string, businessName: string, ownerEmail: string): Promise<void> {
-    // Obtener el ID del admin (usuario con email específico)
-    const usersRef = ref(database, 'users');
-    const snapshot = await get(usersRef);
-    
-    if (snapshot.exists()) {
-      const users = snapshot.val();
-      const adminUser = Object.keys(users).find(userId => 
-        users[userId].email === 'sauldisel4@gmail.com' && users[userId].role === 'admin'
-      );
-      
-      if (adminUser) {
-        await this.createNotification({
-          type: 'system',
-          title: 'Solicitud de reactivación',
-          message: `${businessName} (${ownerEmail}) solicita reactivación de licencia.`,
-          priority: 'high',
-          userId: adminUser,
-          metadata: {
-            businessId,
-            businessName,
-            ownerEmail,
-            requestType: 'reactivation'
-          }
-        });
+    // Se dirige a todos los administradores (custom claim admin), no a una cuenta concreta
+    await this.createNotification({
+      type: 'system',
+      title: 'Solicitud de reactivación',
+      message: `${businessName} (${ownerEmail}) solicita reactivación de licencia.`,
+      priority: 'high',
+      audience: 'admins',
+      metadata: {
+        businessId,
+        businessName,
+        ownerEmail,
+        requestType: 'reactivation'
       }
-    }
+    });
   }
 
   // Crear notificaciones específicas para expedientes digitales
@@ -0,0 +1,60 @@
+import type { Appointment, Client, Service } from '../types';
+import { getEntityChanges, type EntityChange, type QueuedMutation } from '../storage';
+
+type ChangeKind = 'created' | 'updated' | 'removed';
+
+const ENTITY_LABELS: Record<string, Record<ChangeKind, string>> = {
+  appointments: { created: 'Nueva cita', updated: 'Cita modificada', removed: 'Cita eliminada' },
+  clients: { created: 'Nuevo cliente', updated: 'Cliente modificado', removed: 'Cliente eliminado' },
+  services: { created: 'Nuevo servicio', updated: 'Servicio modificado', removed: 'Servicio eliminado' }
+};
+
+const SECTION_LABELS: Record<string, string> = {
+  appointmentSeries: 'Citas recurrentes',
+  providers: 'Profesionales',
+  waitlist: 'Lista de espera',
+  digitalRecords: 'Expedientes',
+  recordVersions: 'Expedientes',
+  charges: 'Cobros',
+  payments: 'Pagos',
+  cashSessions: 'Caja',
+  cashMovements: 'Caja',
+  invoices: 'Facturas',
+  members: 'Equipo'
+};
+
+const getChangeKind = (change: EntityChange): ChangeKind => {
+  if (change.after === null) return 'removed';
+  return change.before === null ? 'created' : 'updated';
+};
+
+// Nombre del registro para reconocerlo en la lista de cambios
+const getEntityName = (change: EntityChange): string => {
+  const value = (change.after ?? change.before) as Record<string, unknown> | null | undefined;
+  if (!value) return '';
+
+  if (change.collection === 'appointments') {
+    const appointment = value as Partial<Appointment>;
+    return appointment.date ? `${appointment.date}${appointment.startTime ? ` a las ${appointment.startTime}` : ''}` : '';
+  }
+  return (value as Partial<Client | Service>).name || '';
+};
+
+/**
+ * Descripción de un cambio pendiente de sincronizar
+ */
+export const describeQueuedMutation = (mutation: QueuedMutation): string => {
+  const change = getEntityChanges(mutation).find(item => ENTITY_LABELS[item.collection]);
+  if (change) {
+    const name = getEntityName(change);
+    return `${ENTITY_LABELS[change.collection][getChangeKind(change)]}${name ? `: ${name}` : ''}`;
+  }
+
+  const sections = Object.keys(mutation.changes)
+    .map(key => key.split('/'))
+    .filter(segments => segments[0] === 'businesses')
+    .map(segments => SECTION_LABELS[segments[2]]);
+  const section = sections.find(Boolean);
+  if (section) return `Cambio en ${section}`;
+  return sections.length > 0 ? 'Cambio en los datos del negocio' : 'Otro cambio';
+};
@@ -0,0 +1,125 @@
+import type { AppointmentCharge, Payment, PaymentMethod } from '../types';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Efectivo',
+  card: 'Tarjeta',
+  transfer: 'Transferencia'
+};
+
+// Pago capturado en caja
+export interface PaymentInput {
+  amount: number;
+  method: PaymentMethod;
+}
+
+// Datos del cobro de una cita; el pago es opcional para dejar saldo pendiente
+export interface CheckoutInput {
+  price: number;
+  discount: number;
+  tip: number;
+  notes?: string;
+  payment?: PaymentInput;
+}
+
+// Diferencia mínima que se considera saldo; evita restos de redondeo
+const BALANCE_EPSILON = 0.005;
+
+/**
+ * Redondea a centavos
+ */
+export const roundMoney = (amount: number): number => Math.round(amount * 100) / 100;
+
+const moneyFormat = new Intl.NumberFormat('es-MX', { style: 'currency', currency: 'MXN' });
+
+/**
+ * Importe en pesos para la interfaz
+ */
+export const formatMoney = (amount: number): string => moneyFormat.format(amount);
+
+/**
+ * Total de una cuenta: el descuento no deja el servicio en negativo y la propina se suma aparte
+ */
+export const getChargeTotal = (price: number, discount: number, tip: number): number => {
+  return roundMoney(Math.max(0, price - discount) + tip);
+};
+
+/**
+ * Suma de los pagos recibidos, opcionalmente solo los de una cita
+ */
+export const getPaidAmount = (payments: Payment[], appointmentId?: string): number => {
+  return roundMoney(payments
+    .filter(payment => !appointmentId || payment.appointmentId === appointmentId)
+    .reduce((sum, payment) => sum + payment.amount, 0));
+};
+
+/**
+ * Saldo pendiente de una cuenta; nunca negativo
+ */
+export const getChargeBalance = (charge: Pick<AppointmentCharge, 'appointmentId' | 'total'>, payments: Payment[]): number => {
+  const balance = roundMoney(charge.total - getPaidAmount(payments, charge.appointmentId));
+  return balance > BALANCE_EPSILON ? balance : 0;
+};
+
+export interface ClientBalance {
+  billed: number;
+  paid: number;
+  balance: number;
+  outstanding: { charge: AppointmentCharge; balance: number }[]; // cuentas con saldo, la más antigua primero
+}
+
+/**
+ * Estado de cuenta de un cliente a partir de sus cuentas y pagos
+ */
+export const getClientBalance = (charges: AppointmentCharge[], payments: Payment[]): ClientBalance => {
+  const outstanding = charges
+    .map(charge => ({ charge, balance: getChargeBalance(charge, payments) }))
+    .filter(item => item.balance > 0)
+    .sort((a, b) => a.charge.date.localeCompare(b.charge.date));
+
+  return {
+    billed: roundMoney(charges.reduce((sum, charge) => sum + charge.total, 0)),
+    paid: getPaidAmount(payments.filter(payment => payment.appointmentId)),
+    balance: roundMoney(outstanding.reduce((sum, item) => sum + item.balance, 0)),
+    outstanding
+  };
+};
+
+export interface RevenueSummary {
+  collected: number; // pagos recibidos en el periodo
+  byMethod: Record<PaymentMethod, number>;
+  billed: number; // cuentas de las citas del periodo
+  discounts: number;
+  tips: number;
+  outstanding: number; // saldo pendiente de las cuentas del periodo
+  byService: Record<string, number>; // facturado por servicio
+}
+
+/**
+ * Ingresos de un periodo: lo cobrado según la fecha de cada pago y lo facturado
+ * según la fecha de la cita. paymentsForCharges son todos los pagos de esas cuentas.
+ */
+export const summarizeRevenue = (
+  charges: AppointmentCharge[],
+  periodPayments: Payment[],
+  paymentsForCharges: Payment[] = periodPayments
+): RevenueSummary => {
+  const byMethod: Record<PaymentMethod, number> = { cash: 0, card: 0, transfer: 0 };
+  periodPayments.forEach(payment => {
+    byMethod[payment.method] = roundMoney(byMethod[payment.method] + payment.amount);
+  });
+
+  const byService: Record<string, number> = {};
+  charges.forEach(charge => {
+    byService[charge.serviceId] = roundMoney((byService[charge.serviceId] || 0) + charge.total - charge.tip);
+  });
+
+  return {
+    collected: getPaidAmount(periodPayments),
+    byMethod,
+    billed: roundMoney(charges.reduce((sum, charge) => sum + charge.total, 0)),
+    discounts: roundMoney(charges.reduce((sum, charge) => sum + Math.min(charge.discount, charge.price), 0)),
+    tips: roundMoney(charges.reduce((sum, charge) => sum + charge.tip, 0)),
+    outstanding: roundMoney(charges.reduce((sum, charge) => sum + getChargeBalance(charge, paymentsForCharges), 0)),
+    byService
+  };
+};
@@ -0,0 +1,172 @@
+import type { jsPDF } from 'jspdf';
+import type { Business } from '../types';
+
+// Color de la marca (pink-600) y medidas de la página A4 en milímetros
+const BRAND_COLOR: [number, number, number] = [219, 39, 119];
+const MARGIN = 15;
+const LINE_HEIGHT = 5;
+const FOOTER_HEIGHT = 12;
+
+// Escribe texto en el PDF llevando la posición vertical y agregando páginas cuando no cabe
+export class PdfWriter {
+  private doc: jsPDF;
+  private y = MARGIN;
+  private pageWidth: number;
+  private pageHeight: number;
+
+  constructor(doc: jsPDF) {
+    this.doc = doc;
+    this.pageWidth = doc.internal.pageSize.getWidth();
+    this.pageHeight = doc.internal.pageSize.getHeight();
+  }
+
+  get contentWidth(): number {
+    return this.pageWidth - MARGIN * 2;
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y + height > this.pageHeight - FOOTER_HEIGHT - MARGIN / 2) {
+      this.doc.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  private setStyle(size: number, bold = false, color: [number, number, number] = [31, 41, 55]): void {
+    this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(...color);
+  }
+
+  // Encabezado de la primera página con los datos del negocio
+  brandHeader(business: Business): void {
+    const contact = [business.address, business.phone, business.email].filter(Boolean).join('  ·  ');
+    const height = contact ? 24 : 18;
+
+    this.doc.setFillColor(...BRAND_COLOR);
+    this.doc.rect(0, 0, this.pageWidth, height, 'F');
+    this.setStyle(16, true, [255, 255, 255]);
+    this.doc.text(business.name, MARGIN, 12);
+    if (contact) {
+      this.setStyle(9, false, [255, 255, 255]);
+      this.doc.text(this.doc.splitTextToSize(contact, this.contentWidth)[0], MARGIN, 19);
+    }
+    this.y = height + 10;
+  }
+
+  title(text: string, subtitle: string[]): void {
+    this.setStyle(15, true);
+    this.doc.text(text, MARGIN, this.y);
+    this.y += 6;
+    this.setStyle(9, false, [107, 114, 128]);
+    subtitle.forEach(line => {
+      this.doc.text(line, MARGIN, this.y);
+      this.y += 4.5;
+    });
+    this.y += 4;
+  }
+
+  heading(text: string): void {
+    this.ensureSpace(14);
+    this.y += 2;
+    this.setStyle(12, true, BRAND_COLOR);
+    this.doc.text(text, MARGIN, this.y);
+    this.y += 2;
+    this.doc.setDrawColor(...BRAND_COLOR);
+    this.doc.setLineWidth(0.4);
+    this.doc.line(MARGIN, this.y, this.pageWidth - MARGIN, this.y);
+    this.y += 6;
+  }
+
+  subheading(text: string): void {
+    this.ensureSpace(12);
+    this.y += 1;
+    this.setStyle(10.5, true);
+    this.doc.text(text, MARGIN, this.y);
+    this.y += LINE_HEIGHT + 0.5;
+  }
+
+  paragraph(text: string, options: { indent?: number; muted?: boolean } = {}): void {
+    const indent = options.indent || 0;
+    this.setStyle(9.5, false, options.muted ? [107, 114, 128] : [31, 41, 55]);
+    const lines: string[] = this.doc.splitTextToSize(text, this.contentWidth - indent);
+    lines.forEach(line => {
+      this.ensureSpace(LINE_HEIGHT);
+      this.doc.text(line, MARGIN + indent, this.y);
+      this.y += LINE_HEIGHT;
+    });
+  }
+
+  // Etiqueta en negritas seguida de su valor; el valor largo continúa en las líneas siguientes
+  field(label: string, value: string, indent = 0): void {
+    this.setStyle(9.5, true);
+    const labelText = `${label}: `;
+    const labelWidth = this.doc.getTextWidth(labelText);
+    this.setStyle(9.5);
+    const lines: string[] = this.doc.splitTextToSize(value, this.contentWidth - indent - labelWidth);
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(LINE_HEIGHT);
+      if (index === 0) {
+        this.setStyle(9.5, true);
+        this.doc.text(labelText, MARGIN + indent, this.y);
+        this.setStyle(9.5);
+      }
+      this.doc.text(line, MARGIN + indent + labelWidth, this.y);
+      this.y += LINE_HEIGHT;
+    });
+  }
+
+  // Tabla simple; los anchos son proporciones del ancho de la página
+  table(columns: { label: string; width: number }[], rows: string[][]): void {
+    const widths = columns.map(column => column.width * this.contentWidth);
+    const drawHeader = () => {
+      this.doc.setFillColor(243, 244, 246);
+      this.doc.rect(MARGIN, this.y - 4, this.contentWidth, 6.5, 'F');
+      this.setStyle(9, true);
+      let x = MARGIN + 1.5;
+      columns.forEach((column, index) => {
+        this.doc.text(column.label, x, this.y);
+        x += widths[index];
+      });
+      this.y += 6;
+    };
+
+    this.ensureSpace(14);
+    drawHeader();
+    rows.forEach(row => {
+      const cells: string[][] = row.map((cell, index) => this.doc.splitTextToSize(cell, widths[index] - 3));
+      const height = Math.max(...cells.map(lines => lines.length)) * 4.5 + 1.5;
+      if (this.y + height > this.pageHeight - FOOTER_HEIGHT - MARGIN / 2) {
+        this.doc.addPage();
+        this.y = MARGIN + 4;
+        drawHeader();
+      }
+      this.setStyle(9);
+      let x = MARGIN + 1.5;
+      cells.forEach((lines, index) => {
+        lines.forEach((line, lineIndex) => this.doc.text(line, x, this.y + lineIndex * 4.5));
+        x += widths[index];
+      });
+      this.y += height;
+      this.doc.setDrawColor(229, 231, 235);
+      this.doc.setLineWidth(0.2);
+      this.doc.line(MARGIN, this.y - 3.5, this.pageWidth - MARGIN, this.y - 3.5);
+    });
+  }
+
+  space(height: number): void {
+    this.y += height;
+  }
+
+  // Pie de página en todas las páginas: negocio, aviso y numeración
+  footer(business: Business, notice = 'Documento confidencial'): void {
+    const pages = this.doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+      this.doc.setPage(page);
+      this.setStyle(8, false, [156, 163, 175]);
+      const y = this.pageHeight - 8;
+      this.doc.text(`${business.name} · ${notice}`, MARGIN, y);
+      this.doc.text(`Página ${page} de ${pages}`, this.pageWidth - MARGIN, y, { align: 'right' });
+    }
+  }
+}
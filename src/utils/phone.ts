@@ -0,0 +1,27 @@
+/**
+ * Normaliza un teléfono para compararlo: solo dígitos y, en números
+ * mexicanos con lada internacional (+52 / +521), solo los últimos 10 dígitos
+ */
+export const normalizePhone = (phone: string): string => {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (digits.length > 10 && digits.startsWith('52')) {
+    return digits.slice(-10);
+  }
+  return digits;
+};
+
+/**
+ * Verifica si dos teléfonos corresponden al mismo número
+ */
+export const phonesMatch = (a: string, b: string): boolean => {
+  const normalizedA = normalizePhone(a);
+  return normalizedA.length > 0 && normalizedA === normalizePhone(b);
+};
+
+/**
+ * Valida que un teléfono tenga una cantidad razonable de dígitos
+ */
+export const isValidPhone = (phone: string): boolean => {
+  const digits = normalizePhone(phone);
+  return digits.length >= 7 && digits.length <= 15;
+};
@@ -1,5 +1,4 @@
-import { ref, onValue, get } from 'firebase/database';
-import { database } from '../config/firebase';
+import { businessRepository } from '../storage';
 import type { BusinessLicense, User } from '../types';
 
 export interface LicenseStatus {
@@ -11,6 +10,9 @@ export interface LicenseStatus {
   businessId: string | null;
 }
 
+// ownerId siempre existe y distingue un negocio sin licencia de uno borrado
+const LICENSE_FIELDS = ['ownerId', 'license', 'isActive'] as const;
+
 export class RealTimeLicenseService {
   private static instance: RealTimeLicenseService;
   private listeners: Map<string, () => void> = new Map();
@@ -51,10 +53,9 @@ export class RealTimeLicenseService {
   // Verificar el estado de la licencia de un negocio
   async checkBusinessLicense(businessId: string): Promise<LicenseStatus> {
     try {
-      const businessRef = ref(database, `businesses/${businessId}`);
-      const snapshot = await get(businessRef);
+      const business = await businessRepository.getFields(businessId, LICENSE_FIELDS);
       
-      if (!snapshot.exists()) {
+      if (!business) {
         return {
           isValid: false,
           isExpired: true,
@@ -65,8 +66,7 @@ export class RealTimeLicenseService {
         };
       }
 
-      const business = snapshot.val();
-      const license = business.license;
+      const license = business.license || null;
       const isActive = business.isActive !== false;
 
       const isExpired = this.isLicenseExpired(license);
@@ -141,12 +141,9 @@ export class RealTimeLicenseService {
     // Limpiar listener anterior si existe
     this.removeLicenseListener(listenerId);
 
-    const businessRef = ref(database, `businesses/${businessId}`);
-    
-    const unsubscribe = onValue(businessRef, (snapshot) => {
-      if (snapshot.exists()) {
-        const business = snapshot.val();
-        const license = business.license;
+    const unsubscribe = businessRepository.subscribeFields(businessId, LICENSE_FIELDS, (business) => {
+      if (business) {
+        const license = business.license || null;
         const isActive = business.isActive !== false;
 
         const isExpired = this.isLicenseExpired(license);
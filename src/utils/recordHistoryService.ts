@@ -0,0 +1,158 @@
+import { getDataStore, recordRepository, recordVersionRepository } from '../storage';
+import type { DigitalRecord, DigitalRecordAddendum, DigitalRecordVersion } from '../types';
+import { auditService, toFieldUpdates, type AuditActor } from './auditService';
+
+// Campos que no se editan ni se restauran: identidad, control de versiones y firma
+const PROTECTED_FIELDS = ['id', 'createdAt', 'createdBy', 'version', 'restoredFrom', 'signedAt', 'signedBy', 'signedByName', 'addenda'];
+
+// Campos propios de una versión guardada
+const VERSION_FIELDS = ['versionedAt', 'versionedBy', 'versionedByName'];
+
+const omitFields = (data: object, fields: string[]): Record<string, unknown> => {
+  return Object.fromEntries(Object.entries(data).filter(([field]) => !fields.includes(field)));
+};
+
+/**
+ * Número de la versión actual de un expediente
+ */
+export const getRecordVersion = (record: Pick<DigitalRecord, 'version'>): number => {
+  return record.version || 1;
+};
+
+export class RecordHistoryService {
+  private static instance: RecordHistoryService;
+
+  private constructor() {}
+
+  static getInstance(): RecordHistoryService {
+    if (!RecordHistoryService.instance) {
+      RecordHistoryService.instance = new RecordHistoryService();
+    }
+    return RecordHistoryService.instance;
+  }
+
+  private assertEditable(record: DigitalRecord): void {
+    if (record.signedAt) {
+      throw new Error('El expediente está firmado. Agrega una adenda para registrar cambios.');
+    }
+  }
+
+  // Escritura que guarda la versión actual antes de reemplazarla
+  private snapshotUpdates(businessId: string, actor: AuditActor, record: DigitalRecord): Record<string, unknown> {
+    const path = recordVersionRepository.path(businessId, record.id);
+    const snapshot = {
+      ...omitFields(record, ['id', 'addenda', 'signedAt', 'signedBy', 'signedByName']),
+      version: getRecordVersion(record),
+      versionedAt: new Date().toISOString(),
+      versionedBy: actor.id,
+      versionedByName: actor.name
+    };
+    return { [`${path}/${getDataStore().newKey(path)}`]: JSON.parse(JSON.stringify(snapshot)) };
+  }
+
+  // Modificar un expediente conservando la versión anterior
+  async updateRecord(businessId: string, actor: AuditActor, record: DigitalRecord, updates: Partial<DigitalRecord>): Promise<void> {
+    this.assertEditable(record);
+
+    const path = recordRepository.path(businessId, record.id);
+    // Un campo que queda sin valor se elimina
+    const changes = {
+      ...Object.fromEntries(
+        Object.entries(omitFields(updates, PROTECTED_FIELDS)).map(([field, value]) => [field, value === undefined ? null : value])
+      ),
+      version: getRecordVersion(record) + 1,
+      updatedAt: new Date().toISOString()
+    };
+
+    await auditService.commit(businessId, actor, {
+      ...this.snapshotUpdates(businessId, actor, record),
+      ...toFieldUpdates(path, changes)
+    }, [{ action: 'update', entityType: 'digitalRecord', entityPath: path, before: record, after: { ...record, ...changes } }]);
+  }
+
+  // Reemplazar el contenido por el de una versión anterior; la actual también se conserva.
+  // El expediente sigue siendo del cliente y negocio actuales aunque la versión sea de antes de una fusión.
+  async restoreVersion(businessId: string, actor: AuditActor, record: DigitalRecord, version: DigitalRecordVersion): Promise<void> {
+    this.assertEditable(record);
+
+    const path = recordRepository.path(businessId, record.id);
+    const restored = JSON.parse(JSON.stringify({
+      ...omitFields(version, [...PROTECTED_FIELDS, ...VERSION_FIELDS]),
+      clientId: record.clientId,
+      businessId: record.businessId,
+      createdAt: record.createdAt,
+      createdBy: record.createdBy,
+      updatedAt: new Date().toISOString(),
+      version: getRecordVersion(record) + 1,
+      restoredFrom: version.version,
+      addenda: record.addenda
+    }));
+
+    await auditService.commit(businessId, actor, {
+      ...this.snapshotUpdates(businessId, actor, record),
+      [path]: restored
+    }, [{
+      action: 'update',
+      entityType: 'digitalRecord',
+      entityPath: path,
+      before: record,
+      after: restored,
+      summary: `Restaurada la versión ${getRecordVersion(version)}`
+    }]);
+  }
+
+  // Firmar un expediente: a partir de aquí solo admite adendas
+  async signRecord(businessId: string, actor: AuditActor, record: DigitalRecord): Promise<void> {
+    this.assertEditable(record);
+
+    const path = recordRepository.path(businessId, record.id);
+    const signature = {
+      signedAt: new Date().toISOString(),
+      signedBy: actor.id,
+      signedByName: actor.name
+    };
+
+    await auditService.commit(businessId, actor, toFieldUpdates(path, signature), [{
+      action: 'update',
+      entityType: 'digitalRecord',
+      entityPath: path,
+      before: record,
+      after: { ...record, ...signature },
+      summary: 'Expediente firmado'
+    }]);
+  }
+
+  // Agregar una adenda a un expediente firmado
+  async addAddendum(businessId: string, actor: AuditActor, record: DigitalRecord, text: string): Promise<void> {
+    const path = recordRepository.path(businessId, record.id);
+    const addendaPath = `${path}/addenda`;
+    const addendumId = getDataStore().newKey(addendaPath);
+    const addendum: DigitalRecordAddendum = {
+      text: text.trim(),
+      createdAt: new Date().toISOString(),
+      createdBy: actor.id,
+      createdByName: actor.name
+    };
+
+    await auditService.commit(businessId, actor, { [`${addendaPath}/${addendumId}`]: addendum }, [{
+      action: 'update',
+      entityType: 'digitalRecord',
+      entityPath: path,
+      before: record,
+      after: { ...record, addenda: { ...record.addenda, [addendumId]: addendum } },
+      summary: 'Adenda agregada'
+    }]);
+  }
+
+  // Versiones anteriores de un expediente (más recientes primero)
+  async listVersions(businessId: string, recordId: string): Promise<DigitalRecordVersion[]> {
+    const versions = await getDataStore().get<Record<string, Omit<DigitalRecordVersion, 'id'>>>(
+      recordVersionRepository.path(businessId, recordId)
+    );
+    return Object.entries(versions || {})
+      .map(([id, version]) => ({ ...version, id }))
+      .sort((a, b) => getRecordVersion(b) - getRecordVersion(a));
+  }
+}
+
+export const recordHistoryService = RecordHistoryService.getInstance();
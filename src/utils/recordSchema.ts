@@ -0,0 +1,196 @@
+import { RECORD_SCHEMAS } from '../config/recordSchemas';
+import { slugify } from './text';
+import type { Business, BusinessCategory, DigitalRecord, RecordFieldDefinition, RecordFieldValue, RecordFormSchema } from '../types';
+
+// Valores del formulario; number y list se capturan como texto hasta normalizarlos
+export type RecordFormValues = Record<string, RecordFieldValue | undefined>;
+
+const isEmptyValue = (value: unknown): boolean => {
+  if (value === undefined || value === null) return true;
+  if (typeof value === 'string') return !value.trim();
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+};
+
+const toList = (value: RecordFieldValue): string[] => {
+  const items = Array.isArray(value) ? value : String(value).split(',');
+  return items.map(item => item.trim()).filter(Boolean);
+};
+
+/**
+ * Esquema de expediente de una categoría (Otro si no tiene categoría)
+ */
+export const getRecordSchema = (category?: BusinessCategory): RecordFormSchema => {
+  return (category && RECORD_SCHEMAS[category]) || RECORD_SCHEMAS.other;
+};
+
+/**
+ * Campos de una categoría: los del esquema seguidos de los que agregó el propietario
+ */
+export const getRecordFields = (
+  category: BusinessCategory | undefined,
+  customFields?: Business['recordFields']
+): RecordFieldDefinition[] => {
+  const schema = getRecordSchema(category);
+  const custom = customFields?.[schema.category] || [];
+  return [...schema.fields, ...custom.map(field => ({ ...field, custom: true }))];
+};
+
+/**
+ * Indica si un campo condicional aplica con los valores capturados
+ */
+export const isFieldVisible = (field: RecordFieldDefinition, values: RecordFormValues): boolean => {
+  if (!field.showWhen) return true;
+  const current = values[field.showWhen.field];
+  return field.showWhen.values.some(expected =>
+    Array.isArray(current) ? current.includes(String(expected)) : current === expected
+  );
+};
+
+/**
+ * Errores de validación por campo; los campos ocultos no se validan
+ */
+export const validateRecordData = (
+  fields: RecordFieldDefinition[],
+  values: RecordFormValues
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  fields.forEach(field => {
+    if (!isFieldVisible(field, values)) return;
+    const value = values[field.key];
+
+    if (isEmptyValue(value) || (field.type === 'list' && toList(value!).length === 0)) {
+      if (field.required) errors[field.key] = `${field.label} es requerido`;
+      return;
+    }
+
+    if (field.type === 'number' || field.type === 'scale') {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        errors[field.key] = `${field.label} debe ser un número`;
+      } else if (field.min !== undefined && number < field.min) {
+        errors[field.key] = `${field.label} debe ser al menos ${field.min}`;
+      } else if (field.max !== undefined && number > field.max) {
+        errors[field.key] = `${field.label} debe ser como máximo ${field.max}`;
+      }
+    }
+
+    if (field.type === 'select' && field.options && !field.options.includes(String(value))) {
+      errors[field.key] = `Selecciona una opción válida de ${field.label}`;
+    }
+
+    if (field.type === 'multiselect' && field.options && Array.isArray(value) &&
+        value.some(option => !field.options!.includes(option))) {
+      errors[field.key] = `Selecciona opciones válidas de ${field.label}`;
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Datos listos para guardar: convierte números y listas, y descarta campos vacíos u ocultos.
+ * Los valores de campos que ya no existen en el esquema se conservan.
+ */
+export const normalizeRecordData = (
+  fields: RecordFieldDefinition[],
+  values: RecordFormValues
+): Record<string, RecordFieldValue> => {
+  const known = new Set(fields.map(field => field.key));
+  const data: Record<string, RecordFieldValue> = {};
+
+  Object.entries(values).forEach(([key, value]) => {
+    if (!known.has(key) && !isEmptyValue(value)) data[key] = value!;
+  });
+
+  fields.forEach(field => {
+    const value = values[field.key];
+    if (!isFieldVisible(field, values) || isEmptyValue(value)) return;
+
+    switch (field.type) {
+      case 'number':
+      case 'scale':
+        data[field.key] = Number(value);
+        break;
+      case 'list': {
+        const items = toList(value!);
+        if (items.length > 0) data[field.key] = items;
+        break;
+      }
+      case 'text':
+      case 'textarea':
+        data[field.key] = String(value).trim();
+        break;
+      default:
+        data[field.key] = value!;
+    }
+  });
+
+  return data;
+};
+
+/**
+ * Valor de un campo para mostrar, con su unidad
+ */
+export const formatRecordValue = (field: RecordFieldDefinition | undefined, value: unknown): string => {
+  if (isEmptyValue(value)) return '—';
+  if (typeof value === 'boolean') return value ? 'Sí' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  if (field?.type === 'scale' && field.max) return `${value}/${field.max}`;
+  return field?.unit ? `${value} ${field.unit}` : String(value);
+};
+
+/**
+ * Campos capturados de un expediente, con etiqueta y valor para mostrar.
+ * Siguen el orden del esquema; al final van los valores de campos que ya no existen.
+ */
+export const getRecordDataEntries = (
+  record: Pick<DigitalRecord, 'category' | 'data'>,
+  customFields?: Business['recordFields']
+): { key: string; label: string; value: string }[] => {
+  const data = record.data || {};
+  const fields = getRecordFields(record.category, customFields);
+
+  return [
+    ...fields
+      .filter(field => data[field.key] !== undefined)
+      .map(field => ({ key: field.key, label: field.label, value: formatRecordValue(field, data[field.key]) })),
+    ...Object.keys(data)
+      .filter(key => !fields.some(field => field.key === key))
+      .map(key => ({ key, label: key, value: formatRecordValue(undefined, data[key]) }))
+  ];
+};
+
+/**
+ * Clave de un campo propio a partir de su etiqueta; no se repite con las existentes
+ */
+export const createCustomFieldKey = (label: string, fields: RecordFieldDefinition[]): string => {
+  const base = `custom_${slugify(label).replace(/-/g, '_') || 'campo'}`;
+
+  const keys = new Set(fields.map(field => field.key));
+  let key = base;
+  for (let suffix = 2; keys.has(key); suffix++) {
+    key = `${base}_${suffix}`;
+  }
+  return key;
+};
+
+/**
+ * Error en la definición de un campo propio, o null si es válida
+ */
+export const validateCustomField = (field: RecordFieldDefinition): string | null => {
+  if (!field.label.trim()) return 'El nombre del campo es requerido';
+  if ((field.type === 'select' || field.type === 'multiselect') && (!field.options || field.options.length < 2)) {
+    return 'Una lista de opciones necesita al menos dos opciones';
+  }
+  if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+    return 'El mínimo no puede ser mayor que el máximo';
+  }
+  if (field.type === 'scale') {
+    const span = (field.max ?? 10) - (field.min ?? 1);
+    if (span < 1 || span > 20) return 'Una escala debe tener entre 2 y 21 valores';
+  }
+  return null;
+};
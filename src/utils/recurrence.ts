@@ -0,0 +1,176 @@
+import { addDays, addMonths, addWeeks, differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import type { Appointment, AppointmentSeries, RecurrenceRule, SeriesException } from '../types';
+
+// Límite de seguridad para series sin fin bien definido
+export const MAX_SERIES_OCCURRENCES = 366;
+
+export const RECURRENCE_LABELS: Record<RecurrenceRule['frequency'], string> = {
+  daily: 'Diaria',
+  weekly: 'Semanal',
+  biweekly: 'Cada dos semanas',
+  monthly: 'Mensual'
+};
+
+const toDateString = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+const getNthDate = (startDate: string, rule: RecurrenceRule, n: number): string => {
+  const start = parseISO(startDate);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return toDateString(addDays(start, n));
+    case 'weekly':
+      return toDateString(addWeeks(start, n));
+    case 'biweekly':
+      return toDateString(addWeeks(start, n * 2));
+    case 'monthly':
+      return toDateString(addMonths(start, n));
+  }
+};
+
+/**
+ * Genera las fechas originales de todas las ocurrencias de una regla
+ */
+export const getOccurrenceDates = (startDate: string, rule: RecurrenceRule): string[] => {
+  const dates: string[] = [];
+  const maxCount = rule.count ? Math.min(rule.count, MAX_SERIES_OCCURRENCES) : MAX_SERIES_OCCURRENCES;
+
+  for (let n = 0; n < maxCount; n++) {
+    const date = getNthDate(startDate, rule, n);
+    if (rule.until && date > rule.until) break;
+    dates.push(date);
+  }
+
+  return dates;
+};
+
+/**
+ * Identificador estable de una ocurrencia expandida
+ */
+export const getOccurrenceId = (seriesId: string, occurrenceDate: string): string => {
+  return `${seriesId}__${occurrenceDate}`;
+};
+
+/**
+ * Expande una serie en citas individuales aplicando sus excepciones.
+ * Las ocurrencias eliminadas no se incluyen.
+ */
+export const expandSeries = (series: AppointmentSeries): Appointment[] => {
+  const exceptions = series.exceptions || {};
+
+  return getOccurrenceDates(series.startDate, series.rule)
+    .filter(date => !exceptions[date]?.cancelled)
+    .map(date => {
+      const exception: SeriesException = exceptions[date] || {};
+
+      return {
+        id: getOccurrenceId(series.id, date),
+        clientId: series.clientId,
+        serviceId: series.serviceId,
+        date: exception.date || date,
+        startTime: exception.startTime || series.startTime,
+        endTime: exception.endTime || series.endTime,
+        status: exception.status || series.status,
+        notes: exception.notes ?? series.notes,
+        createdBy: series.createdBy,
+        businessId: series.businessId,
+        createdAt: series.createdAt,
+        updatedAt: exception.updatedAt || series.updatedAt,
+        resourceIndex: exception.resourceIndex ?? series.resourceIndex,
+        providerId: exception.providerId !== undefined ? exception.providerId : series.providerId,
+        seriesId: series.id,
+        occurrenceDate: date
+      };
+    });
+};
+
+/**
+ * Describe una regla de recurrencia en texto para la interfaz
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const base = RECURRENCE_LABELS[rule.frequency];
+  if (rule.count) return `${base}, ${rule.count} ${rule.count === 1 ? 'vez' : 'veces'}`;
+  if (rule.until) return `${base}, hasta el ${rule.until}`;
+  return base;
+};
+
+/**
+ * Divide una serie en la fecha indicada.
+ * Devuelve la regla que conserva la serie original (ocurrencias anteriores)
+ * y la regla y excepciones para la nueva serie (desde la ocurrencia en adelante).
+ */
+export const splitSeries = (series: AppointmentSeries, occurrenceDate: string) => {
+  const dates = getOccurrenceDates(series.startDate, series.rule);
+  const index = Math.max(0, dates.indexOf(occurrenceDate));
+  const previousDay = toDateString(subDays(parseISO(occurrenceDate), 1));
+
+  const headRule: RecurrenceRule = series.rule.count
+    ? { frequency: series.rule.frequency, count: index }
+    : { frequency: series.rule.frequency, until: previousDay };
+
+  const tailRule: RecurrenceRule = series.rule.count
+    ? { frequency: series.rule.frequency, count: series.rule.count - index }
+    : { frequency: series.rule.frequency, until: series.rule.until };
+
+  const headExceptions: Record<string, SeriesException> = {};
+  const tailExceptions: Record<string, SeriesException> = {};
+  Object.entries(series.exceptions || {}).forEach(([date, exception]) => {
+    if (date < occurrenceDate) {
+      headExceptions[date] = exception;
+    } else {
+      tailExceptions[date] = exception;
+    }
+  });
+
+  return {
+    isFirstOccurrence: index === 0,
+    headRule,
+    headExceptions,
+    tailRule,
+    tailExceptions
+  };
+};
+
+/**
+ * Días que se desplaza una ocurrencia al cambiar su fecha
+ */
+export const getDayShift = (fromDate: string, toDate: string): number => {
+  return differenceInCalendarDays(parseISO(toDate), parseISO(fromDate));
+};
+
+/**
+ * Desplaza una fecha "yyyy-MM-dd" un número de días
+ */
+export const shiftDate = (date: string, days: number): string => {
+  return toDateString(addDays(parseISO(date), days));
+};
+
+/**
+ * Ocurrencias que quedan al editar una serie desde una de sus ocurrencias con alcance
+ * "esta y las siguientes" o "todas": la serie completa o la parte que se separa,
+ * con los cambios aplicados y desplazada a la nueva fecha.
+ */
+export const previewSeriesEdit = (
+  series: AppointmentSeries,
+  occurrenceDate: string,
+  changes: Partial<AppointmentSeries>,
+  newDate: string,
+  scope: 'following' | 'all'
+): Appointment[] => {
+  const shift = getDayShift(occurrenceDate, newDate);
+  const split = splitSeries(series, occurrenceDate);
+  const whole = scope === 'all' || split.isFirstOccurrence;
+  const rule = whole ? series.rule : split.tailRule;
+  const exceptions = { ...(whole ? series.exceptions : split.tailExceptions) };
+  delete exceptions[occurrenceDate];
+
+  return expandSeries({
+    ...series,
+    ...changes,
+    startDate: shiftDate(whole ? series.startDate : occurrenceDate, shift),
+    rule: { ...rule, until: rule.until ? shiftDate(rule.until, shift) : undefined },
+    exceptions: Object.fromEntries(
+      Object.entries(exceptions).map(([date, exception]) => [shiftDate(date, shift), exception])
+    )
+  });
+};
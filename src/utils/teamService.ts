@@ -0,0 +1,79 @@
+import { businessRepository, calendarFeedRepository, getDataStore, memberRepository, userRepository } from '../storage';
+import type { BusinessMember, BusinessRole, User } from '../types';
+import { buildBusinessKeyUpdates, generateUniqueBusinessKey } from './businessKey';
+
+type BusinessAccessEntry = NonNullable<User['businessAccess']>[string];
+
+export interface TeamMember extends BusinessMember {
+  role: BusinessRole;
+}
+
+export class TeamService {
+  private static instance: TeamService;
+
+  private constructor() {}
+
+  static getInstance(): TeamService {
+    if (!TeamService.instance) {
+      TeamService.instance = new TeamService();
+    }
+    return TeamService.instance;
+  }
+
+  private accessPath(uid: string, businessId: string): string {
+    return `${userRepository.path(uid)}/businessAccess/${businessId}`;
+  }
+
+  // Usuarios con acceso al negocio, a partir del índice de miembros y su BusinessAccess
+  async listMembers(businessId: string): Promise<TeamMember[]> {
+    const members = await memberRepository.list(businessId);
+
+    const team = await Promise.all(members.map(async member => {
+      const access = await getDataStore().get<BusinessAccessEntry>(this.accessPath(member.id, businessId));
+      // Entrada del índice sin acceso vigente
+      if (!access) return null;
+      return { ...member, role: access.role };
+    }));
+
+    return team
+      .filter((member): member is TeamMember => member !== null)
+      .sort((a, b) => new Date(a.joinedAt).getTime() - new Date(b.joinedAt).getTime());
+  }
+
+  // Cambiar el rol de un miembro
+  async changeRole(businessId: string, uid: string, role: BusinessRole): Promise<void> {
+    await getDataStore().update(this.accessPath(uid, businessId), { role });
+  }
+
+  // Revocar el acceso: quita el BusinessAccess, la entrada del índice, el negocio actual si apunta aquí
+  // y los calendarios suscribibles que creó. La clave del negocio se renueva: con la anterior podría
+  // volver a darse acceso a sí mismo.
+  async revokeAccess(businessId: string, uid: string): Promise<void> {
+    const currentBusinessPath = `${userRepository.path(uid)}/currentBusiness`;
+    const [currentBusiness, feeds, business, newKey] = await Promise.all([
+      // Las reglas solo dejan leer currentBusiness al propietario del negocio al que apunta
+      getDataStore().get<string>(currentBusinessPath).catch(() => null),
+      calendarFeedRepository.findBy('businessId', businessId),
+      businessRepository.getFields(businessId, ['name', 'businessKey']),
+      generateUniqueBusinessKey()
+    ]);
+
+    const updates: Record<string, unknown> = {
+      [this.accessPath(uid, businessId)]: null,
+      [memberRepository.path(businessId, uid)]: null,
+      ...buildBusinessKeyUpdates(businessId, business?.name || '', newKey, business?.businessKey)
+    };
+    if (currentBusiness === businessId) {
+      updates[currentBusinessPath] = null;
+    }
+    feeds
+      .filter(feed => feed.createdBy === uid)
+      .forEach(feed => {
+        updates[calendarFeedRepository.path(feed.id)] = null;
+      });
+
+    await getDataStore().update('', updates);
+  }
+}
+
+export const teamService = TeamService.getInstance();
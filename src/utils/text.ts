@@ -0,0 +1,12 @@
+/**
+ * Convierte un texto en un identificador apto para URL o nombre de archivo
+ */
+export const slugify = (text: string): string => {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 50);
+};
@@ -0,0 +1,113 @@
+import { addDays, format, parseISO } from 'date-fns';
+import type { Appointment, Business, Provider, Service, WaitlistEntry } from '../types';
+import type { DateWindow } from './dateWindow';
+import { FREE_STATUSES, getAvailableSlots, timeToMinutes } from './availabilityEngine';
+
+// Cantidad de clientes sugeridos cuando se libera un horario
+export const MAX_WAITLIST_SUGGESTIONS = 3;
+
+// Días máximos que se revisan al buscar un horario para una entrada
+const MAX_SEARCH_DAYS = 60;
+
+export interface WaitlistSlot {
+  serviceId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+/**
+ * Indica si un cambio de estado libera el horario de una cita
+ */
+export const isSlotFreed = (previousStatus: Appointment['status'], nextStatus?: Appointment['status']): boolean => {
+  if (!nextStatus) return false;
+  return !FREE_STATUSES.includes(previousStatus) && FREE_STATUSES.includes(nextStatus);
+};
+
+/**
+ * Indica si un horario todavía no ha comenzado
+ */
+export const isFutureSlot = (date: string, startTime: string, now: Date = new Date()): boolean => {
+  const today = format(now, 'yyyy-MM-dd');
+  if (date !== today) return date > today;
+  return timeToMinutes(startTime) > now.getHours() * 60 + now.getMinutes();
+};
+
+/**
+ * Verifica si un horario cumple las preferencias de una entrada en espera
+ */
+export const matchesWaitlistEntry = (entry: WaitlistEntry, slot: WaitlistSlot): boolean => {
+  if (entry.status !== 'waiting' || entry.serviceId !== slot.serviceId) return false;
+  if (slot.date < entry.preferredStartDate || slot.date > entry.preferredEndDate) return false;
+
+  if (entry.preferredStartTime && timeToMinutes(slot.startTime) < timeToMinutes(entry.preferredStartTime)) {
+    return false;
+  }
+  if (entry.preferredEndTime && timeToMinutes(slot.endTime) > timeToMinutes(entry.preferredEndTime)) {
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Obtiene las entradas que aceptarían un horario, en orden de llegada
+ */
+export const getWaitlistMatches = (
+  entries: WaitlistEntry[],
+  slot: WaitlistSlot,
+  limit: number = MAX_WAITLIST_SUGGESTIONS
+): WaitlistEntry[] => {
+  return entries
+    .filter(entry => matchesWaitlistEntry(entry, slot))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .slice(0, limit);
+};
+
+/**
+ * Busca el primer horario disponible que cumpla las preferencias de una entrada
+ */
+export const findNextSlotForEntry = (
+  business: Business | null,
+  service: Service,
+  appointments: Appointment[],
+  entry: WaitlistEntry,
+  now: Date = new Date(),
+  provider?: Provider | null
+): WaitlistSlot | null => {
+  const today = format(now, 'yyyy-MM-dd');
+  let date = entry.preferredStartDate > today ? entry.preferredStartDate : today;
+
+  for (let day = 0; day < MAX_SEARCH_DAYS && date <= entry.preferredEndDate; day++) {
+    const slot = getAvailableSlots(business, service, appointments, date, 30, undefined, provider)
+      .map(available => ({ serviceId: service.id, date, startTime: available.startTime, endTime: available.endTime }))
+      .find(candidate => matchesWaitlistEntry(entry, candidate) && isFutureSlot(candidate.date, candidate.startTime, now));
+
+    if (slot) return slot;
+    date = format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+  }
+
+  return null;
+};
+
+/**
+ * Fechas que se revisan al sugerir horarios para las entradas en espera:
+ * desde hoy hasta el último día de búsqueda u oferta. Null si no hay nada que revisar.
+ */
+export const getWaitlistSearchWindow = (entries: WaitlistEntry[], now: Date = new Date()): DateWindow | null => {
+  const today = format(now, 'yyyy-MM-dd');
+  let to: string | null = null;
+
+  entries
+    .filter(entry => entry.status === 'waiting')
+    .forEach(entry => {
+      const start = entry.preferredStartDate > today ? entry.preferredStartDate : today;
+      const searchEnd = format(addDays(parseISO(start), MAX_SEARCH_DAYS - 1), 'yyyy-MM-dd');
+      const end = entry.preferredEndDate < searchEnd ? entry.preferredEndDate : searchEnd;
+      [end, entry.offer?.date].forEach(date => {
+        if (date && date >= today && (!to || date > to)) to = date;
+      });
+    });
+
+  return to ? { from: today, to } : null;
+};
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // URL base del servidor que sirve los calendarios suscribibles (scripts/calendarFeedServer.ts)
+  readonly VITE_CALENDAR_FEED_URL?: string;
+  // 'memory' guarda los datos en memoria en lugar de Firebase (src/storage)
+  readonly VITE_STORAGE_BACKEND?: 'firebase' | 'memory';
+  // Correo de contacto que se muestra a las cuentas bloqueadas
+  readonly VITE_SUPPORT_EMAIL?: string;
+}
@@ -0,0 +1,97 @@
+/**
+ * Pruebas del respaldo de negocios: historial de expedientes y fusiones de clientes
+ * viajan en el respaldo y al fusionar solo se agregan.
+ *
+ * Uso:
+ *   npm test
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildRestorePlan, createBackup, describeRestore, validateBackup } from '../src/utils/businessBackup';
+
+const node = {
+  name: 'Spa A',
+  categories: ['massage'],
+  operatingHours: {},
+  ownerId: 'ownerA',
+  joinRole: 'editor',
+  clients: { c1: { name: 'Ana', phone: '5512345678', businessId: 'bizA' } },
+  digitalRecords: { r1: { clientId: 'c1', date: '2030-01-01', version: 2, businessId: 'bizA' } },
+  recordVersions: {
+    r1: { v1: { clientId: 'c1', date: '2030-01-01', version: 1, versionedAt: '2030-01-02T00:00:00.000Z', businessId: 'bizA' } }
+  },
+  clientMerges: {
+    m1: { survivorId: 'c1', mergedClientId: 'c2', createdAt: '2030-01-03T00:00:00.000Z', businessId: 'bizA' }
+  },
+  auditLogs: { ignorado: true }
+};
+
+// createBackup conserva las referencias del nodo: cada prueba parte de una copia
+const backupOf = (data: Record<string, unknown>) => createBackup('bizA', structuredClone(data));
+
+describe('respaldo de negocios', () => {
+  it('exporta el historial de expedientes y las fusiones de clientes', () => {
+    const backup = backupOf(node);
+    assert.deepEqual(backup.collections.recordVersions, node.recordVersions);
+    assert.deepEqual(backup.collections.clientMerges, node.clientMerges);
+
+    const { backup: parsed, errors } = validateBackup(JSON.parse(JSON.stringify(backup)));
+    assert.deepEqual(errors, []);
+    assert.deepEqual(parsed?.collections.recordVersions, node.recordVersions);
+  });
+
+  it('conserva el rol al unirse con la clave', () => {
+    const backup = backupOf(node);
+    assert.equal(backup.business.joinRole, 'editor');
+
+    const { updates } = buildRestorePlan(backup, 'bizN', 'new', null);
+    assert.equal(updates['businesses/bizN/joinRole'], 'editor');
+
+    const { updates: merged, report } = buildRestorePlan(backup, 'bizA', 'merge', { ...node, joinRole: 'viewer' });
+    assert.equal(merged['businesses/bizA/joinRole'], 'editor');
+    assert.deepEqual(report.profileChanges, ['Rol al unirse con la clave']);
+
+    const { errors } = validateBackup(JSON.parse(JSON.stringify({ ...backup, business: { ...backup.business, joinRole: 'owner' } })));
+    assert.ok(errors.includes('Perfil del negocio: el rol al unirse con la clave no es válido'));
+  });
+
+  it('valida cada versión del historial', () => {
+    const backup = backupOf(node);
+    backup.collections.recordVersions.r1.v2 = { clientId: 'c1' };
+    const { backup: parsed, errors } = validateBackup(JSON.parse(JSON.stringify(backup)));
+    assert.equal(parsed, null);
+    assert.ok(errors.some(error => error.startsWith('Historial de expedientes r1/v2')));
+  });
+
+  it('restaura en un negocio nuevo cada versión con el nuevo id de negocio', () => {
+    const { updates, report } = buildRestorePlan(backupOf(node), 'bizN', 'new', null);
+    assert.deepEqual(updates['businesses/bizN/recordVersions/r1/v1'], { ...node.recordVersions.r1.v1, businessId: 'bizN' });
+    assert.deepEqual(updates['businesses/bizN/clientMerges/m1'], { ...node.clientMerges.m1, businessId: 'bizN' });
+    assert.equal(report.collections.recordVersions.added, 1);
+    assert.equal(report.collections.clientMerges.added, 1);
+  });
+
+  it('al fusionar solo agrega versiones y fusiones que no existen', () => {
+    const backup = backupOf(node);
+    backup.collections.recordVersions.r1.v0 = { clientId: 'c1', date: '2029-12-31', version: 0, versionedAt: '2030-01-01T00:00:00.000Z' };
+    backup.collections.clientMerges.m1 = { ...backup.collections.clientMerges.m1, mergedClientId: 'otro' };
+    const current = { ...node, clientMerges: { m1: { ...node.clientMerges.m1 } } };
+
+    const { updates, report } = buildRestorePlan(backup, 'bizA', 'merge', current);
+    assert.ok(updates['businesses/bizA/recordVersions/r1/v0']);
+    assert.equal(updates['businesses/bizA/recordVersions/r1/v1'], undefined);
+    assert.equal(updates['businesses/bizA/clientMerges/m1'], undefined);
+    assert.deepEqual(report.collections.recordVersions, { added: 1, updated: 0, unchanged: 1 });
+    assert.deepEqual(report.collections.clientMerges, { added: 0, updated: 0, unchanged: 1 });
+  });
+
+  it('resume la restauración para la bitácora', () => {
+    const backup = backupOf(node);
+    backup.collections.clients.c2 = { name: 'Beto', phone: '5587654321' };
+    backup.collections.clients.c1 = { ...backup.collections.clients.c1, name: 'Ana María' };
+
+    const { report } = buildRestorePlan(backup, 'bizA', 'merge', { ...node, joinRole: 'viewer' });
+    assert.equal(describeRestore(report), 'Respaldo fusionado: Perfil: Rol al unirse con la clave; Clientes 1 agregados y 1 actualizados');
+    assert.equal(describeRestore(buildRestorePlan(backupOf(node), 'bizA', 'merge', node).report), 'Respaldo fusionado sin cambios');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Pruebas de los conceptos de factura: el IVA se desglosa del precio y el descuento
+ * nunca excede el importe del concepto, igual que en el total de la cuenta.
+ *
+ * Uso:
+ *   npm test
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import type { AppointmentCharge, Service } from '../src/types';
+import { buildInvoiceConcepts, getInvoiceTotals } from '../src/utils/cfdi';
+import { getChargeTotal } from '../src/utils/payments';
+
+const services: Service[] = [
+  { id: 's1', name: 'Masaje', duration: 60, price: 580, isActive: true, businessId: 'bizA', createdAt: '', updatedAt: '' } as Service
+];
+
+const charge = (overrides: Partial<AppointmentCharge> = {}): AppointmentCharge => ({
+  id: 'a1',
+  appointmentId: 'a1',
+  clientId: 'c1',
+  serviceId: 's1',
+  date: '2030-03-10',
+  price: 580,
+  discount: 0,
+  tip: 50,
+  total: 630,
+  createdBy: 'ownerA',
+  businessId: 'bizA',
+  createdAt: '2030-03-10T18:00:00.000Z',
+  updatedAt: '2030-03-10T18:00:00.000Z',
+  ...overrides
+});
+
+const iva16 = { productCode: '85121800', taxTreatment: 'iva16' } as const;
+const exempt = { productCode: '85121800', taxTreatment: 'exempt' } as const;
+
+describe('conceptos de factura', () => {
+  it('desglosa el IVA del precio y no factura la propina', () => {
+    const [concept] = buildInvoiceConcepts([charge({ discount: 58 })], services, iva16);
+    assert.deepEqual(concept, {
+      appointmentId: 'a1',
+      productCode: '85121800',
+      description: 'Masaje del 10/03/2030',
+      unitValue: 500,
+      discount: 50,
+      tax: 72
+    });
+    assert.equal(getInvoiceTotals([concept]).total, 522);
+  });
+
+  it('limita el descuento al importe del concepto', () => {
+    const charges = [charge({ discount: 700 }), charge({ id: 'a2', appointmentId: 'a2', price: 116, discount: 1000 })];
+    const concepts = buildInvoiceConcepts(charges, services, iva16);
+
+    concepts.forEach(concept => {
+      assert.equal(concept.discount, concept.unitValue);
+      assert.equal(concept.tax, 0);
+    });
+    assert.deepEqual(getInvoiceTotals(concepts), { subtotal: 600, discount: 600, taxes: 0, total: 0 });
+    // La factura coincide con lo cobrado sin propina
+    assert.equal(getInvoiceTotals(concepts).total, charges.reduce((sum, c) => sum + getChargeTotal(c.price, c.discount, 0), 0));
+  });
+
+  it('un descuento negativo no aumenta el importe', () => {
+    const [concept] = buildInvoiceConcepts([charge({ discount: -100 })], services, exempt);
+    assert.equal(concept.unitValue, 580);
+    assert.equal(concept.discount, 0);
+    assert.equal(getInvoiceTotals([concept]).total, 580);
+  });
+});
@@ -0,0 +1,885 @@
+/**
+ * Pruebas de las reglas de Realtime Database (database.rules.json) contra el emulador.
+ *
+ * Uso:
+ *   npm run test:rules
+ *
+ * El script levanta el emulador de base de datos con firebase-tools (requiere Java)
+ * y ejecuta este archivo con el runner de pruebas de Node.
+ *
+ * Modelo de acceso que se verifica:
+ * - Administrador: custom claim `admin` (npm run admin -- grant <email>), acceso total.
+ * - Miembro de un negocio: el propietario (ownerId) o un usuario con
+ *   users/{uid}/businessAccess/{businessId}. Puede leer todo el negocio.
+ * - Rol por negocio (businessAccess.role): admin gestiona servicios, profesionales,
+ *   expedientes y el perfil; editor gestiona clientes, citas y lista de espera;
+ *   viewer solo lee. Los campos propios de los expedientes solo los define el propietario.
+ * - El rol de la cuenta (owner/assistant) se elige al registrarse; después solo lo
+ *   cambia un administrador.
+ * - Para unirse se canjea una invitación (uso único o limitado, con vigencia) o la
+ *   clave del negocio, resuelta con el índice businessKeys sin consultar businesses.
+ * - Los expedientes guardan sus versiones anteriores (solo se agregan); uno firmado
+ *   ya no se modifica ni se elimina, solo recibe adendas.
+ * - La bitácora de auditoría (auditLogs) solo la lee el propietario; cada miembro
+ *   agrega entradas a su nombre y nadie las modifica ni las borra.
+ * - Las colecciones solo se escriben con licencia vigente; la licencia y el estado
+ *   isActive solo los cambia un administrador.
+ * - Las cuentas de las citas las registra el personal; los pagos solo se agregan (al
+ *   fusionar clientes pasan al sobreviviente) y únicamente un administrador elimina uno
+ *   capturado por error. La cuenta y los pagos de una cita en una factura timbrada
+ *   ya no cambian.
+ * - Cada usuario abre su caja con un fondo; los cobros y movimientos de efectivo solo
+ *   se agregan mientras está abierta y el corte cerrado ya no cambia.
+ * - Los datos fiscales del emisor solo los captura el propietario; las facturas las
+ *   emite un administrador y una timbrada ya no se modifica ni se elimina; al fusionar
+ *   clientes solo cambia a qué cliente pertenece.
+ * - La página pública solo lee los campos de perfil publicados y la proyección pública
+ *   (horarios ocupados por fecha e índice hash del teléfono -> cliente) y crea citas pendientes.
+ */
+import { readFileSync } from 'node:fs';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+
+const PROJECT_ID = 'demo-makeagend';
+const KEY_A = '0123456789ABCDEF';
+const KEY_B = 'FEDCBA9876543210';
+const DAY = 24 * 60 * 60 * 1000;
+const PHONE_HASH = 'a'.repeat(64);
+
+let testEnv: RulesTestEnvironment;
+
+const license = (expiresAt: number) => ({
+  type: '1month',
+  startDate: new Date(expiresAt - 30 * DAY).toISOString(),
+  endDate: new Date(expiresAt).toISOString(),
+  expiresAt,
+  isActive: true,
+  assignedBy: 'admin',
+  assignedAt: new Date(expiresAt - 30 * DAY).toISOString(),
+  renewalCount: 1
+});
+
+const access = (businessId: string, businessKey: string, role: string) => ({
+  [businessId]: { businessId, businessName: 'Negocio', businessKey, role, addedAt: '2025-01-01T00:00:00.000Z' }
+});
+
+const invitation = (overrides: Record<string, unknown>) => ({
+  businessId: 'bizA',
+  businessName: 'Spa A',
+  role: 'editor',
+  createdBy: 'ownerA',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  expiresAt: Date.now() + 7 * DAY,
+  maxUses: 1,
+  uses: 0,
+  ...overrides
+});
+
+const auditEntry = (actorId: string, overrides: Record<string, unknown> = {}) => ({
+  businessId: 'bizA',
+  actorId,
+  actorName: actorId,
+  action: 'update',
+  entityType: 'client',
+  entityId: 'c1',
+  entityPath: 'businesses/bizA/clients/c1',
+  changes: { name: { before: 'Ana', after: 'Ana María' } },
+  createdAt: '2025-01-01T10:00:00.000Z',
+  ...overrides
+});
+
+const seed = () => ({
+  businesses: {
+    bizA: {
+      name: 'Spa A',
+      categories: ['massage'],
+      operatingHours: {},
+      ownerId: 'ownerA',
+      businessKey: KEY_A,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      slug: 'spa-a',
+      onlineBookingEnabled: true,
+      license: license(Date.now() + 30 * DAY),
+      services: { s1: { name: 'Masaje', duration: 60, isActive: true, businessId: 'bizA' } },
+      clients: { c1: { name: 'Ana', phone: '5512345678', businessId: 'bizA' } },
+      appointments: {
+        a1: { clientId: 'c1', serviceId: 's1', date: '2030-01-01', startTime: '10:00', endTime: '11:00', status: 'confirmed' }
+      },
+      digitalRecords: { r1: { clientId: 'c1', category: 'massage', date: '2025-01-01', data: { notes: 'Privado' } } }
+    },
+    bizB: {
+      name: 'Clínica B',
+      categories: ['dentistry'],
+      operatingHours: {},
+      ownerId: 'ownerB',
+      businessKey: KEY_B,
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      license: license(Date.now() - DAY),
+      clients: { c1: { name: 'Beto', phone: '5587654321', businessId: 'bizB' } }
+    }
+  },
+  bookingSlots: {
+    bizA: { '2030-01-01': { a1: { serviceId: 's1', startTime: '10:00', endTime: '11:00', resourceIndex: 0 } } }
+  },
+  bookingClients: { bizA: { [PHONE_HASH]: 'c1' } },
+  businessSlugs: { 'spa-a': 'bizA' },
+  businessKeys: {
+    [KEY_A]: { businessId: 'bizA', businessName: 'Spa A' },
+    [KEY_B]: { businessId: 'bizB', businessName: 'Clínica B' }
+  },
+  invitations: {
+    ABCDEFGH2345: invitation({}),
+    CADUCADA2345: invitation({ expiresAt: Date.now() - DAY }),
+    LLENA2345678: invitation({ uses: 1 })
+  },
+  users: {
+    ownerA: { uid: 'ownerA', email: 'a@test.com', displayName: 'A', role: 'owner', businessId: 'bizA', businessAccess: access('bizA', KEY_A, 'admin') },
+    ownerB: { uid: 'ownerB', email: 'b@test.com', displayName: 'B', role: 'owner', businessId: 'bizB', businessAccess: access('bizB', KEY_B, 'admin') },
+    managerA: { uid: 'managerA', email: 'm@test.com', displayName: 'M', role: 'assistant', currentBusiness: 'bizA', businessAccess: access('bizA', KEY_A, 'admin') },
+    editorA: { uid: 'editorA', email: 'e@test.com', displayName: 'E', role: 'assistant', currentBusiness: 'bizA', businessAccess: access('bizA', KEY_A, 'editor') },
+    viewerA: { uid: 'viewerA', email: 'v@test.com', displayName: 'V', role: 'assistant', currentBusiness: 'bizA', businessAccess: access('bizA', KEY_A, 'viewer') },
+    stranger: { uid: 'stranger', email: 's@test.com', displayName: 'S', role: 'assistant' },
+    blocked: { uid: 'blocked', email: 'x@test.com', displayName: 'X', role: 'owner', isBlocked: true, blockedReason: 'Cuenta suspendida' }
+  },
+  auditLogs: {
+    bizA: { '2025-01-01': { e1: auditEntry('editorA') } }
+  },
+  notifications: {
+    n1: { type: 'system', title: 'Hola', message: 'Aviso', isRead: false, createdAt: '2025-01-01T00:00:00.000Z', priority: 'low', userId: 'ownerA', businessId: 'bizA' }
+  }
+});
+
+const db = (uid?: string, claims?: Record<string, unknown>) => {
+  return uid ? testEnv.authenticatedContext(uid, claims).database() : testEnv.unauthenticatedContext().database();
+};
+
+const newClient = { name: 'Nuevo', phone: '5500000000', businessId: 'bizA' };
+
+before(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: PROJECT_ID,
+    database: { rules: readFileSync(new URL('../database.rules.json', import.meta.url), 'utf8') }
+  });
+});
+
+beforeEach(async () => {
+  await testEnv.clearDatabase();
+  await testEnv.withSecurityRulesDisabled(async context => {
+    await context.database().ref().set(seed());
+  });
+});
+
+after(async () => {
+  await testEnv.cleanup();
+});
+
+describe('alcance por negocio', () => {
+  it('el propietario lee su negocio completo', async () => {
+    await assertSucceeds(db('ownerA').ref('businesses/bizA').once('value'));
+  });
+
+  it('nadie lee negocios ajenos ni sus expedientes', async () => {
+    await assertFails(db('ownerB').ref('businesses/bizA').once('value'));
+    await assertFails(db('stranger').ref('businesses/bizA/digitalRecords').once('value'));
+    await assertFails(db('stranger').ref('businesses').once('value'));
+    await assertFails(db().ref('businesses/bizA/clients/c1').once('value'));
+  });
+
+  it('los asistentes con acceso leen el negocio', async () => {
+    await assertSucceeds(db('viewerA').ref('businesses/bizA').once('value'));
+  });
+
+  it('los asistentes cargan las citas por rango de fechas y los expedientes por cliente', async () => {
+    const viewer = db('viewerA');
+    await assertSucceeds(viewer.ref('businesses/bizA/appointments').orderByChild('date').startAt('2030-01-01').endAt('2030-01-07').once('value'));
+    await assertSucceeds(viewer.ref('businesses/bizA/appointments').orderByChild('clientId').equalTo('c1').once('value'));
+    await assertSucceeds(db('managerA').ref('businesses/bizA/digitalRecords').orderByChild('clientId').equalTo('c1').once('value'));
+    await assertFails(db('ownerB').ref('businesses/bizA/appointments').orderByChild('date').startAt('2030-01-01').endAt('2030-01-07').once('value'));
+  });
+
+  it('la clave se resuelve con el índice, no consultando businesses', async () => {
+    await assertSucceeds(db('stranger').ref(`businessKeys/${KEY_A}`).once('value'));
+    await assertFails(db('stranger').ref('businessKeys').once('value'));
+    await assertFails(db().ref(`businessKeys/${KEY_A}`).once('value'));
+    await assertFails(db('stranger').ref('businesses').orderByChild('businessKey').equalTo(KEY_A).once('value'));
+  });
+
+  it('un usuario solo lee su nodo y el del propietario de su negocio', async () => {
+    await assertSucceeds(db('stranger').ref('users/stranger').once('value'));
+    await assertSucceeds(db('editorA').ref('users/ownerA').once('value'));
+    await assertFails(db('editorA').ref('users/viewerA').once('value'));
+    await assertFails(db('ownerA').ref('users').once('value'));
+  });
+
+  it('el propietario ve el acceso de su equipo pero no el resto del nodo', async () => {
+    await assertSucceeds(db('ownerA').ref('users/editorA/businessAccess/bizA').once('value'));
+    await assertFails(db('ownerA').ref('users/editorA').once('value'));
+  });
+});
+
+describe('roles por negocio', () => {
+  it('editor crea y edita clientes pero no los elimina', async () => {
+    await assertSucceeds(db('editorA').ref('businesses/bizA/clients/c2').set(newClient));
+    await assertSucceeds(db('editorA').ref('businesses/bizA/clients/c1').update({ name: 'Ana María' }));
+    await assertFails(db('editorA').ref('businesses/bizA/clients/c1').remove());
+  });
+
+  it('editor gestiona citas pero no servicios ni expedientes', async () => {
+    await assertSucceeds(db('editorA').ref('businesses/bizA/appointments/a1').update({ status: 'completed' }));
+    await assertFails(db('editorA').ref('businesses/bizA/services/s2').set({ name: 'Facial', duration: 30 }));
+    await assertFails(db('editorA').ref('businesses/bizA/digitalRecords/r1').update({ data: { notes: 'x' } }));
+  });
+
+  it('viewer solo lee', async () => {
+    await assertFails(db('viewerA').ref('businesses/bizA/clients/c2').set(newClient));
+    await assertFails(db('viewerA').ref('businesses/bizA/appointments/a1').remove());
+  });
+
+  it('admin del negocio gestiona servicios, expedientes y perfil', async () => {
+    await assertSucceeds(db('managerA').ref('businesses/bizA/services/s2').set({ name: 'Facial', duration: 30 }));
+    await assertSucceeds(db('managerA').ref('businesses/bizA/digitalRecords/r1').update({ data: { notes: 'x' } }));
+    await assertSucceeds(db('managerA').ref('businesses/bizA').update({ name: 'Spa A+' }));
+    await assertFails(db('editorA').ref('businesses/bizA').update({ name: 'Spa A+' }));
+  });
+
+  it('solo el propietario agrega campos propios a los expedientes', async () => {
+    const recordFields = { massage: [{ key: 'custom_presion', label: 'Presión', type: 'text' }] };
+    await assertSucceeds(db('ownerA').ref('businesses/bizA').update({ recordFields }));
+    await assertFails(db('managerA').ref('businesses/bizA').update({ recordFields }));
+    await assertFails(db('managerA').ref('businesses/bizA/recordFields/massage').remove());
+  });
+
+  it('solo el propietario cambia roles y nadie se asciende a sí mismo', async () => {
+    await assertSucceeds(db('ownerA').ref('users/viewerA/businessAccess/bizA/role').set('editor'));
+    await assertFails(db('editorA').ref('users/editorA/businessAccess/bizA/role').set('admin'));
+  });
+
+  it('el propietario puede revocar accesos', async () => {
+    await assertSucceeds(db('ownerA').ref('users/editorA/businessAccess/bizA').remove());
+    await assertFails(db('ownerB').ref('users/editorA/businessAccess/bizA').remove());
+  });
+
+  it('al revocar, el propietario limpia el negocio actual solo si apunta al suyo', async () => {
+    await assertSucceeds(db('ownerA').ref('users/editorA/currentBusiness').once('value'));
+    await assertFails(db('ownerB').ref('users/editorA/currentBusiness').once('value'));
+    await assertFails(db('ownerB').ref('users/editorA/currentBusiness').remove());
+    await assertFails(db('ownerA').ref('users/editorA/currentBusiness').set('bizB'));
+    await assertSucceeds(db('ownerA').ref().update({
+      'users/editorA/businessAccess/bizA': null,
+      'users/editorA/currentBusiness': null,
+      'businesses/bizA/members/editorA': null
+    }));
+  });
+
+  it('al revocar se borran sus calendarios y la clave anterior ya no sirve para volver', async () => {
+    const NEW_KEY = '00112233445566AA';
+    await testEnv.withSecurityRulesDisabled(async context => {
+      await context.database().ref('calendarFeeds/feedEditor').set({
+        businessId: 'bizA', scope: 'business', label: 'Agenda', createdBy: 'editorA', createdAt: '2025-01-01T00:00:00.000Z'
+      });
+    });
+
+    await assertSucceeds(db('ownerA').ref().update({
+      'users/editorA/businessAccess/bizA': null,
+      'users/editorA/currentBusiness': null,
+      'businesses/bizA/members/editorA': null,
+      'calendarFeeds/feedEditor': null,
+      'businesses/bizA/businessKey': NEW_KEY,
+      [`businessKeys/${NEW_KEY}`]: { businessId: 'bizA', businessName: 'Spa A' },
+      [`businessKeys/${KEY_A}`]: null
+    }));
+
+    await assertFails(db('editorA').ref('users/editorA/businessAccess/bizA').set({
+      businessId: 'bizA', businessName: 'Spa A', businessKey: KEY_A, role: 'viewer', addedAt: '2025-01-01T00:00:00.000Z'
+    }));
+  });
+});
+
+describe('unirse con la clave del negocio', () => {
+  const join = (businessKey: string, role = 'viewer') => ({
+    businessId: 'bizA',
+    businessName: 'Spa A',
+    businessKey,
+    role,
+    addedAt: '2025-01-01T00:00:00.000Z'
+  });
+
+  it('con la clave correcta se obtiene acceso de solo lectura', async () => {
+    const stranger = db('stranger');
+    await assertSucceeds(stranger.ref().update({
+      'users/stranger/businessAccess/bizA': join(KEY_A),
+      'users/stranger/currentBusiness': 'bizA'
+    }));
+    await assertSucceeds(stranger.ref('businesses/bizA/members/stranger').set({
+      displayName: 'S', email: 's@test.com', joinedAt: '2025-01-01T00:00:00.000Z'
+    }));
+    await assertSucceeds(stranger.ref('businesses/bizA').once('value'));
+  });
+
+  it('con una clave incorrecta o un rol superior se rechaza', async () => {
+    await assertFails(db('stranger').ref('users/stranger/businessAccess/bizA').set(join(KEY_B)));
+    await assertFails(db('stranger').ref('users/stranger/businessAccess/bizA').set(join(KEY_A, 'admin')));
+  });
+
+  it('se recibe el rol que el propietario eligió para la clave', async () => {
+    await assertFails(db('managerA').ref('businesses/bizA/joinRole').set('admin'));
+    await assertSucceeds(db('ownerA').ref('businesses/bizA/joinRole').set('editor'));
+    await assertFails(db('stranger').ref('users/stranger/businessAccess/bizA').set(join(KEY_A)));
+    await assertSucceeds(db('stranger').ref('users/stranger/businessAccess/bizA').set(join(KEY_A, 'editor')));
+  });
+
+  it('no se puede apuntar businessId a un negocio sin acceso', async () => {
+    await assertFails(db('stranger').ref('users/stranger/businessId').set('bizA'));
+  });
+
+  it('no se puede registrar como miembro sin acceso', async () => {
+    await assertFails(db('stranger').ref('businesses/bizA/members/stranger').set({
+      displayName: 'S', email: 's@test.com', joinedAt: '2025-01-01T00:00:00.000Z'
+    }));
+  });
+});
+
+describe('invitaciones', () => {
+  const redeem = (code: string, role = 'editor', uses = 1) => ({
+    [`invitations/${code}/uses`]: uses,
+    'users/stranger/businessAccess/bizA': {
+      businessId: 'bizA', businessName: 'Spa A', invitationId: code, role, addedAt: '2025-01-01T00:00:00.000Z'
+    }
+  });
+
+  it('solo el propietario crea y lista las invitaciones de su negocio', async () => {
+    await assertSucceeds(db('ownerA').ref('invitations/MNPQRSTU2345').set(invitation({})));
+    await assertFails(db('managerA').ref('invitations/MNPQRSTU2346').set(invitation({})));
+    await assertFails(db('ownerB').ref('invitations/MNPQRSTU2347').set(invitation({})));
+    await assertFails(db('ownerA').ref('invitations/MNPQRSTU2348').set(invitation({ uses: 1 })));
+    await assertSucceeds(db('ownerA').ref('invitations').orderByChild('businessId').equalTo('bizA').once('value'));
+    await assertFails(db('managerA').ref('invitations').orderByChild('businessId').equalTo('bizA').once('value'));
+  });
+
+  it('canjear suma un uso y concede el rol de la invitación', async () => {
+    await assertSucceeds(db('stranger').ref('invitations/ABCDEFGH2345').once('value'));
+    await assertSucceeds(db('stranger').ref().update(redeem('ABCDEFGH2345')));
+    await assertSucceeds(db('stranger').ref('businesses/bizA').once('value'));
+  });
+
+  it('no se canjea sin sumar el uso ni con otro rol', async () => {
+    const { 'users/stranger/businessAccess/bizA': accessOnly } = redeem('ABCDEFGH2345');
+    await assertFails(db('stranger').ref('users/stranger/businessAccess/bizA').set(accessOnly));
+    await assertFails(db('stranger').ref().update(redeem('ABCDEFGH2345', 'admin')));
+    await assertFails(db('stranger').ref().update(redeem('ABCDEFGH2345', 'editor', 2)));
+  });
+
+  it('una invitación expirada o agotada no se canjea', async () => {
+    await assertFails(db('stranger').ref().update(redeem('CADUCADA2345')));
+    await assertFails(db('stranger').ref().update(redeem('LLENA2345678', 'editor', 2)));
+  });
+
+  it('quien ya tiene acceso no consume usos', async () => {
+    await assertFails(db('viewerA').ref().update({
+      'invitations/ABCDEFGH2345/uses': 1,
+      'users/viewerA/businessAccess/bizA/invitationId': 'ABCDEFGH2345'
+    }));
+  });
+
+  it('el propietario revoca la invitación', async () => {
+    await assertFails(db('managerA').ref('invitations/ABCDEFGH2345').remove());
+    await assertSucceeds(db('ownerA').ref('invitations/ABCDEFGH2345').remove());
+  });
+});
+
+describe('rotación de la clave', () => {
+  const NEW_KEY = '00000000000000AA';
+
+  it('el propietario cambia la clave y la anterior deja de resolverse', async () => {
+    await assertSucceeds(db('ownerA').ref().update({
+      'businesses/bizA/businessKey': NEW_KEY,
+      [`businessKeys/${NEW_KEY}`]: { businessId: 'bizA', businessName: 'Spa A' },
+      [`businessKeys/${KEY_A}`]: null
+    }));
+    await assertFails(db('stranger').ref('users/stranger/businessAccess/bizA').set({
+      businessId: 'bizA', businessName: 'Spa A', businessKey: KEY_A, role: 'viewer', addedAt: '2025-01-01T00:00:00.000Z'
+    }));
+  });
+
+  it('nadie más reasigna ni borra la clave', async () => {
+    await assertFails(db('managerA').ref(`businessKeys/${KEY_A}`).remove());
+    await assertFails(db('ownerB').ref(`businessKeys/${KEY_A}`).set({ businessId: 'bizB', businessName: 'Clínica B' }));
+  });
+});
+
+describe('versiones y firma de expedientes', () => {
+  const signRecord = () => testEnv.withSecurityRulesDisabled(async context => {
+    await context.database().ref('businesses/bizA/digitalRecords/r1/signedAt').set('2025-01-02T00:00:00.000Z');
+  });
+  const addendum = (createdBy: string) => ({ text: 'Corrección', createdAt: '2025-01-03T00:00:00.000Z', createdBy, createdByName: createdBy });
+
+  it('la edición guarda la versión anterior, que ya no cambia', async () => {
+    await assertSucceeds(db('managerA').ref().update({
+      'businesses/bizA/recordVersions/r1/v1': { clientId: 'c1', date: '2025-01-01', version: 1 },
+      'businesses/bizA/digitalRecords/r1/version': 2
+    }));
+    await assertFails(db('managerA').ref('businesses/bizA/recordVersions/r1/v1').set({ clientId: 'c1', version: 5 }));
+    await assertFails(db('ownerA').ref('businesses/bizA/recordVersions/r1/v1').remove());
+    await assertFails(db('editorA').ref('businesses/bizA/recordVersions/r1/v2').set({ clientId: 'c1', version: 1 }));
+  });
+
+  it('un expediente firmado no se modifica ni se elimina', async () => {
+    await signRecord();
+    await assertFails(db('ownerA').ref('businesses/bizA/digitalRecords/r1').update({ data: { notes: 'x' } }));
+    await assertFails(db('ownerA').ref('businesses/bizA/digitalRecords/r1/signedAt').remove());
+    await assertFails(db('ownerA').ref('businesses/bizA/digitalRecords/r1').remove());
+  });
+
+  it('un expediente firmado recibe adendas a nombre de quien las escribe', async () => {
+    await signRecord();
+    await assertSucceeds(db('managerA').ref('businesses/bizA/digitalRecords/r1/addenda/a1').set(addendum('managerA')));
+    await assertFails(db('managerA').ref('businesses/bizA/digitalRecords/r1/addenda/a1').set(addendum('managerA')));
+    await assertFails(db('managerA').ref('businesses/bizA/digitalRecords/r1/addenda/a2').set(addendum('ownerA')));
+    await assertFails(db('editorA').ref('businesses/bizA/digitalRecords/r1/addenda/a3').set(addendum('editorA')));
+  });
+
+  it('la fusión de clientes reasigna también los expedientes firmados', async () => {
+    await signRecord();
+    await assertSucceeds(db('managerA').ref('businesses/bizA/digitalRecords/r1/clientId').set('c2'));
+  });
+});
+
+describe('cobros y pagos', () => {
+  const charge = (overrides: Record<string, unknown> = {}) => ({
+    appointmentId: 'a1', clientId: 'c1', serviceId: 's1', date: '2030-01-01', price: 500, discount: 50, tip: 20, total: 470, ...overrides
+  });
+  const payment = (overrides: Record<string, unknown> = {}) => ({
+    appointmentId: 'a1', clientId: 'c1', amount: 200, method: 'cash', date: '2030-01-01', receivedBy: 'editorA', ...overrides
+  });
+
+  it('el personal cobra la cita y registra pagos parciales', async () => {
+    await assertSucceeds(db('editorA').ref().update({
+      'businesses/bizA/charges/a1': charge(),
+      'businesses/bizA/payments/p1': payment()
+    }));
+    await assertSucceeds(db('editorA').ref('businesses/bizA/payments/p2').set(payment({ amount: 270, method: 'card' })));
+    await assertFails(db('viewerA').ref('businesses/bizA/payments/p3').set(payment()));
+    await assertFails(db('ownerB').ref('businesses/bizB/charges/a1').set(charge()));
+  });
+
+  it('se valida la cuenta y el pago', async () => {
+    await assertFails(db('editorA').ref('businesses/bizA/charges/a1').set(charge({ appointmentId: 'a2' })));
+    await assertFails(db('editorA').ref('businesses/bizA/charges/a1').set(charge({ total: -10 })));
+    await assertFails(db('editorA').ref('businesses/bizA/payments/p1').set(payment({ amount: 0 })));
+    await assertFails(db('editorA').ref('businesses/bizA/payments/p1').set(payment({ method: 'crypto' })));
+  });
+
+  it('los pagos no se editan y solo un administrador los elimina', async () => {
+    await assertSucceeds(db('editorA').ref('businesses/bizA/payments/p1').set(payment()));
+    await assertFails(db('editorA').ref('businesses/bizA/payments/p1/amount').set(1000));
+    await assertFails(db('editorA').ref('businesses/bizA/payments/p1').remove());
+    await assertSucceeds(db('managerA').ref('businesses/bizA/payments/p1').remove());
+  });
+
+  it('al fusionar clientes las cuentas y pagos pasan al sobreviviente', async () => {
+    await assertSucceeds(db('editorA').ref().update({
+      'businesses/bizA/clients/c2': newClient,
+      'businesses/bizA/charges/a1': charge({ clientId: 'c2' }),
+      'businesses/bizA/payments/p1': payment({ clientId: 'c2' })
+    }));
+
+    // Sin eliminar al cliente fusionado, el pago no cambia de cliente
+    await assertFails(db('managerA').ref('businesses/bizA/payments/p1/clientId').set('c1'));
+    await assertFails(db('editorA').ref().update({
+      'businesses/bizA/clients/c2': null,
+      'businesses/bizA/payments/p1/clientId': 'c1'
+    }));
+    await assertSucceeds(db('managerA').ref().update({
+      'businesses/bizA/clients/c2': null,
+      'businesses/bizA/charges/a1/clientId': 'c1',
+      'businesses/bizA/payments/p1/clientId': 'c1'
+    }));
+  });
+
+  it('el perfil del cliente consulta sus cuentas y pagos', async () => {
+    await assertSucceeds(db('viewerA').ref('businesses/bizA/charges').orderByChild('clientId').equalTo('c1').once('value'));
+    await assertSucceeds(db('viewerA').ref('businesses/bizA/payments').orderByChild('date').startAt('2030-01-01').endAt('9999-12-31').once('value'));
+    await assertFails(db('stranger').ref('businesses/bizA/payments').orderByChild('clientId').equalTo('c1').once('value'));
+  });
+});
+
+describe('caja', () => {
+  const session = (openedBy: string, overrides: Record<string, unknown> = {}) => ({
+    businessId: 'bizA', date: '2030-01-01', status: 'open', openingFloat: 500, openedBy, openedByName: openedBy, openedAt: '2030-01-01T09:00:00.000Z', ...overrides
+  });
+  const closed = (openedBy: string, closedBy: string) => session(openedBy, {
+    status: 'closed',
+    closedBy,
+    closedAt: '2030-01-01T20:00:00.000Z',
+    reconciliation: { expected: { cash: 700, card: 0, transfer: 0 }, counted: { cash: 690, card: 0, transfer: 0 }, difference: { cash: -10, card: 0, transfer: 0 } }
+  });
+  const movement = (createdBy: string, overrides: Record<string, unknown> = {}) => ({
+    sessionId: 'cs1', type: 'out', amount: 100, reason: 'Compra de insumos', createdBy, createdByName: createdBy, createdAt: '2030-01-01T12:00:00.000Z', ...overrides
+  });
+  const sale = (overrides: Record<string, unknown> = {}) => ({
+    concept: 'Esmalte', amount: 150, method: 'cash', date: '2030-01-01', sessionId: 'cs1', receivedBy: 'editorA', ...overrides
+  });
+  const openSession = () => testEnv.withSecurityRulesDisabled(async context => {
+    await context.database().ref('businesses/bizA/cashSessions/cs1').set(session('editorA'));
+  });
+
+  it('cada quien abre su caja', async () => {
+    await assertSucceeds(db('editorA').ref('businesses/bizA/cashSessions/cs1').set(session('editorA')));
+    await assertFails(db('editorA').ref('businesses/bizA/cashSessions/cs2').set(session('managerA')));
+    await assertFails(db('viewerA').ref('businesses/bizA/cashSessions/cs3').set(session('viewerA')));
+    await assertFails(db('editorA').ref('businesses/bizA/cashSessions/cs4').set(session('editorA', { openingFloat: -1 })));
+  });
+
+  it('los cobros sueltos y los movimientos van a una caja abierta', async () => {
+    await openSession();
+    await assertSucceeds(db('editorA').ref('businesses/bizA/payments/p1').set(sale()));
+    await assertSucceeds(db('editorA').ref('businesses/bizA/cashMovements/m1').set(movement('editorA')));
+    await assertFails(db('editorA').ref('businesses/bizA/cashMovements/m1').set(movement('editorA', { amount: 1 })));
+    await assertFails(db('editorA').ref('businesses/bizA/cashMovements/m2').set(movement('managerA')));
+    await assertFails(db('editorA').ref('businesses/bizA/cashMovements/m3').set(movement('editorA', { reason: '' })));
+    await assertFails(db('editorA').ref('businesses/bizA/payments/p2').set(sale({ concept: null })));
+    await assertFails(db('editorA').ref('businesses/bizA/payments/p3').set(sale({ sessionId: 'cs9' })));
+  });
+
+  it('la caja la cierra quien la abrió o un administrador, y ya no cambia', async () => {
+    await openSession();
+    await assertFails(db('editorA').ref('businesses/bizA/cashSessions/cs1').set(session('editorA', { status: 'closed' })));
+    await assertFails(db('editorA').ref('businesses/bizA/cashSessions/cs1').set({ ...closed('editorA', 'editorA'), openingFloat: 0 }));
+    await assertSucceeds(db('managerA').ref('businesses/bizA/cashSessions/cs1').set(closed('editorA', 'managerA')));
+    await assertFails(db('managerA').ref('businesses/bizA/cashSessions/cs1/reconciliation/notes').set('Ajuste'));
+    await assertFails(db('ownerA').ref('businesses/bizA/cashSessions/cs1').remove());
+  });
+
+  it('con la caja cerrada no se agregan ni eliminan sus pagos', async () => {
+    await openSession();
+    await assertSucceeds(db('editorA').ref('businesses/bizA/payments/p1').set(sale()));
+    await assertSucceeds(db('editorA').ref('businesses/bizA/cashSessions/cs1').set(closed('editorA', 'editorA')));
+    await assertFails(db('editorA').ref('businesses/bizA/payments/p2').set(sale()));
+    await assertFails(db('editorA').ref('businesses/bizA/cashMovements/m1').set(movement('editorA')));
+    await assertFails(db('managerA').ref('businesses/bizA/payments/p1').remove());
+  });
+});
+
+describe('facturación', () => {
+  const fiscal = (overrides: Record<string, unknown> = {}) => ({
+    rfc: 'EKU9003173C9', legalName: 'ESCUELA KEMPER URGATE', taxRegime: '601', postalCode: '42501',
+    certificateNumber: '30001000000500003416', productCode: '01010101', taxTreatment: 'iva16', series: 'A', ...overrides
+  });
+  const invoice = (overrides: Record<string, unknown> = {}) => ({
+    series: 'A', folio: 1, clientId: 'c1', appointmentIds: ['a1'], issuedAt: '2030-01-01T12:00:00', xml: '<cfdi:Comprobante/>',
+    status: 'draft', total: 116, createdBy: 'managerA', businessId: 'bizA', createdAt: '2030-01-01T18:00:00.000Z', ...overrides
+  });
+  const stamped = { status: 'stamped', uuid: '6F1E4C1A-0000-4000-8000-000000000001', stampedAt: '2030-01-01T18:05:00.000Z' };
+
+  it('solo el propietario captura los datos fiscales', async () => {
+    await assertSucceeds(db('ownerA').ref('businesses/bizA/fiscal').set(fiscal()));
+    await assertFails(db('managerA').ref('businesses/bizA/fiscal').set(fiscal()));
+    await assertFails(db('ownerA').ref('businesses/bizA/fiscal').set(fiscal({ postalCode: '425' })));
+    await assertFails(db('ownerA').ref('businesses/bizA/fiscal').set(fiscal({ taxTreatment: 'iva8' })));
+  });
+
+  it('un administrador emite facturas', async () => {
+    await assertSucceeds(db('managerA').ref('businesses/bizA/invoices/i1').set(invoice()));
+    await assertFails(db('editorA').ref('businesses/bizA/invoices/i2').set(invoice()));
+    await assertFails(db('managerA').ref('businesses/bizA/invoices/i3').set(invoice({ status: 'stamped' })));
+    await assertFails(db('ownerB').ref('businesses/bizB/invoices/i1').set(invoice({ businessId: 'bizB' })));
+  });
+
+  it('una factura timbrada ya no cambia ni se elimina', async () => {
+    await assertSucceeds(db('managerA').ref('businesses/bizA/invoices/i1').set(invoice()));
+    await assertSucceeds(db('managerA').ref('businesses/bizA/invoices/i1').update(stamped));
+    await assertFails(db('managerA').ref('businesses/bizA/invoices/i1/total').set(1));
+    await assertFails(db('ownerA').ref('businesses/bizA/invoices/i1').remove());
+  });
+
+  it('una factura sin timbrar se puede descartar', async () => {
+    await assertSucceeds(db('managerA').ref('businesses/bizA/invoices/i1').set(invoice()));
+    await assertSucceeds(db('managerA').ref('businesses/bizA/invoices/i1').remove());
+  });
+
+  it('la cuenta y los pagos de una cita en una factura timbrada ya no cambian', async () => {
+    const charge = { appointmentId: 'a1', clientId: 'c1', serviceId: 's1', date: '2030-01-01', price: 116, total: 116 };
+    const payment = { appointmentId: 'a1', clientId: 'c1', amount: 50, method: 'cash', date: '2030-01-01', receivedBy: 'editorA' };
+    await assertSucceeds(db('editorA').ref().update({
+      'businesses/bizA/charges/a1': charge,
+      'businesses/bizA/payments/p1': payment
+    }));
+    await assertSucceeds(db('managerA').ref().update({
+      'businesses/bizA/invoices/i1': invoice(),
+      'businesses/bizA/charges/a1/invoiceId': 'i1'
+    }));
+
+    // Sin timbrar, la cuenta todavía se corrige
+    await assertSucceeds(db('editorA').ref('businesses/bizA/charges/a1/total').set(100));
+    await assertSucceeds(db('managerA').ref('businesses/bizA/invoices/i1').update(stamped));
+
+    await assertFails(db('editorA').ref('businesses/bizA/charges/a1/total').set(116));
+    await assertFails(db('managerA').ref('businesses/bizA/charges/a1').remove());
+    await assertFails(db('editorA').ref('businesses/bizA/payments/p2').set(payment));
+    await assertFails(db('managerA').ref('businesses/bizA/payments/p1').remove());
+    await assertSucceeds(db('editorA').ref('businesses/bizA/payments/p3').set({ ...payment, appointmentId: 'a2' }));
+  });
+
+  it('al fusionar clientes sus facturas, incluso timbradas, pasan al sobreviviente', async () => {
+    await assertSucceeds(db('managerA').ref().update({
+      'businesses/bizA/clients/c2': newClient,
+      'businesses/bizA/invoices/i1': invoice({ clientId: 'c2', ...stamped })
+    }));
+
+    await assertFails(db('managerA').ref('businesses/bizA/invoices/i1/clientId').set('c1'));
+    await assertSucceeds(db('managerA').ref().update({
+      'businesses/bizA/clients/c2': null,
+      'businesses/bizA/invoices/i1/clientId': 'c1'
+    }));
+  });
+});
+
+describe('bitácora de auditoría', () => {
+  it('el cambio y su entrada se escriben juntos a nombre de quien escribe', async () => {
+    await assertSucceeds(db('editorA').ref().update({
+      'businesses/bizA/clients/c1/name': 'Ana María',
+      'auditLogs/bizA/2025-01-02/e2': auditEntry('editorA')
+    }));
+    await assertFails(db('editorA').ref('auditLogs/bizA/2025-01-02/e3').set(auditEntry('ownerA')));
+    await assertFails(db('stranger').ref('auditLogs/bizA/2025-01-02/e4').set(auditEntry('stranger')));
+  });
+
+  it('solo el propietario la lee', async () => {
+    await assertSucceeds(db('ownerA').ref('auditLogs/bizA/2025-01-01').once('value'));
+    await assertFails(db('managerA').ref('auditLogs/bizA').once('value'));
+    await assertFails(db('ownerB').ref('auditLogs/bizA').once('value'));
+  });
+
+  it('las entradas no se modifican ni se borran', async () => {
+    await assertFails(db('editorA').ref('auditLogs/bizA/2025-01-01/e1').set(auditEntry('editorA', { action: 'create' })));
+    await assertFails(db('ownerA').ref('auditLogs/bizA/2025-01-01/e1').remove());
+    await assertFails(db('ownerA').ref('auditLogs/bizA/2025-01-01').remove());
+  });
+
+  it('se valida el día y la forma de la entrada', async () => {
+    await assertFails(db('editorA').ref('auditLogs/bizA/ayer/e5').set(auditEntry('editorA')));
+    await assertFails(db('editorA').ref('auditLogs/bizA/2025-01-02/e6').set(auditEntry('editorA', { action: 'purge' })));
+    await assertFails(db('editorA').ref('auditLogs/bizA/2025-01-02/e7').set(auditEntry('editorA', { businessId: 'bizB' })));
+  });
+});
+
+describe('perfil de usuario', () => {
+  it('nadie se otorga el rol de administrador', async () => {
+    await assertFails(db('stranger').ref('users/stranger/role').set('admin'));
+    await assertSucceeds(db('stranger').ref('users/stranger/displayName').set('Sofía'));
+  });
+
+  it('el rol se elige al registrarse y después nadie se hace propietario a sí mismo', async () => {
+    const profile = { uid: 'nuevo', email: 'n@test.com', displayName: 'N', createdAt: '2025-01-01T00:00:00.000Z' };
+    await assertSucceeds(db('nuevo').ref('users/nuevo').set({ ...profile, role: 'owner' }));
+    await assertFails(db('nuevo2').ref('users/nuevo2').set({ ...profile, uid: 'nuevo2', role: 'admin' }));
+
+    await assertFails(db('stranger').ref('users/stranger/role').set('owner'));
+    await assertFails(db('stranger').ref('users/stranger').remove());
+    await assertFails(db('stranger').ref('users/stranger').set({ uid: 'stranger', email: 's@test.com', displayName: 'S', role: 'owner' }));
+  });
+
+  it('un bloqueo del administrador no se puede quitar desde el cliente', async () => {
+    await assertFails(db('blocked').ref('users/blocked').update({ isBlocked: false, blockedReason: null }));
+    await assertFails(db('blocked').ref('users/blocked/blockedReason').set('Licencia expirada'));
+  });
+
+  it('un bloqueo por licencia sí se puede quitar', async () => {
+    await testEnv.withSecurityRulesDisabled(async context => {
+      await context.database().ref('users/blocked/blockedReason').set('Licencia expirada');
+    });
+    await assertSucceeds(db('blocked').ref('users/blocked').update({ isBlocked: false, blockedReason: null }));
+  });
+});
+
+describe('licencias', () => {
+  it('sin licencia vigente no se escriben colecciones', async () => {
+    await assertFails(db('ownerB').ref('businesses/bizB/clients/c2').set({ name: 'Nuevo', businessId: 'bizB' }));
+    await assertSucceeds(db('ownerB').ref('businesses/bizB').update({ name: 'Clínica B2' }));
+  });
+
+  it('una licencia desactivada también bloquea', async () => {
+    await testEnv.withSecurityRulesDisabled(async context => {
+      await context.database().ref('businesses/bizA/license/isActive').set(false);
+    });
+    await assertFails(db('ownerA').ref('businesses/bizA/clients/c2').set(newClient));
+  });
+
+  it('solo un administrador edita la licencia y el estado del negocio', async () => {
+    const renewed = license(Date.now() + 60 * DAY);
+    await assertFails(db('ownerB').ref('businesses/bizB/license').set(renewed));
+    await assertFails(db('ownerB').ref('businesses/bizB/isActive').set(true));
+    await assertSucceeds(db('root', { admin: true }).ref('businesses/bizB/license').set(renewed));
+    await assertSucceeds(db('ownerB').ref('businesses/bizB/clients/c2').set({ name: 'Nuevo', businessId: 'bizB' }));
+  });
+
+  it('el administrador lee todos los negocios y usuarios', async () => {
+    await assertSucceeds(db('root', { admin: true }).ref('businesses').once('value'));
+    await assertSucceeds(db('root', { admin: true }).ref('users').once('value'));
+  });
+});
+
+describe('alta de negocios', () => {
+  const business = {
+    name: 'Nuevo',
+    categories: ['nails'],
+    operatingHours: {},
+    ownerId: 'stranger',
+    businessKey: 'AAAAAAAAAAAAAAAA',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    services: { s1: { name: 'Manicure', duration: 60, isActive: false } }
+  };
+
+  it('el propietario crea el negocio con sus servicios en una escritura', async () => {
+    await assertSucceeds(db('stranger').ref().update({
+      'businesses/bizC': business,
+      'businessKeys/AAAAAAAAAAAAAAAA': { businessId: 'bizC', businessName: 'Nuevo' }
+    }));
+    await assertSucceeds(db('stranger').ref('users/stranger').update({
+      businessId: 'bizC',
+      currentBusiness: 'bizC',
+      businessAccess: access('bizC', 'AAAAAAAAAAAAAAAA', 'admin')
+    }));
+  });
+
+  it('al restaurar un respaldo en un negocio nuevo se escribe su primera entrada de la bitácora', async () => {
+    const entry = auditEntry('stranger', { businessId: 'bizC', action: 'create', entityType: 'business', entityId: 'bizC', entityPath: 'businesses/bizC' });
+    await assertSucceeds(db('stranger').ref().update({
+      'businesses/bizC': business,
+      'businessKeys/AAAAAAAAAAAAAAAA': { businessId: 'bizC', businessName: 'Nuevo' },
+      'auditLogs/bizC/2025-01-02/e1': entry
+    }));
+    await assertFails(db('stranger').ref('auditLogs/bizA/2025-01-02/e2').set(auditEntry('stranger')));
+  });
+
+  it('la clave debe registrarse en el índice y no puede tomar una ajena', async () => {
+    await assertFails(db('stranger').ref('businesses/bizC').set(business));
+    await assertFails(db('stranger').ref().update({
+      'businesses/bizC': { ...business, businessKey: KEY_A },
+      [`businessKeys/${KEY_A}`]: { businessId: 'bizC', businessName: 'Nuevo' }
+    }));
+  });
+
+  it('no se puede crear un negocio a nombre de otro ni con licencia', async () => {
+    await assertFails(db('stranger').ref('businesses/bizC').set({ ...business, ownerId: 'ownerA' }));
+    await assertFails(db('stranger').ref('businesses/bizC').set({ ...business, license: license(Date.now() + DAY) }));
+  });
+
+  it('no se puede sobrescribir un negocio existente', async () => {
+    await assertFails(db('stranger').ref('businesses/bizA').set({ ...business }));
+  });
+});
+
+describe('reservas en línea', () => {
+  const booking = {
+    clientId: 'c1',
+    serviceId: 's1',
+    date: '2030-01-01',
+    startTime: '12:00',
+    endTime: '13:00',
+    status: 'pending',
+    createdBy: 'public-booking',
+    businessId: 'bizA'
+  };
+
+  it('el público lee el slug, el perfil publicado y los servicios', async () => {
+    const visitor = db();
+    await assertSucceeds(visitor.ref('businessSlugs/spa-a').once('value'));
+    await assertSucceeds(visitor.ref('businesses/bizA/name').once('value'));
+    await assertSucceeds(visitor.ref('businesses/bizA/services').once('value'));
+    await assertFails(visitor.ref('businesses/bizA/businessKey').once('value'));
+    await assertFails(visitor.ref('businesses/bizA/license').once('value'));
+    await assertFails(visitor.ref('businesses/bizB/name').once('value'));
+  });
+
+  it('el público consulta horarios ocupados por fecha, no citas, series ni clientes', async () => {
+    const visitor = db();
+    await assertSucceeds(visitor.ref('bookingSlots/bizA/2030-01-01').once('value'));
+    await assertSucceeds(visitor.ref(`bookingClients/bizA/${PHONE_HASH}`).once('value'));
+    await assertFails(visitor.ref('bookingSlots/bizA').once('value'));
+    await assertFails(visitor.ref('bookingClients/bizA').once('value'));
+    await assertFails(visitor.ref('businesses/bizA/appointments').orderByChild('date').equalTo('2030-01-01').once('value'));
+    await assertFails(visitor.ref('businesses/bizA/appointmentSeries').once('value'));
+    await assertFails(visitor.ref('businesses/bizA/clients').orderByChild('phone').equalTo('5512345678').once('value'));
+  });
+
+  it('el público publica solo el horario y el teléfono de lo que crea en la misma escritura', async () => {
+    const visitor = db();
+    const slot = { serviceId: 's1', startTime: '12:00', endTime: '13:00', resourceIndex: 0 };
+    await assertSucceeds(visitor.ref().update({
+      'businesses/bizA/clients/p1': newClient,
+      [`bookingClients/bizA/${'b'.repeat(64)}`]: 'p1',
+      'businesses/bizA/appointments/p1': { ...booking, clientId: 'p1' },
+      'bookingSlots/bizA/2030-01-01/p1': slot
+    }));
+    await assertFails(visitor.ref('bookingSlots/bizA/2030-01-02/p2').set(slot));
+    await assertFails(visitor.ref('bookingSlots/bizA/2030-01-01/a1').remove());
+    await assertFails(visitor.ref(`bookingClients/bizA/${PHONE_HASH}`).set('p1'));
+  });
+
+  it('el personal mantiene la proyección pública', async () => {
+    await assertSucceeds(db('editorA').ref('bookingSlots/bizA/2030-01-01/a1').remove());
+    await assertSucceeds(db('editorA').ref(`bookingClients/bizA/${PHONE_HASH}`).remove());
+    await assertFails(db('viewerA').ref('bookingSlots/bizA/2030-01-02/a2').set({ serviceId: 's1', startTime: '12:00', endTime: '13:00', resourceIndex: 0 }));
+    await assertFails(db('ownerB').ref('bookingSlots/bizA/2030-01-01/a1').remove());
+  });
+
+  it('el público crea citas pendientes y nada más', async () => {
+    const visitor = db();
+    await assertSucceeds(visitor.ref('businesses/bizA/appointments/p1').set(booking));
+    await assertFails(visitor.ref('businesses/bizA/appointments/p2').set({ ...booking, status: 'confirmed' }));
+    await assertFails(visitor.ref('businesses/bizA/appointments/a1').update({ status: 'cancelled' }));
+    await assertFails(visitor.ref('businesses/bizB/appointments/p1').set({ ...booking, businessId: 'bizB' }));
+  });
+
+  it('el público crea clientes nuevos y avisa al propietario', async () => {
+    const visitor = db();
+    await assertSucceeds(visitor.ref('businesses/bizA/clients/p1').set(newClient));
+    await assertFails(visitor.ref('businesses/bizA/clients/c1').update({ name: 'Otra' }));
+    await assertSucceeds(visitor.ref('notifications/p1').set({
+      type: 'appointment_pending', title: 'Nueva reserva', message: 'Reserva', isRead: false,
+      createdAt: '2025-01-01T00:00:00.000Z', priority: 'high', businessId: 'bizA', userId: 'ownerA'
+    }));
+    await assertFails(visitor.ref('notifications/p2').set({
+      type: 'system', title: 'Spam', message: 'Spam', isRead: false,
+      createdAt: '2025-01-01T00:00:00.000Z', priority: 'high', businessId: 'bizA', userId: 'ownerA'
+    }));
+  });
+
+  it('solo el propietario toma o libera slugs de su negocio', async () => {
+    await assertSucceeds(db('ownerA').ref('businessSlugs/spa-a-centro').set('bizA'));
+    await assertFails(db('ownerB').ref('businessSlugs/spa-a').set('bizB'));
+    await assertFails(db('ownerB').ref('businessSlugs/spa-a').remove());
+  });
+});
+
+describe('notificaciones', () => {
+  it('cada usuario consulta solo sus notificaciones', async () => {
+    await assertSucceeds(db('ownerA').ref('notifications').orderByChild('userId').equalTo('ownerA').once('value'));
+    await assertFails(db('ownerB').ref('notifications').orderByChild('userId').equalTo('ownerA').once('value'));
+    await assertFails(db('ownerA').ref('notifications').once('value'));
+  });
+
+  it('los miembros del negocio gestionan sus notificaciones', async () => {
+    await assertSucceeds(db('editorA').ref('notifications').orderByChild('businessId').equalTo('bizA').once('value'));
+    await assertSucceeds(db('editorA').ref('notifications/n1/isRead').set(true));
+    await assertFails(db('ownerB').ref('notifications/n1').remove());
+  });
+
+  it('las solicitudes para administradores solo las leen quienes tienen el claim', async () => {
+    const request = { type: 'system', title: 'Solicitud de reactivación', message: 'Spa A', isRead: false, createdAt: '2025-01-01T00:00:00.000Z', priority: 'high', audience: 'admins' };
+    await assertSucceeds(db('ownerA').ref('notifications/r1').set(request));
+    await assertFails(db('ownerA').ref('notifications').orderByChild('audience').equalTo('admins').once('value'));
+    await assertFails(db('ownerA').ref('notifications/r1/isRead').set(true));
+    await assertSucceeds(db('root', { admin: true }).ref('notifications').orderByChild('audience').equalTo('admins').once('value'));
+    await assertSucceeds(db('root', { admin: true }).ref('notifications/r1/isRead').set(true));
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Pruebas de ida y vuelta de iCalendar: lo que genera generateICalendar (exportación y
+ * calendarios suscribibles) lo vuelve a leer parseICalendar (importación) sin cambios.
+ *
+ * Uso:
+ *   npm test
+ */
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import type { Appointment, AppointmentSeries, Client, Service } from '../src/types';
+import { generateICalendar, parseICalendar } from '../src/utils/icalendar';
+import { expandSeries } from '../src/utils/recurrence';
+
+const services: Service[] = [
+  { id: 's1', name: 'Masaje', duration: 60, price: 500, isActive: true, businessId: 'bizA', createdAt: '', updatedAt: '' } as Service
+];
+const clients: Client[] = [
+  { id: 'c1', name: 'Ana', phone: '5512345678', businessId: 'bizA', createdAt: '', updatedAt: '' } as Client
+];
+
+const appointment = (overrides: Partial<Appointment> = {}): Appointment => ({
+  id: 'a1',
+  clientId: 'c1',
+  serviceId: 's1',
+  date: '2030-03-10',
+  startTime: '10:00',
+  endTime: '11:00',
+  status: 'confirmed',
+  createdBy: 'ownerA',
+  businessId: 'bizA',
+  createdAt: '2030-01-01T00:00:00.000Z',
+  updatedAt: '2030-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+const series: AppointmentSeries = {
+  id: 'serie1',
+  clientId: 'c1',
+  serviceId: 's1',
+  startDate: '2030-03-04',
+  startTime: '09:00',
+  endTime: '10:00',
+  status: 'confirmed',
+  notes: '',
+  rule: { frequency: 'weekly', count: 4 },
+  exceptions: {
+    '2030-03-11': { date: '2030-03-12', startTime: '12:00', endTime: '13:30' },
+    '2030-03-18': { cancelled: true },
+    '2030-03-25': { status: 'cancelled' }
+  },
+  createdBy: 'ownerA',
+  businessId: 'bizA',
+  createdAt: '2030-01-01T00:00:00.000Z',
+  updatedAt: '2030-01-01T00:00:00.000Z'
+};
+
+const roundTrip = (appointments: Appointment[]) => {
+  return parseICalendar(generateICalendar({ calendarName: 'Agenda', appointments, clients, services }));
+};
+
+// Fecha, horario y estado de cada evento, en el formato de la agenda
+const toSlots = (events: ReturnType<typeof parseICalendar>) => {
+  return events.map(({ uid, date, startTime, endTime, cancelled }) => ({ uid, date, startTime, endTime, cancelled }));
+};
+
+describe('iCalendar ida y vuelta', () => {
+  const originalTimeZone = process.env.TZ;
+
+  afterEach(() => {
+    process.env.TZ = originalTimeZone;
+  });
+
+  it('conserva fecha, horario e identificador de una cita', () => {
+    const events = roundTrip([appointment()]);
+    assert.deepEqual(toSlots(events), [
+      { uid: 'a1@makeagend', date: '2030-03-10', startTime: '10:00', endTime: '11:00', cancelled: false }
+    ]);
+    assert.equal(events[0].summary, 'Masaje - Ana');
+    assert.equal(events[0].allDay, false);
+  });
+
+  it('exporta cada ocurrencia de una serie con sus excepciones', () => {
+    const events = roundTrip(expandSeries(series));
+    assert.deepEqual(toSlots(events), [
+      { uid: 'serie1__2030-03-04@makeagend', date: '2030-03-04', startTime: '09:00', endTime: '10:00', cancelled: false },
+      { uid: 'serie1__2030-03-11@makeagend', date: '2030-03-12', startTime: '12:00', endTime: '13:30', cancelled: false },
+      { uid: 'serie1__2030-03-25@makeagend', date: '2030-03-25', startTime: '09:00', endTime: '10:00', cancelled: true }
+    ]);
+    // Las ocurrencias se expanden: el calendario no depende de que el cliente entienda RRULE
+    assert.ok(events.every(event => !event.hasRecurrence));
+  });
+
+  it('las horas son de reloj local y no cambian con la zona horaria de quien lee', () => {
+    const content = generateICalendar({ calendarName: 'Agenda', appointments: [appointment({ startTime: '23:30', endTime: '23:59' })], clients, services });
+    const slots = ['America/Mexico_City', 'Asia/Tokyo', 'UTC'].map(timeZone => {
+      process.env.TZ = timeZone;
+      return toSlots(parseICalendar(content));
+    });
+    slots.forEach(result => assert.deepEqual(result, slots[0]));
+    assert.equal(slots[0][0].startTime, '23:30');
+  });
+
+  it('una hora con TZID conserva el reloj del evento y una UTC se pasa a hora local', () => {
+    process.env.TZ = 'America/Mexico_City';
+    const events = parseICalendar([
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:tz',
+      'DTSTART;TZID=Europe/Madrid:20300310T100000',
+      'DTEND;TZID=Europe/Madrid:20300310T110000',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:utc',
+      'DTSTART:20300310T160000Z',
+      'DTEND:20300310T170000Z',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n'));
+    assert.deepEqual(toSlots(events), [
+      { uid: 'tz', date: '2030-03-10', startTime: '10:00', endTime: '11:00', cancelled: false },
+      { uid: 'utc', date: '2030-03-10', startTime: '10:00', endTime: '11:00', cancelled: false }
+    ]);
+  });
+
+  it('escapa y pliega textos con caracteres especiales sin alterarlos', () => {
+    const notes = 'Alergia: látex; usar guantes, no aceite\\aroma.\nSegunda línea con acentos: ñandú, pingüino, café ☕ '.repeat(3).trim();
+    const specialClient: Client = { ...clients[0], name: 'Pérez, Ana; "VIP"' };
+    const content = generateICalendar({
+      calendarName: 'Agenda, sucursal; centro',
+      appointments: [appointment({ notes })],
+      clients: [specialClient],
+      services
+    });
+
+    // Ninguna línea excede 75 octetos
+    content.split('\r\n').forEach(line => assert.ok(new TextEncoder().encode(line).length <= 75, line));
+
+    const [event] = parseICalendar(content);
+    assert.equal(event.summary, 'Masaje - Pérez, Ana; "VIP"');
+    assert.ok(event.description.includes(`Notas: ${notes}`));
+    assert.ok(event.description.startsWith('Cliente: Pérez, Ana; "VIP"\nTeléfono: 5512345678\n'));
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Pruebas del almacenamiento en memoria: debe comportarse como Realtime Database
+ * (escrituras, actualizaciones multi-ruta, consultas y suscripciones) para que las
+ * pruebas y el modo sin Firebase reflejen lo que pasa en producción.
+ *
+ * Uso:
+ *   npm test
+ */
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { MemoryDataStore } from '../src/storage/memoryDataStore';
+import { BusinessCollectionRepository } from '../src/storage/repositories';
+
+const seed = () => ({
+  businesses: {
+    bizA: {
+      name: 'Spa A',
+      clients: {
+        c1: { name: 'Ana', phone: '5512345678' },
+        c2: { name: 'Beto', phone: '5587654321' }
+      },
+      appointments: {
+        a1: { clientId: 'c1', date: '2030-03-10', startTime: '10:00' },
+        a2: { clientId: 'c2', date: '2030-03-11', startTime: '11:00' },
+        a3: { clientId: 'c1', date: '2030-03-12', startTime: '12:00' }
+      }
+    }
+  }
+});
+
+// Registra cada valor que recibe una suscripción
+const recorder = <T>() => {
+  const calls: (T | null)[] = [];
+  return { calls, callback: (value: T | null) => calls.push(value) };
+};
+
+describe('MemoryDataStore', () => {
+  it('lee, escribe y borra valores por ruta', async () => {
+    const store = new MemoryDataStore(seed());
+    assert.equal(await store.get('businesses/bizA/name'), 'Spa A');
+    assert.equal(await store.get('businesses/bizA/inexistente'), null);
+
+    await store.set('businesses/bizA/name', 'Spa B');
+    assert.equal(await store.get('/businesses/bizA/name/'), 'Spa B');
+
+    await store.remove('businesses/bizA/clients/c2');
+    assert.deepEqual(Object.keys(await store.get<object>('businesses/bizA/clients') || {}), ['c1']);
+  });
+
+  it('devuelve copias: modificar lo leído no altera el contenido', async () => {
+    const store = new MemoryDataStore(seed());
+    const client = await store.get<{ name: string }>('businesses/bizA/clients/c1');
+    client!.name = 'Otra';
+    assert.equal(await store.get('businesses/bizA/clients/c1/name'), 'Ana');
+  });
+
+  it('quita los hijos null y los nodos que quedan vacíos', async () => {
+    const store = new MemoryDataStore(seed());
+    await store.set('businesses/bizA/clients/c1', { name: 'Ana', phone: null });
+    assert.deepEqual(await store.get('businesses/bizA/clients/c1'), { name: 'Ana' });
+
+    await store.remove('businesses/bizA/clients/c1');
+    await store.remove('businesses/bizA/clients/c2');
+    assert.equal(await store.get('businesses/bizA/clients'), null);
+    assert.ok(!('clients' in (store.dump().businesses as Record<string, Record<string, unknown>>).bizA));
+  });
+
+  it('rechaza valores undefined como Firebase', async () => {
+    const store = new MemoryDataStore(seed());
+    await assert.rejects(
+      store.set('businesses/bizA/clients/c1', { name: 'Ana', phone: undefined }),
+      /Valor undefined en la ruta "businesses\/bizA\/clients\/c1\/phone"/
+    );
+    assert.equal(await store.get('businesses/bizA/clients/c1/phone'), '5512345678');
+  });
+
+  describe('update', () => {
+    it('actualiza solo los hijos indicados', async () => {
+      const store = new MemoryDataStore(seed());
+      await store.update('businesses/bizA/clients/c1', { name: 'Ana María' });
+      assert.deepEqual(await store.get('businesses/bizA/clients/c1'), { name: 'Ana María', phone: '5512345678' });
+    });
+
+    it('escribe varias rutas en una sola operación, incluidos borrados', async () => {
+      const store = new MemoryDataStore(seed());
+      await store.update('', {
+        'businesses/bizA/appointments/a2/clientId': 'c1',
+        'businesses/bizA/clients/c2': null,
+        'businesses/bizB/name': 'Spa B'
+      });
+      assert.equal(await store.get('businesses/bizA/appointments/a2/clientId'), 'c1');
+      assert.equal(await store.get('businesses/bizA/clients/c2'), null);
+      assert.equal(await store.get('businesses/bizB/name'), 'Spa B');
+    });
+
+    it('rechaza undefined sin escribir ninguna ruta', async () => {
+      const store = new MemoryDataStore(seed());
+      await assert.rejects(
+        store.update('businesses/bizA', { name: 'Otro', 'clients/c1/phone': undefined }),
+        /Valor undefined/
+      );
+      assert.equal(await store.get('businesses/bizA/name'), 'Spa A');
+    });
+
+    it('rechaza una ruta vacía', async () => {
+      const store = new MemoryDataStore(seed());
+      await assert.rejects(store.update('businesses/bizA', { '': { name: 'Otro' } }), /Ruta inválida en update/);
+    });
+  });
+
+  describe('consultas', () => {
+    it('filtra los hijos por el valor de un campo', async () => {
+      const store = new MemoryDataStore(seed());
+      const result = await store.queryByChild('businesses/bizA/appointments', 'clientId', 'c1');
+      assert.deepEqual(Object.keys(result), ['a1', 'a3']);
+      assert.deepEqual(await store.queryByChild('businesses/bizZ/appointments', 'clientId', 'c1'), {});
+    });
+
+    it('filtra por rango inclusive y solo entre valores del mismo tipo', async () => {
+      const store = new MemoryDataStore(seed());
+      await store.set('businesses/bizA/appointments/a4', { clientId: 'c1', date: 20300311, startTime: '09:00' });
+      const result = await store.queryByRange('businesses/bizA/appointments', 'date', '2030-03-10', '2030-03-11');
+      assert.deepEqual(Object.keys(result), ['a1', 'a2']);
+    });
+  });
+
+  describe('suscripciones', () => {
+    it('avisa al suscribirse y después solo cuando cambia el valor', async () => {
+      const store = new MemoryDataStore(seed());
+      const { calls, callback } = recorder<{ name: string }>();
+      store.subscribe('businesses/bizA/clients/c1', callback);
+
+      await store.set('businesses/bizA/clients/c1/name', 'Ana María');
+      await store.set('businesses/bizA/clients/c1/name', 'Ana María');
+      await store.set('businesses/bizA/clients/c2/name', 'Roberto');
+      await store.update('businesses/bizA', { name: 'Spa B' });
+
+      assert.deepEqual(calls, [
+        { name: 'Ana', phone: '5512345678' },
+        { name: 'Ana María', phone: '5512345678' }
+      ]);
+    });
+
+    it('avisa a las rutas padre e hija de lo que cambia', async () => {
+      const store = new MemoryDataStore(seed());
+      const parent = recorder<Record<string, unknown>>();
+      const child = recorder<string>();
+      store.subscribe('businesses/bizA/clients', parent.callback);
+      store.subscribe('businesses/bizA/clients/c1/name', child.callback);
+
+      await store.set('businesses/bizA/clients/c1', { name: 'Ana María' });
+      await store.remove('businesses/bizA');
+
+      assert.equal(parent.calls.length, 3);
+      assert.equal(parent.calls[2], null);
+      assert.deepEqual(child.calls, ['Ana', 'Ana María', null]);
+    });
+
+    it('una actualización multi-ruta avisa una sola vez a cada suscripción', async () => {
+      const store = new MemoryDataStore(seed());
+      const { calls, callback } = recorder<Record<string, unknown>>();
+      store.subscribe('businesses/bizA', callback);
+
+      await store.update('', {
+        'businesses/bizA/appointments/a2/clientId': 'c1',
+        'businesses/bizA/clients/c2': null
+      });
+
+      assert.equal(calls.length, 2);
+    });
+
+    it('las suscripciones filtradas avisan solo cuando cambia el resultado', async () => {
+      const store = new MemoryDataStore(seed());
+      const byClient = recorder<Record<string, unknown>>();
+      const byRange = recorder<Record<string, unknown>>();
+      store.subscribeByChild('businesses/bizA/appointments', 'clientId', 'c2', byClient.callback);
+      store.subscribeByRange('businesses/bizA/appointments', 'date', '2030-03-11', '2030-03-12', byRange.callback);
+
+      // Fuera de ambos filtros: nadie recibe aviso
+      await store.set('businesses/bizA/appointments/a5', { clientId: 'c1', date: '2030-04-01', startTime: '10:00' });
+      await store.set('businesses/bizA/appointments/a2/clientId', 'c1');
+
+      assert.deepEqual(byClient.calls.map(items => Object.keys(items || {})), [['a2'], []]);
+      assert.deepEqual(byRange.calls.map(items => Object.keys(items || {})), [['a2', 'a3'], ['a2', 'a3']]);
+    });
+
+    it('no avisa después de cancelar la suscripción', async () => {
+      const store = new MemoryDataStore(seed());
+      const { calls, callback } = recorder<string>();
+      const unsubscribe = store.subscribe('businesses/bizA/name', callback);
+
+      unsubscribe();
+      await store.set('businesses/bizA/name', 'Spa B');
+
+      assert.deepEqual(calls, ['Spa A']);
+    });
+  });
+
+  it('genera llaves únicas en orden cronológico', () => {
+    const store = new MemoryDataStore();
+    const keys = Array.from({ length: 50 }, () => store.newKey());
+    assert.equal(new Set(keys).size, keys.length);
+    assert.deepEqual([...keys].sort(), keys);
+  });
+});
+
+describe('repositorios sobre MemoryDataStore', () => {
+  interface TestClient {
+    name: string;
+    phone: string;
+  }
+
+  it('crea, lista, filtra y borra elementos de una colección del negocio', async () => {
+    const store = new MemoryDataStore(seed());
+    const clients = new BusinessCollectionRepository<TestClient>(() => store, 'clients');
+
+    const id = await clients.create('bizA', { name: 'Carla', phone: '5511112222' });
+    assert.deepEqual(await clients.get('bizA', id), { name: 'Carla', phone: '5511112222' });
+    assert.deepEqual((await clients.list('bizA')).map(client => client.id), ['c1', 'c2', id]);
+    assert.deepEqual(await clients.findBy('bizA', 'name', 'Beto'), [{ id: 'c2', name: 'Beto', phone: '5587654321' }]);
+
+    await clients.update('bizA', id, { phone: '5533334444' });
+    assert.equal((await clients.get('bizA', id))?.phone, '5533334444');
+
+    await clients.remove('bizA', id);
+    assert.equal(await clients.get('bizA', id), null);
+  });
+
+  it('la suscripción entrega la lista con ids', async () => {
+    const store = new MemoryDataStore(seed());
+    const clients = new BusinessCollectionRepository<TestClient>(() => store, 'clients');
+    const lists: string[][] = [];
+    const unsubscribe = clients.subscribe('bizA', items => lists.push(items.map(item => item.id)));
+
+    await store.remove('businesses/bizA/clients/c1');
+    unsubscribe();
+
+    assert.deepEqual(lists, [['c1', 'c2'], ['c2']]);
+  });
+});